@@ -1,20 +1,47 @@
-import { WebSocket, type RawData } from 'ws';
-import { PolicyEngine, type AgentPlayerState, type Personality } from './PolicyEngine.js';
-import { signWsAuthToken } from '@arena/shared';
+import { PolicyEngine, type AgentPlayerState, type Personality, type PolicyMemory } from './PolicyEngine.js';
+import {
+  OpponentMoveHistory,
+  createMoveStrategy,
+  defaultMoveStrategyFor,
+  type MoveStrategyName
+} from './MoveStrategy.js';
+import { BankrollStaker, type BotBankroll, type StakingConfig } from './StakingModel.js';
+import { connectWebSocket, systemClock, type BotClock, type BotConnector, type BotSocket, type BotTimer } from './botTransport.js';
+import type { CoinflipMove, GameMove, GameType } from '@arena/shared';
+import {
+  BinarySnapshotDecoder,
+  SnapshotDeltaReceiver,
+  SpatialHash,
+  encodeWireClientMessage,
+  getGameDefinition,
+  getWorldManifest,
+  navGridForWorld,
+  parseWireCodec,
+  signWsAuthToken,
+  type NavGrid,
+  type SnapshotDelta,
+  type WireClientMessage
+} from '@arena/shared';
 
 type SnapshotPlayer = AgentPlayerState & { role?: 'human' | 'agent' };
 
+// Other players farther than this are ignored when picking targets, unless
+// nobody at all is in range.
+const TARGET_SCOPE_RADIUS = 90;
+const TARGET_GRID_CELL = 30;
+
 type ChallengePayload = {
   id: string;
   challengerId: string;
   opponentId: string;
-  gameType: 'coinflip' | 'rps';
+  gameType: GameType;
   wager: number;
   status: 'pending' | 'active' | 'resolved' | 'declined' | 'expired';
   winnerId?: string;
-  challengerMove?: 'rock' | 'paper' | 'scissors' | 'heads' | 'tails' | null;
-  opponentMove?: 'rock' | 'paper' | 'scissors' | 'heads' | 'tails' | null;
-  coinflipResult?: 'heads' | 'tails' | null;
+  challengerMove?: GameMove | null;
+  opponentMove?: GameMove | null;
+  coinflipResult?: CoinflipMove | null;
+  rounds?: Array<{ challengerMove: GameMove | null; opponentMove: GameMove | null }>;
 };
 
 export type AgentBehaviorConfig = {
@@ -27,6 +54,10 @@ export type AgentBehaviorConfig = {
   patrolRadius?: number;
   baseWager: number;
   maxWager: number;
+  /** How game moves are picked; defaults by personality (see `defaultMoveStrategyFor`). */
+  moveStrategy?: MoveStrategyName;
+  /** How challenge stakes are sized; flat `baseWager` when unset. */
+  staking?: StakingConfig;
 };
 
 type AgentBotConfig = {
@@ -35,6 +66,14 @@ type AgentBotConfig = {
   displayName: string;
   walletId?: string | null;
   behavior: AgentBehaviorConfig;
+  /** Opponent move history shared across the runtime's bots; a private one when omitted. */
+  moveHistory?: OpponentMoveHistory;
+  /** Current wallet balance and policy cap from the runtime; stakes ignore bankroll without it. */
+  bankroll?: () => BotBankroll | null;
+  /** Defaults to wall-clock time and real timers. */
+  clock?: BotClock;
+  /** Defaults to a `ws` WebSocket. */
+  connect?: BotConnector;
 };
 
 export type AgentBotStatus = {
@@ -42,6 +81,10 @@ export type AgentBotStatus = {
   connected: boolean;
   playerId: string | null;
   behavior: AgentBehaviorConfig;
+  /** Strategy in effect, including the personality default. */
+  moveStrategy: MoveStrategyName;
+  /** Opening balance for today's stop-loss / take-profit, once the bot has staked from a wallet. */
+  stakingDay: { dayStamp: string; openingBalance: number } | null;
   nearbyCount: number;
   lastWsErrorAt: number | null;
   lastWsClose: { code?: number; reason?: string; at: number } | null;
@@ -52,6 +95,10 @@ export type AgentBotStatus = {
     challengesDeclined: number;
     challengesWon: number;
     challengesLost: number;
+    /** Challenges created with a human on the other side, sent or received. */
+    humanChallenges: number;
+    /** Stakes won minus stakes lost over resolved challenges. */
+    netWinnings: number;
     lastChallengeAt: number | null;
   };
 };
@@ -59,17 +106,26 @@ export type AgentBotStatus = {
 export class AgentBot {
   private readonly config: AgentBotConfig;
   private readonly policyEngine = new PolicyEngine();
-  private readonly memory: { seed: number };
+  private readonly memory: PolicyMemory;
+  private readonly moveHistory: OpponentMoveHistory;
+  private readonly staker = new BankrollStaker();
+  private readonly clock: BotClock;
 
-  private ws: WebSocket | null = null;
+  private ws: BotSocket | null = null;
   private connected = false;
   private running = false;
   private playerId: string | null = null;
   private playersById = new Map<string, SnapshotPlayer>();
+  private readonly playersGrid = new SpatialHash<SnapshotPlayer>(TARGET_GRID_CELL);
+  private readonly snapshotReceiver = new SnapshotDeltaReceiver();
+  /** Set while connected with `AGENT_WS_CODEC=binary`. */
+  private snapshotDecoder: BinarySnapshotDecoder | null = null;
   private nearbyIds = new Set<string>();
+  /** Walkability grid of the world named in the last welcome, if it is a known manifest. */
+  private navGrid: NavGrid | null = null;
 
-  private decisionTimer: NodeJS.Timeout | null = null;
-  private reconnectTimer: NodeJS.Timeout | null = null;
+  private decisionTimer: BotTimer | null = null;
+  private reconnectTimer: BotTimer | null = null;
 
   private lastChallengeSentAt = 0;
   private challengeSuppressedUntil = 0;
@@ -87,12 +143,16 @@ export class AgentBot {
     challengesDeclined: 0,
     challengesWon: 0,
     challengesLost: 0,
+    humanChallenges: 0,
+    netWinnings: 0,
     lastChallengeAt: null as number | null
   };
 
   constructor(config: AgentBotConfig) {
     this.config = config;
     this.memory = { seed: [...config.id].reduce((sum, char) => sum + char.charCodeAt(0), 0) };
+    this.moveHistory = config.moveHistory ?? new OpponentMoveHistory();
+    this.clock = config.clock ?? systemClock;
   }
 
   start(): void {
@@ -107,11 +167,11 @@ export class AgentBot {
     this.running = false;
     this.connected = false;
     if (this.decisionTimer) {
-      clearInterval(this.decisionTimer);
+      this.decisionTimer.cancel();
       this.decisionTimer = null;
     }
     if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer.cancel();
       this.reconnectTimer = null;
     }
     this.ws?.close();
@@ -151,6 +211,8 @@ export class AgentBot {
       connected: this.connected,
       playerId: this.playerId,
       behavior: { ...this.config.behavior },
+      moveStrategy: this.moveStrategyName(),
+      stakingDay: this.staker.today(),
       nearbyCount: this.nearbyIds.size,
       lastWsErrorAt: this.lastWsErrorAt,
       lastWsClose: this.lastWsClose ? { ...this.lastWsClose } : null,
@@ -190,64 +252,91 @@ export class AgentBot {
     if (this.config.walletId) {
       wsUrl.searchParams.set('walletId', this.config.walletId);
     }
+    const codec = parseWireCodec(process.env.AGENT_WS_CODEC);
+    if (codec === 'binary') {
+      wsUrl.searchParams.set('codec', codec);
+    }
     const wsAuthSecret = process.env.GAME_WS_AUTH_SECRET?.trim() || '';
     if (wsAuthSecret) {
       wsUrl.searchParams.set('wsAuth', signWsAuthToken(wsAuthSecret, {
         role: 'agent',
         agentId: this.config.id,
         walletId: this.config.walletId ?? null,
-        exp: Date.now() + 1000 * 60 * 5
+        exp: this.clock.now() + 1000 * 60 * 5
       }));
     }
 
-    const ws = new WebSocket(wsUrl.toString());
-    this.ws = ws;
-
-    ws.on('open', () => {
-      this.connected = true;
-      this.ws = ws;
-      this.startDecisionLoop();
-    });
-
-    ws.on('message', (raw: RawData) => {
-      this.onMessage(raw.toString());
-    });
-
-    ws.on('close', (code, reasonBuffer) => {
-      this.connected = false;
-      if (this.ws === ws) {
-        this.ws = null;
-      }
-      const reason = String(reasonBuffer ?? '').trim();
-      this.lastWsClose = {
-        code: Number.isFinite(Number(code)) ? Number(code) : undefined,
-        reason: reason || undefined,
-        at: Date.now()
-      };
-      this.playerId = null;
-      this.playersById.clear();
-      this.nearbyIds.clear();
-      this.submittedMoveByChallenge.clear();
-      this.stallFrames = 0;
-      this.lastSample = null;
-
-      if (this.decisionTimer) {
-        clearInterval(this.decisionTimer);
-        this.decisionTimer = null;
-      }
+    this.snapshotReceiver.reset();
+    this.snapshotDecoder = codec === 'binary' ? new BinarySnapshotDecoder() : null;
+    const connect = this.config.connect ?? connectWebSocket;
+    const ws: BotSocket = connect(wsUrl.toString(), {
+      open: () => {
+        this.connected = true;
+        this.ws = ws;
+        this.startDecisionLoop();
+      },
+      message: (data, isBinary) => {
+        if (isBinary) {
+          this.onBinaryMessage(data);
+          return;
+        }
+        this.onMessage(String(data));
+      },
+      close: (code, reason) => {
+        this.connected = false;
+        if (this.ws === ws) {
+          this.ws = null;
+        }
+        this.lastWsClose = {
+          code,
+          reason: reason || undefined,
+          at: this.clock.now()
+        };
+        this.playerId = null;
+        this.playersById.clear();
+        this.playersGrid.clear();
+        this.nearbyIds.clear();
+        this.submittedMoveByChallenge.clear();
+        this.stallFrames = 0;
+        this.lastSample = null;
+
+        if (this.decisionTimer) {
+          this.decisionTimer.cancel();
+          this.decisionTimer = null;
+        }
 
-      if (!this.running) {
-        return;
+        if (!this.running) {
+          return;
+        }
+        this.reconnectTimer = this.clock.after(1000, () => {
+          this.reconnectTimer = null;
+          this.connect();
+        });
+      },
+      error: () => {
+        this.lastWsErrorAt = this.clock.now();
       }
-      this.reconnectTimer = setTimeout(() => {
-        this.reconnectTimer = null;
-        this.connect();
-      }, 1000);
     });
+    this.ws = ws;
+  }
 
-    ws.on('error', () => {
-      this.lastWsErrorAt = Date.now();
-    });
+  private onBinaryMessage(data: string | Uint8Array): void {
+    if (!this.snapshotDecoder || typeof data === 'string') {
+      return;
+    }
+    try {
+      this.handleSnapshot(this.snapshotDecoder.decode(data));
+    } catch {
+      // ignore malformed frames
+    }
+  }
+
+  /** Inputs and acks use the binary codec when negotiated, JSON otherwise. */
+  private sendWire(message: WireClientMessage): void {
+    if (!this.ws || !this.ws.isOpen()) {
+      return;
+    }
+    this.ws.send(this.snapshotDecoder ? encodeWireClientMessage(message) : JSON.stringify(message));
   }
 
   private onMessage(raw: string): void {
@@ -266,29 +355,14 @@ export class AgentBot {
 
     if (record.type === 'welcome' && typeof record.playerId === 'string') {
       this.playerId = record.playerId;
+      const world = typeof record.world === 'string' ? getWorldManifest(record.world) : null;
+      this.navGrid = world ? navGridForWorld(world) : null;
+      this.memory.path = undefined;
       return;
     }
 
     if (record.type === 'snapshot' && Array.isArray(record.players)) {
-      this.playersById.clear();
-      for (const entry of record.players) {
-        if (!entry || typeof entry !== 'object') {
-          continue;
-        }
-        const item = entry as Record<string, unknown>;
-        if (
-          typeof item.id === 'string' &&
-          typeof item.x === 'number' &&
-          typeof item.z === 'number'
-        ) {
-          this.playersById.set(item.id, {
-            id: item.id,
-            x: item.x,
-            z: item.z,
-            role: item.role === 'agent' ? 'agent' : 'human'
-          });
-        }
-      }
+      this.handleSnapshot(record as unknown as SnapshotDelta);
       return;
     }
 
@@ -308,35 +382,49 @@ export class AgentBot {
     }
   }
 
+  private handleSnapshot(delta: SnapshotDelta): void {
+    const rebuilt = this.snapshotReceiver.receive(delta);
+    if (!rebuilt) {
+      return;
+    }
+    this.sendWire(rebuilt.ack);
+    this.playersById.clear();
+    this.playersGrid.clear();
+    for (const entry of rebuilt.players) {
+      if (!entry || typeof entry !== 'object') {
+        continue;
+      }
+      const item = entry as Record<string, unknown>;
+      if (
+        typeof item.id === 'string' &&
+        typeof item.x === 'number' &&
+        typeof item.z === 'number'
+      ) {
+        const player: SnapshotPlayer = {
+          id: item.id,
+          x: item.x,
+          z: item.z,
+          role: item.role === 'agent' ? 'agent' : 'human'
+        };
+        this.playersById.set(item.id, player);
+        this.playersGrid.upsert(player);
+      }
+    }
+  }
+
   private startDecisionLoop(): void {
     if (this.decisionTimer) {
-      clearInterval(this.decisionTimer);
+      this.decisionTimer.cancel();
     }
 
-    this.decisionTimer = setInterval(() => {
+    this.decisionTimer = this.clock.every(120, () => {
       this.decideAndSendInput();
       this.maybeSendChallenge();
-    }, 120);
-  }
-
-  private sectionFor(x: number, z: number): number {
-    const col = Math.max(0, Math.min(3, Math.floor((x + 120) / 60)));
-    const row = z < 0 ? 0 : 1;
-    return row * 4 + col;
-  }
-
-  private isInSameOrAdjacentSection(a: SnapshotPlayer, b: SnapshotPlayer): boolean {
-    const sa = this.sectionFor(a.x, a.z);
-    const sb = this.sectionFor(b.x, b.z);
-    const ca = sa % 4;
-    const ra = Math.floor(sa / 4);
-    const cb = sb % 4;
-    const rb = Math.floor(sb / 4);
-    return Math.abs(ca - cb) <= 1 && Math.abs(ra - rb) <= 1;
+    });
   }
 
   private decideAndSendInput(): void {
-    if (!this.playerId || !this.ws || this.ws.readyState !== this.ws.OPEN) {
+    if (!this.playerId || !this.ws || !this.ws.isOpen()) {
       return;
     }
 
@@ -347,22 +435,22 @@ export class AgentBot {
 
     if (this.config.behavior.mode === 'passive') {
       // Passive means "parked": stop locomotion and do not make decisions.
-      this.ws.send(JSON.stringify({ type: 'input', moveX: 0, moveZ: 0 }));
+      this.sendWire({ type: 'input', moveX: 0, moveZ: 0 });
       return;
     }
 
-    const allOthers = [...this.playersById.values()].filter((entry) => entry.id !== this.playerId);
-    const scopedOthers = allOthers.filter((entry) => this.isInSameOrAdjacentSection(self, entry));
-    const worldOthers = scopedOthers.length > 0 ? scopedOthers : allOthers;
+    const scopedOthers = this.playersGrid.queryRadius(self.x, self.z, TARGET_SCOPE_RADIUS, self.id);
+    const worldOthers = scopedOthers.length > 0
+      ? scopedOthers
+      : [...this.playersById.values()].filter((entry) => entry.id !== this.playerId);
     const agentOthers = worldOthers.filter((entry) => entry.role === 'agent');
-    const humanOthers = worldOthers.filter((entry) => entry.role !== 'agent');
 
     // Movement should not hard-swarm humans from far away. Humans only become
     // "interesting" for locomotion when already close enough to plausibly interact.
     const HUMAN_INTEREST_RADIUS = 9.5;
-    const movementHumans = humanOthers.filter(
-      (entry) => Math.hypot(entry.x - self.x, entry.z - self.z) <= HUMAN_INTEREST_RADIUS
-    );
+    const movementHumans = this.playersGrid
+      .queryRadius(self.x, self.z, HUMAN_INTEREST_RADIUS, self.id)
+      .filter((entry) => entry.role !== 'agent');
     const movementOthers = agentOthers.concat(movementHumans);
 
     let decision = this.policyEngine.decide(
@@ -371,9 +459,10 @@ export class AgentBot {
         self,
         others: movementOthers,
         nearbyIds: [...this.nearbyIds],
-        nowMs: Date.now(),
+        nowMs: this.clock.now(),
         patrolSection: this.config.behavior.patrolSection,
-        patrolRadius: this.config.behavior.patrolRadius
+        patrolRadius: this.config.behavior.patrolRadius,
+        nav: this.navGrid
       },
       this.memory
     );
@@ -390,7 +479,7 @@ export class AgentBot {
 
     // Escape local deadlocks: if stalled for ~3s, inject a deterministic burst.
     if (this.stallFrames > 24) {
-      const bucket = Math.floor(Date.now() / 900);
+      const bucket = Math.floor(this.clock.now() / 900);
       const angle = ((this.memory.seed * 31 + bucket * 17) % 360) * (Math.PI / 180);
       decision = {
         moveX: Math.cos(angle),
@@ -398,15 +487,15 @@ export class AgentBot {
         focusId: null
       };
       this.stallFrames = 8;
+      // Replan from wherever the burst leaves us.
+      this.memory.path = undefined;
     }
 
-    this.ws.send(
-      JSON.stringify({
-        type: 'input',
-        moveX: decision.moveX,
-        moveZ: decision.moveZ
-      })
-    );
+    this.sendWire({
+      type: 'input',
+      moveX: decision.moveX,
+      moveZ: decision.moveZ
+    });
   }
 
   private maybeSendChallenge(): void {
@@ -416,11 +505,11 @@ export class AgentBot {
     if (!this.config.behavior.challengeEnabled) {
       return;
     }
-    if (!this.ws || this.ws.readyState !== this.ws.OPEN || !this.playerId) {
+    if (!this.ws || !this.ws.isOpen() || !this.playerId) {
       return;
     }
 
-    const now = Date.now();
+    const now = this.clock.now();
     if (now < this.challengeSuppressedUntil) {
       return;
     }
@@ -442,19 +531,30 @@ export class AgentBot {
       return;
     }
 
+    const personalityWager = this.config.behavior.personality === 'aggressive' ? 3 : 1;
+    const base = Math.max(1, Number(this.config.behavior.baseWager || personalityWager));
+    const stake = this.staker.size(this.config.behavior.staking, {
+      baseWager: base,
+      maxWager: Math.max(base, Number(this.config.behavior.maxWager || base)),
+      bankroll: this.config.bankroll?.() ?? null,
+      record: { won: this.stats.challengesWon, lost: this.stats.challengesLost }
+    }, now);
+    if (!stake.ok) {
+      // Out of budget (or done for the day); check again later rather than every tick.
+      this.challengeSuppressedUntil = now + 30_000;
+      return;
+    }
+
     this.lastChallengeSentAt = now;
     this.stats.challengesSent += 1;
     this.stats.lastChallengeAt = now;
     const gameType = this.config.behavior.personality === 'conservative' ? 'coinflip' : 'rps';
-    const personalityWager = this.config.behavior.personality === 'aggressive' ? 3 : 1;
-    const base = Math.max(1, Number(this.config.behavior.baseWager || personalityWager));
-    const max = Math.max(base, Number(this.config.behavior.maxWager || base));
-    const wager = Math.max(1, Math.min(max, base));
+    const wager = stake.wager;
     this.ws.send(JSON.stringify({ type: 'challenge_send', targetId, gameType, wager }));
   }
 
   private pickChallengeTarget(): string | null {
-    const now = Date.now();
+    const now = this.clock.now();
     const candidates = [...this.nearbyIds].filter((id) => id !== this.playerId);
     if (candidates.length === 0) {
       return null;
@@ -490,7 +590,7 @@ export class AgentBot {
   }
 
   private handleChallengeEvent(record: Record<string, unknown>): void {
-    if (!this.ws || this.ws.readyState !== this.ws.OPEN || !this.playerId) {
+    if (!this.ws || !this.ws.isOpen() || !this.playerId) {
       return;
     }
 
@@ -498,11 +598,11 @@ export class AgentBot {
     const reason = typeof record.reason === 'string' ? record.reason : '';
 
     if (record.event === 'invalid' || record.event === 'busy') {
-      this.challengeSuppressedUntil = Date.now() + 2200 + (this.memory.seed % 700);
+      this.challengeSuppressedUntil = this.clock.now() + 2200 + (this.memory.seed % 700);
       if (reason === 'target_not_nearby' || reason === 'player_busy') {
         const current = this.pickChallengeTarget();
         if (current) {
-          this.targetCooldownUntil.set(current, Date.now() + 9000);
+          this.targetCooldownUntil.set(current, this.clock.now() + 9000);
         }
       }
       return;
@@ -512,9 +612,12 @@ export class AgentBot {
       this.stats.challengesReceived += 1;
       // `challengeEnabled` gates participation. When disabled (e.g. owner is online),
       // decline incoming challenges so humans control their own sessions.
-      const accept = this.config.behavior.challengeEnabled ? this.shouldAcceptChallenge() : false;
-      setTimeout(() => {
-        if (!this.ws || this.ws.readyState !== this.ws.OPEN) {
+      const accept = this.config.behavior.challengeEnabled
+        ? this.shouldAcceptChallenge() && this.staker.accepts(this.config.behavior.staking, challenge.wager, this.config.bankroll?.() ?? null, this.clock.now())
+        : false;
+      const responseDelayMs = this.config.behavior.mode === 'passive' ? (150 + (this.memory.seed % 120)) : (400 + (this.memory.seed % 250));
+      this.clock.after(responseDelayMs, () => {
+        if (!this.ws || !this.ws.isOpen()) {
           return;
         }
         this.ws.send(
@@ -529,36 +632,57 @@ export class AgentBot {
         } else {
           this.stats.challengesDeclined += 1;
         }
-      }, this.config.behavior.mode === 'passive' ? (150 + (this.memory.seed % 120)) : (400 + (this.memory.seed % 250)));
+      });
+    }
+
+    if (record.event === 'created' && challenge) {
+      const otherId = challenge.challengerId === this.playerId ? challenge.opponentId : challenge.challengerId;
+      if (this.playersById.get(otherId)?.role === 'human') {
+        this.stats.humanChallenges += 1;
+      }
     }
 
     if (record.event === 'created' && challenge && challenge.challengerId === this.playerId) {
-      this.targetCooldownUntil.set(challenge.opponentId, Date.now() + 7000 + (this.memory.seed % 1500));
+      this.targetCooldownUntil.set(challenge.opponentId, this.clock.now() + 7000 + (this.memory.seed % 1500));
     }
 
     if ((record.event === 'accepted' || record.event === 'move_submitted') && challenge) {
       this.maybeSubmitGameMove(challenge);
     }
 
+    if ((record.event === 'round_resolved' || record.event === 'resolved') && challenge) {
+      this.recordOpponentMove(challenge);
+    }
+
+    if (record.event === 'round_resolved' && challenge) {
+      // Series continue on the same challenge id; each round needs a fresh move.
+      this.submittedMoveByChallenge.delete(challenge.id);
+      this.maybeSubmitGameMove(challenge);
+    }
+
     if (record.event === 'resolved' && challenge) {
       this.submittedMoveByChallenge.delete(challenge.id);
-      this.challengeSuppressedUntil = Date.now() + 1400;
+      this.challengeSuppressedUntil = this.clock.now() + 1400;
       if (challenge.winnerId === this.playerId) {
         this.stats.challengesWon += 1;
+        this.stats.netWinnings += challenge.wager;
       } else if (
         challenge.challengerId === this.playerId ||
         challenge.opponentId === this.playerId
       ) {
         this.stats.challengesLost += 1;
+        if (challenge.winnerId) {
+          this.stats.netWinnings -= challenge.wager;
+        }
       }
     }
 
     if ((record.event === 'declined' || record.event === 'expired') && challenge) {
       this.submittedMoveByChallenge.delete(challenge.id);
-      this.challengeSuppressedUntil = Date.now() + 1800;
+      this.challengeSuppressedUntil = this.clock.now() + 1800;
       const otherId = challenge.challengerId === this.playerId ? challenge.opponentId : challenge.challengerId;
       if (otherId && otherId !== this.playerId) {
-        this.targetCooldownUntil.set(otherId, Date.now() + 11000 + (this.memory.seed % 1800));
+        this.targetCooldownUntil.set(otherId, this.clock.now() + 11000 + (this.memory.seed % 1800));
       }
     }
   }
@@ -572,13 +696,13 @@ export class AgentBot {
       return true;
     }
     if (this.config.behavior.personality === 'social') {
-      return Date.now() % 5 !== 0;
+      return this.clock.now() % 5 !== 0;
     }
-    return Date.now() % 3 === 0;
+    return this.clock.now() % 3 === 0;
   }
 
   private maybeSubmitGameMove(challenge: ChallengePayload): void {
-    if (!this.playerId || !this.ws || this.ws.readyState !== this.ws.OPEN) {
+    if (!this.playerId || !this.ws || !this.ws.isOpen()) {
       return;
     }
 
@@ -597,17 +721,21 @@ export class AgentBot {
       return;
     }
 
-    const rpsMoves: Array<'rock' | 'paper' | 'scissors'> = ['rock', 'paper', 'scissors'];
-    const coinMoves: Array<'heads' | 'tails'> = ['heads', 'tails'];
-    const idx = (Date.now() + this.memory.seed) % 3;
-    const move =
-      challenge.gameType === 'coinflip'
-        ? (coinMoves[idx % coinMoves.length] ?? 'heads')
-        : (rpsMoves[idx % rpsMoves.length] ?? 'rock');
+    const game = getGameDefinition(challenge.gameType);
+    if (!game) {
+      return;
+    }
+    const opponentId = iAmChallenger ? challenge.opponentId : challenge.challengerId;
+    const strategy = createMoveStrategy(this.moveStrategyName());
+    const move = strategy.pick({
+      game,
+      opponentHistory: this.moveHistory.get(opponentId, challenge.gameType),
+      entropy: this.clock.now() + this.memory.seed
+    });
     this.submittedMoveByChallenge.add(challenge.id);
 
-    setTimeout(() => {
-      if (!this.ws || this.ws.readyState !== this.ws.OPEN) {
+    this.clock.after(300 + (this.memory.seed % 400), () => {
+      if (!this.ws || !this.ws.isOpen()) {
         return;
       }
       this.ws.send(
@@ -617,6 +745,26 @@ export class AgentBot {
           move
         })
       );
-    }, 300 + (this.memory.seed % 400));
+    });
+  }
+
+  private moveStrategyName(): MoveStrategyName {
+    return this.config.behavior.moveStrategy ?? defaultMoveStrategyFor(this.config.behavior.personality);
+  }
+
+  /** Remember what the other side played in the round that just finished. */
+  private recordOpponentMove(challenge: ChallengePayload): void {
+    const iAmChallenger = challenge.challengerId === this.playerId;
+    if (!iAmChallenger && challenge.opponentId !== this.playerId) {
+      return;
+    }
+    // Series clear the live moves between rounds; the finished round is the last entry.
+    const round = challenge.rounds?.[challenge.rounds.length - 1] ?? challenge;
+    const opponentId = iAmChallenger ? challenge.opponentId : challenge.challengerId;
+    const move = iAmChallenger ? round.opponentMove : round.challengerMove;
+    const game = getGameDefinition(challenge.gameType);
+    if (game && game.isMove(move)) {
+      this.moveHistory.record(opponentId, challenge.gameType, move);
+    }
   }
 }
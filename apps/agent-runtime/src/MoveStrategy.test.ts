@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { coinflipGame, rpsGame, type GameMove } from '@arena/shared';
+import { OpponentMoveHistory, createMoveStrategy, isMoveStrategyName } from './MoveStrategy.js';
+
+// Above the exploration rate, so learners always exploit.
+const noExplore = () => 0.99;
+
+describe('MoveStrategy', () => {
+  it('frequency counters the opponent favourite move', () => {
+    const strategy = createMoveStrategy('frequency', noExplore);
+    const history: GameMove[] = ['rock', 'rock', 'paper', 'rock'];
+    expect(strategy.pick({ game: rpsGame, opponentHistory: history, entropy: 0 })).toBe('paper');
+  });
+
+  it('markov counters the move that usually follows the latest one', () => {
+    const strategy = createMoveStrategy('markov', noExplore);
+    // After rock this opponent always plays scissors.
+    const history: GameMove[] = ['rock', 'scissors', 'paper', 'rock', 'scissors', 'paper', 'rock'];
+    expect(strategy.pick({ game: rpsGame, opponentHistory: history, entropy: 0 })).toBe('rock');
+  });
+
+  it('falls back to the uniform mix with thin history or uncounterable games', () => {
+    const strategy = createMoveStrategy('markov', () => 0.5);
+    expect(strategy.pick({ game: rpsGame, opponentHistory: ['rock'], entropy: 0 })).toBe('paper');
+    const heads: GameMove[] = ['heads', 'heads', 'heads', 'heads'];
+    expect(coinflipGame.moves).toContain(strategy.pick({ game: coinflipGame, opponentHistory: heads, entropy: 0 }));
+  });
+
+  it('keeps the legacy entropy pick for random', () => {
+    const strategy = createMoveStrategy('random');
+    expect(strategy.pick({ game: rpsGame, opponentHistory: [], entropy: 7 })).toBe(rpsGame.pickBotMove(7));
+    expect(isMoveStrategyName('nash')).toBe(true);
+    expect(isMoveStrategyName('minimax')).toBe(false);
+  });
+});
+
+describe('OpponentMoveHistory', () => {
+  it('caps moves and opponents and round-trips through JSON', () => {
+    const history = new OpponentMoveHistory(3, 2);
+    for (const move of ['rock', 'paper', 'scissors', 'rock'] as const) {
+      history.record('p1', 'rps', move);
+    }
+    history.record('p2', 'coinflip', 'heads');
+    history.record('p3', 'rps', 'paper');
+    expect(history.get('p1', 'rps')).toEqual([]);
+    expect(history.get('p2', 'coinflip')).toEqual(['heads']);
+
+    const restored = new OpponentMoveHistory();
+    restored.load(JSON.parse(JSON.stringify({ ...history.toJSON(), 'p4|rps': ['rock', 'lizard'], 'p5|chess': ['e4'] })));
+    expect(restored.get('p3', 'rps')).toEqual(['paper']);
+    expect(restored.get('p4', 'rps')).toEqual(['rock']);
+    expect(Object.keys(restored.toJSON())).toHaveLength(3);
+  });
+});
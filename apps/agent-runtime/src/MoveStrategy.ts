@@ -0,0 +1,184 @@
+import { getGameDefinition, type GameDefinition, type GameMove, type GameType, type RpsMove } from '@arena/shared';
+import type { Personality } from './PolicyEngine.js';
+
+export const MOVE_STRATEGY_NAMES = ['random', 'frequency', 'markov', 'nash'] as const;
+
+export type MoveStrategyName = (typeof MOVE_STRATEGY_NAMES)[number];
+
+export function isMoveStrategyName(value: unknown): value is MoveStrategyName {
+  return typeof value === 'string' && (MOVE_STRATEGY_NAMES as readonly string[]).includes(value);
+}
+
+export type MovePickInput = {
+  game: GameDefinition;
+  /** The opponent's past moves in this game, oldest first. */
+  opponentHistory: readonly GameMove[];
+  /** Non-negative integer entropy for the legacy deterministic pick. */
+  entropy: number;
+};
+
+export interface MoveStrategy {
+  readonly name: MoveStrategyName;
+  pick(input: MovePickInput): GameMove;
+}
+
+// Learning needs a few rounds before a prediction beats the uniform mix.
+const MIN_HISTORY = 3;
+const FREQUENCY_WINDOW = 30;
+// Share of picks that stay uniform so a learner cannot itself be farmed.
+const EXPLORATION_RATE = 0.15;
+
+const RPS_COUNTER: Record<RpsMove, RpsMove> = {
+  rock: 'paper',
+  paper: 'scissors',
+  scissors: 'rock'
+};
+
+/**
+ * The move that beats `predicted`, or null when the game has no such move
+ * (coinflip and dice outcomes come from seeds, not from the pairing).
+ */
+function counterTo(game: GameDefinition, predicted: GameMove): GameMove | null {
+  if (game.type !== 'rps' || !game.isMove(predicted)) {
+    return null;
+  }
+  return RPS_COUNTER[predicted as RpsMove];
+}
+
+function mostCommon(moves: readonly GameMove[]): GameMove | null {
+  const counts = new Map<GameMove, number>();
+  let best: GameMove | null = null;
+  let bestCount = 0;
+  let tied = false;
+  for (const move of moves) {
+    const count = (counts.get(move) ?? 0) + 1;
+    counts.set(move, count);
+    if (count > bestCount) {
+      best = move;
+      bestCount = count;
+      tied = false;
+    } else if (count === bestCount && move !== best) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+}
+
+/** Most frequent move among those that followed the opponent's latest one. */
+function predictNextByTransition(history: readonly GameMove[]): GameMove | null {
+  const last = history[history.length - 1];
+  if (last === undefined) {
+    return null;
+  }
+  const followers: GameMove[] = [];
+  for (let index = 0; index < history.length - 1; index += 1) {
+    if (history[index] === last) {
+      followers.push(history[index + 1]!);
+    }
+  }
+  return mostCommon(followers);
+}
+
+/**
+ * Per-bot choice of game moves. `random` is the legacy entropy-derived pick,
+ * `nash` the uniform equilibrium mix, and `frequency` / `markov` counter the
+ * opponent's most common move or most likely next move in RPS, falling back
+ * to the Nash mix when history is thin or the game cannot be countered.
+ */
+export function createMoveStrategy(name: MoveStrategyName, random: () => number = Math.random): MoveStrategy {
+  const nash = (game: GameDefinition): GameMove =>
+    game.moves[Math.min(game.moves.length - 1, Math.floor(random() * game.moves.length))]!;
+
+  const learner = (predict: (history: readonly GameMove[]) => GameMove | null): MoveStrategy['pick'] =>
+    ({ game, opponentHistory }) => {
+      if (opponentHistory.length < MIN_HISTORY || random() < EXPLORATION_RATE) {
+        return nash(game);
+      }
+      const predicted = predict(opponentHistory);
+      return (predicted && counterTo(game, predicted)) ?? nash(game);
+    };
+
+  switch (name) {
+    case 'random':
+      return { name, pick: ({ game, entropy }) => game.pickBotMove(entropy) };
+    case 'nash':
+      return { name, pick: ({ game }) => nash(game) };
+    case 'frequency':
+      return { name, pick: learner((history) => mostCommon(history.slice(-FREQUENCY_WINDOW))) };
+    case 'markov':
+      return {
+        name,
+        pick: learner((history) => predictNextByTransition(history) ?? mostCommon(history.slice(-FREQUENCY_WINDOW)))
+      };
+  }
+}
+
+export function defaultMoveStrategyFor(personality: Personality): MoveStrategyName {
+  if (personality === 'aggressive') {
+    return 'markov';
+  }
+  if (personality === 'social') {
+    return 'frequency';
+  }
+  return 'nash';
+}
+
+export type OpponentMoveHistorySnapshot = Record<string, GameMove[]>;
+
+/**
+ * Recent moves per opponent and game, shared by every bot in the runtime and
+ * saved with the runtime state. Oldest opponents are evicted past the cap.
+ */
+export class OpponentMoveHistory {
+  private readonly entries = new Map<string, GameMove[]>();
+
+  constructor(
+    private readonly maxMovesPerOpponent = 60,
+    private readonly maxOpponents = 500
+  ) {}
+
+  record(opponentId: string, gameType: GameType, move: GameMove): void {
+    const key = `${opponentId}|${gameType}`;
+    const moves = this.entries.get(key) ?? [];
+    // Re-insert so the map stays ordered by last activity.
+    this.entries.delete(key);
+    moves.push(move);
+    if (moves.length > this.maxMovesPerOpponent) {
+      moves.splice(0, moves.length - this.maxMovesPerOpponent);
+    }
+    this.entries.set(key, moves);
+    while (this.entries.size > this.maxOpponents) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  get(opponentId: string, gameType: GameType): readonly GameMove[] {
+    return this.entries.get(`${opponentId}|${gameType}`) ?? [];
+  }
+
+  toJSON(): OpponentMoveHistorySnapshot {
+    return Object.fromEntries([...this.entries].map(([key, moves]) => [key, [...moves]]));
+  }
+
+  /** Replace the contents with a persisted snapshot, skipping malformed entries. */
+  load(snapshot: unknown): void {
+    this.entries.clear();
+    if (!snapshot || typeof snapshot !== 'object') {
+      return;
+    }
+    for (const [key, moves] of Object.entries(snapshot as Record<string, unknown>)) {
+      const game = getGameDefinition(key.slice(key.lastIndexOf('|') + 1));
+      if (!game || !Array.isArray(moves)) {
+        continue;
+      }
+      const valid = moves.filter((move): move is GameMove => game.isMove(move)).slice(-this.maxMovesPerOpponent);
+      if (valid.length > 0) {
+        this.entries.set(key, valid);
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { NavGrid } from '@arena/shared';
 import { PolicyEngine, type PolicyContext } from './PolicyEngine.js';
 
 const engine = new PolicyEngine();
@@ -35,4 +36,25 @@ describe('PolicyEngine', () => {
     );
     expect(decision.moveX).toBeLessThan(0);
   });
+
+  it('follows waypoints around obstacles when given a nav grid', () => {
+    // Wall between the bot and its target, open only to the north (+z).
+    const nav = new NavGrid({
+      bounds: { minX: -30, maxX: 30, minZ: -30, maxZ: 30 },
+      obstacles: [{ id: 'wall', type: 'aabb', minX: 4, maxX: 6, minZ: -30, maxZ: 8 }]
+    });
+    const direct = engine.decide('aggressive', context(), { seed: 1 });
+    expect(Math.abs(direct.moveZ)).toBeLessThan(0.01);
+
+    const memory = { seed: 1 };
+    const routed = engine.decide('aggressive', context({ nav }), memory);
+    expect(routed.focusId).toBe('p1');
+    expect(routed.moveZ).toBeGreaterThan(0.5);
+    expect(memory).toHaveProperty('path');
+  });
+
+  it('heads for an explicit destination instead of roaming', () => {
+    const decision = engine.decide('social', context({ others: [], destination: { x: 0, z: -20 } }), { seed: 3 });
+    expect(decision.moveZ).toBeLessThan(-0.9);
+  });
 });
@@ -1,3 +1,5 @@
+import type { NavGrid, WorldPoint } from '@arena/shared';
+
 export type Personality = 'aggressive' | 'conservative' | 'social';
 
 export type AgentPlayerState = {
@@ -13,6 +15,10 @@ export type PolicyContext = {
   nowMs: number;
   patrolSection?: number;
   patrolRadius?: number;
+  /** Walkability grid of the bot's world; when set, travel follows A* waypoints around obstacles. */
+  nav?: NavGrid | null;
+  /** Head for this point (e.g. a station) instead of roaming. */
+  destination?: WorldPoint | null;
 };
 
 export type PolicyMemory = {
@@ -21,6 +27,11 @@ export type PolicyMemory = {
   roamTargetX?: number;
   roamTargetZ?: number;
   roamTargetUntilMs?: number;
+  /** Remaining waypoints toward `pathGoalX/Z`, planned at `pathPlannedAtMs`. */
+  path?: WorldPoint[];
+  pathGoalX?: number;
+  pathGoalZ?: number;
+  pathPlannedAtMs?: number;
 };
 
 export type PolicyDecision = {
@@ -64,6 +75,38 @@ function nearest(self: AgentPlayerState, others: AgentPlayerState[]): { target:
   return best;
 }
 
+const WAYPOINT_REACHED_DISTANCE = 1.5;
+// Replan when the goal (often a moving player) drifts this far, or periodically
+// so bots pushed off their path by crowds recover.
+const PATH_GOAL_DRIFT = 3;
+const PATH_REPLAN_MS = 4_000;
+
+/** Direction toward `goal`, via the next waypoint when a nav grid is available. */
+function steerTo(self: AgentPlayerState, goal: WorldPoint, context: PolicyContext, memory: PolicyMemory): { x: number; z: number } {
+  const direct = normalize(goal.x - self.x, goal.z - self.z);
+  if (!context.nav) {
+    return direct;
+  }
+  const stale =
+    !memory.path ||
+    typeof memory.pathGoalX !== 'number' ||
+    typeof memory.pathGoalZ !== 'number' ||
+    Math.hypot(goal.x - memory.pathGoalX, goal.z - memory.pathGoalZ) > PATH_GOAL_DRIFT ||
+    context.nowMs - (memory.pathPlannedAtMs ?? 0) >= PATH_REPLAN_MS;
+  if (stale) {
+    memory.path = context.nav.findPath(self, goal) ?? [];
+    memory.pathGoalX = goal.x;
+    memory.pathGoalZ = goal.z;
+    memory.pathPlannedAtMs = context.nowMs;
+  }
+  const path = memory.path ?? [];
+  while (path.length > 1 && Math.hypot(path[0]!.x - self.x, path[0]!.z - self.z) < WAYPOINT_REACHED_DISTANCE) {
+    path.shift();
+  }
+  const next = path[0];
+  return next ? normalize(next.x - self.x, next.z - self.z) : direct;
+}
+
 // Roam points moved to central, asset-rich areas (near train, castle, trees)
 // instead of world edges where there are no assets.
 const ROAM_POINTS: Array<{ x: number; z: number }> = [
@@ -111,7 +154,8 @@ function crowdAvoidance(self: AgentPlayerState, others: AgentPlayerState[], radi
   return normalize(avoidX, avoidZ);
 }
 
-function roamDirection(self: AgentPlayerState, memory: PolicyMemory, nowMs: number): { x: number; z: number } {
+function roamDirection(self: AgentPlayerState, context: PolicyContext, memory: PolicyMemory): { x: number; z: number } {
+  const nowMs = context.nowMs;
   const ttl = memory.roamTargetUntilMs ?? 0;
   const currentIndex = memory.roamTargetIndex ?? (memory.seed % ROAM_POINTS.length);
 
@@ -124,9 +168,14 @@ function roamDirection(self: AgentPlayerState, memory: PolicyMemory, nowMs: numb
   }
 
   const point = ROAM_POINTS[nextIndex] ?? { x: 0, z: 0 };
-  const towardPoint = normalize(point.x - self.x, point.z - self.z);
+  const towardPoint = steerTo(self, point, context, memory);
   const wander = wanderDirection(memory, nowMs);
-  return normalize(towardPoint.x * 0.72 + wander.x * 0.28, towardPoint.z * 0.72 + wander.z * 0.28);
+  // Less wander while following waypoints, so bots do not drift into walls.
+  const wanderWeight = context.nav ? 0.12 : 0.28;
+  return normalize(
+    towardPoint.x * (1 - wanderWeight) + wander.x * wanderWeight,
+    towardPoint.z * (1 - wanderWeight) + wander.z * wanderWeight
+  );
 }
 
 // Section centers moved closer to central assets instead of world edges.
@@ -152,11 +201,12 @@ const SECTION_CENTERS: Array<{ x: number; z: number }> = [
 
 function sectionRoamDirection(
   self: AgentPlayerState,
+  context: PolicyContext,
   memory: PolicyMemory,
-  nowMs: number,
   sectionIndex: number,
   patrolRadius: number
 ): { x: number; z: number } {
+  const nowMs = context.nowMs;
   const safeSection = SECTION_CENTERS[((sectionIndex % SECTION_CENTERS.length) + SECTION_CENTERS.length) % SECTION_CENTERS.length] ?? { x: 0, z: 0 };
   const ttl = memory.roamTargetUntilMs ?? 0;
   if (nowMs >= ttl || typeof memory.roamTargetX !== 'number' || typeof memory.roamTargetZ !== 'number') {
@@ -168,9 +218,15 @@ function sectionRoamDirection(
     memory.roamTargetUntilMs = nowMs + 5_500 + Math.floor(stableNoise(memory.seed, bucket + sectionIndex) * 6_500);
   }
 
-  const towardTarget = normalize((memory.roamTargetX ?? safeSection.x) - self.x, (memory.roamTargetZ ?? safeSection.z) - self.z);
-  const towardSection = normalize(safeSection.x - self.x, safeSection.z - self.z);
+  const target = { x: memory.roamTargetX ?? safeSection.x, z: memory.roamTargetZ ?? safeSection.z };
+  const towardTarget = steerTo(self, target, context, memory);
   const wander = wanderDirection(memory, nowMs);
+  if (context.nav) {
+    // The target already sits inside the section; pulling straight at the
+    // centre would fight the waypoints.
+    return normalize(towardTarget.x * 0.88 + wander.x * 0.12, towardTarget.z * 0.88 + wander.z * 0.12);
+  }
+  const towardSection = normalize(safeSection.x - self.x, safeSection.z - self.z);
   return normalize(
     towardTarget.x * 0.58 + towardSection.x * 0.24 + wander.x * 0.18,
     towardTarget.z * 0.58 + towardSection.z * 0.24 + wander.z * 0.18
@@ -180,16 +236,17 @@ function sectionRoamDirection(
 export class PolicyEngine {
   decide(personality: Personality, context: PolicyContext, memory: PolicyMemory): PolicyDecision {
     const nearestResult = nearest(context.self, context.others);
-    const roam =
-      typeof context.patrolSection === 'number'
+    const roam = context.destination
+      ? steerTo(context.self, context.destination, context, memory)
+      : typeof context.patrolSection === 'number'
         ? sectionRoamDirection(
             context.self,
+            context,
             memory,
-            context.nowMs,
             context.patrolSection,
             context.patrolRadius ?? 28
           )
-        : roamDirection(context.self, memory, context.nowMs);
+        : roamDirection(context.self, context, memory);
     const spacing = crowdAvoidance(context.self, context.others);
 
     const blend = (baseX: number, baseZ: number): { x: number; z: number } =>
@@ -204,13 +261,16 @@ export class PolicyEngine {
     const dz = nearestResult.target.z - context.self.z;
     const toward = normalize(dx, dz);
     const away = normalize(-dx, -dz);
+    // Closing in on a target goes around obstacles; strafing and fleeing stay direct.
+    const chase = (): { x: number; z: number } => steerTo(context.self, nearestResult.target, context, memory);
 
     if (personality === 'aggressive') {
       if (nearestResult.distance > 18) {
         const move = blend(roam.x, roam.z);
         return { moveX: move.x, moveZ: move.z, focusId: null };
       }
-      const move = blend(toward.x, toward.z);
+      const approach = chase();
+      const move = blend(approach.x, approach.z);
       return {
         moveX: move.x,
         moveZ: move.z,
@@ -244,7 +304,8 @@ export class PolicyEngine {
           focusId: null
         };
       }
-      const move = blend(toward.x, toward.z);
+      const approach = chase();
+      const move = blend(approach.x, approach.z);
       return {
         moveX: move.x,
         moveZ: move.z,
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { BankrollStaker, parseStakingConfig, type StakeInput } from './StakingModel.js';
+
+const DAY = Date.UTC(2026, 0, 10, 12);
+
+function input(balance: number | null, overrides: Partial<StakeInput> = {}): StakeInput {
+  return {
+    baseWager: 2,
+    maxWager: 40,
+    bankroll: balance === null ? null : { balance, maxBetPercentOfBankroll: 10 },
+    record: { won: 0, lost: 0 },
+    ...overrides
+  };
+}
+
+describe('BankrollStaker', () => {
+  it('keeps flat stakes without a wallet and caps them by the wallet policy with one', () => {
+    const staker = new BankrollStaker();
+    expect(staker.size(undefined, input(null, { baseWager: 8 }), DAY)).toEqual({ ok: true, wager: 8 });
+    expect(staker.size(undefined, input(50, { baseWager: 8 }), DAY)).toEqual({ ok: true, wager: 5 });
+    expect(new BankrollStaker().size(undefined, input(5), DAY)).toEqual({ ok: false, reason: 'bankroll_too_low' });
+  });
+
+  it('sizes percent and Kelly stakes from the bankroll', () => {
+    const staker = new BankrollStaker();
+    expect(staker.size({ model: 'percent', percentOfBankroll: 4 }, input(200), DAY)).toEqual({ ok: true, wager: 8 });
+    // Policy cap (10%) wins over a larger configured share.
+    expect(staker.size({ model: 'percent', percentOfBankroll: 50 }, input(200), DAY)).toEqual({ ok: true, wager: 20 });
+
+    // 14 wins / 6 losses -> p = 15/22, full Kelly ~36%, half Kelly ~18% of 100 -> policy cap 10.
+    const winning = input(100, { record: { won: 14, lost: 6 } });
+    expect(staker.size({ model: 'kelly', kellyFraction: 0.25 }, winning, DAY)).toEqual({ ok: true, wager: 9 });
+    expect(staker.size({ model: 'kelly' }, winning, DAY)).toEqual({ ok: true, wager: 10 });
+    // No edge: the table minimum.
+    expect(staker.size({ model: 'kelly' }, input(100, { record: { won: 3, lost: 9 } }), DAY)).toEqual({ ok: true, wager: 1 });
+  });
+
+  it('stops for the day at the stop-loss or take-profit and resumes the next day', () => {
+    const staker = new BankrollStaker();
+    const config = { model: 'flat' as const, stopLossPercent: 20, takeProfitPercent: 50 };
+    expect(staker.size(config, input(100), DAY).ok).toBe(true);
+    expect(staker.today()).toEqual({ dayStamp: '2026-01-10', openingBalance: 100 });
+    expect(staker.size(config, input(79), DAY + 1000)).toEqual({ ok: false, reason: 'stop_loss' });
+    expect(staker.accepts(config, 2, { balance: 79, maxBetPercentOfBankroll: 10 }, DAY + 1000)).toBe(false);
+    expect(staker.size(config, input(150), DAY + 2000)).toEqual({ ok: false, reason: 'take_profit' });
+    expect(staker.size(config, input(79), DAY + 86_400_000).ok).toBe(true);
+  });
+
+  it('declines incoming stakes above the policy cap', () => {
+    const staker = new BankrollStaker();
+    const bankroll = { balance: 100, maxBetPercentOfBankroll: 5 };
+    expect(staker.accepts(undefined, 5, bankroll, DAY)).toBe(true);
+    expect(staker.accepts(undefined, 6, bankroll, DAY)).toBe(false);
+    expect(staker.accepts(undefined, 0, bankroll, DAY)).toBe(true);
+  });
+});
+
+describe('parseStakingConfig', () => {
+  it('accepts known models with in-range limits', () => {
+    expect(parseStakingConfig({ model: 'kelly', kellyFraction: 0.5, stopLossPercent: 25 })).toEqual({
+      model: 'kelly',
+      kellyFraction: 0.5,
+      stopLossPercent: 25
+    });
+    expect(parseStakingConfig({ model: 'martingale' })).toBeNull();
+    expect(parseStakingConfig({ model: 'percent', percentOfBankroll: 0 })).toBeNull();
+    expect(parseStakingConfig({ model: 'kelly', kellyFraction: 2 })).toBeNull();
+  });
+});
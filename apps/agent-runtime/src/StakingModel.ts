@@ -0,0 +1,152 @@
+export const STAKING_MODEL_NAMES = ['flat', 'percent', 'kelly'] as const;
+
+export type StakingModelName = (typeof STAKING_MODEL_NAMES)[number];
+
+export type StakingConfig = {
+  model: StakingModelName;
+  /** `percent`: share of the current bankroll to stake (defaults to the wallet policy cap). */
+  percentOfBankroll?: number;
+  /** `kelly`: multiplier on the full Kelly stake; 0.5 is half Kelly. */
+  kellyFraction?: number;
+  /** Stop wagering for the UTC day after losing this share of the day's opening bankroll. */
+  stopLossPercent?: number;
+  /** Stop wagering for the UTC day after winning this share of the day's opening bankroll. */
+  takeProfitPercent?: number;
+};
+
+/** The bot's wallet as the runtime sees it, with the wallet policy cap. */
+export type BotBankroll = {
+  balance: number;
+  maxBetPercentOfBankroll: number;
+};
+
+export type StakeInput = {
+  baseWager: number;
+  maxWager: number;
+  /** Null for bots without a wallet: flat stakes, no bankroll limits. */
+  bankroll: BotBankroll | null;
+  record: { won: number; lost: number };
+};
+
+export type StakeDenialReason = 'stop_loss' | 'take_profit' | 'bankroll_too_low';
+
+export type StakeDecision = { ok: true; wager: number } | { ok: false; reason: StakeDenialReason };
+
+const DEFAULT_KELLY_FRACTION = 0.5;
+// Stakes are whole units; below one the bot sits out instead of free-rolling.
+const MIN_WAGER = 1;
+
+export function parseStakingConfig(value: unknown): StakingConfig | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  if (!(STAKING_MODEL_NAMES as readonly unknown[]).includes(record.model)) {
+    return null;
+  }
+  const config: StakingConfig = { model: record.model as StakingModelName };
+  const percent = (key: 'percentOfBankroll' | 'stopLossPercent' | 'takeProfitPercent', max: number): boolean => {
+    const raw = record[key];
+    if (raw === undefined || raw === null) {
+      return true;
+    }
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw <= 0 || raw > max) {
+      return false;
+    }
+    config[key] = raw;
+    return true;
+  };
+  if (!percent('percentOfBankroll', 100) || !percent('stopLossPercent', 100) || !percent('takeProfitPercent', 1000)) {
+    return null;
+  }
+  if (record.kellyFraction !== undefined && record.kellyFraction !== null) {
+    const fraction = record.kellyFraction;
+    if (typeof fraction !== 'number' || !Number.isFinite(fraction) || fraction <= 0 || fraction > 1) {
+      return null;
+    }
+    config.kellyFraction = fraction;
+  }
+  return config;
+}
+
+function utcDayStamp(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Sizes a bot's challenge stakes from its wallet balance. The model picks a
+ * raw stake (flat `baseWager`, a percentage of bankroll, or a Kelly fraction
+ * from the bot's win record on even-money games); the result is then capped
+ * by `maxWager`, the balance and `WalletPolicy.maxBetPercentOfBankroll`.
+ * Daily stop-loss / take-profit compare the balance with the first one seen
+ * that UTC day.
+ */
+export class BankrollStaker {
+  private day: { stamp: string; openingBalance: number } | null = null;
+
+  size(config: StakingConfig | undefined, input: StakeInput, now = Date.now()): StakeDecision {
+    const staking: StakingConfig = config ?? { model: 'flat' };
+    const base = Math.max(MIN_WAGER, Math.floor(input.baseWager));
+    const max = Math.max(base, Math.floor(input.maxWager));
+    const bankroll = input.bankroll;
+    if (!bankroll) {
+      return { ok: true, wager: Math.min(max, base) };
+    }
+
+    const stopped = this.stopReason(staking, bankroll.balance, now);
+    if (stopped) {
+      return { ok: false, reason: stopped };
+    }
+
+    let raw = base;
+    if (staking.model === 'percent') {
+      raw = bankroll.balance * ((staking.percentOfBankroll ?? bankroll.maxBetPercentOfBankroll) / 100);
+    } else if (staking.model === 'kelly') {
+      // Laplace-smoothed win rate; ties do not count. Even money: f* = 2p - 1.
+      const p = (input.record.won + 1) / (input.record.won + input.record.lost + 2);
+      raw = bankroll.balance * Math.max(0, 2 * p - 1) * (staking.kellyFraction ?? DEFAULT_KELLY_FRACTION);
+    }
+
+    const cap = Math.min(max, this.policyCap(bankroll));
+    if (cap < MIN_WAGER) {
+      return { ok: false, reason: 'bankroll_too_low' };
+    }
+    return { ok: true, wager: Math.min(cap, Math.max(MIN_WAGER, Math.floor(raw))) };
+  }
+
+  /** Whether an incoming challenge's stake fits the policy and today's limits. */
+  accepts(config: StakingConfig | undefined, wager: number, bankroll: BotBankroll | null, now = Date.now()): boolean {
+    if (!bankroll || wager <= 0) {
+      return true;
+    }
+    return !this.stopReason(config ?? { model: 'flat' }, bankroll.balance, now) && wager <= this.policyCap(bankroll);
+  }
+
+  /** Today's opening balance, once a stake has been sized against a wallet. */
+  today(): { dayStamp: string; openingBalance: number } | null {
+    return this.day ? { dayStamp: this.day.stamp, openingBalance: this.day.openingBalance } : null;
+  }
+
+  private stopReason(config: StakingConfig, balance: number, now: number): StakeDenialReason | null {
+    const stamp = utcDayStamp(now);
+    if (!this.day || this.day.stamp !== stamp) {
+      this.day = { stamp, openingBalance: balance };
+    }
+    const opening = this.day.openingBalance;
+    if (opening <= 0) {
+      return null;
+    }
+    const change = (balance - opening) / opening * 100;
+    if (typeof config.stopLossPercent === 'number' && change <= -config.stopLossPercent) {
+      return 'stop_loss';
+    }
+    if (typeof config.takeProfitPercent === 'number' && change >= config.takeProfitPercent) {
+      return 'take_profit';
+    }
+    return null;
+  }
+
+  private policyCap(bankroll: BotBankroll): number {
+    return Math.floor(Math.min(bankroll.balance, bankroll.balance * (bankroll.maxBetPercentOfBankroll / 100)));
+  }
+}
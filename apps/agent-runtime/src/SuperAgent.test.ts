@@ -1,5 +1,12 @@
 import { describe, expect, it } from 'vitest';
-import { buildWorkerDirectives, createDefaultSuperAgentConfig } from './SuperAgent.js';
+import {
+  SuperAgentPlanner,
+  buildWorkerDirectives,
+  createDefaultSuperAgentConfig,
+  parseSuperAgentObjectives,
+  type SuperAgentConfig,
+  type WorkerSample
+} from './SuperAgent.js';
 
 describe('SuperAgent delegation', () => {
   it('creates deterministic directives for workers and excludes super agent id', () => {
@@ -13,3 +20,98 @@ describe('SuperAgent delegation', () => {
     expect(directives[1]?.patch.personality).toBe('social');
   });
 });
+
+describe('SuperAgentPlanner', () => {
+  const behavior = {
+    personality: 'social' as const,
+    mode: 'active' as const,
+    challengeEnabled: true,
+    challengeCooldownMs: 5000,
+    targetPreference: 'any' as const,
+    baseWager: 1,
+    maxWager: 5
+  };
+
+  function worker(id: string, patrolSection: number, humanChallenges = 0, netWinnings = 0): WorkerSample {
+    return {
+      id,
+      connected: true,
+      behavior: { ...behavior, patrolSection },
+      stats: {
+        challengesSent: 0,
+        challengesReceived: 0,
+        challengesAccepted: 0,
+        challengesDeclined: 0,
+        challengesWon: 0,
+        challengesLost: 0,
+        humanChallenges,
+        netWinnings,
+        lastChallengeAt: null
+      }
+    };
+  }
+
+  function config(objectives: SuperAgentConfig['objectives']): SuperAgentConfig {
+    return {
+      ...createDefaultSuperAgentConfig('system_super'),
+      challengeEnabled: true,
+      workerTargetPreference: 'any',
+      objectives
+    };
+  }
+
+  const HOUR = 3_600_000;
+
+  it('turns defensive, then parks workers, while drawdown stays over the limit', () => {
+    const planner = new SuperAgentPlanner();
+    const cfg = config({ maxHouseDrawdownPerHour: 50 });
+    planner.replan(cfg, [worker('w1', 0, 0, 0)], 0, 0);
+
+    const first = planner.replan(cfg, [worker('w1', 0, 0, -80)], 0, HOUR);
+    expect(first.houseDrawdownPerHour).toBe(80);
+    expect(first.posture).toBe('defending');
+    expect(planner.directives(cfg, ['w1'])[0]?.patch).toMatchObject({ challengeCooldownMs: 7500 });
+
+    expect(planner.replan(cfg, [worker('w1', 0, 0, -160)], 0, 2 * HOUR).posture).toBe('paused');
+    expect(planner.directives(cfg, ['w1'])[0]?.patch).toMatchObject({ mode: 'passive', challengeEnabled: false });
+
+    const recovered = planner.replan(cfg, [worker('w1', 0, 0, -160)], 0, 3 * HOUR);
+    expect(recovered.posture).toBe('defending');
+    expect(recovered.decisions).toHaveLength(1);
+  });
+
+  it('hunts humans below the engagement target and logs only changes', () => {
+    const planner = new SuperAgentPlanner();
+    const cfg = config({ targetHumanEngagementPerHour: 6 });
+    planner.replan(cfg, [worker('w1', 0), worker('w2', 1)], 0, 0);
+
+    const plan = planner.replan(cfg, [worker('w1', 0, 2), worker('w2', 1, 2)], 0, HOUR);
+    expect(plan.humanEngagementPerHour).toBe(2);
+    expect(plan.decisions[0]).toContain('hunting');
+    expect(planner.directives(cfg, ['w1', 'w2'])[0]?.patch).toMatchObject({
+      personality: 'aggressive',
+      targetPreference: 'human_first',
+      challengeCooldownMs: 4000
+    });
+    // Half a minute is too short a window to judge rates.
+    expect(planner.replan(cfg, [worker('w1', 0, 2), worker('w2', 1, 2)], 0, HOUR + 30_000).decisions).toEqual([]);
+  });
+
+  it('moves workers from crowded sections into empty ones for coverage', () => {
+    const planner = new SuperAgentPlanner();
+    const cfg = config({ minSectionCoverage: 0.75 });
+    const plan = planner.replan(cfg, [worker('w1', 0), worker('w2', 0), worker('w3', 0), worker('w4', 1)], 4, 0);
+    expect(plan.sectionCoverage).toBe(0.5);
+    expect(plan.decisions).toEqual(['section coverage 2/4 under 75%: w3 -> S3']);
+    expect(planner.directives(cfg, ['w1', 'w2', 'w3', 'w4']).find((d) => d.botId === 'w3')?.patch.patrolSection).toBe(2);
+  });
+
+  it('parses objectives and rejects out-of-range values', () => {
+    expect(parseSuperAgentObjectives({ maxHouseDrawdownPerHour: 200, minSectionCoverage: 0.5 })).toEqual({
+      maxHouseDrawdownPerHour: 200,
+      minSectionCoverage: 0.5
+    });
+    expect(parseSuperAgentObjectives({ minSectionCoverage: 2 })).toBeNull();
+    expect(parseSuperAgentObjectives({ targetHumanEngagementPerHour: 'lots' })).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import type { AgentBehaviorConfig } from './AgentBot.js';
+import type { AgentBehaviorConfig, AgentBotStatus } from './AgentBot.js';
 import type { Personality } from './PolicyEngine.js';
 
 export type SuperAgentMode = 'balanced' | 'hunter' | 'defensive';
@@ -19,9 +19,24 @@ export type LlmPolicy = {
   maxTokensPerDayPerAgent: number;
 };
 
+/**
+ * What the planner steers workers towards. Every objective is optional; with
+ * none set the workers follow the static `mode` preset.
+ */
+export type SuperAgentObjectives = {
+  /** Challenges with humans per worker per hour. */
+  targetHumanEngagementPerHour?: number;
+  /** Largest combined loss of worker stakes per hour before workers turn defensive. */
+  maxHouseDrawdownPerHour?: number;
+  /** Share of world sections (0-1) with at least one active worker. */
+  minSectionCoverage?: number;
+};
+
 export type SuperAgentConfig = {
   id: string;
   mode: SuperAgentMode;
+  /** When set, `SuperAgentPlanner` re-plans worker directives from live bot stats. */
+  objectives?: SuperAgentObjectives;
   challengeEnabled: boolean;
   defaultChallengeCooldownMs: number;
   workerTargetPreference: 'human_only' | 'human_first' | 'any';
@@ -97,3 +112,274 @@ export function buildWorkerDirectives(
     }
   }));
 }
+
+export function parseSuperAgentObjectives(value: unknown): SuperAgentObjectives | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const objectives: SuperAgentObjectives = {};
+  const limits = {
+    targetHumanEngagementPerHour: 1000,
+    maxHouseDrawdownPerHour: 1_000_000,
+    minSectionCoverage: 1
+  } as const;
+  for (const key of Object.keys(limits) as Array<keyof typeof limits>) {
+    const raw = record[key];
+    if (raw === undefined || raw === null) {
+      continue;
+    }
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw < 0 || raw > limits[key]) {
+      return null;
+    }
+    objectives[key] = raw;
+  }
+  return objectives;
+}
+
+/** The slice of `AgentBot.getStatus()` the planner reads. */
+export type WorkerSample = Pick<AgentBotStatus, 'id' | 'connected' | 'behavior' | 'stats'>;
+
+/**
+ * How far the planner has moved workers from the configured preset:
+ * `hunting` chases human engagement, `defending` and `paused` protect the
+ * house bankroll (paused workers park and decline challenges).
+ */
+export type PlannerPosture = 'normal' | 'hunting' | 'defending' | 'paused';
+
+export type SuperAgentPlan = {
+  at: number;
+  posture: PlannerPosture;
+  cooldownScale: number;
+  humanEngagementPerHour: number | null;
+  houseDrawdownPerHour: number | null;
+  sectionCoverage: number | null;
+  decisions: string[];
+};
+
+// Rates over shorter windows are mostly noise.
+const MIN_PLAN_WINDOW_MS = 60_000;
+const MIN_COOLDOWN_SCALE = 0.5;
+const MAX_COOLDOWN_SCALE = 3;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Goal-driven replacement for the static mode presets. Each `replan` compares
+ * worker stats with the previous sample, moves the posture one step towards
+ * the objectives (drawdown first, then human engagement) and reassigns patrol
+ * sections for coverage. `directives` turns the current posture into worker
+ * patches on top of `buildWorkerDirectives`, so applying them between
+ * re-plans is stable.
+ */
+export class SuperAgentPlanner {
+  private posture: PlannerPosture = 'normal';
+  private cooldownScale = 1;
+  private readonly sectionByBot = new Map<string, number>();
+  private readonly previous = new Map<string, { humanChallenges: number; netWinnings: number }>();
+  private windowStartedAt: number | null = null;
+  private lastPlan: SuperAgentPlan | null = null;
+
+  replan(config: SuperAgentConfig, workers: WorkerSample[], sectionCount: number, now = Date.now()): SuperAgentPlan {
+    const objectives = config.objectives ?? {};
+    const decisions: string[] = [];
+    const workerIds = new Set(workers.map((worker) => worker.id));
+    for (const botId of this.sectionByBot.keys()) {
+      if (!workerIds.has(botId)) {
+        this.sectionByBot.delete(botId);
+      }
+    }
+
+    let humanEngagementPerHour: number | null = null;
+    let houseDrawdownPerHour: number | null = null;
+    if (this.windowStartedAt === null) {
+      this.windowStartedAt = now;
+      this.sample(workers);
+    } else if (now - this.windowStartedAt >= MIN_PLAN_WINDOW_MS) {
+      const hours = (now - this.windowStartedAt) / 3_600_000;
+      let humanChallenges = 0;
+      let netWinnings = 0;
+      for (const worker of workers) {
+        const before = this.previous.get(worker.id);
+        if (before) {
+          humanChallenges += Math.max(0, worker.stats.humanChallenges - before.humanChallenges);
+          netWinnings += worker.stats.netWinnings - before.netWinnings;
+        }
+      }
+      const activeWorkers = workers.filter((worker) => worker.connected).length;
+      humanEngagementPerHour = round2(humanChallenges / hours / Math.max(1, activeWorkers));
+      houseDrawdownPerHour = round2(-netWinnings / hours);
+      this.windowStartedAt = now;
+      this.sample(workers);
+
+      const drawdownDecision = this.steerDrawdown(objectives.maxHouseDrawdownPerHour, houseDrawdownPerHour);
+      if (drawdownDecision) {
+        decisions.push(drawdownDecision);
+      }
+      const engagementDecision = this.steerEngagement(objectives.targetHumanEngagementPerHour, humanEngagementPerHour);
+      if (engagementDecision) {
+        decisions.push(engagementDecision);
+      }
+    }
+
+    const coverage = this.steerCoverage(objectives.minSectionCoverage, workers, sectionCount);
+    if (coverage.decision) {
+      decisions.push(coverage.decision);
+    }
+
+    this.lastPlan = {
+      at: now,
+      posture: this.posture,
+      cooldownScale: this.cooldownScale,
+      humanEngagementPerHour,
+      houseDrawdownPerHour,
+      sectionCoverage: coverage.value,
+      decisions
+    };
+    return this.lastPlan;
+  }
+
+  directives(config: SuperAgentConfig, allBotIds: string[]): WorkerDirective[] {
+    const planned: SuperAgentConfig = {
+      ...config,
+      mode:
+        this.posture === 'hunting' ? 'hunter' :
+        this.posture === 'normal' ? config.mode :
+        'defensive',
+      challengeEnabled: config.challengeEnabled && this.posture !== 'paused',
+      defaultChallengeCooldownMs: Math.round(config.defaultChallengeCooldownMs * this.cooldownScale),
+      workerTargetPreference:
+        this.posture === 'hunting' && config.workerTargetPreference === 'any' ? 'human_first' : config.workerTargetPreference
+    };
+    return buildWorkerDirectives(planned, allBotIds).map((directive) => {
+      const section = this.sectionByBot.get(directive.botId);
+      return section === undefined ? directive : { ...directive, patch: { ...directive.patch, patrolSection: section } };
+    });
+  }
+
+  status(): { posture: PlannerPosture; cooldownScale: number; sectionOverrides: number; lastPlan: SuperAgentPlan | null } {
+    return {
+      posture: this.posture,
+      cooldownScale: this.cooldownScale,
+      sectionOverrides: this.sectionByBot.size,
+      lastPlan: this.lastPlan
+    };
+  }
+
+  private sample(workers: WorkerSample[]): void {
+    this.previous.clear();
+    for (const worker of workers) {
+      this.previous.set(worker.id, {
+        humanChallenges: worker.stats.humanChallenges,
+        netWinnings: worker.stats.netWinnings
+      });
+    }
+  }
+
+  private scaleCooldown(factor: number): void {
+    this.cooldownScale = round2(Math.min(MAX_COOLDOWN_SCALE, Math.max(MIN_COOLDOWN_SCALE, this.cooldownScale * factor)));
+  }
+
+  private steerDrawdown(max: number | undefined, drawdown: number): string | null {
+    if (max === undefined) {
+      return null;
+    }
+    if (drawdown > max) {
+      if (this.posture === 'paused') {
+        return null;
+      }
+      if (this.posture === 'defending') {
+        this.posture = 'paused';
+        return `house drawdown ${drawdown}/h still over ${max}/h: parking workers`;
+      }
+      this.posture = 'defending';
+      this.scaleCooldown(1.5);
+      return `house drawdown ${drawdown}/h over ${max}/h: workers defensive, cooldown x${this.cooldownScale}`;
+    }
+    if (drawdown <= max / 2) {
+      if (this.posture === 'paused') {
+        this.posture = 'defending';
+        return `house drawdown ${drawdown}/h back under ${max}/h: resuming defensive play`;
+      }
+      if (this.posture === 'defending') {
+        this.posture = 'normal';
+        this.cooldownScale = 1;
+        return `house drawdown ${drawdown}/h back under ${max}/h: workers back to preset`;
+      }
+    }
+    return null;
+  }
+
+  private steerEngagement(target: number | undefined, engagement: number): string | null {
+    if (target === undefined || this.posture === 'defending' || this.posture === 'paused') {
+      return null;
+    }
+    if (engagement < target) {
+      const before = { posture: this.posture, cooldownScale: this.cooldownScale };
+      this.posture = 'hunting';
+      this.scaleCooldown(0.8);
+      if (before.posture === this.posture && before.cooldownScale === this.cooldownScale) {
+        return null;
+      }
+      return `human engagement ${engagement}/h per worker under ${target}: hunting, cooldown x${this.cooldownScale}`;
+    }
+    if (engagement > target * 1.5) {
+      const before = { posture: this.posture, cooldownScale: this.cooldownScale };
+      this.posture = 'normal';
+      this.scaleCooldown(1.25);
+      if (before.posture === this.posture && before.cooldownScale === this.cooldownScale) {
+        return null;
+      }
+      return `human engagement ${engagement}/h per worker well over ${target}: preset play, cooldown x${this.cooldownScale}`;
+    }
+    return null;
+  }
+
+  private steerCoverage(
+    min: number | undefined,
+    workers: WorkerSample[],
+    sectionCount: number
+  ): { value: number | null; decision: string | null } {
+    if (sectionCount <= 0) {
+      return { value: null, decision: null };
+    }
+    const bySection = new Map<number, string[]>();
+    for (const worker of workers) {
+      if (!worker.connected || worker.behavior.mode !== 'active') {
+        continue;
+      }
+      const section = this.sectionByBot.get(worker.id) ?? worker.behavior.patrolSection ?? 0;
+      bySection.set(section, [...(bySection.get(section) ?? []), worker.id]);
+    }
+    const coverage = round2(bySection.size / sectionCount);
+    if (min === undefined || coverage >= min) {
+      return { value: coverage, decision: null };
+    }
+
+    const moves: string[] = [];
+    const needed = Math.ceil(min * sectionCount) - bySection.size;
+    for (let section = 0; section < sectionCount && moves.length < needed; section += 1) {
+      if (bySection.has(section)) {
+        continue;
+      }
+      // Take from the most crowded section so no covered section is emptied.
+      const donors = [...bySection.entries()].sort((a, b) => b[1].length - a[1].length)[0];
+      if (!donors || donors[1].length < 2) {
+        break;
+      }
+      const botId = donors[1].pop()!;
+      this.sectionByBot.set(botId, section);
+      bySection.set(section, [botId]);
+      moves.push(`${botId} -> S${section + 1}`);
+    }
+    if (moves.length === 0) {
+      return { value: coverage, decision: null };
+    }
+    return {
+      value: coverage,
+      decision: `section coverage ${bySection.size - moves.length}/${sectionCount} under ${Math.round(min * 100)}%: ${moves.join(', ')}`
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { WebSocket, type RawData } from 'ws';
+
+export type BotTimer = { cancel(): void };
+
+/** Time source and timers for a bot; the simulation harness swaps in a fake clock. */
+export type BotClock = {
+  now(): number;
+  after(ms: number, fn: () => void): BotTimer;
+  every(ms: number, fn: () => void): BotTimer;
+};
+
+export type BotSocketHandlers = {
+  open(): void;
+  message(data: string | Uint8Array, isBinary: boolean): void;
+  close(code: number | undefined, reason: string): void;
+  error(): void;
+};
+
+export type BotSocket = {
+  isOpen(): boolean;
+  send(data: string | Uint8Array): void;
+  close(): void;
+};
+
+/** Opens a game connection; the simulation harness connects bots in memory instead. */
+export type BotConnector = (url: string, handlers: BotSocketHandlers) => BotSocket;
+
+export const systemClock: BotClock = {
+  now: () => Date.now(),
+  after(ms, fn) {
+    const timer = setTimeout(fn, ms);
+    return { cancel: () => clearTimeout(timer) };
+  },
+  every(ms, fn) {
+    const timer = setInterval(fn, ms);
+    return { cancel: () => clearInterval(timer) };
+  }
+};
+
+function toBytes(raw: RawData): Uint8Array {
+  if (Array.isArray(raw)) {
+    return Buffer.concat(raw);
+  }
+  return raw instanceof ArrayBuffer ? new Uint8Array(raw) : raw;
+}
+
+export const connectWebSocket: BotConnector = (url, handlers) => {
+  const ws = new WebSocket(url);
+  ws.on('open', () => handlers.open());
+  ws.on('message', (raw: RawData, isBinary: boolean) => {
+    handlers.message(isBinary ? toBytes(raw) : raw.toString(), isBinary);
+  });
+  ws.on('close', (code, reasonBuffer) => {
+    handlers.close(Number.isFinite(Number(code)) ? Number(code) : undefined, String(reasonBuffer ?? '').trim());
+  });
+  ws.on('error', () => handlers.error());
+  return {
+    isOpen: () => ws.readyState === ws.OPEN,
+    send: (data) => ws.send(data),
+    close: () => ws.close()
+  };
+};
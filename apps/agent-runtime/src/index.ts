@@ -20,6 +20,7 @@ import { sendJson, setCorsHeaders, SimpleRouter } from './lib/http.js';
 import type {
   BotRecord,
   EscrowLockRecord,
+  EscrowPotRecord,
   EscrowSettlementRecord,
   EthSkillDigest,
   Profile,
@@ -36,13 +37,18 @@ import {
 } from './AgentBot.js';
 import { createHealthStatus } from './health.js';
 import {
+  SuperAgentPlanner,
   buildWorkerDirectives,
   createDefaultSuperAgentConfig,
+  parseSuperAgentObjectives,
   type LlmPolicy,
   type SuperAgentConfig,
-  type WalletPolicy
+  type SuperAgentObjectives,
+  type WalletPolicy,
+  type WorkerDirective
 } from './SuperAgent.js';
 import type { Personality } from './PolicyEngine.js';
+import { OpponentMoveHistory, type OpponentMoveHistorySnapshot } from './MoveStrategy.js';
 import { RuntimeDatabase, type SubjectLinkRecord } from './RuntimeDatabase.js';
 
 loadEnvFromFile();
@@ -93,6 +99,7 @@ const houseBankStartBalance = Math.max(0, Number(process.env.HOUSE_BANK_START_BA
 let npcWalletFloor = Math.max(0, Number(process.env.NPC_WALLET_FLOOR ?? 40));
 let npcWalletTopupAmount = Math.max(0, Number(process.env.NPC_WALLET_TOPUP_AMOUNT ?? 20));
 const npcBudgetTickMs = Math.max(1000, Number(process.env.NPC_BUDGET_TICK_MS ?? 10000));
+const superAgentPlanIntervalMs = Math.max(10_000, Number(process.env.SUPER_AGENT_PLAN_INTERVAL_MS ?? 60_000));
 let superAgentWalletFloor = Math.max(npcWalletFloor, Number(process.env.SUPER_AGENT_WALLET_FLOOR ?? 120));
 
 const runtimeSecrets = {
@@ -222,10 +229,12 @@ const botRegistry = new Map<string, BotRecord>();
 const profiles = new Map<string, Profile>();
 const wallets = new Map<string, WalletRecord>();
 const escrowLocks = new Map<string, EscrowLockRecord>();
+const escrowPots = new Map<string, EscrowPotRecord>();
 const escrowSettlements: EscrowSettlementRecord[] = [];
 const backgroundBotIds = new Set<string>();
 const subjectLinks = new Map<string, SubjectLinkRecord>();
 const runtimeDb = new RuntimeDatabase();
+const opponentMoveHistory = new OpponentMoveHistory();
 
 type HouseLedgerEntry = {
   at: number;
@@ -274,6 +283,7 @@ type SuperAgentAction =
   | { kind: 'help' };
 
 const superAgentMemory: SuperAgentMemoryEntry[] = [];
+const superAgentPlanner = new SuperAgentPlanner();
 const superAgentEthSkills: EthSkillDigest[] = [];
 const superAgentLlmUsage: SuperAgentLlmUsage = {
   hourStamp: '',
@@ -293,6 +303,7 @@ type PersistedRuntimeState = {
     workerTargetPreference: SuperAgentConfig['workerTargetPreference'];
     llmPolicy: LlmPolicy;
     walletPolicy: WalletPolicy;
+    objectives?: SuperAgentObjectives;
   };
   superAgentMemory: SuperAgentMemoryEntry[];
   superAgentEthSkills: EthSkillDigest[];
@@ -321,6 +332,8 @@ type PersistedRuntimeState = {
     walletCounter: number;
     backgroundCounter: number;
   };
+  /** Recent game moves per opponent, used by the learning move strategies. */
+  opponentMoveHistory?: OpponentMoveHistorySnapshot;
 };
 
 let profileCounter = 1;
@@ -563,7 +576,15 @@ function createBot(id: string, displayName: string, behavior: AgentBehaviorConfi
     wsBaseUrl,
     displayName,
     walletId,
-    behavior
+    behavior,
+    moveHistory: opponentMoveHistory,
+    bankroll: () => {
+      const currentWalletId = botRegistry.get(id)?.walletId ?? walletId;
+      const wallet = currentWalletId ? wallets.get(currentWalletId) : null;
+      return wallet
+        ? { balance: wallet.balance, maxBetPercentOfBankroll: superAgentConfig.walletPolicy.maxBetPercentOfBankroll }
+        : null;
+    }
   });
   bot.start();
   return bot;
@@ -640,11 +661,33 @@ function ensureSuperAgentExists(): void {
   getOrCreateWallet('system_super');
 }
 
+function superAgentWorkerDirectives(): WorkerDirective[] {
+  const botIds = [...bots.keys()];
+  return superAgentConfig.objectives
+    ? superAgentPlanner.directives(superAgentConfig, botIds)
+    : buildWorkerDirectives(superAgentConfig, botIds);
+}
+
+/** Re-plans managed workers against the super agent objectives and logs what changed. */
+function replanSuperAgent(): void {
+  if (!superAgentConfig.objectives) {
+    return;
+  }
+  const workers = botStatuses().filter((status) => status.meta?.managedBySuperAgent && status.meta.duty !== 'npc');
+  const plan = superAgentPlanner.replan(superAgentConfig, workers, PATROL_SECTION_COUNT);
+  for (const decision of plan.decisions) {
+    rememberSuperAgent('decision', `planner: ${decision}`);
+  }
+  if (plan.decisions.length > 0) {
+    applySuperAgentDelegation();
+  }
+}
+
 function applySuperAgentDelegation(): void {
   // Super Agent owns owner-bot continuity: keep exactly one primary owner bot
   // registered + connected for each profile, then apply policy delegation.
   reconcileOwnerBotsViaSuperAgent();
-  const directives = buildWorkerDirectives(superAgentConfig, [...bots.keys()]);
+  const directives = superAgentWorkerDirectives();
   for (const directive of directives) {
     const record = botRegistry.get(directive.botId);
     if (!record) {
@@ -854,6 +897,7 @@ function runtimeStatus() {
     backgroundBotCount: backgroundBotIds.size,
     profileBotCount: statuses.filter((bot) => bot.meta?.ownerProfileId).length,
     escrowLockCount: escrowLocks.size,
+    escrowPotCount: escrowPots.size,
     recentEscrowSettlements: escrowSettlements.slice(-20),
     wsBaseUrl,
     openRouterConfigured: Boolean(runtimeSecrets.openRouterApiKey),
@@ -865,6 +909,8 @@ function runtimeStatus() {
       workerTargetPreference: superAgentConfig.workerTargetPreference,
       llmPolicy: superAgentConfig.llmPolicy,
       walletPolicy: superAgentConfig.walletPolicy,
+      objectives: superAgentConfig.objectives ?? null,
+      planner: superAgentPlanner.status(),
       brain: {
         memories: superAgentMemory.slice(-12),
         llmUsage: { ...superAgentLlmUsage },
@@ -1981,7 +2027,8 @@ function buildPersistedState(): PersistedRuntimeState {
       defaultChallengeCooldownMs: superAgentConfig.defaultChallengeCooldownMs,
       workerTargetPreference: superAgentConfig.workerTargetPreference,
       llmPolicy: superAgentConfig.llmPolicy,
-      walletPolicy: superAgentConfig.walletPolicy
+      walletPolicy: superAgentConfig.walletPolicy,
+      objectives: superAgentConfig.objectives
     },
     superAgentMemory: superAgentMemory.slice(-80),
     superAgentEthSkills: superAgentEthSkills.slice(0, 40),
@@ -2001,7 +2048,8 @@ function buildPersistedState(): PersistedRuntimeState {
       profileCounter,
       walletCounter,
       backgroundCounter
-    }
+    },
+    opponentMoveHistory: opponentMoveHistory.toJSON()
   };
 }
 
@@ -2071,6 +2119,7 @@ function applyPersistedState(data: PersistedRuntimeState, defaultSource: Subject
     if (data.superAgentConfig.walletPolicy) {
       superAgentConfig.walletPolicy = { ...superAgentConfig.walletPolicy, ...data.superAgentConfig.walletPolicy };
     }
+    superAgentConfig.objectives = parseSuperAgentObjectives(data.superAgentConfig.objectives) ?? undefined;
   }
 
   superAgentMemory.splice(0, superAgentMemory.length, ...(data.superAgentMemory || []).slice(-80));
@@ -2081,6 +2130,9 @@ function applyPersistedState(data: PersistedRuntimeState, defaultSource: Subject
     superAgentLlmUsage.dayStamp = data.superAgentLlmUsage.dayStamp || '';
     superAgentLlmUsage.tokensToday = Number(data.superAgentLlmUsage.tokensToday || 0);
   }
+  if (data.opponentMoveHistory) {
+    opponentMoveHistory.load(data.opponentMoveHistory);
+  }
 
   for (const bot of bots.values()) {
     bot.stop();
@@ -2148,7 +2200,8 @@ if (dbState) {
       defaultChallengeCooldownMs: superAgentConfig.defaultChallengeCooldownMs,
       workerTargetPreference: superAgentConfig.workerTargetPreference,
       llmPolicy: superAgentConfig.llmPolicy,
-      walletPolicy: superAgentConfig.walletPolicy
+      walletPolicy: superAgentConfig.walletPolicy,
+      objectives: superAgentConfig.objectives
     },
     superAgentMemory: superAgentMemory.slice(-80),
     superAgentEthSkills: superAgentEthSkills.slice(0, 40),
@@ -2186,6 +2239,8 @@ const npcBudgetTimer = setInterval(() => {
   applySuperAgentDelegation();
 }, Math.min(10_000, npcBudgetTickMs));
 npcBudgetTimer.unref();
+const superAgentPlanTimer = setInterval(() => replanSuperAgent(), superAgentPlanIntervalMs);
+superAgentPlanTimer.unref();
 void persistRuntimeState().catch(() => undefined);
 const autosave = setInterval(() => {
   void persistRuntimeState().catch(() => undefined);
@@ -2259,6 +2314,7 @@ registerRuntimeRoutes(router, {
     isInternalAuthorized,
     wallets,
     escrowLocks,
+    escrowPots,
     escrowSettlements,
     pushEscrowSettlement,
     pseudoTxHash,
@@ -2293,6 +2349,7 @@ registerRuntimeRoutes(router, {
     syncEthSkillsKnowledge,
     ensureSuperAgentExists,
     applySuperAgentDelegation,
+    workerDirectives: superAgentWorkerDirectives,
     schedulePersistState,
     rememberSuperAgent,
     parseSuperAgentActions,
@@ -1,6 +1,8 @@
 import { readJsonBody, sendJson, type SimpleRouter } from '../lib/http.js';
 import type { BotRecord } from '@arena/shared';
 import type { AgentBot, AgentBehaviorConfig } from '../AgentBot.js';
+import { isMoveStrategyName } from '../MoveStrategy.js';
+import { parseStakingConfig } from '../StakingModel.js';
 
 export function registerBotRoutes(router: SimpleRouter, deps: {
   bots: Map<string, AgentBot>;
@@ -32,12 +34,23 @@ export function registerBotRoutes(router: SimpleRouter, deps: {
       return;
     }
 
-    const body = await readJsonBody<Partial<AgentBehaviorConfig> & { displayName?: string; managedBySuperAgent?: boolean; autoplayEnabled?: boolean }>(req);
+    const body = await readJsonBody<Omit<Partial<AgentBehaviorConfig>, 'moveStrategy' | 'staking'> & { moveStrategy?: string | null; staking?: unknown; displayName?: string; managedBySuperAgent?: boolean; autoplayEnabled?: boolean }>(req);
     if (!body) {
       sendJson(res, { ok: false, reason: 'invalid_json' }, 400);
       return;
     }
     const patch: Partial<AgentBehaviorConfig> = {};
+    if (body.staking === null) {
+      // Back to flat `baseWager` stakes.
+      patch.staking = undefined;
+    } else if (body.staking !== undefined) {
+      const staking = parseStakingConfig(body.staking);
+      if (!staking) {
+        sendJson(res, { ok: false, reason: 'invalid_staking' }, 400);
+        return;
+      }
+      patch.staking = staking;
+    }
     if (body.personality === 'aggressive' || body.personality === 'social' || body.personality === 'conservative') {
       patch.personality = body.personality;
     }
@@ -59,6 +72,12 @@ export function registerBotRoutes(router: SimpleRouter, deps: {
     if (typeof body.maxWager === 'number') {
       patch.maxWager = Math.max(1, Math.min(100, Math.floor(body.maxWager)));
     }
+    if (isMoveStrategyName(body.moveStrategy)) {
+      patch.moveStrategy = body.moveStrategy;
+    } else if (body.moveStrategy === null) {
+      // Back to the personality default.
+      patch.moveStrategy = undefined;
+    }
     if (typeof patch.baseWager === 'number' && typeof patch.maxWager === 'number' && patch.maxWager < patch.baseWager) {
       patch.maxWager = patch.baseWager;
     } else if (typeof patch.baseWager === 'number' && typeof patch.maxWager !== 'number') {
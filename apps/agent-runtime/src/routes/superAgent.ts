@@ -1,9 +1,10 @@
 import { readJsonBody, sendJson, type SimpleRouter } from '../lib/http.js';
 import {
-  buildWorkerDirectives,
+  parseSuperAgentObjectives,
   type LlmPolicy,
   type SuperAgentConfig,
-  type WalletPolicy
+  type WalletPolicy,
+  type WorkerDirective
 } from '../SuperAgent.js';
 
 export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
@@ -17,6 +18,8 @@ export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
   syncEthSkillsKnowledge: (force: boolean) => Promise<{ ok: boolean; refreshed: number; reason?: string }>;
   ensureSuperAgentExists: () => void;
   applySuperAgentDelegation: () => void;
+  /** Planner directives when objectives are set, otherwise the mode preset. */
+  workerDirectives: () => WorkerDirective[];
   schedulePersistState: () => void;
   rememberSuperAgent: (type: 'command' | 'decision' | 'system', message: string) => void;
   parseSuperAgentActions: (message: string) => Array<{ kind: string; value?: unknown }>;
@@ -50,6 +53,7 @@ export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
       workerTargetPreference: SuperAgentConfig['workerTargetPreference'];
       llmPolicy: Partial<LlmPolicy>;
       walletPolicy: Partial<WalletPolicy>;
+      objectives: unknown;
     }>;
 
     const body = await readJsonBody<Patch>(req);
@@ -58,6 +62,15 @@ export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
       return;
     }
 
+    // `objectives: null` hands workers back to the static mode preset.
+    const objectives = body.objectives === undefined || body.objectives === null
+      ? null
+      : parseSuperAgentObjectives(body.objectives);
+    if (body.objectives !== undefined && body.objectives !== null && !objectives) {
+      sendJson(res, { ok: false, reason: 'invalid_objectives' }, 400);
+      return;
+    }
+
     if (typeof body.id === 'string' && body.id.trim().length > 0) {
       deps.superAgentConfig.id = body.id.trim();
     }
@@ -79,6 +92,12 @@ export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
     if (body.walletPolicy) {
       deps.superAgentConfig.walletPolicy = { ...deps.superAgentConfig.walletPolicy, ...body.walletPolicy };
     }
+    if (body.objectives !== undefined) {
+      deps.superAgentConfig.objectives = objectives ?? undefined;
+      deps.rememberSuperAgent('decision', objectives
+        ? `objectives set to ${JSON.stringify(objectives)}`
+        : 'objectives cleared, back to mode presets');
+    }
 
     deps.ensureSuperAgentExists();
     deps.applySuperAgentDelegation();
@@ -92,7 +111,7 @@ export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
     deps.schedulePersistState();
     sendJson(res, {
       ok: true,
-      directivesApplied: buildWorkerDirectives(deps.superAgentConfig, [...deps.bots.keys()]).length,
+      directivesApplied: deps.workerDirectives().length,
       superAgent: deps.runtimeStatus().superAgent
     });
   });
@@ -100,7 +119,7 @@ export function registerSuperAgentRoutes(router: SimpleRouter, deps: {
   router.get('/super-agent/delegate/preview', (_req, res) => {
     sendJson(res, {
       superAgentId: deps.superAgentConfig.id,
-      directives: buildWorkerDirectives(deps.superAgentConfig, [...deps.bots.keys()])
+      directives: deps.workerDirectives()
     });
   });
 
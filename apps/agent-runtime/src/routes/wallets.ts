@@ -1,6 +1,9 @@
 import { Contract, Interface, formatEther, formatUnits, id, parseUnits, zeroPadValue } from 'ethers';
 import { readJsonBody, sendJson, type SimpleRouter } from '../lib/http.js';
-import type { EscrowLockRecord, WalletDenied, WalletRecord } from '@arena/shared';
+import type { EscrowLockRecord, EscrowPotRecord, WalletDenied, WalletRecord } from '@arena/shared';
+
+// Mirrors BettingEscrow.MAX_POT_PARTICIPANTS.
+const MAX_POT_PARTICIPANTS = 64;
 
 type Erc20Api = Contract & {
   transfer: (to: string, amount: bigint) => Promise<{ hash?: string; wait: () => Promise<unknown> }>;
@@ -11,6 +14,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
   isInternalAuthorized: (req: import('node:http').IncomingMessage) => boolean;
   wallets: Map<string, WalletRecord>;
   escrowLocks: Map<string, EscrowLockRecord>;
+  escrowPots: Map<string, EscrowPotRecord>;
   escrowSettlements: Array<import('@arena/shared').EscrowSettlementRecord>;
   pushEscrowSettlement: (entry: import('@arena/shared').EscrowSettlementRecord) => void;
   pseudoTxHash: (kind: 'lock' | 'resolve' | 'refund', challengeId: string) => string;
@@ -64,8 +68,14 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
   ]);
   const escrowTxInterface = new Interface([
     'function createBet(bytes32 betId, address challenger, address opponent, uint256 amount)',
+    'function createBetAsymmetric(bytes32 betId, address a, address b, uint256 amountA, uint256 amountB)',
     'function resolveBet(bytes32 betId, address winner)',
     'function refundBet(bytes32 betId)',
+    'function contributeToPot(bytes32 potId, address participant, uint256 amount)',
+    'function resolvePot(bytes32 potId, address[] winners, uint256[] weights)',
+    'function refundPot(bytes32 potId)',
+    'function claimRefundAfterDeadline(bytes32 betId)',
+    'function claimPotRefundAfterDeadline(bytes32 potId)',
     'function createOracleBet(bytes32 betId, bytes32 marketId, bool isUp, uint256 amount, uint256 resolveAfter)',
     'function resolveBetFromOracle(bytes32 betId)',
     'function setFeeConfig(address recipient, uint16 bps)'
@@ -155,20 +165,25 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
     const body = await readJsonBody<{
       walletIds?: string[];
       amount?: number;
+      // Per-wallet stakes for asymmetric bets, index-aligned with walletIds.
+      amounts?: number[];
     }>(req);
 
     const walletIds = Array.isArray(body?.walletIds)
       ? body.walletIds.map((entry) => String(entry || '').trim()).filter(Boolean)
       : [];
     const amount = Math.max(0, Number(body?.amount ?? 0));
-    if (walletIds.length === 0 || amount <= 0) {
+    const amounts = walletIds.map((_, index) => (
+      Array.isArray(body?.amounts) ? Math.max(0, Number(body.amounts[index] ?? amount)) : amount
+    ));
+    if (walletIds.length === 0 || amounts.some((entry) => !Number.isFinite(entry) || entry <= 0)) {
       sendJson(res, { ok: false, reason: 'invalid_prepare_payload' }, 400);
       return;
     }
 
     const results = [] as Array<Awaited<ReturnType<typeof deps.prepareWalletForEscrowOnchain>>>;
-    for (const walletId of walletIds) {
-      results.push(await deps.prepareWalletForEscrowOnchain(walletId, amount));
+    for (const [index, walletId] of walletIds.entries()) {
+      results.push(await deps.prepareWalletForEscrowOnchain(walletId, amounts[index] ?? amount));
     }
 
     const failed = results.filter((entry) => !entry.ok);
@@ -697,14 +712,24 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       challengerWalletId?: string;
       opponentWalletId?: string;
       amount?: number;
+      opponentAmount?: number;
     }>(req);
 
     const challengeId = body?.challengeId?.trim() ?? '';
     const challengerWalletId = body?.challengerWalletId?.trim() ?? '';
     const opponentWalletId = body?.opponentWalletId?.trim() ?? '';
     const amount = Number(body?.amount ?? 0);
+    const opponentAmount = Number(body?.opponentAmount ?? amount);
 
-    if (!challengeId || !challengerWalletId || !opponentWalletId || !Number.isFinite(amount) || amount <= 0) {
+    if (
+      !challengeId
+      || !challengerWalletId
+      || !opponentWalletId
+      || !Number.isFinite(amount)
+      || amount <= 0
+      || !Number.isFinite(opponentAmount)
+      || opponentAmount <= 0
+    ) {
       sendJson(res, { ok: false, reason: 'invalid_escrow_payload' }, 400);
       return;
     }
@@ -733,7 +758,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
     }
     const isHouseManagedOpponent = opponent.ownerProfileId.startsWith('system_');
     const isHouseWalletOpponent = opponent.ownerProfileId === 'system_house';
-    let opponentDenied = deps.canLockStake(opponent, amount);
+    let opponentDenied = deps.canLockStake(opponent, opponentAmount);
     let houseTopupAmount = 0;
 
     // House-managed wallets should not reject wagers because an NPC wallet is dry.
@@ -742,7 +767,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       && isHouseManagedOpponent
       && opponent.ownerProfileId !== 'system_house'
     ) {
-      const needed = Math.max(0, amount - opponent.balance);
+      const needed = Math.max(0, opponentAmount - opponent.balance);
       if (needed > 0) {
         const topup = deps.transferFromHouse(opponent.id, needed, `escrow_topup:${challengeId}`);
         if (!topup.ok) {
@@ -751,13 +776,13 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
         }
         houseTopupAmount = topup.amount;
       }
-      opponentDenied = deps.canLockStake(opponent, amount);
+      opponentDenied = deps.canLockStake(opponent, opponentAmount);
     }
 
     // Dealer bets against the house should always be coverable in testnet/runtime mode.
     // If the house wallet itself is short, refill and retry lock once.
     if (opponentDenied?.reason === 'insufficient_balance' && isHouseWalletOpponent) {
-      const needed = Math.max(0, amount - opponent.balance);
+      const needed = Math.max(0, opponentAmount - opponent.balance);
       if (needed > 0) {
         const refill = deps.refillHouse(needed, `escrow_house_cover:${challengeId}`);
         if (!refill.ok) {
@@ -766,7 +791,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
         }
         houseTopupAmount = refill.amount;
       }
-      opponentDenied = deps.canLockStake(opponent, amount);
+      opponentDenied = deps.canLockStake(opponent, opponentAmount);
     }
 
     // Max-bet bankroll cap is for player safety; house-managed opponents can take larger bets.
@@ -780,7 +805,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
     }
 
     challenger.balance -= amount;
-    opponent.balance -= amount;
+    opponent.balance -= opponentAmount;
     challenger.dailyTxCount += 1;
     opponent.dailyTxCount += 1;
     challenger.lastTxAt = Date.now();
@@ -791,6 +816,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       challengerWalletId,
       opponentWalletId,
       amount,
+      opponentAmount: opponentAmount !== amount ? opponentAmount : undefined,
       createdAt: Date.now(),
       lockTxHash: deps.pseudoTxHash('lock', challengeId)
     };
@@ -839,7 +865,8 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       return;
     }
 
-    const pot = lock.amount * 2;
+    const opponentAmount = lock.opponentAmount ?? lock.amount;
+    const pot = lock.amount + opponentAmount;
     const fee = (pot * feeBps) / 10000;
     const payout = pot - fee;
     const txHash = deps.pseudoTxHash('resolve', challengeId);
@@ -854,6 +881,7 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       opponentWalletId: lock.opponentWalletId,
       winnerWalletId,
       amount: lock.amount,
+      opponentAmount: lock.opponentAmount,
       fee,
       payout,
       txHash,
@@ -885,8 +913,9 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       return;
     }
 
+    const opponentAmount = lock.opponentAmount ?? lock.amount;
     challenger.balance += lock.amount;
-    opponent.balance += lock.amount;
+    opponent.balance += opponentAmount;
     challenger.lastTxAt = Date.now();
     opponent.lastTxAt = Date.now();
     const txHash = deps.pseudoTxHash('refund', challengeId);
@@ -898,8 +927,9 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
       opponentWalletId: lock.opponentWalletId,
       winnerWalletId: null,
       amount: lock.amount,
+      opponentAmount: lock.opponentAmount,
       fee: 0,
-      payout: lock.amount * 2,
+      payout: lock.amount + opponentAmount,
       txHash,
       at: Date.now()
     });
@@ -908,6 +938,132 @@ export function registerWalletRoutes(router: SimpleRouter, deps: {
     deps.schedulePersistState();
   });
 
+  router.post('/wallets/escrow/pot/contribute', async (req, res) => {
+    const body = await readJsonBody<{ potId?: string; walletId?: string; amount?: number }>(req);
+    const potId = body?.potId?.trim() ?? '';
+    const walletId = body?.walletId?.trim() ?? '';
+    const amount = Number(body?.amount ?? 0);
+    if (!potId || !walletId || !Number.isFinite(amount) || amount <= 0) {
+      sendJson(res, { ok: false, reason: 'invalid_pot_payload' }, 400);
+      return;
+    }
+
+    const wallet = deps.wallets.get(walletId);
+    if (!wallet) {
+      sendJson(res, { ok: false, reason: 'wallet_not_found' }, 404);
+      return;
+    }
+    const pot = deps.escrowPots.get(potId) ?? {
+      potId,
+      contributions: {},
+      total: 0,
+      createdAt: Date.now(),
+      lockTxHash: deps.pseudoTxHash('lock', `pot:${potId}`)
+    };
+    if (!(walletId in pot.contributions) && Object.keys(pot.contributions).length >= MAX_POT_PARTICIPANTS) {
+      sendJson(res, { ok: false, reason: 'pot_full' }, 400);
+      return;
+    }
+    const denied = deps.canLockStake(wallet, amount);
+    if (denied) {
+      sendJson(res, { ok: false, reason: denied.reason }, 403);
+      return;
+    }
+
+    wallet.balance -= amount;
+    wallet.dailyTxCount += 1;
+    wallet.lastTxAt = Date.now();
+    pot.contributions[walletId] = (pot.contributions[walletId] ?? 0) + amount;
+    pot.total += amount;
+    deps.escrowPots.set(potId, pot);
+
+    sendJson(res, { ok: true, potId, pot, txHash: pot.lockTxHash, wallet: deps.walletSummary(wallet) });
+    deps.schedulePersistState();
+  });
+
+  router.post('/wallets/escrow/pot/resolve', async (req, res) => {
+    const body = await readJsonBody<{
+      potId?: string;
+      winners?: Array<{ walletId?: string; weight?: number }>;
+      feeBps?: number;
+    }>(req);
+    const potId = body?.potId?.trim() ?? '';
+    const feeBps = Math.max(0, Math.min(10000, Number(body?.feeBps ?? 0)));
+    if (!potId) {
+      sendJson(res, { ok: false, reason: 'pot_id_required' }, 400);
+      return;
+    }
+    const pot = deps.escrowPots.get(potId);
+    if (!pot) {
+      sendJson(res, { ok: false, reason: 'escrow_not_found' }, 404);
+      return;
+    }
+
+    const winners = (Array.isArray(body?.winners) ? body.winners : []).map((entry) => ({
+      walletId: String(entry?.walletId ?? '').trim(),
+      weight: Number(entry?.weight ?? 0)
+    }));
+    if (winners.length === 0 || winners.some((entry) => !Number.isFinite(entry.weight) || entry.weight <= 0)) {
+      sendJson(res, { ok: false, reason: 'invalid_pot_weights' }, 400);
+      return;
+    }
+    if (winners.some((entry) => !(entry.walletId in pot.contributions))) {
+      sendJson(res, { ok: false, reason: 'winner_wallet_not_participant' }, 400);
+      return;
+    }
+    if (winners.some((entry) => !deps.wallets.has(entry.walletId))) {
+      sendJson(res, { ok: false, reason: 'wallet_not_found' }, 404);
+      return;
+    }
+
+    // Same split as BettingEscrow.resolvePot: rounding dust goes to the last winner.
+    const fee = (pot.total * feeBps) / 10000;
+    const distributable = pot.total - fee;
+    const totalWeight = winners.reduce((sum, entry) => sum + entry.weight, 0);
+    let paid = 0;
+    const payouts = winners.map((entry, index) => {
+      const payout = index === winners.length - 1
+        ? distributable - paid
+        : Number((distributable * entry.weight / totalWeight).toFixed(6));
+      paid += payout;
+      const wallet = deps.wallets.get(entry.walletId)!;
+      wallet.balance += payout;
+      wallet.dailyTxCount += 1;
+      wallet.lastTxAt = Date.now();
+      return { walletId: entry.walletId, payout };
+    });
+    deps.escrowPots.delete(potId);
+
+    sendJson(res, { ok: true, potId, fee, payouts, txHash: deps.pseudoTxHash('resolve', `pot:${potId}`) });
+    deps.schedulePersistState();
+  });
+
+  router.post('/wallets/escrow/pot/refund', async (req, res) => {
+    const body = await readJsonBody<{ potId?: string }>(req);
+    const potId = body?.potId?.trim() ?? '';
+    if (!potId) {
+      sendJson(res, { ok: false, reason: 'pot_id_required' }, 400);
+      return;
+    }
+    const pot = deps.escrowPots.get(potId);
+    if (!pot) {
+      sendJson(res, { ok: false, reason: 'escrow_not_found' }, 404);
+      return;
+    }
+
+    for (const [walletId, amount] of Object.entries(pot.contributions)) {
+      const wallet = deps.wallets.get(walletId);
+      if (wallet) {
+        wallet.balance += amount;
+        wallet.lastTxAt = Date.now();
+      }
+    }
+    deps.escrowPots.delete(potId);
+
+    sendJson(res, { ok: true, potId, refunded: pot.contributions, txHash: deps.pseudoTxHash('refund', `pot:${potId}`) });
+    deps.schedulePersistState();
+  });
+
   router.get('/wallets/escrow/history', (req, res) => {
     const url = new URL(req.url ?? '/wallets/escrow/history', 'http://localhost');
     const limit = Math.max(1, Math.min(200, Number(url.searchParams.get('limit') ?? 60)));
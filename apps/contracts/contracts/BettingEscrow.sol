@@ -4,9 +4,19 @@ pragma solidity ^0.8.24;
 import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {IERC1271} from "@openzeppelin/contracts/interfaces/IERC1271.sol";
 
-contract BettingEscrow is AccessControl, ReentrancyGuard {
+contract BettingEscrow is AccessControl, ReentrancyGuard, EIP712 {
     bytes32 public constant RESOLVER_ROLE = keccak256("RESOLVER_ROLE");
+    // A player's consent to stake `amount` against `counterparty` on `betId`, signed as EIP-712 typed data.
+    bytes32 public constant BET_INTENT_TYPEHASH =
+        keccak256("BetIntent(bytes32 betId,address counterparty,uint256 amount,uint256 expiry)");
+    // Bounds the payout and refund loops of a pot.
+    uint256 public constant MAX_POT_PARTICIPANTS = 64;
+    uint64 public constant MIN_REFUND_TIMEOUT = 1 hours;
+    uint64 public constant MAX_REFUND_TIMEOUT = 30 days;
 
     enum BetStatus {
         None,
@@ -20,18 +30,46 @@ contract BettingEscrow is AccessControl, ReentrancyGuard {
         address opponent;
         uint256 amount;
         BetStatus status;
+        // Opponent's stake; equals `amount` except for odds-priced bets.
+        uint256 opponentAmount;
+        // After this anyone may refund a still-locked bet, so a lost resolver key cannot strand funds.
+        uint64 refundDeadline;
+    }
+
+    /// @dev Multi-party pot for tournaments, pools and parimutuel markets; uses the `BetStatus` lifecycle.
+    struct Pot {
+        uint256 total;
+        BetStatus status;
+        address[] participants;
+        uint64 refundDeadline;
     }
 
     IERC20 public immutable token;
     address public feeRecipient;
     uint16 public feeBps;
+    // Applied at creation; changing it does not move the deadline of existing bets.
+    uint64 public refundTimeout = 1 days;
 
     mapping(bytes32 => Bet) public bets;
+    mapping(bytes32 => Pot) private pots;
+    mapping(bytes32 => mapping(address => uint256)) public potContributions;
 
     event BetCreated(bytes32 indexed betId, address indexed challenger, address indexed opponent, uint256 amount);
+    event AsymmetricBetCreated(
+        bytes32 indexed betId,
+        address indexed challenger,
+        address indexed opponent,
+        uint256 challengerAmount,
+        uint256 opponentAmount
+    );
     event BetResolved(bytes32 indexed betId, address indexed winner, uint256 payout, uint256 fee);
     event BetRefunded(bytes32 indexed betId);
+    event PotContribution(bytes32 indexed potId, address indexed participant, uint256 amount, uint256 total);
+    event PotPayout(bytes32 indexed potId, address indexed winner, uint256 amount);
+    event PotResolved(bytes32 indexed potId, uint256 payout, uint256 fee);
+    event PotRefunded(bytes32 indexed potId);
     event FeeConfigUpdated(address indexed feeRecipient, uint16 feeBps);
+    event RefundTimeoutUpdated(uint64 refundTimeout);
 
     error InvalidAddress();
     error InvalidAmount();
@@ -39,8 +77,20 @@ contract BettingEscrow is AccessControl, ReentrancyGuard {
     error BetAlreadyExists();
     error BetNotLocked();
     error WinnerNotParticipant();
+    error PotFull();
+    error InvalidWeights();
+    error InvalidRefundTimeout();
+    error DeadlineNotReached(uint64 deadline);
+    error IntentExpired();
+    error InvalidSignature(address player);
 
-    constructor(address admin, address resolver, address tokenAddress, address feeRecipientAddress, uint16 feeBpsValue) {
+    constructor(
+        address admin,
+        address resolver,
+        address tokenAddress,
+        address feeRecipientAddress,
+        uint16 feeBpsValue
+    ) EIP712("BettingEscrow", "1") {
         if (admin == address(0) || resolver == address(0) || tokenAddress == address(0) || feeRecipientAddress == address(0)) {
             revert InvalidAddress();
         }
@@ -68,28 +118,71 @@ contract BettingEscrow is AccessControl, ReentrancyGuard {
         emit FeeConfigUpdated(recipient, bps);
     }
 
-    function createBet(bytes32 betId, address challenger, address opponent, uint256 amount) external nonReentrant {
-        if (challenger == address(0) || opponent == address(0)) {
-            revert InvalidAddress();
-        }
-        if (amount == 0) {
-            revert InvalidAmount();
-        }
-        if (bets[betId].status != BetStatus.None) {
-            revert BetAlreadyExists();
+    function setRefundTimeout(uint64 timeout) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (timeout < MIN_REFUND_TIMEOUT || timeout > MAX_REFUND_TIMEOUT) {
+            revert InvalidRefundTimeout();
         }
+        refundTimeout = timeout;
+        emit RefundTimeoutUpdated(timeout);
+    }
 
-        bets[betId] = Bet({
-            challenger: challenger,
-            opponent: opponent,
-            amount: amount,
-            status: BetStatus.Locked
-        });
+    /// @notice Pulls both stakes on the runtime's say-so; external wallets go through `createBetWithSig`.
+    function createBet(
+        bytes32 betId,
+        address challenger,
+        address opponent,
+        uint256 amount
+    ) external onlyRole(RESOLVER_ROLE) nonReentrant {
+        _lockBet(betId, challenger, opponent, amount, amount);
+        emit BetCreated(betId, challenger, opponent, amount);
+    }
 
-        require(token.transferFrom(challenger, address(this), amount), "challenger_transfer_failed");
-        require(token.transferFrom(opponent, address(this), amount), "opponent_transfer_failed");
+    /// @notice Locks unequal stakes, e.g. a 3:1 odds wager where `a` puts up 1 and `b` puts up 3.
+    function createBetAsymmetric(
+        bytes32 betId,
+        address a,
+        address b,
+        uint256 amountA,
+        uint256 amountB
+    ) external onlyRole(RESOLVER_ROLE) nonReentrant {
+        _lockBet(betId, a, b, amountA, amountB);
+        emit AsymmetricBetCreated(betId, a, b, amountA, amountB);
+    }
 
-        emit BetCreated(betId, challenger, opponent, amount);
+    /// @notice Locks a bet on the players' signed `BetIntent`s, so external wallets consent to the exact wager.
+    /// Smart-contract wallets sign through ERC-1271. An empty signature marks a custodial side whose
+    /// consent is the runtime's token approval; only a resolver may relay those.
+    function createBetWithSig(
+        bytes32 betId,
+        address challenger,
+        address opponent,
+        uint256 challengerAmount,
+        uint256 opponentAmount,
+        uint256 expiry,
+        bytes calldata challengerSig,
+        bytes calldata opponentSig
+    ) external nonReentrant {
+        if (block.timestamp > expiry) {
+            revert IntentExpired();
+        }
+        _checkIntent(betId, challenger, opponent, challengerAmount, expiry, challengerSig);
+        _checkIntent(betId, opponent, challenger, opponentAmount, expiry, opponentSig);
+        _lockBet(betId, challenger, opponent, challengerAmount, opponentAmount);
+        if (challengerAmount == opponentAmount) {
+            emit BetCreated(betId, challenger, opponent, challengerAmount);
+        } else {
+            emit AsymmetricBetCreated(betId, challenger, opponent, challengerAmount, opponentAmount);
+        }
+    }
+
+    /// @notice EIP-712 digest a player signs to consent to a bet.
+    function hashBetIntent(
+        bytes32 betId,
+        address counterparty,
+        uint256 amount,
+        uint256 expiry
+    ) public view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(BET_INTENT_TYPEHASH, betId, counterparty, amount, expiry)));
     }
 
     function resolveBet(bytes32 betId, address winner) external onlyRole(RESOLVER_ROLE) nonReentrant {
@@ -103,7 +196,7 @@ contract BettingEscrow is AccessControl, ReentrancyGuard {
 
         bet.status = BetStatus.Resolved;
 
-        uint256 pot = bet.amount * 2;
+        uint256 pot = bet.amount + bet.opponentAmount;
         uint256 fee = (pot * feeBps) / 10_000;
         uint256 payout = pot - fee;
 
@@ -116,15 +209,206 @@ contract BettingEscrow is AccessControl, ReentrancyGuard {
     }
 
     function refundBet(bytes32 betId) external onlyRole(RESOLVER_ROLE) nonReentrant {
+        _refundBet(betId, bets[betId]);
+    }
+
+    /// @notice Permissionless refund of a bet the resolver never settled, once its deadline has passed.
+    function claimRefundAfterDeadline(bytes32 betId) external nonReentrant {
         Bet storage bet = bets[betId];
+        if (bet.status == BetStatus.Locked && block.timestamp < bet.refundDeadline) {
+            revert DeadlineNotReached(bet.refundDeadline);
+        }
+        _refundBet(betId, bet);
+    }
+
+    /// @notice Adds `amount` from `participant` to a pot, opening it on the first contribution.
+    /// Repeat contributions top up a participant's stake. Pot ids are predictable and a pot seats
+    /// at most 64 participants, so only a resolver may open one or add anyone to it.
+    function contributeToPot(
+        bytes32 potId,
+        address participant,
+        uint256 amount
+    ) external onlyRole(RESOLVER_ROLE) nonReentrant {
+        if (participant == address(0)) {
+            revert InvalidAddress();
+        }
+        if (amount == 0) {
+            revert InvalidAmount();
+        }
+        Pot storage pot = pots[potId];
+        if (pot.status == BetStatus.None) {
+            pot.status = BetStatus.Locked;
+            pot.refundDeadline = uint64(block.timestamp) + refundTimeout;
+        } else if (pot.status != BetStatus.Locked) {
+            revert BetNotLocked();
+        }
+        if (potContributions[potId][participant] == 0) {
+            if (pot.participants.length >= MAX_POT_PARTICIPANTS) {
+                revert PotFull();
+            }
+            pot.participants.push(participant);
+        }
+
+        potContributions[potId][participant] += amount;
+        pot.total += amount;
+
+        require(token.transferFrom(participant, address(this), amount), "pot_transfer_failed");
+
+        emit PotContribution(potId, participant, amount, pot.total);
+    }
+
+    /// @notice Splits the pot minus the fee across `winners` in proportion to `weights`.
+    /// Rounding dust goes to the last winner so the pot always empties.
+    function resolvePot(
+        bytes32 potId,
+        address[] calldata winners,
+        uint256[] calldata weights
+    ) external onlyRole(RESOLVER_ROLE) nonReentrant {
+        Pot storage pot = pots[potId];
+        if (pot.status != BetStatus.Locked) {
+            revert BetNotLocked();
+        }
+        if (winners.length == 0 || winners.length != weights.length) {
+            revert InvalidWeights();
+        }
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < winners.length; i++) {
+            if (potContributions[potId][winners[i]] == 0) {
+                revert WinnerNotParticipant();
+            }
+            if (weights[i] == 0) {
+                revert InvalidWeights();
+            }
+            totalWeight += weights[i];
+        }
+
+        pot.status = BetStatus.Resolved;
+
+        uint256 fee = (pot.total * feeBps) / 10_000;
+        uint256 distributable = pot.total - fee;
+
+        if (fee > 0) {
+            require(token.transfer(feeRecipient, fee), "fee_transfer_failed");
+        }
+        uint256 paid = 0;
+        for (uint256 i = 0; i < winners.length; i++) {
+            uint256 share = i == winners.length - 1
+                ? distributable - paid
+                : (distributable * weights[i]) / totalWeight;
+            paid += share;
+            if (share > 0) {
+                require(token.transfer(winners[i], share), "winner_transfer_failed");
+            }
+            emit PotPayout(potId, winners[i], share);
+        }
+
+        emit PotResolved(potId, distributable, fee);
+    }
+
+    function refundPot(bytes32 potId) external onlyRole(RESOLVER_ROLE) nonReentrant {
+        _refundPot(potId, pots[potId]);
+    }
+
+    /// @notice Permissionless refund of every contribution once the pot's deadline has passed.
+    function claimPotRefundAfterDeadline(bytes32 potId) external nonReentrant {
+        Pot storage pot = pots[potId];
+        if (pot.status == BetStatus.Locked && block.timestamp < pot.refundDeadline) {
+            revert DeadlineNotReached(pot.refundDeadline);
+        }
+        _refundPot(potId, pot);
+    }
+
+    function getPot(bytes32 potId)
+        external
+        view
+        returns (uint256 total, BetStatus status, address[] memory participants, uint64 refundDeadline)
+    {
+        Pot storage pot = pots[potId];
+        return (pot.total, pot.status, pot.participants, pot.refundDeadline);
+    }
+
+    function _lockBet(
+        bytes32 betId,
+        address challenger,
+        address opponent,
+        uint256 challengerAmount,
+        uint256 opponentAmount
+    ) private {
+        if (challenger == address(0) || opponent == address(0)) {
+            revert InvalidAddress();
+        }
+        if (challengerAmount == 0 || opponentAmount == 0) {
+            revert InvalidAmount();
+        }
+        if (bets[betId].status != BetStatus.None) {
+            revert BetAlreadyExists();
+        }
+
+        bets[betId] = Bet({
+            challenger: challenger,
+            opponent: opponent,
+            amount: challengerAmount,
+            status: BetStatus.Locked,
+            opponentAmount: opponentAmount,
+            refundDeadline: uint64(block.timestamp) + refundTimeout
+        });
+
+        require(token.transferFrom(challenger, address(this), challengerAmount), "challenger_transfer_failed");
+        require(token.transferFrom(opponent, address(this), opponentAmount), "opponent_transfer_failed");
+    }
+
+    function _checkIntent(
+        bytes32 betId,
+        address player,
+        address counterparty,
+        uint256 amount,
+        uint256 expiry,
+        bytes calldata signature
+    ) private view {
+        if (signature.length == 0) {
+            if (!hasRole(RESOLVER_ROLE, msg.sender)) {
+                revert InvalidSignature(player);
+            }
+            return;
+        }
+        bytes32 digest = hashBetIntent(betId, counterparty, amount, expiry);
+        bool valid;
+        if (player.code.length > 0) {
+            try IERC1271(player).isValidSignature(digest, signature) returns (bytes4 magic) {
+                valid = magic == IERC1271.isValidSignature.selector;
+            } catch {}
+        } else {
+            (address recovered, ECDSA.RecoverError recoverError, ) = ECDSA.tryRecover(digest, signature);
+            valid = recoverError == ECDSA.RecoverError.NoError && recovered == player;
+        }
+        if (!valid) {
+            revert InvalidSignature(player);
+        }
+    }
+
+    function _refundBet(bytes32 betId, Bet storage bet) private {
         if (bet.status != BetStatus.Locked) {
             revert BetNotLocked();
         }
 
         bet.status = BetStatus.Refunded;
         require(token.transfer(bet.challenger, bet.amount), "challenger_refund_failed");
-        require(token.transfer(bet.opponent, bet.amount), "opponent_refund_failed");
+        require(token.transfer(bet.opponent, bet.opponentAmount), "opponent_refund_failed");
 
         emit BetRefunded(betId);
     }
+
+    function _refundPot(bytes32 potId, Pot storage pot) private {
+        if (pot.status != BetStatus.Locked) {
+            revert BetNotLocked();
+        }
+
+        pot.status = BetStatus.Refunded;
+        for (uint256 i = 0; i < pot.participants.length; i++) {
+            address participant = pot.participants[i];
+            require(token.transfer(participant, potContributions[potId][participant]), "pot_refund_failed");
+        }
+
+        emit PotRefunded(potId);
+    }
 }
@@ -1,3 +1,4 @@
+import { time } from '@nomicfoundation/hardhat-toolbox/network-helpers';
 import { expect } from 'chai';
 import { ethers } from 'hardhat';
 import { describe } from 'mocha';
@@ -31,7 +32,7 @@ describe('BettingEscrow', () => {
     await token.connect(opponent).approve(await escrow.getAddress(), amount);
 
     const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-1'));
-    await escrow.createBet(betId, challenger.address, opponent.address, amount);
+    await escrow.connect(resolver).createBet(betId, challenger.address, opponent.address, amount);
 
     await escrow.connect(resolver).resolveBet(betId, challenger.address);
 
@@ -64,11 +65,412 @@ describe('BettingEscrow', () => {
     await token.connect(opponent).approve(await escrow.getAddress(), amount);
 
     const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-2'));
-    await escrow.createBet(betId, challenger.address, opponent.address, amount);
+    await escrow.connect(resolver).createBet(betId, challenger.address, opponent.address, amount);
 
     await escrow.connect(resolver).refundBet(betId);
 
     expect(await token.balanceOf(challenger.address)).to.equal(amount);
     expect(await token.balanceOf(opponent.address)).to.equal(amount);
   });
+
+  it('pays the whole unequal pot to the winner of an asymmetric bet', async () => {
+    const [admin, resolver, challenger, opponent, feeRecipient] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      500
+    );
+
+    // 3:1 odds: the challenger risks 1 to win 3.
+    const challengerAmount = 1_000_000n;
+    const opponentAmount = 3_000_000n;
+    await token.mint(challenger.address, challengerAmount);
+    await token.mint(opponent.address, opponentAmount);
+
+    await token.connect(challenger).approve(await escrow.getAddress(), challengerAmount);
+    await token.connect(opponent).approve(await escrow.getAddress(), opponentAmount);
+
+    const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-3'));
+    await expect(escrow.connect(resolver).createBetAsymmetric(betId, challenger.address, opponent.address, challengerAmount, 0n))
+      .to.be.revertedWithCustomError(escrow, 'InvalidAmount');
+    await expect(escrow.connect(resolver).createBetAsymmetric(betId, challenger.address, opponent.address, challengerAmount, opponentAmount))
+      .to.emit(escrow, 'AsymmetricBetCreated')
+      .withArgs(betId, challenger.address, opponent.address, challengerAmount, opponentAmount);
+
+    await escrow.connect(resolver).resolveBet(betId, challenger.address);
+
+    expect(await token.balanceOf(feeRecipient.address)).to.equal(200_000n);
+    expect(await token.balanceOf(challenger.address)).to.equal(3_800_000n);
+    expect(await token.balanceOf(opponent.address)).to.equal(0n);
+  });
+
+  it('refunds each side its own stake of an asymmetric bet', async () => {
+    const [admin, resolver, challenger, opponent, feeRecipient] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      500
+    );
+
+    const challengerAmount = 250_000n;
+    const opponentAmount = 750_000n;
+    await token.mint(challenger.address, challengerAmount);
+    await token.mint(opponent.address, opponentAmount);
+
+    await token.connect(challenger).approve(await escrow.getAddress(), challengerAmount);
+    await token.connect(opponent).approve(await escrow.getAddress(), opponentAmount);
+
+    const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-4'));
+    await escrow.connect(resolver).createBetAsymmetric(betId, challenger.address, opponent.address, challengerAmount, opponentAmount);
+
+    await escrow.connect(resolver).refundBet(betId);
+
+    expect(await token.balanceOf(challenger.address)).to.equal(challengerAmount);
+    expect(await token.balanceOf(opponent.address)).to.equal(opponentAmount);
+    expect(await token.balanceOf(await escrow.getAddress())).to.equal(0n);
+  });
+
+  it('splits a multi-party pot across weighted winners after the fee', async () => {
+    const [admin, resolver, alice, bob, carol, feeRecipient] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      500
+    );
+
+    const potId = ethers.keccak256(ethers.toUtf8Bytes('pot-1'));
+    for (const [player, amount] of [[alice, 1_000_000n], [bob, 3_000_000n], [carol, 6_000_000n]] as const) {
+      await token.mint(player.address, amount);
+      await token.connect(player).approve(await escrow.getAddress(), amount);
+    }
+
+    await escrow.connect(resolver).contributeToPot(potId, alice.address, 1_000_000n);
+    await escrow.connect(resolver).contributeToPot(potId, bob.address, 3_000_000n);
+    await expect(escrow.connect(resolver).contributeToPot(potId, carol.address, 6_000_000n))
+      .to.emit(escrow, 'PotContribution')
+      .withArgs(potId, carol.address, 6_000_000n, 10_000_000n);
+
+    const [total, , participants] = await escrow.getPot(potId);
+    expect(total).to.equal(10_000_000n);
+    expect(participants).to.deep.equal([alice.address, bob.address, carol.address]);
+
+    await expect(escrow.connect(resolver).resolvePot(potId, [alice.address, admin.address], [1n, 3n]))
+      .to.be.revertedWithCustomError(escrow, 'WinnerNotParticipant');
+    await escrow.connect(resolver).resolvePot(potId, [alice.address, bob.address], [1n, 3n]);
+
+    expect(await token.balanceOf(feeRecipient.address)).to.equal(500_000n);
+    expect(await token.balanceOf(alice.address)).to.equal(2_375_000n);
+    expect(await token.balanceOf(bob.address)).to.equal(7_125_000n);
+    expect(await token.balanceOf(carol.address)).to.equal(0n);
+    expect(await token.balanceOf(await escrow.getAddress())).to.equal(0n);
+    await expect(escrow.connect(resolver).contributeToPot(potId, carol.address, 1n))
+      .to.be.revertedWithCustomError(escrow, 'BetNotLocked');
+  });
+
+  it('refunds every pot contribution including top-ups', async () => {
+    const [admin, resolver, alice, bob, feeRecipient] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      500
+    );
+
+    await token.mint(alice.address, 700_000n);
+    await token.mint(bob.address, 200_000n);
+    await token.connect(alice).approve(await escrow.getAddress(), 700_000n);
+    await token.connect(bob).approve(await escrow.getAddress(), 200_000n);
+
+    const potId = ethers.keccak256(ethers.toUtf8Bytes('pot-2'));
+    await escrow.connect(resolver).contributeToPot(potId, alice.address, 400_000n);
+    await escrow.connect(resolver).contributeToPot(potId, bob.address, 200_000n);
+    await escrow.connect(resolver).contributeToPot(potId, alice.address, 300_000n);
+    expect(await escrow.potContributions(potId, alice.address)).to.equal(700_000n);
+
+    await escrow.connect(resolver).refundPot(potId);
+
+    expect(await token.balanceOf(alice.address)).to.equal(700_000n);
+    expect(await token.balanceOf(bob.address)).to.equal(200_000n);
+    expect(await token.balanceOf(feeRecipient.address)).to.equal(0n);
+  });
+
+  it('lets anyone refund a locked bet once its deadline has passed', async () => {
+    const [admin, resolver, challenger, opponent, feeRecipient] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      500
+    );
+
+    await expect(escrow.setRefundTimeout(60)).to.be.revertedWithCustomError(escrow, 'InvalidRefundTimeout');
+    await escrow.setRefundTimeout(2 * 60 * 60);
+
+    const amount = 400_000n;
+    await token.mint(challenger.address, amount);
+    await token.mint(opponent.address, amount);
+    await token.connect(challenger).approve(await escrow.getAddress(), amount);
+    await token.connect(opponent).approve(await escrow.getAddress(), amount);
+
+    const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-5'));
+    await escrow.connect(resolver).createBet(betId, challenger.address, opponent.address, amount);
+    const deadline = (await escrow.bets(betId)).refundDeadline;
+    expect(deadline).to.equal(BigInt(await time.latest()) + 7_200n);
+
+    await expect(escrow.connect(challenger).claimRefundAfterDeadline(betId))
+      .to.be.revertedWithCustomError(escrow, 'DeadlineNotReached')
+      .withArgs(deadline);
+
+    await time.increaseTo(deadline);
+    await expect(escrow.connect(challenger).claimRefundAfterDeadline(betId))
+      .to.emit(escrow, 'BetRefunded')
+      .withArgs(betId);
+
+    expect(await token.balanceOf(challenger.address)).to.equal(amount);
+    expect(await token.balanceOf(opponent.address)).to.equal(amount);
+    await expect(escrow.connect(resolver).resolveBet(betId, challenger.address))
+      .to.be.revertedWithCustomError(escrow, 'BetNotLocked');
+    await expect(escrow.connect(opponent).claimRefundAfterDeadline(betId))
+      .to.be.revertedWithCustomError(escrow, 'BetNotLocked');
+  });
+
+  it('lets anyone refund an unresolved pot once its deadline has passed', async () => {
+    const [admin, resolver, alice, bob, feeRecipient, stranger] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      500
+    );
+
+    await token.mint(alice.address, 300_000n);
+    await token.mint(bob.address, 100_000n);
+    await token.connect(alice).approve(await escrow.getAddress(), 300_000n);
+    await token.connect(bob).approve(await escrow.getAddress(), 100_000n);
+
+    const potId = ethers.keccak256(ethers.toUtf8Bytes('pot-3'));
+    await escrow.connect(resolver).contributeToPot(potId, alice.address, 300_000n);
+    await escrow.connect(resolver).contributeToPot(potId, bob.address, 100_000n);
+
+    const [, , , deadline] = await escrow.getPot(potId);
+    await expect(escrow.connect(stranger).claimPotRefundAfterDeadline(potId))
+      .to.be.revertedWithCustomError(escrow, 'DeadlineNotReached');
+
+    await time.increaseTo(deadline);
+    await escrow.connect(stranger).claimPotRefundAfterDeadline(potId);
+
+    expect(await token.balanceOf(alice.address)).to.equal(300_000n);
+    expect(await token.balanceOf(bob.address)).to.equal(100_000n);
+  });
+
+  it('locks a bet from signed BetIntents relayed by anyone', async () => {
+    const [admin, resolver, challenger, opponent, feeRecipient, relayer] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      0
+    );
+    const escrowAddress = await escrow.getAddress();
+
+    await token.mint(challenger.address, 100_000n);
+    await token.mint(opponent.address, 300_000n);
+    await token.connect(challenger).approve(escrowAddress, 100_000n);
+    await token.connect(opponent).approve(escrowAddress, 300_000n);
+
+    const domain = { name: 'BettingEscrow', version: '1', chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: escrowAddress };
+    const types = {
+      BetIntent: [
+        { name: 'betId', type: 'bytes32' },
+        { name: 'counterparty', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'expiry', type: 'uint256' }
+      ]
+    };
+    const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-6'));
+    const expiry = BigInt(await time.latest()) + 600n;
+    const challengerSig = await challenger.signTypedData(domain, types, { betId, counterparty: opponent.address, amount: 100_000n, expiry });
+    const opponentSig = await opponent.signTypedData(domain, types, { betId, counterparty: challenger.address, amount: 300_000n, expiry });
+    expect(await escrow.hashBetIntent(betId, opponent.address, 100_000n, expiry))
+      .to.equal(ethers.TypedDataEncoder.hash(domain, types, { betId, counterparty: opponent.address, amount: 100_000n, expiry }));
+
+    // A relayer cannot raise the stake a player signed for.
+    await expect(escrow.connect(relayer).createBetWithSig(betId, challenger.address, opponent.address, 100_000n, 200_000n, expiry, challengerSig, opponentSig))
+      .to.be.revertedWithCustomError(escrow, 'InvalidSignature')
+      .withArgs(opponent.address);
+
+    await expect(escrow.connect(relayer).createBetWithSig(betId, challenger.address, opponent.address, 100_000n, 300_000n, expiry, challengerSig, opponentSig))
+      .to.emit(escrow, 'AsymmetricBetCreated')
+      .withArgs(betId, challenger.address, opponent.address, 100_000n, 300_000n);
+    expect(await token.balanceOf(escrowAddress)).to.equal(400_000n);
+
+    await expect(escrow.connect(relayer).createBetWithSig(betId, challenger.address, opponent.address, 100_000n, 300_000n, expiry, challengerSig, opponentSig))
+      .to.be.revertedWithCustomError(escrow, 'BetAlreadyExists');
+
+    const lateBetId = ethers.keccak256(ethers.toUtf8Bytes('bet-7'));
+    await time.increaseTo(expiry + 1n);
+    await expect(escrow.connect(relayer).createBetWithSig(lateBetId, challenger.address, opponent.address, 1n, 1n, expiry, challengerSig, opponentSig))
+      .to.be.revertedWithCustomError(escrow, 'IntentExpired');
+  });
+
+  it('accepts an unsigned custodial side only when a resolver relays', async () => {
+    const [admin, resolver, player, house, feeRecipient] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      0
+    );
+    const escrowAddress = await escrow.getAddress();
+
+    const amount = 250_000n;
+    await token.mint(player.address, amount);
+    await token.mint(house.address, amount);
+    await token.connect(player).approve(escrowAddress, amount);
+    await token.connect(house).approve(escrowAddress, amount);
+
+    const domain = { name: 'BettingEscrow', version: '1', chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: escrowAddress };
+    const types = {
+      BetIntent: [
+        { name: 'betId', type: 'bytes32' },
+        { name: 'counterparty', type: 'address' },
+        { name: 'amount', type: 'uint256' },
+        { name: 'expiry', type: 'uint256' }
+      ]
+    };
+    const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-8'));
+    const expiry = BigInt(await time.latest()) + 600n;
+    const playerSig = await player.signTypedData(domain, types, { betId, counterparty: house.address, amount, expiry });
+
+    await expect(escrow.connect(player).createBetWithSig(betId, player.address, house.address, amount, amount, expiry, playerSig, '0x'))
+      .to.be.revertedWithCustomError(escrow, 'InvalidSignature')
+      .withArgs(house.address);
+    await expect(escrow.connect(resolver).createBetWithSig(betId, player.address, house.address, amount, amount, expiry, playerSig, '0x'))
+      .to.emit(escrow, 'BetCreated')
+      .withArgs(betId, player.address, house.address, amount);
+  });
+
+  it('refuses unsigned bets from anyone but a resolver', async () => {
+    const [admin, resolver, challenger, opponent, feeRecipient, stranger] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      0
+    );
+    const escrowAddress = await escrow.getAddress();
+
+    // Standing approvals from external wallets must not let a third party lock their funds.
+    await token.mint(challenger.address, 500_000n);
+    await token.mint(opponent.address, 500_000n);
+    await token.connect(challenger).approve(escrowAddress, 500_000n);
+    await token.connect(opponent).approve(escrowAddress, 500_000n);
+
+    const betId = ethers.keccak256(ethers.toUtf8Bytes('bet-9'));
+    await expect(escrow.connect(stranger).createBet(betId, challenger.address, opponent.address, 500_000n))
+      .to.be.revertedWithCustomError(escrow, 'AccessControlUnauthorizedAccount')
+      .withArgs(stranger.address, await escrow.RESOLVER_ROLE());
+    await expect(escrow.connect(challenger).createBetAsymmetric(betId, challenger.address, opponent.address, 1n, 500_000n))
+      .to.be.revertedWithCustomError(escrow, 'AccessControlUnauthorizedAccount')
+      .withArgs(challenger.address, await escrow.RESOLVER_ROLE());
+    expect(await token.balanceOf(escrowAddress)).to.equal(0n);
+  });
+
+  it('keeps outsiders from opening or joining pots', async () => {
+    const [admin, resolver, alice, feeRecipient, ...sybils] = await ethers.getSigners();
+
+    const tokenFactory = await ethers.getContractFactory('MockUSDC');
+    const token = await tokenFactory.deploy();
+
+    const escrowFactory = await ethers.getContractFactory('BettingEscrow');
+    const escrow = await escrowFactory.deploy(
+      admin.address,
+      resolver.address,
+      await token.getAddress(),
+      feeRecipient.address,
+      0
+    );
+    const escrowAddress = await escrow.getAddress();
+    const resolverRole = await escrow.RESOLVER_ROLE();
+
+    for (const player of [alice, ...sybils]) {
+      await token.mint(player.address, 1_000n);
+      await token.connect(player).approve(escrowAddress, 1_000n);
+    }
+
+    // Pot ids are derived from public challenge ids, so an outsider could try to open one first.
+    const potId = ethers.keccak256(ethers.toUtf8Bytes('arena:pot:side_c_srv_1'));
+    await expect(escrow.connect(sybils[0]!).contributeToPot(potId, sybils[0]!.address, 1n))
+      .to.be.revertedWithCustomError(escrow, 'AccessControlUnauthorizedAccount')
+      .withArgs(sybils[0]!.address, resolverRole);
+    expect((await escrow.getPot(potId))[0]).to.equal(0n);
+
+    // Once the resolver opens it, dust contributions from sybils cannot take its seats.
+    await escrow.connect(resolver).contributeToPot(potId, alice.address, 1_000n);
+    for (const sybil of sybils) {
+      await expect(escrow.connect(sybil).contributeToPot(potId, sybil.address, 1n))
+        .to.be.revertedWithCustomError(escrow, 'AccessControlUnauthorizedAccount')
+        .withArgs(sybil.address, resolverRole);
+    }
+    const [total, , participants] = await escrow.getPot(potId);
+    expect(total).to.equal(1_000n);
+    expect(participants).to.deep.equal([alice.address]);
+  });
 });
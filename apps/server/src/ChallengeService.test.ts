@@ -91,4 +91,69 @@ describe('ChallengeService', () => {
     expect([null, 'a', 'b']).toContain(resolved.challenge?.winnerId ?? null);
     expect([1, 2, 3, 4, 5, 6]).toContain(resolved.challenge?.diceResult ?? 0);
   });
+
+  it('rejects game types that are not registered', () => {
+    const service = new ChallengeService(() => 1000, () => 0.5);
+    const created = service.createChallenge('a', 'b', 'poker' as never, 1);
+    expect(created.event).toBe('invalid');
+    expect(created.reason).toBe('unsupported_game_type');
+  });
+
+  it('rejects moves from another game', () => {
+    const service = new ChallengeService(() => 1000, () => 0.5);
+    const created = service.createChallenge('a', 'b', 'coinflip', 1);
+    service.respond(created.challengeId!, 'b', true);
+    const move = service.submitMove(created.challengeId!, 'a', 'rock');
+    expect(move.reason).toBe('invalid_coinflip_move');
+  });
+
+  it('plays a best-of-3 series on one challenge, replaying tied rounds', () => {
+    const service = new ChallengeService(() => 1000, () => 0.5);
+    const created = service.createChallenge('a', 'b', 'rps', 5, 3);
+    const id = created.challengeId!;
+    service.respond(id, 'b', true);
+
+    service.submitMove(id, 'a', 'rock');
+    const tie = service.submitMove(id, 'b', 'rock');
+    expect(tie.event).toBe('round_resolved');
+    expect(tie.reason).toBe('rps_tie');
+    expect(tie.challenge?.challengerMove).toBeNull();
+
+    service.submitMove(id, 'a', 'paper');
+    const first = service.submitMove(id, 'b', 'rock');
+    expect(first.event).toBe('round_resolved');
+    expect(service.isPlayerBusy('a')).toBe(true);
+
+    service.submitMove(id, 'a', 'scissors');
+    const final = service.submitMove(id, 'b', 'paper');
+    expect(final.event).toBe('resolved');
+    expect(final.reason).toBe('series_result');
+    expect(final.challenge?.winnerId).toBe('a');
+    expect(final.challenge?.rounds?.map((round) => round.winnerId)).toEqual([null, 'a', 'a']);
+
+    const log = service.getRecent(1)[0];
+    expect(log?.bestOf).toBe(3);
+    expect(log?.rounds).toHaveLength(3);
+  });
+
+  it('forfeits a series to the player still moving when a round times out', () => {
+    let now = 1000;
+    const service = new ChallengeService(() => now, () => 0.5, 15_000, 10_000);
+    const created = service.createChallenge('a', 'b', 'dice_duel', 1, 5);
+    const id = created.challengeId!;
+    service.respond(id, 'b', true);
+    service.submitMove(id, 'b', 'd3');
+    now += 10_000;
+
+    const [resolved] = service.tick();
+    expect(resolved?.event).toBe('resolved');
+    expect(resolved?.reason).toBe('timeout_resolution');
+    expect(resolved?.challenge?.winnerId).toBe('b');
+  });
+
+  it('rejects even or out-of-range series lengths', () => {
+    const service = new ChallengeService(() => 1000, () => 0.5);
+    expect(service.createChallenge('a', 'b', 'rps', 1, 2).reason).toBe('invalid_best_of');
+    expect(service.createChallenge('a', 'b', 'rps', 1, 11).reason).toBe('invalid_best_of');
+  });
 });
@@ -7,9 +7,15 @@ import type {
   GameMove,
   Challenge,
   ChallengeEvent,
-  ChallengeLog
+  ChallengeLog,
+  ChallengeRound,
+  GameOutcome
 } from '@arena/shared';
-import { createHash } from 'node:crypto';
+import { getGameDefinition } from '@arena/shared';
+
+const MAX_BEST_OF = 9;
+// Replayed ties can stretch a series; past bestOf * this the leader takes it.
+const SERIES_ROUND_LIMIT_FACTOR = 3;
 
 // Re-export types for backward compatibility
 export type {
@@ -21,7 +27,8 @@ export type {
   GameMove,
   Challenge,
   ChallengeEvent,
-  ChallengeLog
+  ChallengeLog,
+  ChallengeRound
 };
 
 export class ChallengeService {
@@ -29,7 +36,7 @@ export class ChallengeService {
   private readonly activeByPlayer = new Map<string, string>();
   private readonly recentLogs: ChallengeLog[] = [];
   private challengeCounter = 1;
-  private readonly coinflipResultOverride = new Map<string, CoinflipMove>();
+  private readonly presetResults = new Map<string, string>();
   private readonly challengeIdPrefix: string;
 
   constructor(
@@ -61,11 +68,18 @@ export class ChallengeService {
     challengerId: string,
     opponentId: string,
     gameType: GameType,
-    wager: number
+    wager: number,
+    bestOf = 1
   ): ChallengeEvent {
     if (challengerId === opponentId) {
       return this.withLog({ type: 'challenge', event: 'invalid', reason: 'self_challenge' });
     }
+    if (!getGameDefinition(gameType)) {
+      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'unsupported_game_type' });
+    }
+    if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf > MAX_BEST_OF || bestOf % 2 === 0) {
+      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'invalid_best_of' });
+    }
 
     const challengerBusy = this.activeByPlayer.has(challengerId);
     const opponentBusy = this.isHouse(opponentId) ? false : this.activeByPlayer.has(opponentId);
@@ -97,6 +111,10 @@ export class ChallengeService {
       coinflipResult: null,
       diceResult: null
     };
+    if (bestOf > 1) {
+      challenge.bestOf = bestOf;
+      challenge.rounds = [];
+    }
 
     this.challenges.set(challenge.id, challenge);
     this.activeByPlayer.set(challengerId, challenge.id);
@@ -117,6 +135,10 @@ export class ChallengeService {
     return this.challenges.get(challengeId) ?? null;
   }
 
+  isPlayerBusy(playerId: string): boolean {
+    return this.activeByPlayer.has(playerId);
+  }
+
   setCoinflipResultOverride(challengeId: string, result: CoinflipMove): void {
     if (!challengeId) {
       return;
@@ -124,7 +146,7 @@ export class ChallengeService {
     if (result !== 'heads' && result !== 'tails') {
       return;
     }
-    this.coinflipResultOverride.set(challengeId, result);
+    this.presetResults.set(challengeId, result);
   }
 
   respond(challengeId: string, responderId: string, accept: boolean): ChallengeEvent {
@@ -188,14 +210,12 @@ export class ChallengeService {
       return this.withLog({ type: 'challenge', event: 'invalid', reason: 'challenge_not_active' });
     }
 
-    if (challenge.gameType === 'rps' && !this.isRpsMove(move)) {
-      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'invalid_rps_move' });
-    }
-    if (challenge.gameType === 'coinflip' && !this.isCoinflipMove(move)) {
-      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'invalid_coinflip_move' });
+    const game = getGameDefinition(challenge.gameType);
+    if (!game) {
+      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'unsupported_game_type' });
     }
-    if (challenge.gameType === 'dice_duel' && !this.isDiceDuelMove(move)) {
-      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'invalid_dice_duel_move' });
+    if (!game.isMove(move)) {
+      return this.withLog({ type: 'challenge', event: 'invalid', reason: game.invalidMoveReason });
     }
 
     if (playerId === challenge.challengerId) {
@@ -216,14 +236,7 @@ export class ChallengeService {
       });
     }
 
-    if (challenge.gameType === 'rps') {
-      return this.resolveRps(challenge);
-    }
-    if (challenge.gameType === 'dice_duel') {
-      return this.resolveDiceDuel(challenge);
-    }
-
-    return this.resolveCoinflip(challenge);
+    return this.resolveChallenge(challenge);
   }
 
   tick(): ChallengeEvent[] {
@@ -247,135 +260,7 @@ export class ChallengeService {
       }
 
       if (challenge.status === 'active' && now >= challenge.expiresAt) {
-        if (challenge.gameType === 'rps') {
-          if (challenge.challengerMove && challenge.opponentMove
-            && this.isRpsMove(challenge.challengerMove) && this.isRpsMove(challenge.opponentMove)) {
-            challenge.winnerId = this.rpsWinner(
-              challenge.challengerMove, challenge.opponentMove,
-              challenge.challengerId, challenge.opponentId
-            );
-          } else if (challenge.challengerMove && !challenge.opponentMove) {
-            challenge.winnerId = challenge.challengerId;
-          } else if (!challenge.challengerMove && challenge.opponentMove) {
-            challenge.winnerId = challenge.opponentId;
-          } else {
-            challenge.winnerId = null;
-          }
-
-          challenge.status = 'resolved';
-          challenge.resolvedAt = now;
-          this.clearPlayerLocks(challenge);
-          events.push(
-            this.withLog({
-              type: 'challenge',
-              event: 'resolved',
-              challengeId: challenge.id,
-              challenge,
-              to: [challenge.challengerId, challenge.opponentId],
-              reason: 'timeout_resolution'
-            })
-          );
-          continue;
-        }
-
-        if (challenge.gameType === 'coinflip') {
-          challenge.status = 'resolved';
-          challenge.resolvedAt = now;
-          const override = this.coinflipResultOverride.get(challenge.id);
-          if (override) {
-            challenge.coinflipResult = override;
-            this.coinflipResultOverride.delete(challenge.id);
-          } else {
-            challenge.coinflipResult = this.random() < 0.5 ? 'heads' : 'tails';
-          }
-
-          if (challenge.challengerMove && challenge.opponentMove) {
-            // Both moves present — evaluate against the coin result
-            if (challenge.challengerMove === challenge.opponentMove) {
-              challenge.winnerId = null;
-            } else if (challenge.challengerMove === challenge.coinflipResult) {
-              challenge.winnerId = challenge.challengerId;
-            } else if (challenge.opponentMove === challenge.coinflipResult) {
-              challenge.winnerId = challenge.opponentId;
-            } else {
-              challenge.winnerId = null;
-            }
-          } else if (challenge.challengerMove && !challenge.opponentMove) {
-            challenge.winnerId = challenge.challengerId;
-          } else if (!challenge.challengerMove && challenge.opponentMove) {
-            challenge.winnerId = challenge.opponentId;
-          } else {
-            challenge.winnerId = null;
-          }
-
-          this.clearPlayerLocks(challenge);
-          events.push(
-            this.withLog({
-              type: 'challenge',
-              event: 'resolved',
-              challengeId: challenge.id,
-              challenge,
-              to: [challenge.challengerId, challenge.opponentId],
-              reason: 'timeout_resolution'
-            })
-          );
-          continue;
-        }
-        if (challenge.gameType === 'dice_duel') {
-          challenge.status = 'resolved';
-          challenge.resolvedAt = now;
-
-          // Roll the die even on timeout so diceResult is populated
-          const fromProvablyFair =
-            challenge.provablyFair?.revealSeed
-            && challenge.provablyFair?.playerSeed
-            ? Number.parseInt(
-                createHash('sha256')
-                  .update(`${challenge.provablyFair.revealSeed}|${challenge.provablyFair.playerSeed}|${challenge.id}|dice_duel`)
-                  .digest('hex')
-                  .slice(0, 2),
-                16
-              )
-            : Number.NaN;
-          const rolled = Number.isFinite(fromProvablyFair)
-            ? ((fromProvablyFair % 6) + 1)
-            : (Math.floor(this.random() * 6) + 1);
-          challenge.diceResult = rolled;
-
-          if (challenge.challengerMove && challenge.opponentMove
-            && this.isDiceDuelMove(challenge.challengerMove) && this.isDiceDuelMove(challenge.opponentMove)) {
-            const challengerValue = Number(challenge.challengerMove.slice(1));
-            const opponentValue = Number(challenge.opponentMove.slice(1));
-            const challengerMatch = challengerValue === rolled;
-            const opponentMatch = opponentValue === rolled;
-            if (challengerMatch && !opponentMatch) {
-              challenge.winnerId = challenge.challengerId;
-            } else if (!challengerMatch && opponentMatch) {
-              challenge.winnerId = challenge.opponentId;
-            } else {
-              challenge.winnerId = null;
-            }
-          } else if (challenge.challengerMove && !challenge.opponentMove) {
-            challenge.winnerId = challenge.challengerId;
-          } else if (!challenge.challengerMove && challenge.opponentMove) {
-            challenge.winnerId = challenge.opponentId;
-          } else {
-            challenge.winnerId = null;
-          }
-
-          this.clearPlayerLocks(challenge);
-          events.push(
-            this.withLog({
-              type: 'challenge',
-              event: 'resolved',
-              challengeId: challenge.id,
-              challenge,
-              to: [challenge.challengerId, challenge.opponentId],
-              reason: 'timeout_resolution'
-            })
-          );
-          continue;
-        }
+        events.push(this.resolveChallenge(challenge, 'timeout_resolution'));
       }
     }
 
@@ -412,107 +297,112 @@ export class ChallengeService {
     return [];
   }
 
+  /**
+   * Resolved house rounds for a player that carry a provably fair receipt,
+   * newest first.
+   */
+  getFairnessChallenges(playerId: string, limit = 100): Challenge[] {
+    const matches = [...this.challenges.values()].filter((challenge) =>
+      challenge.challengerId === playerId
+      && this.isHouse(challenge.opponentId)
+      && challenge.status === 'resolved'
+      && Boolean(challenge.provablyFair)
+    );
+    return matches.reverse().slice(0, limit);
+  }
+
   getRecent(limit = 50): ChallengeLog[] {
     return this.recentLogs.slice(Math.max(0, this.recentLogs.length - limit));
   }
 
-  private resolveCoinflip(challenge: Challenge): ChallengeEvent {
-    if (!this.isCoinflipMove(challenge.challengerMove) || !this.isCoinflipMove(challenge.opponentMove)) {
-      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'missing_coinflip_moves' });
+  /**
+   * Settle the current round through the game definition. Single-round
+   * challenges resolve immediately; series record the round and keep going
+   * until someone reaches a majority. Timeouts pass a reason and resolve with
+   * whichever moves were submitted.
+   */
+  private resolveChallenge(challenge: Challenge, timeoutReason?: string): ChallengeEvent {
+    const bestOf = challenge.bestOf ?? 1;
+    const roundNumber = (challenge.rounds?.length ?? 0) + 1;
+    const outcome = this.playRound(challenge, bestOf > 1 && roundNumber > 1 ? `${challenge.id}#${roundNumber}` : challenge.id);
+    if (outcome.coinflipResult !== undefined) {
+      challenge.coinflipResult = outcome.coinflipResult;
     }
-
-    challenge.status = 'resolved';
-    challenge.resolvedAt = this.now();
-    const override = this.coinflipResultOverride.get(challenge.id);
-    if (override) {
-      challenge.coinflipResult = override;
-      this.coinflipResultOverride.delete(challenge.id);
-    } else {
-      challenge.coinflipResult = this.random() < 0.5 ? 'heads' : 'tails';
+    if (outcome.diceResult !== undefined) {
+      challenge.diceResult = outcome.diceResult;
     }
 
-    if (challenge.challengerMove === challenge.opponentMove) {
-      challenge.winnerId = null;
-    } else if (challenge.challengerMove === challenge.coinflipResult) {
-      challenge.winnerId = challenge.challengerId;
-    } else if (challenge.opponentMove === challenge.coinflipResult) {
-      challenge.winnerId = challenge.opponentId;
-    } else {
-      challenge.winnerId = null;
+    if (bestOf <= 1) {
+      return this.finishChallenge(challenge, outcome.winnerId, timeoutReason ?? outcome.reason);
     }
 
-    this.clearPlayerLocks(challenge);
-    return this.withLog({
-      type: 'challenge',
-      event: 'resolved',
-      challengeId: challenge.id,
-      challenge,
-      to: [challenge.challengerId, challenge.opponentId]
-    });
-  }
+    const round: ChallengeRound = {
+      round: roundNumber,
+      challengerMove: challenge.challengerMove,
+      opponentMove: challenge.opponentMove,
+      winnerId: outcome.winnerId,
+      coinflipResult: outcome.coinflipResult ?? null,
+      diceResult: outcome.diceResult ?? null,
+      reason: timeoutReason ?? outcome.reason
+    };
+    challenge.rounds = [...(challenge.rounds ?? []), round];
 
-  private resolveRps(challenge: Challenge): ChallengeEvent {
-    const challenger = challenge.challengerMove;
-    const opponent = challenge.opponentMove;
+    const needed = Math.floor(bestOf / 2) + 1;
+    const challengerWins = challenge.rounds.filter((entry) => entry.winnerId === challenge.challengerId).length;
+    const opponentWins = challenge.rounds.filter((entry) => entry.winnerId === challenge.opponentId).length;
+    const leaderId = challengerWins === opponentWins
+      ? null
+      : challengerWins > opponentWins ? challenge.challengerId : challenge.opponentId;
 
-    if (!this.isRpsMove(challenger) || !this.isRpsMove(opponent)) {
-      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'missing_moves' });
+    if (challengerWins >= needed || opponentWins >= needed) {
+      return this.finishChallenge(challenge, leaderId, 'series_result');
+    }
+    if (timeoutReason) {
+      // A player who stops moving forfeits the series to the one still playing.
+      return this.finishChallenge(challenge, outcome.winnerId ?? leaderId, timeoutReason);
+    }
+    if (challenge.rounds.length >= bestOf * SERIES_ROUND_LIMIT_FACTOR) {
+      return this.finishChallenge(challenge, leaderId, 'series_round_limit');
     }
 
-    const winner = this.rpsWinner(challenger, opponent, challenge.challengerId, challenge.opponentId);
-
-    challenge.status = 'resolved';
-    challenge.resolvedAt = this.now();
-    challenge.winnerId = winner;
-    this.clearPlayerLocks(challenge);
-
+    challenge.challengerMove = null;
+    challenge.opponentMove = null;
+    challenge.expiresAt = this.now() + this.activeResolveMs;
     return this.withLog({
       type: 'challenge',
-      event: 'resolved',
+      event: 'round_resolved',
       challengeId: challenge.id,
       challenge,
       to: [challenge.challengerId, challenge.opponentId],
-      reason: winner ? 'rps_result' : 'rps_tie'
+      reason: round.reason
     });
   }
 
-  private resolveDiceDuel(challenge: Challenge): ChallengeEvent {
-    const challenger = challenge.challengerMove;
-    const opponent = challenge.opponentMove;
-    if (!this.isDiceDuelMove(challenger) || !this.isDiceDuelMove(opponent)) {
-      return this.withLog({ type: 'challenge', event: 'invalid', reason: 'missing_dice_duel_moves' });
-    }
-
-    const fromProvablyFair =
-      challenge.provablyFair?.revealSeed
-      && challenge.provablyFair?.playerSeed
-      ? Number.parseInt(
-          createHash('sha256')
-            .update(`${challenge.provablyFair.revealSeed}|${challenge.provablyFair.playerSeed}|${challenge.id}|dice_duel`)
-            .digest('hex')
-            .slice(0, 2),
-          16
-        )
-      : Number.NaN;
-    const rolled = Number.isFinite(fromProvablyFair)
-      ? ((fromProvablyFair % 6) + 1)
-      : (Math.floor(this.random() * 6) + 1);
-    challenge.diceResult = rolled;
-
-    const challengerValue = Number(challenger.slice(1));
-    const opponentValue = Number(opponent.slice(1));
-    const challengerMatch = challengerValue === rolled;
-    const opponentMatch = opponentValue === rolled;
-    if (challengerMatch && !opponentMatch) {
-      challenge.winnerId = challenge.challengerId;
-    } else if (!challengerMatch && opponentMatch) {
-      challenge.winnerId = challenge.opponentId;
-    } else {
-      challenge.winnerId = null;
-    }
+  private playRound(challenge: Challenge, roundId: string): GameOutcome {
+    const game = getGameDefinition(challenge.gameType);
+    const fair = challenge.provablyFair;
+    const outcome = game
+      ? game.resolve({
+          challengeId: roundId,
+          challengerId: challenge.challengerId,
+          opponentId: challenge.opponentId,
+          challengerMove: challenge.challengerMove,
+          opponentMove: challenge.opponentMove,
+          seeds: fair?.revealSeed && fair.playerSeed
+            ? { houseSeed: fair.revealSeed, playerSeed: fair.playerSeed }
+            : null,
+          presetResult: this.presetResults.get(challenge.id) ?? null,
+          random: this.random
+        })
+      : { winnerId: null };
+    this.presetResults.delete(challenge.id);
+    return outcome;
+  }
 
+  private finishChallenge(challenge: Challenge, winnerId: string | null, reason?: string): ChallengeEvent {
     challenge.status = 'resolved';
     challenge.resolvedAt = this.now();
+    challenge.winnerId = winnerId;
     this.clearPlayerLocks(challenge);
 
     return this.withLog({
@@ -521,28 +411,10 @@ export class ChallengeService {
       challengeId: challenge.id,
       challenge,
       to: [challenge.challengerId, challenge.opponentId],
-      reason: challenge.winnerId ? 'dice_duel_result' : 'dice_duel_tie'
+      reason
     });
   }
 
-  private rpsWinner(
-    challengerMove: RpsMove,
-    opponentMove: RpsMove,
-    challengerId: string,
-    opponentId: string
-  ): string | null {
-    if (challengerMove === opponentMove) {
-      return null;
-    }
-
-    const challengerWins =
-      (challengerMove === 'rock' && opponentMove === 'scissors') ||
-      (challengerMove === 'paper' && opponentMove === 'rock') ||
-      (challengerMove === 'scissors' && opponentMove === 'paper');
-
-    return challengerWins ? challengerId : opponentId;
-  }
-
   private clearPlayerLocks(challenge: Challenge): void {
     this.activeByPlayer.delete(challenge.challengerId);
     if (!this.isHouse(challenge.opponentId)) {
@@ -550,23 +422,6 @@ export class ChallengeService {
     }
   }
 
-  private isRpsMove(move: GameMove | null): move is RpsMove {
-    return move === 'rock' || move === 'paper' || move === 'scissors';
-  }
-
-  private isCoinflipMove(move: GameMove | null): move is CoinflipMove {
-    return move === 'heads' || move === 'tails';
-  }
-
-  private isDiceDuelMove(move: GameMove | null): move is DiceDuelMove {
-    return move === 'd1'
-      || move === 'd2'
-      || move === 'd3'
-      || move === 'd4'
-      || move === 'd5'
-      || move === 'd6';
-  }
-
   private withLog(event: ChallengeEvent): ChallengeEvent {
     this.recentLogs.push({
       at: this.now(),
@@ -576,7 +431,9 @@ export class ChallengeService {
       opponentId: event.challenge?.opponentId ?? null,
       gameType: event.challenge?.gameType ?? null,
       winnerId: event.challenge?.winnerId ?? null,
-      reason: event.reason ?? null
+      reason: event.reason ?? null,
+      bestOf: event.challenge?.bestOf ?? null,
+      rounds: event.challenge?.rounds ?? null
     });
 
     if (this.recentLogs.length > 400) {
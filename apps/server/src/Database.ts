@@ -1,8 +1,29 @@
+import type { Challenge } from '@arena/shared';
 import { log as rootLog } from './logger.js';
 import { runMigrations, getMigrationStatus, type PgPool } from './migrations/index.js';
+import type { IndexedEscrowEvent, IndexedTransfer, IndexerCursor, IndexerScope } from './escrow/EscrowIndexer.js';
+import type { IndexedBetState, LedgerEscrowEntry } from './escrow/reconcile.js';
+import { SIDE_BET_POT_PREFIX } from './sidebets/SideBetService.js';
 
 const log = rootLog.child({ module: 'database' });
 
+// Keeps multi-row inserts well under Postgres' 65535 bind parameter limit.
+const INDEX_INSERT_CHUNK = 500;
+
+function chunk<T>(rows: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function valuesPlaceholders(rowCount: number, columns: number): string {
+  return Array.from({ length: rowCount }, (_, row) => (
+    `(${Array.from({ length: columns }, (_, column) => `$${row * columns + column + 1}`).join(', ')})`
+  )).join(', ');
+}
+
 export type MarketRecord = {
   id: string;
   slug: string;
@@ -331,6 +352,47 @@ export class Database {
     }
   }
 
+  /**
+   * Resolved house rounds carrying a provably fair receipt, newest first.
+   */
+  async getFairnessChallengesForPlayer(params: {
+    playerId: string;
+    limit: number;
+  }): Promise<Challenge[]> {
+    if (!this.pool) return [];
+    try {
+      const safeLimit = Math.max(1, Math.min(500, Number(params.limit || 100)));
+      const result = await this.pool.query(
+        `SELECT challenge_json
+         FROM challenges
+         WHERE challenger_id = $1
+           AND opponent_id = 'system_house'
+           AND status = 'resolved'
+           AND challenge_json ? 'provablyFair'
+         ORDER BY created_at DESC
+         LIMIT $2`,
+        [params.playerId, safeLimit]
+      );
+      return result.rows
+        .map((row) => row.challenge_json as Challenge | null)
+        .filter((challenge): challenge is Challenge => Boolean(challenge?.provablyFair));
+    } catch (err) {
+      log.error({ err, playerId: params.playerId }, 'failed to query fairness receipts for player');
+      return [];
+    }
+  }
+
+  async getChallengeJsonById(id: string): Promise<Challenge | null> {
+    if (!this.pool) return null;
+    try {
+      const result = await this.pool.query('SELECT challenge_json FROM challenges WHERE id = $1', [id]);
+      return (result.rows[0]?.challenge_json as Challenge | null | undefined) ?? null;
+    } catch (err) {
+      log.error({ err, challengeId: id }, 'failed to get challenge json');
+      return null;
+    }
+  }
+
   // ─── Escrow Events ──────────────────────────────────────
 
   async insertEscrowEvent(params: {
@@ -354,6 +416,42 @@ export class Database {
     }
   }
 
+  /** External addresses a signed bet was locked from; payouts must go back to them. */
+  async insertEscrowSigners(
+    challengeId: string,
+    signers: { challenger?: string; opponent?: string }
+  ): Promise<void> {
+    if (!this.pool) return;
+    try {
+      await this.pool.query(
+        `INSERT INTO escrow_bet_signers (challenge_id, challenger_signer, opponent_signer, created_at)
+         VALUES ($1, $2, $3, NOW())
+         ON CONFLICT (challenge_id) DO UPDATE SET challenger_signer = $2, opponent_signer = $3`,
+        [challengeId, signers.challenger ?? null, signers.opponent ?? null]
+      );
+    } catch (err) {
+      log.error({ err, challengeId }, 'failed to insert escrow signers');
+    }
+  }
+
+  async getEscrowSigners(challengeId: string): Promise<{ challenger?: string; opponent?: string }> {
+    if (!this.pool) return {};
+    try {
+      const result = await this.pool.query(
+        'SELECT challenger_signer, opponent_signer FROM escrow_bet_signers WHERE challenge_id = $1',
+        [challengeId]
+      );
+      const row = result.rows[0];
+      return {
+        ...(row?.challenger_signer ? { challenger: String(row.challenger_signer) } : {}),
+        ...(row?.opponent_signer ? { opponent: String(row.opponent_signer) } : {})
+      };
+    } catch (err) {
+      log.error({ err, challengeId }, 'failed to get escrow signers');
+      return {};
+    }
+  }
+
   async getEscrowEventsForPlayer(params: {
     playerId: string;
     limit: number;
@@ -442,6 +540,175 @@ export class Database {
     }
   }
 
+  // ─── Chain Index ────────────────────────────────────────
+  // Indexer writes rethrow so a failed batch never advances the cursor.
+
+  async loadIndexerCursor(name: string): Promise<IndexerCursor | null> {
+    if (!this.pool) return null;
+    const result = await this.pool.query(
+      'SELECT block_number, block_hash FROM chain_indexer_cursors WHERE name = $1',
+      [name]
+    );
+    const row = result.rows[0];
+    return row
+      ? { blockNumber: Number(row.block_number), blockHash: row.block_hash == null ? null : String(row.block_hash) }
+      : null;
+  }
+
+  async saveIndexerBatch(name: string, batch: {
+    escrowEvents: IndexedEscrowEvent[];
+    transfers: IndexedTransfer[];
+    cursor: IndexerCursor;
+  }): Promise<void> {
+    if (!this.pool) return;
+    try {
+      for (const rows of chunk(batch.escrowEvents, INDEX_INSERT_CHUNK)) {
+        await this.pool.query(
+          `INSERT INTO chain_escrow_events
+             (chain_id, contract_address, block_number, block_hash, tx_hash, log_index, event, bet_id, args_json)
+           VALUES ${valuesPlaceholders(rows.length, 9)}
+           ON CONFLICT (chain_id, tx_hash, log_index) DO NOTHING`,
+          rows.flatMap((row) => [
+            row.chainId, row.contractAddress, row.blockNumber, row.blockHash, row.txHash, row.logIndex,
+            row.event, row.betId, JSON.stringify(row.args)
+          ])
+        );
+      }
+      for (const rows of chunk(batch.transfers, INDEX_INSERT_CHUNK)) {
+        await this.pool.query(
+          `INSERT INTO chain_token_transfers
+             (chain_id, contract_address, block_number, block_hash, tx_hash, log_index, from_address, to_address, value)
+           VALUES ${valuesPlaceholders(rows.length, 9)}
+           ON CONFLICT (chain_id, tx_hash, log_index) DO NOTHING`,
+          rows.flatMap((row) => [
+            row.chainId, row.contractAddress, row.blockNumber, row.blockHash, row.txHash, row.logIndex,
+            row.from, row.to, row.value
+          ])
+        );
+      }
+      await this.saveIndexerCursor(name, batch.cursor);
+    } catch (err) {
+      log.error({ err, name, toBlock: batch.cursor.blockNumber }, 'failed to save indexer batch');
+      throw err;
+    }
+  }
+
+  /** One statement, so the deletes and the cursor move land together or not at all. */
+  async rewindIndexer(name: string, chainId: number, scope: IndexerScope, cursor: IndexerCursor): Promise<void> {
+    if (!this.pool) return;
+    try {
+      await this.pool.query(
+        `WITH dropped_events AS (
+           DELETE FROM chain_escrow_events
+           WHERE chain_id = $1 AND contract_address = $2 AND block_number > $3
+         ), dropped_transfers AS (
+           DELETE FROM chain_token_transfers
+           WHERE chain_id = $1 AND contract_address = $4 AND block_number > $3
+             AND $2 IN (from_address, to_address)
+         )
+         INSERT INTO chain_indexer_cursors (name, block_number, block_hash, updated_at)
+         VALUES ($5, $3, $6, NOW())
+         ON CONFLICT (name) DO UPDATE SET block_number = $3, block_hash = $6, updated_at = NOW()`,
+        [
+          chainId,
+          scope.escrowAddress.toLowerCase(),
+          cursor.blockNumber,
+          scope.tokenAddress?.toLowerCase() ?? null,
+          name,
+          cursor.blockHash
+        ]
+      );
+    } catch (err) {
+      log.error({ err, name, blockNumber: cursor.blockNumber }, 'failed to rewind indexer');
+      throw err;
+    }
+  }
+
+  private async saveIndexerCursor(name: string, cursor: IndexerCursor): Promise<void> {
+    await this.pool?.query(
+      `INSERT INTO chain_indexer_cursors (name, block_number, block_hash, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (name) DO UPDATE SET block_number = $2, block_hash = $3, updated_at = NOW()`,
+      [name, cursor.blockNumber, cursor.blockHash]
+    );
+  }
+
+  /**
+   * Latest indexed event per bet or pot id. Pot payouts are left out; the
+   * pot's `PotResolved` follows them.
+   */
+  async listIndexedBetStates(chainId: number, escrowAddress: string): Promise<IndexedBetState[]> {
+    if (!this.pool) return [];
+    const result = await this.pool.query(
+      `SELECT DISTINCT ON (bet_id) bet_id, event, tx_hash, block_number
+       FROM chain_escrow_events
+       WHERE chain_id = $1
+         AND contract_address = $2
+         AND event IN (
+           'BetCreated', 'AsymmetricBetCreated', 'BetResolved', 'BetRefunded',
+           'PotContribution', 'PotResolved', 'PotRefunded'
+         )
+       ORDER BY bet_id, block_number DESC, log_index DESC`,
+      [chainId, escrowAddress.toLowerCase()]
+    );
+    return result.rows.map((row) => {
+      const event = String(row.event);
+      return {
+        betId: String(row.bet_id),
+        status: event === 'BetResolved' || event === 'PotResolved'
+          ? 'resolved'
+          : event === 'BetRefunded' || event === 'PotRefunded' ? 'refunded' : 'locked',
+        txHash: String(row.tx_hash),
+        blockNumber: Number(row.block_number)
+      };
+    });
+  }
+
+  /** Escrow outcomes the server recorded for challenges, side-bet pots and market positions. */
+  async listEscrowLedger(): Promise<LedgerEscrowEntry[]> {
+    if (!this.pool) return [];
+    // Side-bet pots are recorded under their pot id; join them to the challenge they bet on.
+    const challenges = await this.pool.query(
+      `SELECT e.challenge_id, c.status,
+              bool_or(e.phase = 'lock' AND e.ok) AS locked,
+              bool_or(e.phase = 'resolve' AND e.ok) AS resolved,
+              bool_or(e.phase = 'refund' AND e.ok) AS refunded
+       FROM escrow_events e
+       LEFT JOIN challenges c ON c.id = CASE
+         WHEN left(e.challenge_id, length($1)) = $1 THEN substr(e.challenge_id, length($1) + 1)
+         ELSE e.challenge_id
+       END
+       GROUP BY e.challenge_id, c.status`,
+      [SIDE_BET_POT_PREFIX]
+    );
+    const positions = await this.pool.query(
+      'SELECT escrow_bet_id, status, settlement_reason FROM market_positions'
+    );
+    return [
+      ...challenges.rows.map((row): LedgerEscrowEntry => ({
+        source: String(row.challenge_id).startsWith(SIDE_BET_POT_PREFIX) ? 'side_bet_pot' : 'challenge',
+        challengeId: String(row.challenge_id),
+        challengeStatus: row.status == null ? null : String(row.status),
+        locked: Boolean(row.locked),
+        resolved: Boolean(row.resolved),
+        refunded: Boolean(row.refunded)
+      })),
+      ...positions.rows.map((row): LedgerEscrowEntry => {
+        const status = String(row.status);
+        // Voided positions and winners without opposing liquidity were refunded on-chain.
+        const refunded = status === 'voided' || row.settlement_reason === 'won_refund_only';
+        return {
+          source: 'market_position',
+          challengeId: String(row.escrow_bet_id),
+          challengeStatus: status,
+          locked: true,
+          resolved: !refunded && (status === 'won' || status === 'lost'),
+          refunded
+        };
+      })
+    ];
+  }
+
   // ─── Prediction Markets ────────────────────────────────
 
   async upsertMarket(params: {
@@ -1,3 +1,4 @@
+import type { GameMove, SpectatorEvent } from '@arena/shared';
 import { log as rootLog } from './logger.js';
 
 const log = rootLog.child({ module: 'bus' });
@@ -14,6 +15,17 @@ type DirectPlayerMessage = {
   payload: object;
 };
 
+type SpectatorBroadcast = {
+  originServerId: string;
+  event: SpectatorEvent;
+};
+
+type PlayerBroadcast = {
+  originServerId: string;
+  payload: object;
+  exceptPlayerIds: string[];
+};
+
 type ChallengeCommand =
   | {
       type: 'challenge_response';
@@ -31,7 +43,7 @@ type ChallengeCommand =
       type: 'challenge_move';
       challengeId: string;
       actorId: string;
-      move: 'rock' | 'paper' | 'scissors' | 'heads' | 'tails' | 'd1' | 'd2' | 'd3' | 'd4' | 'd5' | 'd6';
+      move: GameMove;
     };
 
 type AdminCommand =
@@ -45,6 +57,8 @@ type AdminCommand =
 const PLAYER_DIRECT_CHANNEL = 'arena:bus:player:direct';
 const COMMAND_CHANNEL_PREFIX = 'arena:bus:challenge:command:';
 const ADMIN_CHANNEL_PREFIX = 'arena:bus:admin:command:';
+const SPECTATOR_CHANNEL = 'arena:bus:spectator:event';
+const PLAYER_BROADCAST_CHANNEL = 'arena:bus:player:broadcast';
 
 function commandChannel(serverId: string): string {
   return `${COMMAND_CHANNEL_PREFIX}${serverId}`;
@@ -62,7 +76,9 @@ export class DistributedBus {
     private readonly serverId: string,
     private readonly onPlayerMessage: (message: DirectPlayerMessage) => void,
     private readonly onCommand: (command: ChallengeCommand) => void,
-    private readonly onAdminCommand: (command: AdminCommand) => void
+    private readonly onAdminCommand: (command: AdminCommand) => void,
+    private readonly onSpectatorEvent: (event: SpectatorEvent) => void = () => {},
+    private readonly onPlayerBroadcast: (message: PlayerBroadcast) => void = () => {}
   ) {}
 
   async connect(redisUrl: string | undefined): Promise<void> {
@@ -109,6 +125,30 @@ export class DistributedBus {
         // ignore malformed admin commands
       }
     });
+    await this.subscriber.subscribe(SPECTATOR_CHANNEL, (raw) => {
+      try {
+        const payload = JSON.parse(raw) as SpectatorBroadcast;
+        // The publishing node has already delivered to its own spectators.
+        if (payload?.originServerId === this.serverId || payload?.event?.type !== 'spectator_event') {
+          return;
+        }
+        this.onSpectatorEvent(payload.event);
+      } catch {
+        // ignore malformed spectator events
+      }
+    });
+    await this.subscriber.subscribe(PLAYER_BROADCAST_CHANNEL, (raw) => {
+      try {
+        const payload = JSON.parse(raw) as PlayerBroadcast;
+        // The publishing node has already delivered to its own sockets.
+        if (payload?.originServerId === this.serverId || !payload?.payload || !Array.isArray(payload.exceptPlayerIds)) {
+          return;
+        }
+        this.onPlayerBroadcast(payload);
+      } catch {
+        // ignore malformed broadcasts
+      }
+    });
     log.info('connected to redis');
   }
 
@@ -122,6 +162,26 @@ export class DistributedBus {
     );
   }
 
+  async publishSpectatorEvent(event: SpectatorEvent): Promise<void> {
+    if (!this.publisher) {
+      return;
+    }
+    await this.publisher.publish(
+      SPECTATOR_CHANNEL,
+      JSON.stringify({ originServerId: this.serverId, event } satisfies SpectatorBroadcast)
+    );
+  }
+
+  async publishBroadcast(payload: object, exceptPlayerIds: string[] = []): Promise<void> {
+    if (!this.publisher) {
+      return;
+    }
+    await this.publisher.publish(
+      PLAYER_BROADCAST_CHANNEL,
+      JSON.stringify({ originServerId: this.serverId, payload, exceptPlayerIds } satisfies PlayerBroadcast)
+    );
+  }
+
   async publishCommand(serverId: string, command: ChallengeCommand): Promise<void> {
     if (!this.publisher) {
       return;
@@ -137,4 +197,4 @@ export class DistributedBus {
   }
 }
 
-export type { AdminCommand, ChallengeCommand };
+export type { AdminCommand, ChallengeCommand, PlayerBroadcast };
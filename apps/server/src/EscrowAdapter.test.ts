@@ -1,4 +1,5 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Interface } from 'ethers';
 import { EscrowAdapter } from './EscrowAdapter.js';
 
 describe('EscrowAdapter preflight mapping', () => {
@@ -290,3 +291,263 @@ describe('EscrowAdapter onchain error decoding', () => {
     expect(String(result.raw?.reasonText || '')).toContain('execution reverted');
   });
 });
+
+describe('EscrowAdapter asymmetric stakes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prepares each wallet for its own stake and locks through createBetAsymmetric', async () => {
+    const prepareBodies: unknown[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: { body?: string }) => {
+      if (url.includes('/wallets/onchain/prepare-escrow')) {
+        prepareBodies.push(JSON.parse(String(init?.body ?? '{}')));
+        return { ok: true, status: 200, json: async () => ({ ok: true, results: [] }) };
+      }
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({
+          wallets: [
+            { id: 'wallet_player', address: '0x1111111111111111111111111111111111111111' },
+            { id: 'wallet_house', address: '0x2222222222222222222222222222222222222222' }
+          ]
+        })
+      };
+    }) as unknown as typeof fetch);
+
+    const adapter = new EscrowAdapter('http://runtime.local', {
+      tokenDecimals: 6,
+      rpcUrl: 'http://localhost:8545',
+      resolverPrivateKey: '0x0123456789012345678901234567890123456789012345678901234567890123',
+      escrowContractAddress: '0x3333333333333333333333333333333333333333'
+    });
+    const tx = { hash: '0xabc', wait: async () => ({ hash: '0xabc' }) };
+    const createBet = vi.fn(async () => tx);
+    const createBetAsymmetric = vi.fn(async () => tx);
+    (adapter as unknown as { escrowContract: unknown }).escrowContract = { createBet, createBetAsymmetric };
+
+    const result = await adapter.lockStake({
+      challengeId: 'c_odds',
+      challengerWalletId: 'wallet_player',
+      opponentWalletId: 'wallet_house',
+      amount: 1.5,
+      opponentAmount: 4.5
+    });
+
+    expect(result).toEqual({ ok: true, txHash: '0xabc' });
+    expect(prepareBodies).toEqual([{ walletIds: ['wallet_player', 'wallet_house'], amount: 1.5, amounts: [1.5, 4.5] }]);
+    expect(createBet).not.toHaveBeenCalled();
+    expect(createBetAsymmetric).toHaveBeenCalledWith(
+      expect.any(String),
+      '0x1111111111111111111111111111111111111111',
+      '0x2222222222222222222222222222222222222222',
+      1_500_000n,
+      4_500_000n
+    );
+
+    await adapter.lockStake({
+      challengeId: 'c_even',
+      challengerWalletId: 'wallet_player',
+      opponentWalletId: 'wallet_house',
+      amount: 2,
+      opponentAmount: 2
+    });
+    expect(createBet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('EscrowAdapter pots', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scales winner weights to integers and rejects empty or non-positive weights', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        wallets: [
+          { id: 'wallet_a', address: '0x1111111111111111111111111111111111111111' },
+          { id: 'wallet_b', address: '0x2222222222222222222222222222222222222222' }
+        ]
+      })
+    })) as unknown as typeof fetch);
+
+    const adapter = new EscrowAdapter('http://runtime.local', {
+      tokenDecimals: 6,
+      rpcUrl: 'http://localhost:8545',
+      resolverPrivateKey: '0x0123456789012345678901234567890123456789012345678901234567890123',
+      escrowContractAddress: '0x3333333333333333333333333333333333333333'
+    });
+    const resolvePot = vi.fn(async () => ({ hash: '0xpot', wait: async () => null }));
+    (adapter as unknown as { escrowContract: unknown }).escrowContract = { resolvePot };
+
+    expect(await adapter.resolvePot({ potId: 'tourney_1', winners: [] })).toEqual({ ok: false, reason: 'invalid_pot_weights' });
+    expect(await adapter.resolvePot({
+      potId: 'tourney_1',
+      winners: [{ walletId: 'wallet_a', weight: 0 }]
+    })).toEqual({ ok: false, reason: 'invalid_pot_weights' });
+
+    const result = await adapter.resolvePot({
+      potId: 'tourney_1',
+      winners: [{ walletId: 'wallet_a', weight: 2.5 }, { walletId: 'wallet_b', weight: 0.75 }]
+    });
+    expect(result).toEqual({ ok: true, txHash: '0xpot' });
+    expect(resolvePot).toHaveBeenCalledWith(
+      expect.any(String),
+      ['0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222'],
+      [2_500_000n, 750_000n]
+    );
+  });
+
+  it('reports what each winning wallet was paid from the resolvePot logs', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        wallets: [
+          { id: 'wallet_a', address: '0x1111111111111111111111111111111111111111' },
+          { id: 'wallet_b', address: '0x2222222222222222222222222222222222222222' }
+        ]
+      })
+    })) as unknown as typeof fetch);
+
+    const adapter = new EscrowAdapter('http://runtime.local', {
+      tokenDecimals: 6,
+      rpcUrl: 'http://localhost:8545',
+      resolverPrivateKey: '0x0123456789012345678901234567890123456789012345678901234567890123',
+      escrowContractAddress: '0x3333333333333333333333333333333333333333'
+    });
+    const events = new Interface([
+      'event PotPayout(bytes32 indexed potId, address indexed winner, uint256 amount)',
+      'event PotResolved(bytes32 indexed potId, uint256 payout, uint256 fee)'
+    ]);
+    const potId = `0x${'ab'.repeat(32)}`;
+    const logs = [
+      events.encodeEventLog('PotPayout', [potId, '0x1111111111111111111111111111111111111111', 7_125_000n]),
+      events.encodeEventLog('PotPayout', [potId, '0x2222222222222222222222222222222222222222', 2_375_000n]),
+      events.encodeEventLog('PotResolved', [potId, 9_500_000n, 500_000n])
+    ];
+    const resolvePot = vi.fn(async () => ({ hash: '0xpot', wait: async () => ({ hash: '0xpot', logs }) }));
+    (adapter as unknown as { escrowContract: unknown }).escrowContract = { resolvePot };
+
+    const result = await adapter.resolvePot({
+      potId: 'side_c_1',
+      winners: [{ walletId: 'wallet_a', weight: 3 }, { walletId: 'wallet_b', weight: 1 }]
+    });
+    expect(result).toEqual({
+      ok: true,
+      txHash: '0xpot',
+      payouts: { wallet_a: 7.125, wallet_b: 2.375 },
+      fee: 0.5
+    });
+  });
+});
+
+describe('EscrowAdapter refund claims', () => {
+  it('reads the bet deadline and whether the self-service refund is open', async () => {
+    const adapter = new EscrowAdapter('http://runtime.local', {
+      tokenDecimals: 6,
+      rpcUrl: 'http://localhost:8545',
+      resolverPrivateKey: '0x0123456789012345678901234567890123456789012345678901234567890123',
+      escrowContractAddress: '0x3333333333333333333333333333333333333333'
+    });
+    const bets = vi.fn(async () => ({ status: 1n, refundDeadline: 1_700_000_000n }));
+    (adapter as unknown as { escrowContract: unknown }).escrowContract = {
+      bets,
+      getAddress: async () => '0x3333333333333333333333333333333333333333'
+    };
+
+    const early = await adapter.refundClaim('c_stuck', 1_699_999_999_000);
+    expect(early).toMatchObject({ status: 'locked', refundDeadline: 1_700_000_000_000, claimable: false });
+    expect((await adapter.refundClaim('c_stuck', 1_700_000_000_000))?.claimable).toBe(true);
+
+    bets.mockResolvedValueOnce({ status: 2n, refundDeadline: 1_700_000_000n });
+    expect(await adapter.refundClaim('c_stuck', 1_800_000_000_000)).toMatchObject({
+      status: 'resolved',
+      refundDeadline: null,
+      claimable: false
+    });
+    expect(await new EscrowAdapter('http://runtime.local', { tokenDecimals: 6 }).refundClaim('c_stuck')).toBeNull();
+  });
+});
+
+describe('EscrowAdapter signed bet intents', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds BetIntent typed data and relays a signed side through createBetWithSig', async () => {
+    const prepareBodies: unknown[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: { body?: string }) => {
+      if (url.includes('/wallets/onchain/prepare-escrow')) {
+        prepareBodies.push(JSON.parse(String(init?.body ?? '{}')));
+        return { ok: true, status: 200, json: async () => ({ ok: true, results: [] }) };
+      }
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({
+          wallets: [
+            { id: 'wallet_player', address: '0x1111111111111111111111111111111111111111' },
+            { id: 'wallet_house', address: '0x2222222222222222222222222222222222222222' }
+          ]
+        })
+      };
+    }) as unknown as typeof fetch);
+
+    const adapter = new EscrowAdapter('http://runtime.local', {
+      tokenDecimals: 6,
+      rpcUrl: 'http://localhost:8545',
+      resolverPrivateKey: '0x0123456789012345678901234567890123456789012345678901234567890123',
+      escrowContractAddress: '0x3333333333333333333333333333333333333333'
+    });
+    const tx = { hash: '0xsig', wait: async () => ({ hash: '0xsig' }) };
+    const createBetWithSig = vi.fn(async () => tx);
+    const resolveBet = vi.fn(async () => tx);
+    (adapter as unknown as { escrowContract: unknown }).escrowContract = {
+      createBetWithSig,
+      resolveBet,
+      getAddress: async () => '0x3333333333333333333333333333333333333333'
+    };
+    (adapter as unknown as { provider: unknown }).provider = { getNetwork: async () => ({ chainId: 31337n }) };
+
+    const typedData = await adapter.betIntentTypedData({
+      challengeId: 'c_signed',
+      amount: 2.5,
+      expiresAt: 1_700_000_000_900,
+      counterparty: { walletId: 'wallet_house' }
+    });
+    expect(typedData).toMatchObject({
+      domain: { name: 'BettingEscrow', version: '1', chainId: 31337, verifyingContract: '0x3333333333333333333333333333333333333333' },
+      primaryType: 'BetIntent',
+      message: { counterparty: '0x2222222222222222222222222222222222222222', amount: '2500000', expiry: 1_700_000_000 }
+    });
+
+    const external = '0x4444444444444444444444444444444444444444';
+    const result = await adapter.lockStake({
+      challengeId: 'c_signed',
+      challengerWalletId: 'wallet_player',
+      opponentWalletId: 'wallet_house',
+      amount: 2.5,
+      intents: { expiresAt: 1_700_000_000_900, challenger: { signer: external, signature: '0xfeed' } }
+    });
+
+    expect(result).toEqual({ ok: true, txHash: '0xsig' });
+    expect(prepareBodies).toEqual([{ walletIds: ['wallet_house'], amount: 2.5 }]);
+    expect(createBetWithSig).toHaveBeenCalledWith(
+      typedData?.message.betId,
+      external,
+      '0x2222222222222222222222222222222222222222',
+      2_500_000n,
+      2_500_000n,
+      1_700_000_000n,
+      '0xfeed',
+      '0x'
+    );
+
+    await adapter.resolve({ challengeId: 'c_signed', winnerWalletId: 'wallet_player', winnerAddress: external });
+    expect(resolveBet).toHaveBeenCalledWith(typedData?.message.betId, external);
+  });
+});
@@ -1,15 +1,54 @@
-import { JsonRpcProvider, Wallet, Contract, keccak256, toUtf8Bytes, parseUnits } from 'ethers';
+import { JsonRpcProvider, Wallet, Contract, Interface, keccak256, toUtf8Bytes, parseUnits, formatUnits } from 'ethers';
 
 type LockParams = {
   challengeId: string;
   challengerWalletId: string;
   opponentWalletId: string;
   amount: number;
+  /** Opponent's stake for odds-priced bets; defaults to `amount`. */
+  opponentAmount?: number;
+  /** Non-custodial sides; a side without an intent is locked from its runtime wallet. */
+  intents?: BetIntents;
+};
+
+/** A player's signature, from their own wallet, over the typed data from `betIntentTypedData`. */
+export type SignedBetIntent = {
+  signer: string;
+  signature: string;
+};
+
+export type BetIntents = {
+  /** Unix ms; both sides sign the same expiry. */
+  expiresAt: number;
+  challenger?: SignedBetIntent;
+  opponent?: SignedBetIntent;
+};
+
+/** EIP-712 payload for `eth_signTypedData_v4`, consenting to one side of a challenge's bet. */
+export type BetIntentTypedData = {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  types: { BetIntent: Array<{ name: string; type: string }> };
+  primaryType: 'BetIntent';
+  message: { betId: string; counterparty: string; amount: string; expiry: number };
+};
+
+type PotContributionParams = {
+  potId: string;
+  walletId: string;
+  amount: number;
+};
+
+type PotResolveParams = {
+  potId: string;
+  /** Weights are relative, e.g. each winner's stake for a parimutuel split. */
+  winners: Array<{ walletId: string; weight: number }>;
 };
 
 type ResolveParams = {
   challengeId: string;
   winnerWalletId: string | null;
+  /** External wallet the winner locked their side from; overrides the runtime wallet address. */
+  winnerAddress?: string;
 };
 
 type EscrowResult = {
@@ -18,15 +57,24 @@ type EscrowResult = {
   txHash?: string;
   fee?: number;
   payout?: number;
+  /** Amount each winning wallet was paid by `resolvePot`, decoded from its logs. */
+  payouts?: Record<string, number>;
   raw?: Record<string, unknown>;
 };
 
+type EscrowReceiptLog = { topics: ReadonlyArray<string>; data: string };
+
 type EscrowOnchainReasonCode =
   | 'BET_ID_ALREADY_USED'
   | 'INVALID_WAGER'
   | 'INVALID_ESCROW_PARTICIPANTS'
   | 'BET_NOT_LOCKED'
   | 'WINNER_NOT_PARTICIPANT'
+  | 'POT_FULL'
+  | 'INVALID_POT_WEIGHTS'
+  | 'REFUND_DEADLINE_NOT_REACHED'
+  | 'BET_INTENT_EXPIRED'
+  | 'BET_INTENT_SIGNATURE_INVALID'
   | 'ONCHAIN_EXECUTION_ERROR';
 
 export type EscrowPreflightReasonCode =
@@ -43,6 +91,21 @@ export type EscrowPreflightReasonCode =
   | 'RPC_UNAVAILABLE'
   | 'UNKNOWN_PRECHECK_FAILURE';
 
+/**
+ * On-chain state of a challenge's bet, for pointing players at the
+ * permissionless `claimRefundAfterDeadline(betId)` once the resolver is gone.
+ */
+export type EscrowRefundClaim = {
+  escrowAddress: string;
+  betId: string;
+  status: 'none' | 'locked' | 'resolved' | 'refunded';
+  /** Unix ms; null when no bet is locked under this id. */
+  refundDeadline: number | null;
+  claimable: boolean;
+};
+
+const BET_STATUSES: EscrowRefundClaim['status'][] = ['none', 'locked', 'resolved', 'refunded'];
+
 export type EscrowPreflightWalletStatus = {
   walletId: string;
   ok: boolean;
@@ -71,21 +134,81 @@ type OnchainEscrowConfig = {
 
 type EscrowContractApi = Contract & {
   createBet: (betId: string, challenger: string, opponent: string, amount: bigint) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
+  createBetAsymmetric: (betId: string, a: string, b: string, amountA: bigint, amountB: bigint) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
+  createBetWithSig: (
+    betId: string,
+    challenger: string,
+    opponent: string,
+    challengerAmount: bigint,
+    opponentAmount: bigint,
+    expiry: bigint,
+    challengerSig: string,
+    opponentSig: string
+  ) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
   resolveBet: (betId: string, winner: string) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
   refundBet: (betId: string) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
+  contributeToPot: (potId: string, participant: string, amount: bigint) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
+  resolvePot: (potId: string, winners: string[], weights: bigint[]) => Promise<{
+    hash: string;
+    wait: () => Promise<{ hash?: string; logs?: ReadonlyArray<EscrowReceiptLog> } | null>;
+  }>;
+  refundPot: (potId: string) => Promise<{ hash: string; wait: () => Promise<{ hash?: string } | null> }>;
+  bets: (betId: string) => Promise<{ status: bigint; refundDeadline: bigint }>;
+  getAddress: () => Promise<string>;
 };
 
 const ESCROW_ABI = [
   'function createBet(bytes32 betId, address challenger, address opponent, uint256 amount) external',
+  'function createBetAsymmetric(bytes32 betId, address a, address b, uint256 amountA, uint256 amountB) external',
+  'function createBetWithSig(bytes32 betId, address challenger, address opponent, uint256 challengerAmount, uint256 opponentAmount, uint256 expiry, bytes challengerSig, bytes opponentSig) external',
   'function resolveBet(bytes32 betId, address winner) external',
   'function refundBet(bytes32 betId) external',
+  'function contributeToPot(bytes32 potId, address participant, uint256 amount) external',
+  'function resolvePot(bytes32 potId, address[] winners, uint256[] weights) external',
+  'function refundPot(bytes32 potId) external',
+  'function bets(bytes32 betId) view returns (address challenger, address opponent, uint256 amount, uint8 status, uint256 opponentAmount, uint64 refundDeadline)',
+  'event PotPayout(bytes32 indexed potId, address indexed winner, uint256 amount)',
+  'event PotResolved(bytes32 indexed potId, uint256 payout, uint256 fee)',
   'error InvalidAddress()',
   'error InvalidAmount()',
   'error BetAlreadyExists()',
   'error BetNotLocked()',
-  'error WinnerNotParticipant()'
+  'error WinnerNotParticipant()',
+  'error PotFull()',
+  'error InvalidWeights()',
+  'error DeadlineNotReached(uint64 deadline)',
+  'error IntentExpired()',
+  'error InvalidSignature(address player)'
 ];
 
+const ESCROW_INTERFACE = new Interface(ESCROW_ABI);
+
+/** On-chain bet id for the id a stake was locked under (challenge, market position or side bet). */
+export function escrowBetId(challengeId: string): string {
+  return keccak256(toUtf8Bytes(`arena:${challengeId}`));
+}
+
+/** On-chain pot id for the id a pot was opened under (e.g. a side-bet pool). */
+export function escrowPotId(potId: string): string {
+  return keccak256(toUtf8Bytes(`arena:pot:${potId}`));
+}
+
+// Pot weights go on-chain as integers; relative precision to six decimals is plenty.
+const POT_WEIGHT_SCALE = 1_000_000;
+
+const BET_INTENT_TYPES: BetIntentTypedData['types'] = {
+  BetIntent: [
+    { name: 'betId', type: 'bytes32' },
+    { name: 'counterparty', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' }
+  ]
+};
+
+function intentExpiry(expiresAt: number): number {
+  return Math.floor(expiresAt / 1000);
+}
+
 export class EscrowAdapter {
   private readonly provider: JsonRpcProvider | null;
   private readonly signer: Wallet | null;
@@ -94,6 +217,7 @@ export class EscrowAdapter {
   private readonly internalToken: string;
   private readonly preflightInFlight = new Map<string, Promise<EscrowResult>>();
   private readonly preflightCache = new Map<string, { expiresAt: number; result: EscrowResult }>();
+  private chainId: Promise<number> | null = null;
 
   constructor(
     private readonly runtimeBaseUrl: string,
@@ -121,15 +245,55 @@ export class EscrowAdapter {
     return this.lockStakeOnchain(params);
   }
 
+  /**
+   * Typed data a player signs in their own wallet to consent to staking `amount`
+   * on `challengeId` against `counterparty` (an external signer address, or the
+   * counterparty's runtime wallet). Null without on-chain config.
+   */
+  async betIntentTypedData(params: {
+    challengeId: string;
+    amount: number;
+    expiresAt: number;
+    counterparty: { walletId: string; signer?: string };
+  }): Promise<BetIntentTypedData | null> {
+    const escrow = this.escrowContract;
+    if (!escrow || !this.provider) {
+      return null;
+    }
+    const counterparty = params.counterparty.signer ?? await this.walletAddressById(params.counterparty.walletId);
+    if (!counterparty) {
+      return null;
+    }
+    try {
+      this.chainId ??= this.provider.getNetwork().then((network) => Number(network.chainId));
+      const [chainId, verifyingContract] = await Promise.all([this.chainId, escrow.getAddress()]);
+      return {
+        domain: { name: 'BettingEscrow', version: '1', chainId, verifyingContract },
+        types: BET_INTENT_TYPES,
+        primaryType: 'BetIntent',
+        message: {
+          betId: this.betIdFor(params.challengeId),
+          counterparty,
+          amount: parseUnits(String(params.amount), this.tokenDecimals).toString(),
+          expiry: intentExpiry(params.expiresAt)
+        }
+      };
+    } catch {
+      this.chainId = null;
+      return null;
+    }
+  }
+
   async preflightStake(params: {
     challengerWalletId: string;
     opponentWalletId: string;
     amount: number;
+    opponentAmount?: number;
   }): Promise<EscrowPreflightResult> {
     const prepared = await this.prepareWalletsForOnchainEscrow([
       params.challengerWalletId,
       params.opponentWalletId
-    ], params.amount);
+    ], params.amount, params.opponentAmount);
     if (prepared.ok) {
       return {
         ok: true,
@@ -156,6 +320,119 @@ export class EscrowAdapter {
     return this.refundOnchain(challengeId);
   }
 
+  /** Reads the challenge's bet from the contract; null without on-chain config or when the RPC call fails. */
+  async refundClaim(challengeId: string, now = Date.now()): Promise<EscrowRefundClaim | null> {
+    const escrow = this.escrowContract;
+    if (!escrow) {
+      return null;
+    }
+    const betId = this.betIdFor(challengeId);
+    try {
+      const [bet, escrowAddress] = await Promise.all([escrow.bets(betId), escrow.getAddress()]);
+      const status = BET_STATUSES[Number(bet.status)] ?? 'none';
+      const refundDeadline = status === 'locked' ? Number(bet.refundDeadline) * 1000 : null;
+      return {
+        escrowAddress,
+        betId,
+        status,
+        refundDeadline,
+        claimable: refundDeadline !== null && now >= refundDeadline
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Pulls one participant's stake into a multi-party pot (tournaments, pools, parimutuel markets). */
+  async contributeToPot(params: PotContributionParams): Promise<EscrowResult> {
+    const escrow = this.escrowContract;
+    if (!escrow) {
+      return this.onchainConfigMissing();
+    }
+    const address = await this.walletAddressById(params.walletId);
+    if (!address) {
+      return { ok: false, reason: 'wallet_address_missing' };
+    }
+    try {
+      const prepared = await this.prepareWalletsForOnchainEscrow([params.walletId], params.amount);
+      if (!prepared.ok) {
+        return prepared;
+      }
+      const tx = await escrow.contributeToPot(
+        this.potIdFor(params.potId),
+        address,
+        parseUnits(String(params.amount), this.tokenDecimals)
+      );
+      const receipt = await tx.wait();
+      return { ok: true, txHash: receipt?.hash ?? tx.hash };
+    } catch (error) {
+      return this.onchainErrorResult(error, 'onchain_pot_contribution_failed');
+    }
+  }
+
+  /** Pays the pot, minus the contract fee, to the winners in proportion to their weights. */
+  async resolvePot(params: PotResolveParams): Promise<EscrowResult> {
+    const escrow = this.escrowContract;
+    if (!escrow) {
+      return this.onchainConfigMissing();
+    }
+    const weights = params.winners.map((entry) => Math.round(Number(entry.weight) * POT_WEIGHT_SCALE));
+    if (weights.length === 0 || weights.some((weight) => !Number.isFinite(weight) || weight <= 0)) {
+      return { ok: false, reason: 'invalid_pot_weights' };
+    }
+    const addresses: string[] = [];
+    for (const winner of params.winners) {
+      const address = await this.walletAddressById(winner.walletId);
+      if (!address) {
+        return { ok: false, reason: 'winner_wallet_address_missing' };
+      }
+      addresses.push(address);
+    }
+    try {
+      const tx = await escrow.resolvePot(this.potIdFor(params.potId), addresses, weights.map((weight) => BigInt(weight)));
+      const receipt = await tx.wait();
+      const walletIds = new Map(addresses.map((address, i) => [address.toLowerCase(), params.winners[i]?.walletId ?? '']));
+      return { ok: true, txHash: receipt?.hash ?? tx.hash, ...this.potPayouts(receipt?.logs ?? [], walletIds) };
+    } catch (error) {
+      return this.onchainErrorResult(error, 'onchain_pot_resolve_failed');
+    }
+  }
+
+  async refundPot(potId: string): Promise<EscrowResult> {
+    const escrow = this.escrowContract;
+    if (!escrow) {
+      return this.onchainConfigMissing();
+    }
+    try {
+      const tx = await escrow.refundPot(this.potIdFor(potId));
+      const receipt = await tx.wait();
+      return { ok: true, txHash: receipt?.hash ?? tx.hash };
+    } catch (error) {
+      return this.onchainErrorResult(error, 'onchain_pot_refund_failed');
+    }
+  }
+
+  /** What the contract actually paid out, so callers record amounts rather than estimates. */
+  private potPayouts(
+    logs: ReadonlyArray<EscrowReceiptLog>,
+    walletIds: Map<string, string>
+  ): Pick<EscrowResult, 'payouts' | 'fee'> {
+    const payouts: Record<string, number> = {};
+    let fee: number | undefined;
+    for (const entry of logs) {
+      const parsed = ESCROW_INTERFACE.parseLog({ topics: [...entry.topics], data: entry.data });
+      if (parsed?.name === 'PotPayout') {
+        const walletId = walletIds.get(String(parsed.args.winner).toLowerCase());
+        if (walletId) {
+          payouts[walletId] = (payouts[walletId] ?? 0) + Number(formatUnits(parsed.args.amount as bigint, this.tokenDecimals));
+        }
+      } else if (parsed?.name === 'PotResolved') {
+        fee = Number(formatUnits(parsed.args.fee as bigint, this.tokenDecimals));
+      }
+    }
+    return Object.keys(payouts).length > 0 ? { payouts, fee } : {};
+  }
+
   private walletAddressCache = new Map<string, { address: string; fetchedAt: number }>();
   private static readonly WALLET_CACHE_TTL_MS = 30_000;
 
@@ -185,20 +462,20 @@ export class EscrowAdapter {
   }
 
   private betIdFor(challengeId: string): string {
-    return keccak256(toUtf8Bytes(`arena:${challengeId}`));
+    return escrowBetId(challengeId);
+  }
+
+  private potIdFor(potId: string): string {
+    return escrowPotId(potId);
   }
 
   private async lockStakeOnchain(params: LockParams): Promise<EscrowResult> {
     const escrow = this.escrowContract;
     if (!escrow) {
-      return {
-        ok: false,
-        reason: 'onchain_config_missing',
-        raw: {
-          reasonCode: 'RPC_UNAVAILABLE',
-          reasonText: 'Escrow contract is not configured on the game server. Operator must set CHAIN_RPC_URL, ESCROW_CONTRACT_ADDRESS, and ESCROW_RESOLVER_PRIVATE_KEY.'
-        }
-      };
+      return this.onchainConfigMissing();
+    }
+    if (params.intents) {
+      return this.lockSignedStakeOnchain(escrow, params, params.intents);
     }
     const challengerAddress = await this.walletAddressById(params.challengerWalletId);
     const opponentAddress = await this.walletAddressById(params.opponentWalletId);
@@ -216,7 +493,8 @@ export class EscrowAdapter {
       const preflight = await this.preflightStake({
         challengerWalletId: params.challengerWalletId,
         opponentWalletId: params.opponentWalletId,
-        amount: params.amount
+        amount: params.amount,
+        opponentAmount: params.opponentAmount
       });
       if (!preflight.ok) {
         return {
@@ -231,11 +509,75 @@ export class EscrowAdapter {
         };
       }
       const amount = parseUnits(String(params.amount), this.tokenDecimals);
-      const tx = await escrow.createBet(
+      const opponentAmount = params.opponentAmount === undefined
+        ? amount
+        : parseUnits(String(params.opponentAmount), this.tokenDecimals);
+      const tx = opponentAmount === amount
+        ? await escrow.createBet(
+          this.betIdFor(params.challengeId),
+          challengerAddress,
+          opponentAddress,
+          amount
+        )
+        : await escrow.createBetAsymmetric(
+          this.betIdFor(params.challengeId),
+          challengerAddress,
+          opponentAddress,
+          amount,
+          opponentAmount
+        );
+      const receipt = await tx.wait();
+      return { ok: true, txHash: receipt?.hash ?? tx.hash };
+    } catch (error) {
+      return this.onchainErrorResult(error, 'onchain_lock_failed');
+    }
+  }
+
+  /**
+   * Relays `createBetWithSig`: signed sides stake from the signer's own wallet
+   * and allowance, unsigned sides are prepared through the runtime as usual.
+   */
+  private async lockSignedStakeOnchain(escrow: EscrowContractApi, params: LockParams, intents: BetIntents): Promise<EscrowResult> {
+    const challenger = {
+      walletId: params.challengerWalletId,
+      amount: params.amount,
+      intent: intents.challenger,
+      address: intents.challenger?.signer ?? await this.walletAddressById(params.challengerWalletId)
+    };
+    const opponent = {
+      walletId: params.opponentWalletId,
+      amount: params.opponentAmount ?? params.amount,
+      intent: intents.opponent,
+      address: intents.opponent?.signer ?? await this.walletAddressById(params.opponentWalletId)
+    };
+    if (!challenger.address || !opponent.address) {
+      return {
+        ok: false,
+        reason: 'wallet_address_missing',
+        raw: {
+          reasonCode: 'PLAYER_SIGNER_UNAVAILABLE',
+          reasonText: 'Could not resolve wallet address for escrow lock. Reconnect wallet and retry.'
+        }
+      };
+    }
+    try {
+      for (const side of [challenger, opponent]) {
+        if (!side.intent) {
+          const prepared = await this.prepareWalletsForOnchainEscrow([side.walletId], side.amount);
+          if (!prepared.ok) {
+            return prepared;
+          }
+        }
+      }
+      const tx = await escrow.createBetWithSig(
         this.betIdFor(params.challengeId),
-        challengerAddress,
-        opponentAddress,
-        amount
+        challenger.address,
+        opponent.address,
+        parseUnits(String(challenger.amount), this.tokenDecimals),
+        parseUnits(String(opponent.amount), this.tokenDecimals),
+        BigInt(intentExpiry(intents.expiresAt)),
+        challenger.intent?.signature ?? '0x',
+        opponent.intent?.signature ?? '0x'
       );
       const receipt = await tx.wait();
       return { ok: true, txHash: receipt?.hash ?? tx.hash };
@@ -244,8 +586,12 @@ export class EscrowAdapter {
     }
   }
 
-  private async prepareWalletsForOnchainEscrow(walletIds: string[], amount: number): Promise<EscrowResult> {
-    const key = this.preflightKey(walletIds, amount);
+  /** `opponentAmount` applies to the second wallet; the runtime checks each wallet against its own stake. */
+  private async prepareWalletsForOnchainEscrow(walletIds: string[], amount: number, opponentAmount?: number): Promise<EscrowResult> {
+    const amounts = opponentAmount === undefined || opponentAmount === amount
+      ? undefined
+      : walletIds.map((_, index) => (index === 1 ? opponentAmount : amount));
+    const key = this.preflightKey(walletIds, amount, amounts);
     const now = Date.now();
     const cached = this.preflightCache.get(key);
     if (cached && cached.expiresAt > now) {
@@ -270,7 +616,7 @@ export class EscrowAdapter {
               ...(this.internalToken ? { 'x-internal-token': this.internalToken } : {})
             },
             signal: AbortSignal.timeout(10_000),
-            body: JSON.stringify({ walletIds, amount })
+            body: JSON.stringify({ walletIds, amount, amounts })
           });
           const payload = await response.json().catch(() => null) as { ok?: boolean; reason?: string } | null;
           if (response.ok && payload?.ok) {
@@ -410,10 +756,17 @@ export class EscrowAdapter {
     return result;
   }
 
-  private preflightKey(walletIds: string[], amount: number): string {
-    const normalizedAmount = Number.isFinite(amount) ? Number(amount) : 0;
+  private preflightKey(walletIds: string[], amount: number, amounts?: number[]): string {
+    const normalize = (value: number) => (Number.isFinite(value) ? Number(value) : 0);
+    if (amounts) {
+      // Per-wallet stakes: keep each id paired with its amount.
+      return walletIds
+        .map((entry, index) => `${String(entry || '').trim()}=${normalize(amounts[index] ?? amount)}`)
+        .sort()
+        .join('|');
+    }
     const ids = walletIds.map((entry) => String(entry || '').trim()).filter(Boolean).sort();
-    return `${ids.join('|')}::${normalizedAmount}`;
+    return `${ids.join('|')}::${normalize(amount)}`;
   }
 
   private cachePreflightResult(key: string, result: EscrowResult): void {
@@ -453,16 +806,9 @@ export class EscrowAdapter {
   private async resolveOnchain(params: ResolveParams): Promise<EscrowResult> {
     const escrow = this.escrowContract;
     if (!escrow) {
-      return {
-        ok: false,
-        reason: 'onchain_config_missing',
-        raw: {
-          reasonCode: 'RPC_UNAVAILABLE',
-          reasonText: 'Escrow contract is not configured on the game server. Operator must set CHAIN_RPC_URL, ESCROW_CONTRACT_ADDRESS, and ESCROW_RESOLVER_PRIVATE_KEY.'
-        }
-      };
+      return this.onchainConfigMissing();
     }
-    const winnerAddress = await this.walletAddressById(params.winnerWalletId!);
+    const winnerAddress = params.winnerAddress ?? await this.walletAddressById(params.winnerWalletId!);
     if (!winnerAddress) {
       return { ok: false, reason: 'winner_wallet_address_missing' };
     }
@@ -478,14 +824,7 @@ export class EscrowAdapter {
   private async refundOnchain(challengeId: string): Promise<EscrowResult> {
     const escrow = this.escrowContract;
     if (!escrow) {
-      return {
-        ok: false,
-        reason: 'onchain_config_missing',
-        raw: {
-          reasonCode: 'RPC_UNAVAILABLE',
-          reasonText: 'Escrow contract is not configured on the game server. Operator must set CHAIN_RPC_URL, ESCROW_CONTRACT_ADDRESS, and ESCROW_RESOLVER_PRIVATE_KEY.'
-        }
-      };
+      return this.onchainConfigMissing();
     }
     try {
       const tx = await escrow.refundBet(this.betIdFor(challengeId));
@@ -496,6 +835,17 @@ export class EscrowAdapter {
     }
   }
 
+  private onchainConfigMissing(): EscrowResult {
+    return {
+      ok: false,
+      reason: 'onchain_config_missing',
+      raw: {
+        reasonCode: 'RPC_UNAVAILABLE',
+        reasonText: 'Escrow contract is not configured on the game server. Operator must set CHAIN_RPC_URL, ESCROW_CONTRACT_ADDRESS, and ESCROW_RESOLVER_PRIVATE_KEY.'
+      }
+    };
+  }
+
   private onchainErrorResult(error: unknown, fallback: string): EscrowResult {
     const decoded = this.decodeEscrowCustomError(error);
     if (decoded) {
@@ -573,6 +923,41 @@ export class EscrowAdapter {
           reasonText: 'Winner wallet is not a participant in this escrow bet.'
         };
       }
+      if (name === 'DeadlineNotReached') {
+        return {
+          reason: 'refund_deadline_not_reached',
+          reasonCode: 'REFUND_DEADLINE_NOT_REACHED',
+          reasonText: 'Escrow bet cannot be self-refunded before its deadline.'
+        };
+      }
+      if (name === 'IntentExpired') {
+        return {
+          reason: 'bet_intent_expired',
+          reasonCode: 'BET_INTENT_EXPIRED',
+          reasonText: 'Signed wager approval expired before the escrow lock. Sign again.'
+        };
+      }
+      if (name === 'InvalidSignature') {
+        return {
+          reason: 'bet_intent_signature_invalid',
+          reasonCode: 'BET_INTENT_SIGNATURE_INVALID',
+          reasonText: 'Wallet signature does not match this wager.'
+        };
+      }
+      if (name === 'PotFull') {
+        return {
+          reason: 'pot_full',
+          reasonCode: 'POT_FULL',
+          reasonText: 'Escrow pot has reached its participant limit.'
+        };
+      }
+      if (name === 'InvalidWeights') {
+        return {
+          reason: 'invalid_pot_weights',
+          reasonCode: 'INVALID_POT_WEIGHTS',
+          reasonText: 'Pot winners and payout weights do not line up.'
+        };
+      }
     } catch {
       return null;
     }
@@ -14,6 +14,9 @@ type PresenceEntry = {
   speed: number;
   updatedAt: number;
   serverId: string;
+  /** Room the player is in on `serverId`; empty for entries written before rooms existed. */
+  roomId: string;
+  world: string;
 };
 
 type RedisLike = {
@@ -56,7 +59,9 @@ function parsePresence(hash: Record<string, string>): PresenceEntry | null {
     yaw: toNumber(hash.yaw),
     speed: toNumber(hash.speed),
     updatedAt: toNumber(hash.updatedAt),
-    serverId: hash.serverId || 'unknown'
+    serverId: hash.serverId || 'unknown',
+    roomId: hash.roomId || '',
+    world: hash.world || ''
   };
 }
 
@@ -109,7 +114,9 @@ export class PresenceStore {
       yaw: String(full.yaw),
       speed: String(full.speed),
       updatedAt: String(full.updatedAt),
-      serverId: full.serverId
+      serverId: full.serverId,
+      roomId: full.roomId,
+      world: full.world
     });
     await this.redis.expire(key, this.ttlSeconds);
   }
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { getWorldManifest } from '@arena/shared';
 import { WorldSim } from './WorldSim.js';
 
 describe('WorldSim', () => {
@@ -177,4 +178,24 @@ describe('WorldSim', () => {
     const distance = Math.hypot((p2?.x ?? 0) - (p1?.x ?? 0), (p2?.z ?? 0) - (p1?.z ?? 0));
     expect(distance).toBeGreaterThanOrEqual(1.3);
   });
+
+  it('uses bounds and polygon obstacles from the world manifest', () => {
+    const sim = new WorldSim(undefined, getWorldManifest('yard')!);
+    sim.joinPlayer('p1');
+    sim.joinPlayer('p2');
+    sim.setPlayerPositionForTest('p1', 30, 0);
+    // Centre of the signal box polygon.
+    expect(sim.teleportPlayer('p2', 39, 37)).toBe(true);
+
+    for (let i = 0; i < 600; i += 1) {
+      sim.setInput('p1', { moveX: 1, moveZ: 0 });
+      sim.step(1 / 60);
+    }
+
+    const snapshot = sim.step(1 / 60);
+    const p1 = snapshot.players.find((entry) => entry.id === 'p1');
+    const p2 = snapshot.players.find((entry) => entry.id === 'p2');
+    expect(p1?.x).toBeCloseTo(59.25, 5);
+    expect(Math.hypot((p2?.x ?? 39) - 39, (p2?.z ?? 37) - 37)).toBeGreaterThan(5);
+  });
 });
@@ -1,3 +1,17 @@
+import {
+  DEFAULT_WORLD_ALIAS,
+  PLAYER_RADIUS,
+  SpatialHash,
+  clampWorldX,
+  clampWorldZ,
+  collidesWithObstacle,
+  getWorldManifest,
+  stepMovement,
+  type WorldManifest,
+  type WorldPoint
+} from '@arena/shared';
+import type { WorldSimRecorder } from './replay/journal.js';
+
 export type InputState = {
   moveX: number;
   moveZ: number;
@@ -17,17 +31,6 @@ export type WorldSnapshot = {
   players: PlayerSnapshot[];
 };
 
-export const WORLD_SECTION_SPAWNS: Array<{ x: number; z: number }> = [
-  { x: -80, z: -45 },
-  { x: -25, z: -30 },
-  { x: 25, z: -30 },
-  { x: 80, z: -45 },
-  { x: -80, z: 45 },
-  { x: -25, z: 30 },
-  { x: 25, z: 30 },
-  { x: 80, z: 55 }
-];
-
 type PlayerState = {
   id: string;
   x: number;
@@ -37,48 +40,13 @@ type PlayerState = {
   yaw: number;
 };
 
-type AabbObstacle = {
-  minX: number;
-  maxX: number;
-  minZ: number;
-  maxZ: number;
-};
-
-const WORLD_BOUND = 120;
-const ACCEL = 14;
-const DRAG = 8;
-const MAX_SPEED = 5;
-// Keep the capsule-style avatars from feeling like they hit "invisible walls".
-// A smaller radius also reduces how often players get snagged on corners.
-const PLAYER_RADIUS = 0.75;
 const AVOIDANCE_RADIUS = 2.2;
-const AVOIDANCE_ACCEL = 6;
-const OBSTACLE_BUFFER = 0.6;
 const SEPARATION_PASSES = 2;
 const SEPARATION_PUSH_FACTOR = 0.5;
-const SECTION_SPAWNS = WORLD_SECTION_SPAWNS;
-const HUMAN_SPAWNS: Array<{ x: number; z: number }> = [
-  { x: -24, z: -24 },
-  { x: 0, z: -24 },
-  { x: 24, z: -24 },
-  { x: -24, z: 24 },
-  { x: 0, z: 24 },
-  { x: 24, z: 24 },
-  { x: 48, z: 0 },
-  { x: -8, z: 48 }
-];
-// Reduced obstacles to allow more exploration of the world.
-// These represent only the core solid structures that should block movement.
-const STATIC_OBSTACLES: AabbObstacle[] = [
-  // Train body core (smaller than before).
-  { minX: -20, maxX: 20, minZ: -8, maxZ: 8 },
-  // Left carriage core.
-  { minX: -80, maxX: -50, minZ: -10, maxZ: 10 },
-  // Small building in north-west.
-  { minX: -20, maxX: 10, minZ: -60, maxZ: -40 },
-  // Tree trunk in north-east (small).
-  { minX: 80, maxX: 95, minZ: -40, maxZ: -25 }
-];
+// Players within this distance of each other are overlapping.
+const MIN_PLAYER_DIST = PLAYER_RADIUS * 2;
+// Cell size of the player index; at least the largest per-player query radius.
+const PLAYER_GRID_CELL = 4;
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
@@ -92,70 +60,81 @@ function hashId(id: string): number {
   return hash;
 }
 
-function collidesWithObstacle(x: number, z: number, radius: number): boolean {
-  for (const obstacle of STATIC_OBSTACLES) {
-    const nearX = clamp(x, obstacle.minX, obstacle.maxX);
-    const nearZ = clamp(z, obstacle.minZ, obstacle.maxZ);
-    const dx = x - nearX;
-    const dz = z - nearZ;
-    if (dx * dx + dz * dz < radius * radius) {
-      return true;
-    }
-  }
-  return false;
-}
+export class WorldSim {
+  private readonly players = new Map<string, PlayerState>();
+  private readonly inputs = new Map<string, InputState>();
+  /** Spatial index over `players`; re-upsert a player whenever its x/z changes. */
+  private readonly grid = new SpatialHash<PlayerState>(PLAYER_GRID_CELL);
+  private tickCount = 0;
 
-function findSafeSpawn(x: number, z: number): { x: number; z: number } {
-  if (!collidesWithObstacle(x, z, PLAYER_RADIUS)) {
-    return { x, z };
+  /**
+   * @param recorder Optional input journal; every state-changing call is
+   * recorded so the session can be replayed tick-for-tick.
+   * @param world Bounds, obstacles and spawns; defaults to the canonical world.
+   */
+  constructor(
+    private readonly recorder?: WorldSimRecorder,
+    readonly world: WorldManifest = getWorldManifest(DEFAULT_WORLD_ALIAS)!
+  ) {}
+
+  private clampX(x: number): number {
+    return clampWorldX(this.world, x);
   }
 
-  for (let i = 1; i <= 24; i += 1) {
-    const ring = Math.floor((i - 1) / 8) + 1;
-    const angle = (i % 8) * (Math.PI / 4);
-    const nx = x + Math.cos(angle) * ring * 3.5;
-    const nz = z + Math.sin(angle) * ring * 3.5;
-    if (!collidesWithObstacle(nx, nz, PLAYER_RADIUS)) {
-      return { x: clamp(nx, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS), z: clamp(nz, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS) };
-    }
+  private clampZ(z: number): number {
+    return clampWorldZ(this.world, z);
   }
 
-  return { x: 0, z: 30 };
-}
+  private collidesWithObstacle(x: number, z: number, radius: number): boolean {
+    return collidesWithObstacle(this.world, x, z, radius);
+  }
 
-export class WorldSim {
-  private readonly players = new Map<string, PlayerState>();
-  private readonly inputs = new Map<string, InputState>();
-  private tickCount = 0;
+  private findSafeSpawn(x: number, z: number): WorldPoint {
+    if (!this.collidesWithObstacle(x, z, PLAYER_RADIUS)) {
+      return { x, z };
+    }
 
-  private collidesWithPlayer(x: number, z: number, excludeId?: string): boolean {
-    const minDist = PLAYER_RADIUS * 2;
-    const minDistSq = minDist * minDist;
-    for (const other of this.players.values()) {
-      if (excludeId && other.id === excludeId) {
-        continue;
-      }
-      const dx = x - other.x;
-      const dz = z - other.z;
-      if (dx * dx + dz * dz < minDistSq) {
-        return true;
+    for (let i = 1; i <= 24; i += 1) {
+      const ring = Math.floor((i - 1) / 8) + 1;
+      const angle = (i % 8) * (Math.PI / 4);
+      const nx = x + Math.cos(angle) * ring * 3.5;
+      const nz = z + Math.sin(angle) * ring * 3.5;
+      if (!this.collidesWithObstacle(nx, nz, PLAYER_RADIUS)) {
+        return { x: this.clampX(nx), z: this.clampZ(nz) };
       }
     }
-    return false;
+
+    return { ...this.world.fallbackSpawn };
+  }
+
+  private collidesWithPlayer(x: number, z: number, excludeId?: string): boolean {
+    return this.grid.anyWithin(x, z, MIN_PLAYER_DIST, excludeId);
+  }
+
+  /**
+   * Players that may overlap `player`, in join order after it. The query is
+   * padded because separation pushes move `player` while its pairs are resolved.
+   */
+  private laterNeighbours(player: PlayerState, order: Map<string, number>): PlayerState[] {
+    const index = order.get(player.id) ?? 0;
+    return this.grid
+      .queryRadius(player.x, player.z, MIN_PLAYER_DIST * 2)
+      .filter((other) => (order.get(other.id) ?? -1) > index)
+      .sort((a, b) => order.get(a.id)! - order.get(b.id)!);
   }
 
   private canOccupy(x: number, z: number, excludeId?: string): boolean {
-    return !collidesWithObstacle(x, z, PLAYER_RADIUS) && !this.collidesWithPlayer(x, z, excludeId);
+    return !this.collidesWithObstacle(x, z, PLAYER_RADIUS) && !this.collidesWithPlayer(x, z, excludeId);
   }
 
   private findSafeSpawnFor(id: string, desiredX: number, desiredZ: number): { x: number; z: number } {
-    const clampedX = clamp(desiredX, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-    const clampedZ = clamp(desiredZ, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
+    const clampedX = this.clampX(desiredX);
+    const clampedZ = this.clampZ(desiredZ);
     if (this.canOccupy(clampedX, clampedZ, id)) {
       return { x: clampedX, z: clampedZ };
     }
 
-    const fallback = findSafeSpawn(clampedX, clampedZ);
+    const fallback = this.findSafeSpawn(clampedX, clampedZ);
     if (this.canOccupy(fallback.x, fallback.z, id)) {
       return fallback;
     }
@@ -165,49 +144,60 @@ export class WorldSim {
       for (let i = 0; i < samples; i += 1) {
         const angle = (i / samples) * Math.PI * 2;
         const radius = ring * 3.3;
-        const x = clamp(clampedX + Math.cos(angle) * radius, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-        const z = clamp(clampedZ + Math.sin(angle) * radius, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
+        const x = this.clampX(clampedX + Math.cos(angle) * radius);
+        const z = this.clampZ(clampedZ + Math.sin(angle) * radius);
         if (this.canOccupy(x, z, id)) {
           return { x, z };
         }
       }
     }
 
-    const guaranteedOpen: Array<{ x: number; z: number }> = [...HUMAN_SPAWNS, ...SECTION_SPAWNS];
+    const guaranteedOpen: WorldPoint[] = [...this.world.humanSpawns, ...this.world.sections.map((section) => section.spawn)];
     for (const candidate of guaranteedOpen) {
       if (this.canOccupy(candidate.x, candidate.z, id)) {
-        return candidate;
+        return { ...candidate };
       }
     }
 
-    return { x: 0, z: 30 };
+    return { ...this.world.fallbackSpawn };
   }
 
   joinPlayer(id: string, preferred?: { x: number; z: number }): void {
     const hash = hashId(id);
     const isAgent = id.startsWith('agent');
-    const section = SECTION_SPAWNS[hash % SECTION_SPAWNS.length] ?? { x: 0, z: 0 };
+    const sections = this.world.sections;
+    const section = sections[hash % sections.length]?.spawn ?? { x: 0, z: 0 };
     const jitterX = ((hash >> 8) % 20) - 10;
     const jitterZ = ((hash >> 16) % 20) - 10;
 
-    const humanSpawn = HUMAN_SPAWNS[hash % HUMAN_SPAWNS.length] ?? { x: 0, z: 30 };
+    const humanSpawns = this.world.humanSpawns;
+    const humanSpawn = humanSpawns[hash % humanSpawns.length] ?? this.world.fallbackSpawn;
     const desiredX = preferred?.x ?? (isAgent ? section.x + jitterX : humanSpawn.x);
     const desiredZ = preferred?.z ?? (isAgent ? section.z + jitterZ : humanSpawn.z);
     const safe = this.findSafeSpawnFor(id, desiredX, desiredZ);
+    this.recorder?.record(preferred
+      ? { t: 'join', tick: this.tickCount, id, x: preferred.x, z: preferred.z }
+      : { t: 'join', tick: this.tickCount, id });
 
-    this.players.set(id, {
+    const state: PlayerState = {
       id,
       x: safe.x,
       z: safe.z,
       vx: 0,
       vz: 0,
       yaw: 0
-    });
+    };
+    this.players.set(id, state);
+    this.grid.upsert(state);
     this.inputs.set(id, { moveX: 0, moveZ: 0 });
   }
 
   removePlayer(id: string): void {
+    if (this.players.has(id)) {
+      this.recorder?.record({ t: 'leave', tick: this.tickCount, id });
+    }
     this.players.delete(id);
+    this.grid.remove(id);
     this.inputs.delete(id);
   }
 
@@ -216,10 +206,12 @@ export class WorldSim {
       return;
     }
 
-    this.inputs.set(id, {
+    const next = {
       moveX: clamp(input.moveX, -1, 1),
       moveZ: clamp(input.moveZ, -1, 1)
-    });
+    };
+    this.inputs.set(id, next);
+    this.recorder?.record({ t: 'input', tick: this.tickCount, id, ...next });
   }
 
   setPlayerPositionForTest(id: string, x: number, z: number): void {
@@ -227,10 +219,11 @@ export class WorldSim {
     if (!player) {
       return;
     }
-    player.x = clamp(x, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-    player.z = clamp(z, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
+    player.x = this.clampX(x);
+    player.z = this.clampZ(z);
     player.vx = 0;
     player.vz = 0;
+    this.grid.upsert(player);
   }
 
   teleportPlayer(id: string, desiredX: number, desiredZ: number): boolean {
@@ -238,11 +231,13 @@ export class WorldSim {
     if (!player) {
       return false;
     }
+    this.recorder?.record({ t: 'teleport', tick: this.tickCount, id, x: desiredX, z: desiredZ });
     const safe = this.findSafeSpawnFor(id, desiredX, desiredZ);
     player.x = safe.x;
     player.z = safe.z;
     player.vx = 0;
     player.vz = 0;
+    this.grid.upsert(player);
     return true;
   }
 
@@ -251,102 +246,30 @@ export class WorldSim {
     const allPlayers = [...this.players.values()];
 
     for (const player of allPlayers) {
-      const input = this.inputs.get(player.id) ?? { moveX: 0, moveZ: 0 };
-      const rawLength = Math.hypot(input.moveX, input.moveZ);
-      const moving = rawLength > 0.001;
-
-      if (moving) {
-        const dirX = input.moveX / rawLength;
-        const dirZ = input.moveZ / rawLength;
-
-        player.vx += dirX * ACCEL * dtSeconds;
-        player.vz += dirZ * ACCEL * dtSeconds;
-      } else {
-        player.vx -= player.vx * Math.min(1, DRAG * dtSeconds);
-        player.vz -= player.vz * Math.min(1, DRAG * dtSeconds);
-      }
-
       // Predictive avoidance keeps movement smoother than pure post-collision correction.
-      let avoidX = 0;
-      let avoidZ = 0;
-      for (const other of allPlayers) {
-        if (other.id === player.id) {
-          continue;
-        }
-        const dx = player.x - other.x;
-        const dz = player.z - other.z;
-        const distSq = dx * dx + dz * dz;
-        if (distSq < 0.0001 || distSq > AVOIDANCE_RADIUS * AVOIDANCE_RADIUS) {
-          continue;
+      const avoid = { x: 0, z: 0 };
+      this.grid.forEachWithin(player.x, player.z, AVOIDANCE_RADIUS, (other, distSq) => {
+        if (other.id === player.id || distSq < 0.0001) {
+          return;
         }
         const dist = Math.sqrt(distSq);
         const weight = (AVOIDANCE_RADIUS - dist) / AVOIDANCE_RADIUS;
-        avoidX += (dx / dist) * weight;
-        avoidZ += (dz / dist) * weight;
-      }
-      for (const obstacle of STATIC_OBSTACLES) {
-        const nearX = clamp(player.x, obstacle.minX, obstacle.maxX);
-        const nearZ = clamp(player.z, obstacle.minZ, obstacle.maxZ);
-        const dx = player.x - nearX;
-        const dz = player.z - nearZ;
-        const distSq = dx * dx + dz * dz;
-        const range = PLAYER_RADIUS + OBSTACLE_BUFFER;
-        if (distSq < 0.0001 || distSq > range * range) {
-          continue;
-        }
-        const dist = Math.sqrt(distSq);
-        const weight = (range - dist) / range;
-        // Keep this gentle. Hard avoidance feels like a forcefield.
-        avoidX += (dx / dist) * weight * 0.75;
-        avoidZ += (dz / dist) * weight * 0.75;
-      }
-      const avoidMag = Math.hypot(avoidX, avoidZ);
-      if (avoidMag > 0.0001) {
-        player.vx += (avoidX / avoidMag) * AVOIDANCE_ACCEL * dtSeconds;
-        player.vz += (avoidZ / avoidMag) * AVOIDANCE_ACCEL * dtSeconds;
-      }
-
-      const speed = Math.hypot(player.vx, player.vz);
-      if (speed > MAX_SPEED) {
-        player.vx = (player.vx / speed) * MAX_SPEED;
-        player.vz = (player.vz / speed) * MAX_SPEED;
-      }
-
-      const nextX = clamp(player.x + player.vx * dtSeconds, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-      if (!collidesWithObstacle(nextX, player.z, PLAYER_RADIUS)) {
-        player.x = nextX;
-      } else {
-        player.vx *= -0.08;
-      }
-
-      const nextZ = clamp(player.z + player.vz * dtSeconds, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-      if (!collidesWithObstacle(player.x, nextZ, PLAYER_RADIUS)) {
-        player.z = nextZ;
-      } else {
-        player.vz *= -0.08;
-      }
-
-      const postSpeed = Math.hypot(player.vx, player.vz);
-      if (postSpeed > 0.01) {
-        player.yaw = Math.atan2(player.vx, player.vz);
-      }
+        avoid.x += ((player.x - other.x) / dist) * weight;
+        avoid.z += ((player.z - other.z) / dist) * weight;
+      });
+      stepMovement(player, this.inputs.get(player.id) ?? { moveX: 0, moveZ: 0 }, dtSeconds, this.world, avoid);
+      this.grid.upsert(player);
     }
 
+    const order = new Map(allPlayers.map((player, index) => [player.id, index]));
     for (let pass = 0; pass < SEPARATION_PASSES; pass += 1) {
-      for (let i = 0; i < allPlayers.length; i += 1) {
-        for (let j = i + 1; j < allPlayers.length; j += 1) {
-          const a = allPlayers[i];
-          const b = allPlayers[j];
-          if (!a || !b) {
-            continue;
-          }
-
+      for (const a of allPlayers) {
+        for (const b of this.laterNeighbours(a, order)) {
           let dx = b.x - a.x;
           let dz = b.z - a.z;
           let dist = Math.hypot(dx, dz);
-          const minDist = PLAYER_RADIUS * 2;
 
-          if (dist >= minDist) {
+          if (dist >= MIN_PLAYER_DIST) {
             continue;
           }
 
@@ -357,24 +280,26 @@ export class WorldSim {
             dist = 1;
           }
 
-          const overlap = minDist - dist;
+          const overlap = MIN_PLAYER_DIST - dist;
           const nx = dx / dist;
           const nz = dz / dist;
           const push = overlap * SEPARATION_PUSH_FACTOR;
 
-          const nextAX = clamp(a.x - nx * push, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-          const nextAZ = clamp(a.z - nz * push, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-          if (!collidesWithObstacle(nextAX, nextAZ, PLAYER_RADIUS)) {
+          const nextAX = this.clampX(a.x - nx * push);
+          const nextAZ = this.clampZ(a.z - nz * push);
+          if (!this.collidesWithObstacle(nextAX, nextAZ, PLAYER_RADIUS)) {
             a.x = nextAX;
             a.z = nextAZ;
           }
 
-          const nextBX = clamp(b.x + nx * push, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-          const nextBZ = clamp(b.z + nz * push, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS);
-          if (!collidesWithObstacle(nextBX, nextBZ, PLAYER_RADIUS)) {
+          const nextBX = this.clampX(b.x + nx * push);
+          const nextBZ = this.clampZ(b.z + nz * push);
+          if (!this.collidesWithObstacle(nextBX, nextBZ, PLAYER_RADIUS)) {
             b.x = nextBX;
             b.z = nextBZ;
           }
+          this.grid.upsert(a);
+          this.grid.upsert(b);
 
           a.vx *= 0.85;
           a.vz *= 0.85;
@@ -385,16 +310,12 @@ export class WorldSim {
     }
 
     // Final invariant pass: avoid any remaining overlaps while respecting obstacles.
-    for (let i = 0; i < allPlayers.length; i += 1) {
-      for (let j = i + 1; j < allPlayers.length; j += 1) {
-        const a = allPlayers[i];
-        const b = allPlayers[j];
-        if (!a || !b) continue;
+    for (const a of allPlayers) {
+      for (const b of this.laterNeighbours(a, order)) {
         let dx = b.x - a.x;
         let dz = b.z - a.z;
         const distSq = dx * dx + dz * dz;
-        const minDist = PLAYER_RADIUS * 2;
-        if (distSq >= minDist * minDist) continue;
+        if (distSq >= MIN_PLAYER_DIST * MIN_PLAYER_DIST) continue;
         let dist = Math.sqrt(distSq);
         if (dist < 0.0001) {
           const angle = ((hashId(a.id) + hashId(b.id)) % 360) * (Math.PI / 180);
@@ -404,27 +325,29 @@ export class WorldSim {
         }
         const nx = dx / dist;
         const nz = dz / dist;
-        const correction = (minDist - dist) * 0.5;
+        const correction = (MIN_PLAYER_DIST - dist) * 0.5;
         const candidateA = {
-          x: clamp(a.x - nx * correction, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS),
-          z: clamp(a.z - nz * correction, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS)
+          x: this.clampX(a.x - nx * correction),
+          z: this.clampZ(a.z - nz * correction)
         };
         const candidateB = {
-          x: clamp(b.x + nx * correction, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS),
-          z: clamp(b.z + nz * correction, -WORLD_BOUND + PLAYER_RADIUS, WORLD_BOUND - PLAYER_RADIUS)
+          x: this.clampX(b.x + nx * correction),
+          z: this.clampZ(b.z + nz * correction)
         };
-        if (!collidesWithObstacle(candidateA.x, candidateA.z, PLAYER_RADIUS)) {
+        if (!this.collidesWithObstacle(candidateA.x, candidateA.z, PLAYER_RADIUS)) {
           a.x = candidateA.x;
           a.z = candidateA.z;
         }
-        if (!collidesWithObstacle(candidateB.x, candidateB.z, PLAYER_RADIUS)) {
+        if (!this.collidesWithObstacle(candidateB.x, candidateB.z, PLAYER_RADIUS)) {
           b.x = candidateB.x;
           b.z = candidateB.z;
         }
+        this.grid.upsert(a);
+        this.grid.upsert(b);
       }
     }
 
-    return {
+    const snapshot: WorldSnapshot = {
       tick: this.tickCount,
       players: [...this.players.values()].map((player) => ({
         id: player.id,
@@ -435,5 +358,7 @@ export class WorldSim {
         speed: Math.hypot(player.vx, player.vz)
       }))
     };
+    this.recorder?.recordStep(dtSeconds, snapshot);
+    return snapshot;
   }
 }
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AnomalyDetector, type AnomalyReport } from './AnomalyDetector.js';
+
+describe('AnomalyDetector', () => {
+  it('drops inputs over the rate and reports the flood once per window', () => {
+    const reports: AnomalyReport[] = [];
+    const detector = new AnomalyDetector({ maxInputsPerSecond: 5 }, (report) => reports.push(report));
+    const accepted = Array.from({ length: 8 }, (_, index) => detector.recordInput('p1', 1_000 + index));
+    expect(accepted).toEqual([true, true, true, true, true, false, false, false]);
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ subjectId: 'p1', kind: 'input_flood', action: 'none' });
+
+    // A new window starts clean.
+    expect(detector.recordInput('p1', 2_100)).toBe(true);
+  });
+
+  it('reports presence jumps beyond max speed but not room changes', () => {
+    const detector = new AnomalyDetector();
+    const base = { roomId: 'mega-1', serverId: 'srv_b' };
+    expect(detector.recordPresence('p2', { x: 0, z: 0, updatedAt: 1_000, ...base })).toBeNull();
+    expect(detector.recordPresence('p2', { x: 4, z: 0, updatedAt: 1_500, ...base })).toBeNull();
+    expect(detector.recordPresence('p2', { x: 60, z: 0, updatedAt: 2_000, ...base })).toMatchObject({
+      kind: 'position_jump',
+      detail: { distance: 56 }
+    });
+    // Same entry read again and a move to another room are not jumps.
+    expect(detector.recordPresence('p2', { x: 60, z: 0, updatedAt: 2_000, ...base })).toBeNull();
+    expect(detector.recordPresence('p2', { x: -80, z: 0, updatedAt: 2_500, roomId: 'mega-2', serverId: 'srv_b' })).toBeNull();
+  });
+
+  it('flags, then asks for a kick, and decays back', () => {
+    const detector = new AnomalyDetector({ flagScore: 5, kickScore: 10, scoreDecayMs: 10_000 });
+    const first = detector.recordIdentityMismatch('client:abc', 'role_mismatch', { requestedRole: 'human' }, 0);
+    expect(first).toMatchObject({ action: 'flag', score: 5 });
+    expect(detector.isFlagged('client:abc', 0)).toBe(true);
+    expect(detector.recordIdentityMismatch('client:abc', 'auth_mismatch', {}, 0).action).toBe('kick');
+    expect(detector.flaggedSubjects(0)).toEqual([{ subjectId: 'client:abc', score: 10 }]);
+
+    expect(detector.isFlagged('client:abc', 19_000)).toBe(false);
+    detector.forget('client:abc');
+    expect(detector.flaggedSubjects(19_000)).toEqual([]);
+  });
+});
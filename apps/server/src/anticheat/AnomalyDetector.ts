@@ -0,0 +1,207 @@
+import { MOVEMENT_MAX_SPEED } from '@arena/shared';
+
+export type AnomalyKind = 'input_flood' | 'position_jump' | 'role_mismatch' | 'auth_mismatch';
+
+/** What the caller should do about the subject after this anomaly. */
+export type AnomalyAction = 'none' | 'flag' | 'kick';
+
+export type AnomalyReport = {
+  subjectId: string;
+  kind: AnomalyKind;
+  detail: Record<string, unknown>;
+  /** Decayed score after this anomaly. */
+  score: number;
+  action: AnomalyAction;
+};
+
+export type AnomalyDetectorOptions = {
+  /** Inputs per player per rolling second before they are dropped and reported. */
+  maxInputsPerSecond: number;
+  /** Score at which a subject is flagged (reported once until it decays below). */
+  flagScore: number;
+  /** Score at which the caller should soft-kick; 0 never kicks. */
+  kickScore: number;
+  /** Time for a score to decay by `flagScore`. */
+  scoreDecayMs: number;
+  /** Extra distance tolerated between presence updates on top of max speed. */
+  positionSlack: number;
+};
+
+const DEFAULT_OPTIONS: AnomalyDetectorOptions = {
+  maxInputsPerSecond: 120,
+  flagScore: 5,
+  kickScore: 15,
+  scoreDecayMs: 60_000,
+  positionSlack: 3
+};
+
+const KIND_WEIGHTS: Record<AnomalyKind, number> = {
+  input_flood: 1,
+  position_jump: 2,
+  role_mismatch: 5,
+  auth_mismatch: 5
+};
+
+// Separation pushes and avoidance can briefly exceed the input speed cap.
+const PRESENCE_SPEED_TOLERANCE = 1.5;
+
+type SubjectState = {
+  score: number;
+  scoredAt: number;
+  flagged: boolean;
+  inputWindowStart: number;
+  inputCount: number;
+  floodReported: boolean;
+  lastPresence: { x: number; z: number; at: number; roomId: string; serverId: string } | null;
+};
+
+/**
+ * Per-connection movement and identity sanity checks. Each anomaly adds a
+ * weighted score that decays over time; crossing `flagScore` flags the
+ * subject and crossing `kickScore` asks the caller to disconnect it. The
+ * detector only decides: metrics, audit entries and kicks are the caller's.
+ */
+export class AnomalyDetector {
+  private readonly options: AnomalyDetectorOptions;
+  private readonly subjects = new Map<string, SubjectState>();
+
+  constructor(
+    options: Partial<AnomalyDetectorOptions> = {},
+    private readonly onReport: (report: AnomalyReport) => void = () => {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Count one input. False when the player is over its rate and the input
+   * should be dropped; the flood is reported once per window.
+   */
+  recordInput(subjectId: string, now = Date.now()): boolean {
+    const state = this.stateFor(subjectId, now);
+    if (now - state.inputWindowStart >= 1000) {
+      state.inputWindowStart = now;
+      state.inputCount = 0;
+      state.floodReported = false;
+    }
+    state.inputCount += 1;
+    if (state.inputCount <= this.options.maxInputsPerSecond) {
+      return true;
+    }
+    if (!state.floodReported) {
+      state.floodReported = true;
+      this.report(subjectId, 'input_flood', { inputsPerSecond: state.inputCount, limit: this.options.maxInputsPerSecond }, now);
+    }
+    return false;
+  }
+
+  /**
+   * Compare a presence entry (typically from another node) with the previous
+   * one for the same player. Room or server changes restart tracking.
+   */
+  recordPresence(
+    subjectId: string,
+    entry: { x: number; z: number; updatedAt: number; roomId: string; serverId: string },
+    now = Date.now()
+  ): AnomalyReport | null {
+    const state = this.stateFor(subjectId, now);
+    const previous = state.lastPresence;
+    state.lastPresence = { x: entry.x, z: entry.z, at: entry.updatedAt, roomId: entry.roomId, serverId: entry.serverId };
+    if (!previous || previous.roomId !== entry.roomId || previous.serverId !== entry.serverId || entry.updatedAt <= previous.at) {
+      return null;
+    }
+    const distance = Math.hypot(entry.x - previous.x, entry.z - previous.z);
+    const elapsedSeconds = (entry.updatedAt - previous.at) / 1000;
+    const allowed = MOVEMENT_MAX_SPEED * PRESENCE_SPEED_TOLERANCE * elapsedSeconds + this.options.positionSlack;
+    if (distance <= allowed) {
+      return null;
+    }
+    return this.report(subjectId, 'position_jump', {
+      distance: Number(distance.toFixed(2)),
+      allowed: Number(allowed.toFixed(2)),
+      elapsedMs: entry.updatedAt - previous.at,
+      roomId: entry.roomId,
+      serverId: entry.serverId
+    }, now);
+  }
+
+  /** A connection whose claimed role or identity does not match its credentials. */
+  recordIdentityMismatch(
+    subjectId: string,
+    kind: 'role_mismatch' | 'auth_mismatch',
+    detail: Record<string, unknown>,
+    now = Date.now()
+  ): AnomalyReport {
+    return this.report(subjectId, kind, detail, now);
+  }
+
+  isFlagged(subjectId: string, now = Date.now()): boolean {
+    const state = this.subjects.get(subjectId);
+    if (!state) {
+      return false;
+    }
+    this.decay(state, now);
+    return state.flagged;
+  }
+
+  flaggedSubjects(now = Date.now()): Array<{ subjectId: string; score: number }> {
+    const flagged: Array<{ subjectId: string; score: number }> = [];
+    for (const [subjectId, state] of this.subjects) {
+      this.decay(state, now);
+      if (state.flagged) {
+        flagged.push({ subjectId, score: Number(state.score.toFixed(2)) });
+      }
+    }
+    return flagged;
+  }
+
+  forget(subjectId: string): void {
+    this.subjects.delete(subjectId);
+  }
+
+  private report(subjectId: string, kind: AnomalyKind, detail: Record<string, unknown>, now: number): AnomalyReport {
+    const state = this.stateFor(subjectId, now);
+    state.score += KIND_WEIGHTS[kind];
+    let action: AnomalyAction = 'none';
+    if (this.options.kickScore > 0 && state.score >= this.options.kickScore) {
+      action = 'kick';
+    } else if (!state.flagged && state.score >= this.options.flagScore) {
+      action = 'flag';
+    }
+    if (state.score >= this.options.flagScore) {
+      state.flagged = true;
+    }
+    const report: AnomalyReport = { subjectId, kind, detail, score: Number(state.score.toFixed(2)), action };
+    this.onReport(report);
+    return report;
+  }
+
+  private stateFor(subjectId: string, now: number): SubjectState {
+    let state = this.subjects.get(subjectId);
+    if (!state) {
+      state = {
+        score: 0,
+        scoredAt: now,
+        flagged: false,
+        inputWindowStart: now,
+        inputCount: 0,
+        floodReported: false,
+        lastPresence: null
+      };
+      this.subjects.set(subjectId, state);
+    }
+    this.decay(state, now);
+    return state;
+  }
+
+  private decay(state: SubjectState, now: number): void {
+    const elapsed = Math.max(0, now - state.scoredAt);
+    state.scoredAt = now;
+    if (state.score > 0 && elapsed > 0) {
+      state.score = Math.max(0, state.score - (elapsed / this.options.scoreDecayMs) * this.options.flagScore);
+    }
+    // Flags clear once the score has decayed to half the threshold.
+    if (state.flagged && state.score < this.options.flagScore / 2) {
+      state.flagged = false;
+    }
+  }
+}
@@ -58,12 +58,25 @@ export const config = {
   // Game
   // Back-compat: env uses PROXIMITY_RADIUS (historical). Accept PROXIMITY_THRESHOLD too.
   proximityThreshold: Number(process.env.PROXIMITY_RADIUS ?? process.env.PROXIMITY_THRESHOLD ?? 12),
-  worldBound: 120,
+  worldAlias: process.env.WORLD_ALIAS?.trim() || 'mega',
+  roomCapacity: Math.max(1, Number(process.env.ROOM_CAPACITY ?? 64)),
+  // Snapshots carry players within SNAPSHOT_AOI_RADIUS_CELLS grid cells of the viewer.
+  snapshotAoiCellSize: Math.max(5, Number(process.env.SNAPSHOT_AOI_CELL_SIZE ?? 40)),
+  snapshotAoiRadiusCells: Math.max(0, Math.floor(Number(process.env.SNAPSHOT_AOI_RADIUS_CELLS ?? 1))),
+  // Anti-cheat: inputs over the per-second rate are dropped; anomaly scores flag, then soft-kick (0 = never kick).
+  anticheatMaxInputsPerSecond: Math.max(20, Number(process.env.ANTICHEAT_MAX_INPUTS_PER_SEC ?? 120)),
+  anticheatFlagScore: Math.max(1, Number(process.env.ANTICHEAT_FLAG_SCORE ?? 5)),
+  anticheatKickScore: Math.max(0, Number(process.env.ANTICHEAT_KICK_SCORE ?? 15)),
   
   // Challenges
   challengePendingTimeoutMs: Math.max(5_000, Number(process.env.CHALLENGE_PENDING_TIMEOUT_MS ?? 15_000)),
   challengeOrphanGraceMs: Math.max(30_000, Number(process.env.CHALLENGE_ORPHAN_GRACE_MS ?? 30_000)),
   agentToHumanChallengeCooldownMs: Math.max(0, Number(process.env.AGENT_TO_HUMAN_CHALLENGE_COOLDOWN_MS ?? 20000)),
+  houseSeedChainLength: Math.max(1, Math.min(100_000, Number(process.env.HOUSE_SEED_CHAIN_LENGTH ?? 10_000))),
+  sideBetFeeBps: Math.max(0, Math.min(5000, Number(process.env.SIDE_BET_FEE_BPS ?? 500))),
+  sideBetMaxWager: Math.max(1, Number(process.env.SIDE_BET_MAX_WAGER ?? 100)),
+  replayJournalDir: process.env.REPLAY_JOURNAL_DIR?.trim() || '',
+  replayChecksumEveryTicks: Math.max(0, Number(process.env.REPLAY_CHECKSUM_EVERY_TICKS ?? 100)),
   
   // Escrow
   agentRuntimeUrl: process.env.AGENT_RUNTIME_URL ?? process.env.WEB_AGENT_RUNTIME_BASE_URL ?? 'http://localhost:4100',
@@ -71,6 +84,8 @@ export const config = {
   escrowResolverPrivateKey: process.env.ESCROW_RESOLVER_PRIVATE_KEY,
   escrowContractAddress: process.env.ESCROW_CONTRACT_ADDRESS,
   escrowTokenDecimals: Number(process.env.ESCROW_TOKEN_DECIMALS ?? 6),
+  // Must match the deployed escrow's feeBps; market positions gross the house side up by it.
+  escrowFeeBps: Math.max(0, Math.min(10_000, Number(process.env.ESCROW_FEE_BPS ?? 0))),
   deployerPrivateKey: process.env.DEPLOYER_PRIVATE_KEY,
   
   // Polymarket CLOB hedge (Polygon mainnet)
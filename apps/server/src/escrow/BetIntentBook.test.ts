@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BetIntentBook } from './BetIntentBook.js';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+describe('BetIntentBook', () => {
+  it('collects a signature from every opted-in side before releasing the intents', async () => {
+    let now = 1_000;
+    const book = new BetIntentBook(() => now);
+    book.setSigner('p_alice', ALICE);
+    book.setSigner('p_bob', BOB);
+
+    expect(book.open('c_none', {}, 5_000)).toBe(false);
+    expect(book.open('c_1', { challenger: ALICE, opponent: BOB }, 5_000)).toBe(true);
+    expect(book.sign('c_2', 'challenger', '0xaa')).toEqual({ ok: false, reason: 'bet_intent_not_requested' });
+
+    const signed = book.whenSigned('c_1', 10_000);
+    expect(book.sign('c_1', 'challenger', '0xaa')).toEqual({ ok: true });
+    expect(book.sign('c_1', 'opponent', '0xbb')).toEqual({ ok: true });
+    expect(await signed).toEqual({
+      expiresAt: 5_000,
+      challenger: { signer: ALICE, signature: '0xaa' },
+      opponent: { signer: BOB, signature: '0xbb' }
+    });
+    expect(book.signerOf('c_1', 'opponent')).toBe(BOB);
+
+    now = 5_000;
+    expect(book.sign('c_1', 'opponent', '0xcc')).toEqual({ ok: false, reason: 'bet_intent_expired' });
+  });
+
+  it('gives up on a side that never signs and only asks opted-in sides', async () => {
+    const book = new BetIntentBook(() => 0);
+    book.open('c_1', { challenger: ALICE }, 60_000);
+
+    expect(book.sign('c_1', 'opponent', '0xbb')).toEqual({ ok: false, reason: 'bet_intent_not_requested' });
+    expect(await book.whenSigned('c_1', 5)).toBeNull();
+
+    book.sign('c_1', 'challenger', '0xaa');
+    expect(await book.whenSigned('c_1', 5)).toEqual({ expiresAt: 60_000, challenger: { signer: ALICE, signature: '0xaa' } });
+
+    book.clear('c_1');
+    expect(book.isPending('c_1')).toBe(false);
+    expect(book.signerOf('c_1', 'challenger')).toBeUndefined();
+  });
+});
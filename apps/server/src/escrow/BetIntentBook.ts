@@ -0,0 +1,108 @@
+import type { BetIntents, SignedBetIntent } from '../EscrowAdapter.js';
+
+export type BetIntentSide = 'challenger' | 'opponent';
+
+type PendingBetIntents = {
+  expiresAt: number;
+  signers: Partial<Record<BetIntentSide, string>>;
+  signed: Partial<Record<BetIntentSide, SignedBetIntent>>;
+  waiters: Array<() => void>;
+};
+
+/**
+ * Opt-in non-custodial escrow. Players who registered an external wallet sign a
+ * `BetIntent` for each staked challenge; the lock waits for those signatures
+ * and relays them through `createBetWithSig` instead of the runtime approving
+ * from the player's custodial wallet.
+ */
+export class BetIntentBook {
+  private readonly signerByPlayer = new Map<string, string>();
+  private readonly byChallenge = new Map<string, PendingBetIntents>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  setSigner(playerId: string, address: string | null): void {
+    if (address) {
+      this.signerByPlayer.set(playerId, address);
+    } else {
+      this.signerByPlayer.delete(playerId);
+    }
+  }
+
+  signerFor(playerId: string): string | null {
+    return this.signerByPlayer.get(playerId) ?? null;
+  }
+
+  forgetPlayer(playerId: string): void {
+    this.signerByPlayer.delete(playerId);
+  }
+
+  /** Starts collecting signatures from the sides in `signers`; false when neither side opted in. */
+  open(challengeId: string, signers: Partial<Record<BetIntentSide, string>>, expiresAt: number): boolean {
+    if (!signers.challenger && !signers.opponent) {
+      return false;
+    }
+    this.byChallenge.set(challengeId, { expiresAt, signers, signed: {}, waiters: [] });
+    return true;
+  }
+
+  isPending(challengeId: string): boolean {
+    return this.byChallenge.has(challengeId);
+  }
+
+  sign(challengeId: string, side: BetIntentSide, signature: string): { ok: boolean; reason?: string } {
+    const pending = this.byChallenge.get(challengeId);
+    const signer = pending?.signers[side];
+    if (!pending || !signer) {
+      return { ok: false, reason: 'bet_intent_not_requested' };
+    }
+    if (this.now() >= pending.expiresAt) {
+      return { ok: false, reason: 'bet_intent_expired' };
+    }
+    pending.signed[side] = { signer, signature };
+    if (this.collected(pending)) {
+      for (const wake of pending.waiters.splice(0)) {
+        wake();
+      }
+    }
+    return { ok: true };
+  }
+
+  /** The collected intents once every opted-in side has signed, or null after `timeoutMs`. */
+  async whenSigned(challengeId: string, timeoutMs: number): Promise<BetIntents | null> {
+    const pending = this.byChallenge.get(challengeId);
+    if (!pending) {
+      return null;
+    }
+    if (!this.collected(pending)) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await new Promise<void>((resolve) => {
+        pending.waiters.push(resolve);
+        timer = setTimeout(resolve, timeoutMs);
+      });
+      clearTimeout(timer);
+      if (!this.collected(pending)) {
+        return null;
+      }
+    }
+    return { expiresAt: pending.expiresAt, ...pending.signed };
+  }
+
+  /** External address a side staked from, for paying that side out. */
+  signerOf(challengeId: string, side: BetIntentSide): string | undefined {
+    return this.byChallenge.get(challengeId)?.signed[side]?.signer;
+  }
+
+  clear(challengeId: string): void {
+    const pending = this.byChallenge.get(challengeId);
+    this.byChallenge.delete(challengeId);
+    for (const wake of pending?.waiters.splice(0) ?? []) {
+      wake();
+    }
+  }
+
+  private collected(pending: PendingBetIntents): boolean {
+    return (!pending.signers.challenger || Boolean(pending.signed.challenger))
+      && (!pending.signers.opponent || Boolean(pending.signed.opponent));
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { Interface, keccak256, toUtf8Bytes } from 'ethers';
+import {
+  ESCROW_EVENT_ABI,
+  EscrowIndexer,
+  type IndexedEscrowEvent,
+  type IndexedTransfer,
+  type IndexerChain,
+  type IndexerCursor,
+  type IndexerLog,
+  type IndexerScope,
+  type IndexerStore
+} from './EscrowIndexer.js';
+
+const ESCROW = '0x3333333333333333333333333333333333333333';
+const TOKEN = '0x4444444444444444444444444444444444444444';
+const OTHER_ESCROW = '0x5555555555555555555555555555555555555555';
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const escrowAbi = new Interface(ESCROW_EVENT_ABI);
+const tokenAbi = new Interface(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+const betId = keccak256(toUtf8Bytes('arena:c_1'));
+
+type FakeLog = Omit<IndexerLog, 'blockNumber' | 'blockHash' | 'index'> & { address: string };
+
+function escrowLog(name: string, args: unknown[], tx: string): FakeLog {
+  const encoded = escrowAbi.encodeEventLog(name, args);
+  return { address: ESCROW, transactionHash: tx, ...encoded };
+}
+
+function transferLog(from: string, to: string, value: bigint, tx: string): FakeLog {
+  const encoded = tokenAbi.encodeEventLog('Transfer', [from, to, value]);
+  return { address: TOKEN, transactionHash: tx, ...encoded };
+}
+
+/** A chain whose blocks can be replaced from a height to simulate a reorg. */
+class FakeChain implements IndexerChain {
+  blocks: Array<{ hash: string; logs: FakeLog[] }> = [];
+
+  mine(fork: string, logs: FakeLog[] = []): void {
+    this.blocks.push({ hash: `0x${fork}${this.blocks.length}`, logs });
+  }
+
+  async chainId(): Promise<number> {
+    return 31337;
+  }
+
+  async blockNumber(): Promise<number> {
+    return this.blocks.length - 1;
+  }
+
+  async blockHash(blockNumber: number): Promise<string | null> {
+    return this.blocks[blockNumber]?.hash ?? null;
+  }
+
+  async logs(filter: { address: string; topics: Array<string | null>; fromBlock: number; toBlock: number }): Promise<IndexerLog[]> {
+    const out: IndexerLog[] = [];
+    for (let n = filter.fromBlock; n <= filter.toBlock; n += 1) {
+      const block = this.blocks[n];
+      block?.logs.forEach((log, index) => {
+        const matches = log.address === filter.address
+          && filter.topics.every((topic, i) => topic === null || log.topics[i]?.toLowerCase() === topic.toLowerCase());
+        if (matches) {
+          out.push({ ...log, blockNumber: n, blockHash: block.hash, index });
+        }
+      });
+    }
+    return out;
+  }
+}
+
+class MemoryStore implements IndexerStore {
+  cursor: IndexerCursor | null = null;
+  escrowEvents: IndexedEscrowEvent[] = [];
+  transfers: IndexedTransfer[] = [];
+
+  async loadCursor(): Promise<IndexerCursor | null> {
+    return this.cursor;
+  }
+
+  async saveBatch(_name: string, batch: { escrowEvents: IndexedEscrowEvent[]; transfers: IndexedTransfer[]; cursor: IndexerCursor }): Promise<void> {
+    this.escrowEvents.push(...batch.escrowEvents);
+    this.transfers.push(...batch.transfers);
+    this.cursor = batch.cursor;
+  }
+
+  async rewind(_name: string, chainId: number, scope: IndexerScope, cursor: IndexerCursor): Promise<void> {
+    const stale = (row: IndexedEscrowEvent | IndexedTransfer) => row.chainId === chainId && row.blockNumber > cursor.blockNumber;
+    this.escrowEvents = this.escrowEvents.filter((event) => !(stale(event) && event.contractAddress === scope.escrowAddress));
+    this.transfers = this.transfers.filter((transfer) => !(
+      stale(transfer)
+      && transfer.contractAddress === scope.tokenAddress
+      && (transfer.from === scope.escrowAddress || transfer.to === scope.escrowAddress)
+    ));
+    this.cursor = cursor;
+  }
+}
+
+describe('EscrowIndexer', () => {
+  it('ingests escrow events and escrow token transfers in batches and resumes from its cursor', async () => {
+    const chain = new FakeChain();
+    chain.mine('a');
+    chain.mine('a', [
+      escrowLog('BetCreated', [betId, ALICE, BOB, 5n], '0xt1'),
+      transferLog(ALICE, ESCROW, 5n, '0xt1'),
+      transferLog(BOB, ESCROW, 5n, '0xt1'),
+      transferLog(ALICE, BOB, 9n, '0xunrelated')
+    ]);
+    chain.mine('a');
+    const store = new MemoryStore();
+    const indexer = new EscrowIndexer(chain, store, { escrowAddress: ESCROW, tokenAddress: TOKEN, startBlock: 1, batchSize: 1 });
+
+    expect(await indexer.runOnce()).toEqual({ fromBlock: 1, toBlock: 2, escrowEvents: 1, transfers: 2, rewoundTo: null });
+    expect(store.escrowEvents[0]).toMatchObject({
+      event: 'BetCreated',
+      betId,
+      args: { betId, challenger: ALICE, opponent: BOB, amount: '5' },
+      blockNumber: 1,
+      contractAddress: ESCROW
+    });
+    expect(store.cursor).toEqual({ blockNumber: 2, blockHash: '0xa2' });
+
+    chain.mine('a', [
+      escrowLog('BetResolved', [betId, ALICE, 10n, 0n], '0xt2'),
+      transferLog(ESCROW, ALICE, 10n, '0xt2')
+    ]);
+    expect(await indexer.runOnce()).toEqual({ fromBlock: 3, toBlock: 3, escrowEvents: 1, transfers: 1, rewoundTo: null });
+    expect(await indexer.runOnce()).toMatchObject({ fromBlock: 4, toBlock: 3, escrowEvents: 0 });
+  });
+
+  it('rewinds past a reorged cursor block and re-reads the canonical chain', async () => {
+    const chain = new FakeChain();
+    for (let n = 0; n < 4; n += 1) {
+      chain.mine('a');
+    }
+    chain.mine('a', [escrowLog('BetRefunded', [betId], '0xorphaned')]);
+    const store = new MemoryStore();
+    const indexer = new EscrowIndexer(chain, store, { escrowAddress: ESCROW, startBlock: 0, reorgDepth: 2 });
+    await indexer.runOnce();
+    expect(store.escrowEvents.map((event) => event.txHash)).toEqual(['0xorphaned']);
+    // Another escrow's indexer shares the tables; this rewind must leave its rows alone.
+    store.escrowEvents.push({ ...store.escrowEvents[0]!, contractAddress: OTHER_ESCROW, txHash: '0xother' });
+
+    // Blocks 3-4 are replaced by a fork where the bet resolves instead.
+    chain.blocks.length = 3;
+    chain.mine('b');
+    chain.mine('b', [escrowLog('BetResolved', [betId, BOB, 10n, 0n], '0xcanonical')]);
+
+    expect(await indexer.runOnce()).toEqual({ fromBlock: 3, toBlock: 4, escrowEvents: 1, transfers: 0, rewoundTo: 2 });
+    expect(store.escrowEvents.map((event) => event.txHash)).toEqual(['0xother', '0xcanonical']);
+    expect(store.cursor).toEqual({ blockNumber: 4, blockHash: '0xb4' });
+  });
+});
@@ -0,0 +1,236 @@
+import { Interface, id, zeroPadValue, type JsonRpcProvider } from 'ethers';
+
+export type IndexerLog = {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  index: number;
+  topics: readonly string[];
+  data: string;
+};
+
+/** The chain reads the indexer needs; `jsonRpcIndexerChain` backs it with an ethers provider. */
+export type IndexerChain = {
+  chainId(): Promise<number>;
+  blockNumber(): Promise<number>;
+  blockHash(blockNumber: number): Promise<string | null>;
+  logs(filter: { address: string; topics: Array<string | null>; fromBlock: number; toBlock: number }): Promise<IndexerLog[]>;
+};
+
+type IndexedLogRef = {
+  chainId: number;
+  contractAddress: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+};
+
+export type IndexedEscrowEvent = IndexedLogRef & {
+  event: string;
+  /** Bet id for bet events, pot id for pot events. */
+  betId: string;
+  args: Record<string, string>;
+};
+
+export type IndexedTransfer = IndexedLogRef & {
+  from: string;
+  to: string;
+  value: string;
+};
+
+export type IndexerCursor = { blockNumber: number; blockHash: string | null };
+
+/** Contracts one indexer reads; a rewind only drops their rows. */
+export type IndexerScope = { escrowAddress: string; tokenAddress: string | null };
+
+/**
+ * Persistence for the indexer. Writes are idempotent on (chain, tx, log index)
+ * so a batch re-read after a crash before `cursor` was saved is harmless.
+ */
+export type IndexerStore = {
+  loadCursor(name: string): Promise<IndexerCursor | null>;
+  saveBatch(name: string, batch: {
+    escrowEvents: IndexedEscrowEvent[];
+    transfers: IndexedTransfer[];
+    cursor: IndexerCursor;
+  }): Promise<void>;
+  /**
+   * Drops this indexer's rows above `cursor.blockNumber` (escrow events from
+   * its escrow, token transfers into or out of it) and moves the cursor back,
+   * all or nothing.
+   */
+  rewind(name: string, chainId: number, scope: IndexerScope, cursor: IndexerCursor): Promise<void>;
+};
+
+export type EscrowIndexerOptions = {
+  escrowAddress: string;
+  /** ERC-20 whose transfers into and out of the escrow are indexed; omit to skip transfers. */
+  tokenAddress?: string;
+  /** First block to index (the escrow deployment block). */
+  startBlock: number;
+  /** Blocks to re-read when the cursor block was reorged out. */
+  reorgDepth?: number;
+  batchSize?: number;
+};
+
+export type IndexerRun = {
+  fromBlock: number;
+  toBlock: number;
+  escrowEvents: number;
+  transfers: number;
+  /** Set when a reorg moved the cursor back before indexing. */
+  rewoundTo: number | null;
+};
+
+export const ESCROW_EVENT_ABI = [
+  'event BetCreated(bytes32 indexed betId, address indexed challenger, address indexed opponent, uint256 amount)',
+  'event AsymmetricBetCreated(bytes32 indexed betId, address indexed challenger, address indexed opponent, uint256 challengerAmount, uint256 opponentAmount)',
+  'event BetResolved(bytes32 indexed betId, address indexed winner, uint256 payout, uint256 fee)',
+  'event BetRefunded(bytes32 indexed betId)',
+  'event PotContribution(bytes32 indexed potId, address indexed participant, uint256 amount, uint256 total)',
+  'event PotPayout(bytes32 indexed potId, address indexed winner, uint256 amount)',
+  'event PotResolved(bytes32 indexed potId, uint256 payout, uint256 fee)',
+  'event PotRefunded(bytes32 indexed potId)'
+];
+
+const escrowEvents = new Interface(ESCROW_EVENT_ABI);
+const TRANSFER_TOPIC = id('Transfer(address,address,uint256)');
+const transferEvent = new Interface(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+const DEFAULT_REORG_DEPTH = 12;
+const DEFAULT_BATCH_SIZE = 2_000;
+
+/**
+ * Block-range indexer for BettingEscrow logs and the stake token's transfers
+ * in and out of the escrow. The cursor stores the hash of the last indexed
+ * block; if that block is no longer canonical the indexer rewinds
+ * `reorgDepth` blocks, drops what it indexed there, and reads them again.
+ * Reorgs deeper than `reorgDepth` are not detected.
+ */
+export class EscrowIndexer {
+  private readonly escrowAddress: string;
+  private readonly tokenAddress: string | null;
+  private readonly reorgDepth: number;
+  private readonly batchSize: number;
+
+  constructor(
+    private readonly chain: IndexerChain,
+    private readonly store: IndexerStore,
+    private readonly options: EscrowIndexerOptions
+  ) {
+    this.escrowAddress = options.escrowAddress.toLowerCase();
+    this.tokenAddress = options.tokenAddress ? options.tokenAddress.toLowerCase() : null;
+    this.reorgDepth = Math.max(1, Math.floor(options.reorgDepth ?? DEFAULT_REORG_DEPTH));
+    this.batchSize = Math.max(1, Math.floor(options.batchSize ?? DEFAULT_BATCH_SIZE));
+  }
+
+  cursorName(chainId: number): string {
+    return `escrow:${chainId}:${this.escrowAddress}`;
+  }
+
+  /** Indexes from the cursor up to the current head, one `batchSize` range at a time. */
+  async runOnce(): Promise<IndexerRun> {
+    const chainId = await this.chain.chainId();
+    const name = this.cursorName(chainId);
+    let cursor = await this.store.loadCursor(name);
+    let rewoundTo: number | null = null;
+
+    if (cursor?.blockHash && await this.chain.blockHash(cursor.blockNumber) !== cursor.blockHash) {
+      const target = Math.max(this.options.startBlock - 1, cursor.blockNumber - this.reorgDepth);
+      cursor = { blockNumber: target, blockHash: target >= 0 ? await this.chain.blockHash(target) : null };
+      await this.store.rewind(name, chainId, { escrowAddress: this.escrowAddress, tokenAddress: this.tokenAddress }, cursor);
+      rewoundTo = target;
+    }
+
+    const fromBlock = Math.max(this.options.startBlock, (cursor?.blockNumber ?? -1) + 1);
+    const head = await this.chain.blockNumber();
+    const run: IndexerRun = { fromBlock, toBlock: fromBlock - 1, escrowEvents: 0, transfers: 0, rewoundTo };
+
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(head, start + this.batchSize - 1);
+      const escrowLogs = await this.chain.logs({ address: this.escrowAddress, topics: [], fromBlock: start, toBlock: end });
+      const transferLogs = await this.escrowTransferLogs(start, end);
+      const batch = {
+        escrowEvents: escrowLogs.flatMap((log) => this.decodeEscrowLog(chainId, log) ?? []),
+        transfers: transferLogs.flatMap((log) => this.decodeTransferLog(chainId, log) ?? []),
+        cursor: { blockNumber: end, blockHash: await this.chain.blockHash(end) }
+      };
+      await this.store.saveBatch(name, batch);
+      run.toBlock = end;
+      run.escrowEvents += batch.escrowEvents.length;
+      run.transfers += batch.transfers.length;
+    }
+    return run;
+  }
+
+  private async escrowTransferLogs(fromBlock: number, toBlock: number): Promise<IndexerLog[]> {
+    if (!this.tokenAddress) {
+      return [];
+    }
+    const escrowTopic = zeroPadValue(this.escrowAddress, 32);
+    const [outgoing, incoming] = await Promise.all([
+      this.chain.logs({ address: this.tokenAddress, topics: [TRANSFER_TOPIC, escrowTopic], fromBlock, toBlock }),
+      this.chain.logs({ address: this.tokenAddress, topics: [TRANSFER_TOPIC, null, escrowTopic], fromBlock, toBlock })
+    ]);
+    return [...outgoing, ...incoming];
+  }
+
+  private decodeEscrowLog(chainId: number, log: IndexerLog): IndexedEscrowEvent | null {
+    const parsed = escrowEvents.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      // Role grants, fee config and other admin events.
+      return null;
+    }
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name] = String(parsed.args[index]).toLowerCase();
+    });
+    return {
+      ...this.logRef(chainId, this.escrowAddress, log),
+      event: parsed.name,
+      betId: String(parsed.args[0]).toLowerCase(),
+      args
+    };
+  }
+
+  private decodeTransferLog(chainId: number, log: IndexerLog): IndexedTransfer | null {
+    const parsed = transferEvent.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || !this.tokenAddress) {
+      return null;
+    }
+    return {
+      ...this.logRef(chainId, this.tokenAddress, log),
+      from: String(parsed.args[0]).toLowerCase(),
+      to: String(parsed.args[1]).toLowerCase(),
+      value: String(parsed.args[2])
+    };
+  }
+
+  private logRef(chainId: number, contractAddress: string, log: IndexerLog): IndexedLogRef {
+    return {
+      chainId,
+      contractAddress,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash.toLowerCase(),
+      txHash: log.transactionHash.toLowerCase(),
+      logIndex: log.index
+    };
+  }
+}
+
+export function jsonRpcIndexerChain(provider: JsonRpcProvider): IndexerChain {
+  return {
+    chainId: async () => Number((await provider.getNetwork()).chainId),
+    blockNumber: () => provider.getBlockNumber(),
+    blockHash: async (blockNumber) => (await provider.getBlock(blockNumber))?.hash?.toLowerCase() ?? null,
+    logs: async (filter) => (await provider.getLogs(filter)).map((log) => ({
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      index: log.index,
+      topics: log.topics,
+      data: log.data
+    }))
+  };
+}
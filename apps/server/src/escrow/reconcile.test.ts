@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { reconcileEscrow, type LedgerEscrowEntry } from './reconcile.js';
+
+const betIdFor = (challengeId: string) => `0xbet_${challengeId}`;
+const potIdFor = (potId: string) => `0xpot_${potId}`;
+
+function entry(challengeId: string, overrides: Partial<LedgerEscrowEntry> = {}): LedgerEscrowEntry {
+  return {
+    source: 'challenge',
+    challengeId,
+    challengeStatus: 'resolved',
+    locked: true,
+    resolved: true,
+    refunded: false,
+    ...overrides
+  };
+}
+
+describe('reconcileEscrow', () => {
+  it('lists bets whose on-chain state disagrees with the ledger', () => {
+    const ledger = [
+      entry('c_ok'),
+      entry('c_never_locked'),
+      entry('c_refunded_onchain'),
+      entry('c_unsettled', { resolved: false }),
+      entry('c_live', { resolved: false, challengeStatus: 'accepted' }),
+      entry('mkt_open', { source: 'market_position', challengeStatus: 'open', resolved: false })
+    ];
+    const indexed = [
+      { betId: '0xbet_c_ok', status: 'resolved' as const, txHash: '0x1', blockNumber: 1 },
+      { betId: '0xbet_c_refunded_onchain', status: 'refunded' as const, txHash: '0x2', blockNumber: 2 },
+      { betId: '0xbet_c_unsettled', status: 'locked' as const, txHash: '0x3', blockNumber: 3 },
+      { betId: '0xbet_c_live', status: 'locked' as const, txHash: '0x4', blockNumber: 4 },
+      { betId: '0xbet_mkt_open', status: 'locked' as const, txHash: '0x5', blockNumber: 5 },
+      { betId: '0xbet_side_1', status: 'locked' as const, txHash: '0x6', blockNumber: 6 }
+    ];
+
+    const report = reconcileEscrow(ledger, indexed, betIdFor, potIdFor);
+
+    expect(report.map((item) => [item.kind, item.challengeId, item.expected, item.onchain])).toEqual([
+      ['missing_onchain', 'c_never_locked', 'resolved', 'none'],
+      ['status_mismatch', 'c_refunded_onchain', 'resolved', 'refunded'],
+      ['unsettled', 'c_unsettled', 'locked', 'locked'],
+      ['untracked_onchain', null, 'none', 'locked']
+    ]);
+    expect(report[3]?.betId).toBe('0xbet_side_1');
+  });
+
+  it('matches side-bet pots by their pot id', () => {
+    const ledger = [
+      entry('side_c_paid', { source: 'side_bet_pot' }),
+      entry('side_c_stuck', { source: 'side_bet_pot', resolved: false, challengeStatus: 'resolved' }),
+      entry('side_c_live', { source: 'side_bet_pot', resolved: false, challengeStatus: 'active' })
+    ];
+    const indexed = [
+      { betId: '0xpot_side_c_paid', status: 'resolved' as const, txHash: '0x1', blockNumber: 1 },
+      { betId: '0xpot_side_c_stuck', status: 'locked' as const, txHash: '0x2', blockNumber: 2 },
+      { betId: '0xpot_side_c_live', status: 'locked' as const, txHash: '0x3', blockNumber: 3 }
+    ];
+
+    const report = reconcileEscrow(ledger, indexed, betIdFor, potIdFor);
+
+    expect(report.map((item) => [item.kind, item.challengeId, item.betId])).toEqual([
+      ['unsettled', 'side_c_stuck', '0xpot_side_c_stuck']
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+export type EscrowBetState = 'none' | 'locked' | 'resolved' | 'refunded';
+
+/**
+ * What the server recorded for one escrow bet or pot: a challenge
+ * (`escrow_events` joined to `challenges`), a side-bet pot (`escrow_events`
+ * under the pot id, joined to its challenge) or a prediction market position.
+ * `challengeId` is the id the stake was locked under, as passed to
+ * `EscrowAdapter.lockStake` or `contributeToPot`.
+ */
+export type LedgerEscrowEntry = {
+  source: 'challenge' | 'side_bet_pot' | 'market_position';
+  challengeId: string;
+  /** Challenge or position status; a side-bet pot carries its challenge's. */
+  challengeStatus: string | null;
+  locked: boolean;
+  resolved: boolean;
+  refunded: boolean;
+};
+
+/** Latest indexed bet or pot event per bet id (pot id for pots). */
+export type IndexedBetState = {
+  betId: string;
+  status: Exclude<EscrowBetState, 'none'>;
+  txHash: string;
+  blockNumber: number;
+};
+
+export type EscrowDiscrepancyKind =
+  /** The server recorded a lock or settlement the chain never saw. */
+  | 'missing_onchain'
+  /** Both sides know the bet but disagree on how it ended. */
+  | 'status_mismatch'
+  /** Locked on-chain although the challenge is over and no settlement was recorded. */
+  | 'unsettled'
+  /** Locked or settled on-chain with no matching escrow_events row. */
+  | 'untracked_onchain';
+
+export type EscrowDiscrepancy = {
+  kind: EscrowDiscrepancyKind;
+  challengeId: string | null;
+  betId: string;
+  challengeStatus: string | null;
+  expected: EscrowBetState;
+  onchain: EscrowBetState;
+  txHash: string | null;
+};
+
+const FINISHED_CHALLENGE_STATUSES = new Set(['resolved', 'declined', 'expired']);
+const CHALLENGE_SOURCES = new Set<LedgerEscrowEntry['source']>(['challenge', 'side_bet_pot']);
+
+function expectedState(entry: LedgerEscrowEntry): EscrowBetState {
+  if (entry.refunded) {
+    return 'refunded';
+  }
+  if (entry.resolved) {
+    return 'resolved';
+  }
+  return entry.locked ? 'locked' : 'none';
+}
+
+/**
+ * Lists bets whose on-chain state disagrees with the server's records.
+ * `betIdFor` maps a challenge id to its escrow bet id (see `escrowBetId`) and
+ * `potIdFor` a side-bet pot id to its on-chain pot id (see `escrowPotId`).
+ */
+export function reconcileEscrow(
+  ledger: LedgerEscrowEntry[],
+  indexed: IndexedBetState[],
+  betIdFor: (challengeId: string) => string,
+  potIdFor: (potId: string) => string
+): EscrowDiscrepancy[] {
+  const chainByBetId = new Map(indexed.map((entry) => [entry.betId.toLowerCase(), entry]));
+  const discrepancies: EscrowDiscrepancy[] = [];
+
+  for (const entry of ledger) {
+    const betId = (entry.source === 'side_bet_pot' ? potIdFor : betIdFor)(entry.challengeId).toLowerCase();
+    const chain = chainByBetId.get(betId);
+    chainByBetId.delete(betId);
+    const expected = expectedState(entry);
+    const onchain: EscrowBetState = chain?.status ?? 'none';
+    let kind: EscrowDiscrepancyKind | null = null;
+    if (expected !== onchain) {
+      kind = onchain === 'none' ? 'missing_onchain' : expected === 'none' ? 'untracked_onchain' : 'status_mismatch';
+    } else if (
+      onchain === 'locked'
+      && CHALLENGE_SOURCES.has(entry.source)
+      && FINISHED_CHALLENGE_STATUSES.has(entry.challengeStatus ?? '')
+    ) {
+      kind = 'unsettled';
+    }
+    if (kind) {
+      discrepancies.push({
+        kind,
+        challengeId: entry.challengeId,
+        betId,
+        challengeStatus: entry.challengeStatus,
+        expected,
+        onchain,
+        txHash: chain?.txHash ?? null
+      });
+    }
+  }
+
+  for (const chain of chainByBetId.values()) {
+    discrepancies.push({
+      kind: 'untracked_onchain',
+      challengeId: null,
+      betId: chain.betId.toLowerCase(),
+      challengeStatus: null,
+      expected: 'none',
+      onchain: chain.status,
+      txHash: chain.txHash
+    });
+  }
+  return discrepancies;
+}
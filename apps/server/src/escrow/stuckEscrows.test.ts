@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import type { EscrowRefundClaim } from '../EscrowAdapter.js';
+import { findStuckEscrows } from './stuckEscrows.js';
+
+describe('findStuckEscrows', () => {
+  it('keeps stuck challenges whose bets are still locked on-chain', async () => {
+    const database = {
+      findStuckChallenges: async () => [
+        { id: 'c_locked', challengerId: 'u_a', opponentId: 'u_b', status: 'accepted', challengeJson: null },
+        { id: 'c_settled', challengerId: 'u_c', opponentId: 'u_d', status: 'accepted', challengeJson: null },
+        { id: 'c_offchain', challengerId: 'u_e', opponentId: 'u_f', status: 'created', challengeJson: null }
+      ]
+    };
+    const claims: Record<string, EscrowRefundClaim | null> = {
+      c_locked: { escrowAddress: '0xescrow', betId: '0xbet', status: 'locked', refundDeadline: 5_000, claimable: true },
+      c_settled: { escrowAddress: '0xescrow', betId: '0xbet2', status: 'resolved', refundDeadline: null, claimable: false },
+      c_offchain: null
+    };
+    const escrow = { refundClaim: async (challengeId: string) => claims[challengeId] ?? null };
+
+    const stuck = await findStuckEscrows(database, escrow, 6_000);
+
+    expect(stuck).toEqual([{
+      challengeId: 'c_locked',
+      challengerId: 'u_a',
+      opponentId: 'u_b',
+      challengeStatus: 'accepted',
+      claim: claims.c_locked
+    }]);
+  });
+});
@@ -0,0 +1,37 @@
+import type { Database } from '../Database.js';
+import type { EscrowAdapter, EscrowRefundClaim } from '../EscrowAdapter.js';
+
+export type StuckEscrow = {
+  challengeId: string;
+  challengerId: string;
+  opponentId: string;
+  challengeStatus: string;
+  claim: EscrowRefundClaim;
+};
+
+/**
+ * Challenges stuck in `created` / `accepted` whose stakes are still locked
+ * on-chain. Once `claim.claimable` is set either player can recover their
+ * stake with `claimRefundAfterDeadline(claim.betId)`, without the resolver.
+ */
+export async function findStuckEscrows(
+  database: Pick<Database, 'findStuckChallenges'>,
+  escrowAdapter: Pick<EscrowAdapter, 'refundClaim'>,
+  now = Date.now()
+): Promise<StuckEscrow[]> {
+  const stuck: StuckEscrow[] = [];
+  for (const challenge of await database.findStuckChallenges()) {
+    const claim = await escrowAdapter.refundClaim(challenge.id, now);
+    if (claim?.status !== 'locked') {
+      continue;
+    }
+    stuck.push({
+      challengeId: challenge.id,
+      challengerId: challenge.challengerId,
+      opponentId: challenge.opponentId,
+      challengeStatus: challenge.status,
+      claim
+    });
+  }
+  return stuck;
+}
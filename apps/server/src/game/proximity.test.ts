@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { emitProximityEvents, type ProximityEvent } from './proximity.js';
+
+describe('emitProximityEvents', () => {
+  it('emits enter once and exit when players drift apart', () => {
+    const pairs = new Set<string>();
+    const sent: Array<[string, ProximityEvent]> = [];
+    const emit = (players: Array<{ id: string; x: number; z: number }>) => {
+      sent.length = 0;
+      emitProximityEvents(players, pairs, 12, (id) => id.toUpperCase(), (id, payload) => sent.push([id, payload]));
+    };
+
+    emit([{ id: 'a', x: 0, z: 0 }, { id: 'b', x: 8, z: 6 }, { id: 'c', x: 100, z: 0 }]);
+    expect(sent.map(([id, event]) => `${id}:${event.event}:${event.otherId}`).sort()).toEqual(['a:enter:b', 'b:enter:a']);
+    expect(sent[0]?.[1].distance).toBe(10);
+    expect([...pairs]).toEqual(['a|b']);
+
+    emit([{ id: 'a', x: 0, z: 0 }, { id: 'b', x: 9, z: 6 }, { id: 'c', x: 100, z: 0 }]);
+    expect(sent).toEqual([]);
+
+    emit([{ id: 'a', x: 0, z: 0 }, { id: 'b', x: 30, z: 0 }, { id: 'c', x: 100, z: 0 }]);
+    expect(sent.map(([id, event]) => `${id}:${event.event}:${event.otherName}`)).toEqual(['a:exit:B', 'b:exit:A']);
+    expect(pairs.size).toBe(0);
+  });
+});
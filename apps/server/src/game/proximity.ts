@@ -1,6 +1,7 @@
 /**
  * Proximity detection utilities
  */
+import { SpatialHash } from '@arena/shared';
 
 /**
  * Create a consistent pair key for two player IDs
@@ -34,7 +35,8 @@ export type ProximityEvent = {
 
 /**
  * Emit proximity events based on player positions
- * Returns events to send and updates the activeProximityPairs set
+ * Returns events to send and updates the activeProximityPairs set.
+ * Candidate pairs come from a spatial hash, so only nearby players are compared.
  */
 export function emitProximityEvents(
   players: ProximityPlayer[],
@@ -44,39 +46,32 @@ export function emitProximityEvents(
   sendToDistributed: (playerId: string, payload: ProximityEvent) => void
 ): void {
   const nowNear = new Set<string>();
+  const grid = new SpatialHash<ProximityPlayer>(Math.max(1, proximityThreshold));
+  for (const player of players) {
+    grid.upsert(player);
+  }
 
-  for (let i = 0; i < players.length; i += 1) {
-    for (let j = i + 1; j < players.length; j += 1) {
-      const a = players[i];
-      const b = players[j];
-      if (!a || !b) {
-        continue;
-      }
-
-      const distance = Math.hypot(a.x - b.x, a.z - b.z);
-      if (distance <= proximityThreshold) {
-        const key = makePairKey(a.id, b.id);
-        nowNear.add(key);
+  grid.forEachPairWithin(proximityThreshold, (a, b, distance) => {
+    const key = makePairKey(a.id, b.id);
+    nowNear.add(key);
 
-        if (!activeProximityPairs.has(key)) {
-          sendToDistributed(a.id, { 
-            type: 'proximity', 
-            event: 'enter', 
-            otherId: b.id, 
-            otherName: displayNameFor(b.id), 
-            distance 
-          });
-          sendToDistributed(b.id, { 
-            type: 'proximity', 
-            event: 'enter', 
-            otherId: a.id, 
-            otherName: displayNameFor(a.id), 
-            distance 
-          });
-        }
-      }
+    if (!activeProximityPairs.has(key)) {
+      sendToDistributed(a.id, { 
+        type: 'proximity', 
+        event: 'enter', 
+        otherId: b.id, 
+        otherName: displayNameFor(b.id), 
+        distance 
+      });
+      sendToDistributed(b.id, { 
+        type: 'proximity', 
+        event: 'enter', 
+        otherId: a.id, 
+        otherName: displayNameFor(a.id), 
+        distance 
+      });
     }
-  }
+  });
 
   for (const key of activeProximityPairs) {
     if (nowNear.has(key)) {
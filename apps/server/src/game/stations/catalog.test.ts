@@ -1,9 +1,12 @@
 import { describe, expect, it } from 'vitest';
+import { getWorldManifest } from '@arena/shared';
 import { buildStations } from './catalog.js';
 
+const mega = getWorldManifest('mega')!;
+
 describe('buildStations', () => {
   it('builds expanded station list with dice dealers enabled', () => {
-    const stations = buildStations({ diceDuelEnabled: true });
+    const stations = buildStations({ diceDuelEnabled: true, world: mega });
     const ids = new Set(stations.map((s) => s.id));
     expect(ids.has('station_dealer_coinflip_a')).toBe(true);
     expect(ids.has('station_dealer_coinflip_b')).toBe(true);
@@ -19,7 +22,7 @@ describe('buildStations', () => {
   });
 
   it('omits dice dealers when disabled', () => {
-    const stations = buildStations({ diceDuelEnabled: false });
+    const stations = buildStations({ diceDuelEnabled: false, world: mega });
     const ids = new Set(stations.map((s) => s.id));
     expect(ids.has('station_dealer_prediction_a')).toBe(true);
     expect(ids.has('station_dealer_prediction_b')).toBe(true);
@@ -28,4 +31,12 @@ describe('buildStations', () => {
     expect(ids.has('station_dealer_dice_a')).toBe(false);
     expect(ids.has('station_dealer_dice_b')).toBe(false);
   });
+
+  it('places stations from the world manifest with actions from their kind', () => {
+    const stations = buildStations({ diceDuelEnabled: true, world: getWorldManifest('yard')! });
+    expect(stations.map((s) => s.id)).toContain('station_dealer_dice_a');
+    expect(stations.some((s) => s.id === 'station_dealer_coinflip_b')).toBe(false);
+    const cashier = stations.find((s) => s.id === 'station_cashier_bank');
+    expect(cashier).toMatchObject({ x: 17, z: 28, actions: ['balance', 'fund', 'withdraw', 'transfer'] });
+  });
 });
@@ -1,12 +1,10 @@
-import type { GameType, GameMove, SnapshotStation, StationUiView } from '@arena/shared';
+import type { DealerPickAction, DealerStartAction, GameType, GameMove, SnapshotStation, WorldManifest } from '@arena/shared';
+import { findGameByDealerAction, findGameByStationKind, getGameDefinition } from '@arena/shared';
 import type { ChallengeService, ChallengeEvent } from '../../ChallengeService.js';
 import type { EscrowAdapter } from '../../EscrowAdapter.js';
 import type { StationInteractMessage } from '../../websocket/messages.js';
-import { computeCoinflipFromSeeds, sha256Hex } from '../../coinflip.js';
 import { buildStations } from './catalog.js';
-import { COINFLIP_DEALER_METHOD, oppositeCoinflipPick } from './handlers/dealerCoinflip.js';
-import { DICE_DUEL_DEALER_METHOD, pickHouseDiceGuess } from './handlers/dealerDiceDuel.js';
-import { RPS_DEALER_METHOD, pickHouseRpsMove } from './handlers/dealerRps.js';
+import { seedChainPointer, type HouseSeedChains, type SeedChainDraw } from './seedChain.js';
 import { unsupportedCashierActionView } from './handlers/cashier.js';
 import { handlePredictionStationAction } from './handlers/dealerPrediction.js';
 import type { MarketService } from '../../markets/MarketService.js';
@@ -16,8 +14,7 @@ type PendingDealerRound = {
   stationId: string;
   gameType: GameType;
   wager: number;
-  houseSeed: string;
-  commitHash: string;
+  seed: SeedChainDraw;
   method: string;
   createdAt: number;
   preflightApproved: boolean;
@@ -32,13 +29,14 @@ type EscrowFailure = {
 
 type StationRouterContext = {
   diceDuelEnabled: boolean;
+  world: WorldManifest;
   stationProximityThreshold: number;
   lastPlayerPos: Map<string, { x: number; z: number }>;
   challengeEscrowTxById: Map<string, { lock?: string; resolve?: string; refund?: string }>;
   challengeEscrowFailureById: Map<string, EscrowFailure>;
   escrowLockedChallenges: Set<string>;
   challengeService: ChallengeService;
-  escrowAdapter: EscrowAdapter;
+  escrowAdapter: Pick<EscrowAdapter, 'preflightStake'>;
   walletIdFor: (playerId: string) => string | null;
   getHouseWalletId: () => string | null;
   sendTo: (playerId: string, payload: object) => void;
@@ -47,11 +45,12 @@ type StationRouterContext = {
   dispatchChallengeEventWithEscrow: (event: ChallengeEvent) => Promise<void>;
   stationErrorFromEscrowFailure: (input: { reason?: string; raw?: Record<string, unknown> }) => EscrowFailure;
   newSeedHex: (bytes?: number) => string;
+  seedChains: HouseSeedChains;
   marketService?: MarketService | null;
 };
 
-type StationStartMessage = Extract<StationInteractMessage, { action: 'coinflip_house_start' | 'rps_house_start' | 'dice_duel_start' }>;
-type StationPickMessage = Extract<StationInteractMessage, { action: 'coinflip_house_pick' | 'rps_house_pick' | 'dice_duel_pick' }>;
+type StationStartMessage = Extract<StationInteractMessage, { action: DealerStartAction }>;
+type StationPickMessage = Extract<StationInteractMessage, { action: DealerPickAction }>;
 type PredictionMessage = Extract<
   StationInteractMessage,
   {
@@ -64,35 +63,12 @@ type PredictionMessage = Extract<
   }
 >;
 
-function renderReadyState(gameType: GameType): StationUiView['state'] {
-  if (gameType === 'rps') return 'dealer_ready_rps';
-  if (gameType === 'dice_duel') return 'dealer_ready_dice';
-  return 'dealer_ready';
-}
-
-function renderRevealState(gameType: GameType): StationUiView['state'] {
-  if (gameType === 'rps') return 'dealer_reveal_rps';
-  if (gameType === 'dice_duel') return 'dealer_reveal_dice';
-  return 'dealer_reveal';
-}
-
-function stationGameType(stationKind: SnapshotStation['kind']): GameType | null {
-  if (stationKind === 'dealer_coinflip') return 'coinflip';
-  if (stationKind === 'dealer_rps') return 'rps';
-  if (stationKind === 'dealer_dice_duel') return 'dice_duel';
-  return null;
-}
-
 function isStartMessage(payload: StationInteractMessage): payload is StationStartMessage {
-  return payload.action === 'coinflip_house_start'
-    || payload.action === 'rps_house_start'
-    || payload.action === 'dice_duel_start';
+  return findGameByDealerAction(payload.action)?.phase === 'start';
 }
 
 function isPickMessage(payload: StationInteractMessage): payload is StationPickMessage {
-  return payload.action === 'coinflip_house_pick'
-    || payload.action === 'rps_house_pick'
-    || payload.action === 'dice_duel_pick';
+  return findGameByDealerAction(payload.action)?.phase === 'pick';
 }
 
 function interactionDetailFor(tag: string): { title: string; detail: string; useLabel: string; afterUse: string } {
@@ -129,12 +105,22 @@ function interactionDetailFor(tag: string): { title: string; detail: string; use
 }
 
 export function createStationRouter(ctx: StationRouterContext) {
-  const stations = buildStations({ diceDuelEnabled: ctx.diceDuelEnabled });
+  const stations = buildStations({ diceDuelEnabled: ctx.diceDuelEnabled, world: ctx.world });
+  for (const station of stations) {
+    if (findGameByStationKind(station.kind)) {
+      ctx.seedChains.ensureChain(station.id);
+    }
+  }
   const stationById = new Map<string, SnapshotStation>(stations.map((station) => [station.id, station]));
   const pendingDealerRounds = new Map<string, PendingDealerRound>();
 
+  /** Drops a player's unpicked round and frees its station for the next deal. */
   function clearPlayer(playerId: string): void {
-    pendingDealerRounds.delete(playerId);
+    const pending = pendingDealerRounds.get(playerId);
+    if (pending) {
+      ctx.seedChains.release(pending.seed);
+      pendingDealerRounds.delete(playerId);
+    }
   }
 
   function clearExpired(now = Date.now()): void {
@@ -149,10 +135,11 @@ export function createStationRouter(ctx: StationRouterContext) {
     if (!isStartMessage(payload)) {
       return;
     }
-    const gameType = stationGameType(station.kind);
-    if (!gameType) {
+    const game = findGameByStationKind(station.kind);
+    if (!game) {
       return;
     }
+    const gameType = game.type;
 
     const wager = Math.max(0, Math.min(10_000, Number(payload.wager || 0)));
     const playerWalletId = ctx.walletIdFor(playerId);
@@ -207,20 +194,24 @@ export function createStationRouter(ctx: StationRouterContext) {
       }
     }
 
-    const houseSeed = ctx.newSeedHex(24);
-    const commitHash = sha256Hex(houseSeed);
-    const method = gameType === 'coinflip'
-      ? COINFLIP_DEALER_METHOD
-      : gameType === 'rps'
-        ? RPS_DEALER_METHOD
-        : DICE_DUEL_DEALER_METHOD;
+    clearPlayer(playerId);
+    const seed = ctx.seedChains.draw(station.id);
+    if (!seed) {
+      ctx.sendTo(playerId, {
+        type: 'station_ui',
+        stationId: station.id,
+        view: { ok: false, state: 'dealer_error', reason: 'dealer_busy' }
+      });
+      return;
+    }
+    const { commitHash } = seed;
+    const method = game.dealer.method;
     pendingDealerRounds.set(playerId, {
       playerId,
       stationId: station.id,
       gameType,
       wager,
-      houseSeed,
-      commitHash,
+      seed,
       method,
       createdAt: Date.now(),
       preflightApproved: true
@@ -231,11 +222,12 @@ export function createStationRouter(ctx: StationRouterContext) {
       stationId: station.id,
       view: {
         ok: true,
-        state: renderReadyState(gameType),
+        state: game.views.ready,
         stationId: station.id,
         wager,
         commitHash,
-        method
+        method,
+        seedChain: seedChainPointer(seed)
       }
     });
   }
@@ -280,7 +272,29 @@ export function createStationRouter(ctx: StationRouterContext) {
       return;
     }
 
-    const playerPick = payload.pick as GameMove;
+    const game = getGameDefinition(pending.gameType);
+    if (!game || !game.isMove(payload.pick)) {
+      ctx.sendTo(playerId, {
+        type: 'station_ui',
+        stationId: station.id,
+        view: { ok: false, state: 'dealer_error', reason: 'invalid_station_action' }
+      });
+      return;
+    }
+
+    // The pick is fixed from here on, so the station may deal again even
+    // though the next commit will expose this round's seed.
+    if (!ctx.seedChains.release(pending.seed)) {
+      pendingDealerRounds.delete(playerId);
+      ctx.sendTo(playerId, {
+        type: 'station_ui',
+        stationId: station.id,
+        view: { ok: false, state: 'dealer_error', reason: 'dealer_round_expired' }
+      });
+      return;
+    }
+
+    const playerPick: GameMove = payload.pick;
     const playerSeed = String(payload.playerSeed || '').trim().slice(0, 96) || ctx.newSeedHex(12);
 
     ctx.sendTo(playerId, {
@@ -307,9 +321,10 @@ export function createStationRouter(ctx: StationRouterContext) {
     }
 
     created.challenge.provablyFair = {
-      commitHash: pending.commitHash,
+      commitHash: pending.seed.commitHash,
       playerSeed,
-      method: pending.method
+      method: pending.method,
+      chain: seedChainPointer(pending.seed)
     };
 
     created.to = [playerId];
@@ -336,9 +351,10 @@ export function createStationRouter(ctx: StationRouterContext) {
       type: 'provably_fair',
       phase: 'commit',
       challengeId: created.challenge.id,
-      commitHash: pending.commitHash,
+      commitHash: pending.seed.commitHash,
       playerSeed,
-      method: pending.method
+      method: pending.method,
+      chain: seedChainPointer(pending.seed)
     });
 
     await ctx.dispatchChallengeEventWithEscrow(created);
@@ -368,29 +384,27 @@ export function createStationRouter(ctx: StationRouterContext) {
     }
 
     if (created.challenge.provablyFair) {
-      created.challenge.provablyFair.revealSeed = pending.houseSeed;
+      created.challenge.provablyFair.revealSeed = pending.seed.houseSeed;
     }
+    ctx.seedChains.recordReveal(pending.seed, created.challenge.id);
 
     ctx.sendToDistributed(playerId, {
       type: 'provably_fair',
       phase: 'reveal',
       challengeId: created.challenge.id,
-      commitHash: pending.commitHash,
+      commitHash: pending.seed.commitHash,
       playerSeed,
-      houseSeed: pending.houseSeed,
-      method: pending.method
+      houseSeed: pending.seed.houseSeed,
+      method: pending.method,
+      chain: seedChainPointer(pending.seed)
     });
 
-    let houseMove: GameMove = 'heads';
-    if (pending.gameType === 'coinflip') {
-      houseMove = oppositeCoinflipPick(playerPick === 'heads' ? 'heads' : 'tails');
-      const result = computeCoinflipFromSeeds(pending.houseSeed, playerSeed, created.challenge.id);
-      ctx.challengeService.setCoinflipResultOverride(created.challenge.id, result);
-    } else if (pending.gameType === 'rps') {
-      houseMove = pickHouseRpsMove(pending.houseSeed, playerSeed, created.challenge.id);
-    } else {
-      houseMove = pickHouseDiceGuess(pending.houseSeed, playerSeed, created.challenge.id);
-    }
+    const houseMove = game.dealer.pickHouseMove({
+      houseSeed: pending.seed.houseSeed,
+      playerSeed,
+      challengeId: created.challenge.id,
+      playerMove: playerPick
+    });
 
     const submitted1 = ctx.challengeService.submitMove(created.challenge.id, playerId, playerPick);
     submitted1.to = [playerId];
@@ -412,7 +426,7 @@ export function createStationRouter(ctx: StationRouterContext) {
       stationId: station.id,
       view: {
         ok: true,
-        state: renderRevealState(pending.gameType),
+        state: game.views.reveal,
         stationId: station.id,
         challengeId: created.challenge.id,
         wager,
@@ -423,8 +437,9 @@ export function createStationRouter(ctx: StationRouterContext) {
         diceResult: finalChallenge?.diceResult ?? null,
         winnerId,
         payoutDelta,
-        commitHash: pending.commitHash,
+        commitHash: pending.seed.commitHash,
         method: pending.method,
+        seedChain: seedChainPointer(pending.seed),
         escrowTx: ctx.challengeEscrowTxById.get(created.challenge.id) ?? {}
       }
     });
@@ -547,8 +562,8 @@ export function createStationRouter(ctx: StationRouterContext) {
       return true;
     }
 
-    const gameType = stationGameType(station.kind);
-    if (!gameType) {
+    const game = findGameByStationKind(station.kind);
+    if (!game) {
       ctx.sendTo(playerId, {
         type: 'station_ui',
         stationId,
@@ -557,19 +572,8 @@ export function createStationRouter(ctx: StationRouterContext) {
       return true;
     }
 
-    const startActionByGame: Record<GameType, string> = {
-      coinflip: 'coinflip_house_start',
-      rps: 'rps_house_start',
-      dice_duel: 'dice_duel_start'
-    };
-    const pickActionByGame: Record<GameType, string> = {
-      coinflip: 'coinflip_house_pick',
-      rps: 'rps_house_pick',
-      dice_duel: 'dice_duel_pick'
-    };
-
     if (isStartMessage(payload)) {
-      if (payload.action !== startActionByGame[gameType]) {
+      if (payload.action !== game.dealer.startAction) {
         ctx.sendTo(playerId, {
           type: 'station_ui',
           stationId,
@@ -582,7 +586,7 @@ export function createStationRouter(ctx: StationRouterContext) {
     }
 
     if (isPickMessage(payload)) {
-      if (payload.action !== pickActionByGame[gameType]) {
+      if (payload.action !== game.dealer.pickAction) {
         ctx.sendTo(playerId, {
           type: 'station_ui',
           stationId,
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { seedChainDistance, sha256Hex } from '@arena/shared';
+import { HouseSeedChains } from './seedChain.js';
+
+describe('HouseSeedChains', () => {
+  it('publishes a head before dealing and reveals seeds that hash back to it', () => {
+    const chains = new HouseSeedChains(() => 'root_seed', () => 1000, 5);
+    const published = chains.ensureChain('station_dealer_rps');
+    expect(published).toMatchObject({ epoch: 1, nextIndex: 1, remaining: 5 });
+
+    const first = chains.draw('station_dealer_rps')!;
+    expect(chains.release(first)).toBe(true);
+    const second = chains.draw('station_dealer_rps')!;
+    expect(first.head).toBe(published.head);
+    expect(first.commitHash).toBe(first.head);
+    expect(sha256Hex(first.houseSeed)).toBe(first.commitHash);
+    expect(second.commitHash).toBe(first.houseSeed);
+    expect(seedChainDistance(second.houseSeed, published.head, 5)).toBe(2);
+  });
+
+  it('rotates to a new epoch once a chain is spent and keeps the reveal history', () => {
+    let root = 0;
+    const chains = new HouseSeedChains(() => `root_${root++}`, () => 1000, 2);
+    const draws = [1, 2, 3].map(() => {
+      const draw = chains.draw('s')!;
+      chains.release(draw);
+      return draw;
+    });
+    expect(draws.map((draw) => [draw.epoch, draw.index])).toEqual([[1, 1], [1, 2], [2, 1]]);
+    expect(draws[2]?.head).not.toBe(draws[0]?.head);
+
+    draws.forEach((draw, i) => chains.recordReveal(draw, `c_${i}`));
+    expect(chains.history('s', 2).map((reveal) => reveal.challengeId)).toEqual(['c_2', 'c_1']);
+    expect(chains.summary('s')?.retired).toEqual([
+      { epoch: 1, head: draws[0]?.head, length: 2, usedThrough: 2 }
+    ]);
+  });
+
+  it('deals one round per station until its pick is locked', () => {
+    let now = 1000;
+    const chains = new HouseSeedChains(() => 'root_seed', () => now, 10, 500, 60_000);
+    const pendingSeeds = new Set<string>();
+    const commits: string[] = [];
+    const deal = (stationId: string) => {
+      const draw = chains.draw(stationId);
+      if (draw) {
+        pendingSeeds.add(draw.houseSeed);
+        commits.push(draw.commitHash);
+      }
+      return draw;
+    };
+
+    const first = deal('s')!;
+    expect(deal('s')).toBeNull();
+    expect(deal('other')).not.toBeNull();
+    expect(commits.some((commit) => pendingSeeds.has(commit))).toBe(false);
+
+    // Once the pick is locked the seed may surface as the next commit.
+    expect(chains.release(first)).toBe(true);
+    pendingSeeds.delete(first.houseSeed);
+    const second = deal('s')!;
+    expect(second.commitHash).toBe(first.houseSeed);
+    expect(commits.some((commit) => pendingSeeds.has(commit))).toBe(false);
+
+    // A stale round frees the station and can no longer be played.
+    now += 60_001;
+    expect(deal('s')).not.toBeNull();
+    expect(chains.release(second)).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import type { SeedChainPointer } from '@arena/shared';
+import { sha256Hex } from '@arena/shared';
+
+export type SeedChainDraw = SeedChainPointer & {
+  houseSeed: string;
+  commitHash: string;
+};
+
+export type SeedChainReveal = {
+  epoch: number;
+  index: number;
+  seed: string;
+  challengeId: string | null;
+  revealedAt: number;
+};
+
+export type SeedChainSummary = {
+  stationId: string;
+  epoch: number;
+  head: string;
+  length: number;
+  nextIndex: number;
+  remaining: number;
+  createdAt: number;
+  retired: Array<{ epoch: number; head: string; length: number; usedThrough: number }>;
+};
+
+export function seedChainPointer(draw: SeedChainDraw): SeedChainPointer {
+  return { stationId: draw.stationId, epoch: draw.epoch, index: draw.index, head: draw.head };
+}
+
+type StationChain = {
+  epoch: number;
+  createdAt: number;
+  /** seeds[0] is the published head; seeds[i] = sha256(seeds[i + 1]). */
+  seeds: string[];
+  nextIndex: number;
+  /** The dealt seed whose round has not locked a pick yet. */
+  pending: { index: number; drawnAt: number } | null;
+};
+
+/**
+ * Per-station house seed hash chains. Each epoch generates `chainLength`
+ * seeds by iterated sha256 from a random root and publishes the final hash as
+ * the head before any round is dealt. Rounds consume seeds from the head end,
+ * so every revealed seed hashes back to the head (and the round's commit is
+ * simply the previous link). A station rotates to a fresh epoch once its chain
+ * is spent.
+ *
+ * Every later link hashes forward to every earlier one, so a commit exposes all
+ * seeds dealt before it. A station therefore deals one round at a time: the
+ * next draw waits until the pending round has locked its pick (`release`) or
+ * gone stale after `pendingTtlMs`.
+ */
+export class HouseSeedChains {
+  private readonly chains = new Map<string, StationChain>();
+  private readonly retired = new Map<string, SeedChainSummary['retired']>();
+  private readonly reveals = new Map<string, SeedChainReveal[]>();
+
+  constructor(
+    private readonly newSeedHex: (bytes?: number) => string,
+    private readonly now: () => number,
+    private readonly chainLength = 10_000,
+    private readonly revealHistoryLimit = 500,
+    private readonly pendingTtlMs = 60_000
+  ) {}
+
+  /**
+   * Longest chain this server deals from; receipt checks refuse to walk further.
+   */
+  get maxChainLength(): number {
+    return Math.max(1, Math.floor(this.chainLength));
+  }
+
+  /**
+   * Publish a station's chain head ahead of its first round.
+   */
+  ensureChain(stationId: string): SeedChainSummary {
+    if (!this.chains.has(stationId)) {
+      this.rotate(stationId, undefined);
+    }
+    return this.summary(stationId) as SeedChainSummary;
+  }
+
+  /**
+   * Take the next unused seed for a station. Its commit is the previous link,
+   * which is already fixed by the published head. Returns null while another
+   * round on the station holds an unreleased seed.
+   */
+  draw(stationId: string): SeedChainDraw | null {
+    let chain = this.chains.get(stationId);
+    if (chain && this.holdsPending(chain)) {
+      return null;
+    }
+    if (!chain || chain.nextIndex >= chain.seeds.length) {
+      chain = this.rotate(stationId, chain);
+    }
+    const index = chain.nextIndex;
+    chain.nextIndex += 1;
+    chain.pending = { index, drawnAt: this.now() };
+    return {
+      stationId,
+      epoch: chain.epoch,
+      index,
+      head: chain.seeds[0] as string,
+      houseSeed: chain.seeds[index] as string,
+      commitHash: chain.seeds[index - 1] as string
+    };
+  }
+
+  /**
+   * Frees the station once a round's pick is locked in (or the round is
+   * abandoned), so later commits may expose its seed. Returns false when the
+   * draw no longer holds the station: it went stale and must not be played.
+   */
+  release(draw: SeedChainDraw): boolean {
+    const chain = this.chains.get(draw.stationId);
+    if (!chain || chain.epoch !== draw.epoch || chain.pending?.index !== draw.index || !this.holdsPending(chain)) {
+      return false;
+    }
+    chain.pending = null;
+    return true;
+  }
+
+  recordReveal(draw: SeedChainDraw, challengeId: string | null): void {
+    const history = this.reveals.get(draw.stationId) ?? [];
+    history.push({
+      epoch: draw.epoch,
+      index: draw.index,
+      seed: draw.houseSeed,
+      challengeId,
+      revealedAt: this.now()
+    });
+    if (history.length > this.revealHistoryLimit) {
+      history.splice(0, history.length - this.revealHistoryLimit);
+    }
+    this.reveals.set(draw.stationId, history);
+  }
+
+  summary(stationId: string): SeedChainSummary | null {
+    const chain = this.chains.get(stationId);
+    if (!chain) {
+      return null;
+    }
+    return {
+      stationId,
+      epoch: chain.epoch,
+      head: chain.seeds[0] as string,
+      length: chain.seeds.length - 1,
+      nextIndex: chain.nextIndex,
+      remaining: chain.seeds.length - chain.nextIndex,
+      createdAt: chain.createdAt,
+      retired: [...(this.retired.get(stationId) ?? [])]
+    };
+  }
+
+  list(): SeedChainSummary[] {
+    return [...this.chains.keys()]
+      .map((stationId) => this.summary(stationId))
+      .filter((summary): summary is SeedChainSummary => summary !== null);
+  }
+
+  /**
+   * Revealed seeds for a station, newest first.
+   */
+  history(stationId: string, limit = 100): SeedChainReveal[] {
+    const history = this.reveals.get(stationId) ?? [];
+    return history.slice(Math.max(0, history.length - limit)).reverse();
+  }
+
+  private holdsPending(chain: StationChain): boolean {
+    return chain.pending !== null && this.now() - chain.pending.drawnAt <= this.pendingTtlMs;
+  }
+
+  private rotate(stationId: string, previous: StationChain | undefined): StationChain {
+    if (previous) {
+      const retired = this.retired.get(stationId) ?? [];
+      retired.push({
+        epoch: previous.epoch,
+        head: previous.seeds[0] as string,
+        length: previous.seeds.length - 1,
+        usedThrough: previous.nextIndex - 1
+      });
+      this.retired.set(stationId, retired.slice(-20));
+    }
+    const length = this.maxChainLength;
+    const seeds = new Array<string>(length + 1);
+    seeds[length] = this.newSeedHex(32);
+    for (let i = length - 1; i >= 0; i -= 1) {
+      seeds[i] = sha256Hex(seeds[i + 1] as string);
+    }
+    const chain: StationChain = {
+      epoch: (previous?.epoch ?? 0) + 1,
+      createdAt: this.now(),
+      seeds,
+      nextIndex: 1,
+      pending: null
+    };
+    this.chains.set(stationId, chain);
+    return chain;
+  }
+}
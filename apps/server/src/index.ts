@@ -1,18 +1,29 @@
 import { createServer } from 'node:http';
 import { randomBytes } from 'node:crypto';
 import { WebSocketServer, type RawData, type WebSocket } from 'ws';
-import { ChallengeService, type ChallengeEvent } from './ChallengeService.js';
+import { ChallengeService, type Challenge, type ChallengeEvent } from './ChallengeService.js';
 import { config, resolveInternalServiceToken } from './config.js';
 import { Database } from './Database.js';
 import { DistributedBus, type AdminCommand, type ChallengeCommand } from './DistributedBus.js';
 import { DistributedChallengeStore } from './DistributedChallengeStore.js';
-import { EscrowAdapter } from './EscrowAdapter.js';
+import { EscrowAdapter, type BetIntents, type BetIntentTypedData } from './EscrowAdapter.js';
+import { BetIntentBook } from './escrow/BetIntentBook.js';
+import { findStuckEscrows } from './escrow/stuckEscrows.js';
 import { log } from './logger.js';
+import { METRIC_NAMES, metrics } from './metrics.js';
 import { PresenceStore } from './PresenceStore.js';
-import { WORLD_SECTION_SPAWNS, WorldSim } from './WorldSim.js';
+import { WorldSim } from './WorldSim.js';
 import { createRouter } from './routes/index.js';
-import { parseClientMessage } from './websocket/messages.js';
-import type { GameMove } from '@arena/shared';
+import { parseClientMessage, type SpectateMessage } from './websocket/messages.js';
+import type { GameMove, GameType, SideBetPool, SpectatorEvent, TournamentEvent } from '@arena/shared';
+import {
+  BinarySnapshotEncoder,
+  DEFAULT_WORLD_ALIAS,
+  getGameDefinition,
+  getWorldManifest,
+  parseWireCodec,
+  resolveWorldAlias
+} from '@arena/shared';
 import {
   validateSession,
   verifyWsAuth,
@@ -28,11 +39,20 @@ import {
 } from './game/proximity.js';
 import { computeCoinflipFromSeeds, sha256Hex } from './coinflip.js';
 import { createStationRouter } from './game/stations/router.js';
+import { HouseSeedChains, seedChainPointer, type SeedChainDraw } from './game/stations/seedChain.js';
 import { PolymarketFeed } from './markets/PolymarketFeed.js';
 import { MarketService } from './markets/MarketService.js';
 import { PolymarketClobClient } from './markets/PolymarketClobClient.js';
 import { SettlementWorker } from './markets/SettlementWorker.js';
+import { TournamentService, type TournamentUpdate } from './tournaments/TournamentService.js';
+import { InputJournal } from './replay/journal.js';
+import { RoomManager, type Room } from './rooms/RoomManager.js';
+import { InterestGrid } from './snapshots/interest.js';
+import { SnapshotStream } from './snapshots/SnapshotStream.js';
+import { SideBetService, type SideBetUpdate } from './sidebets/SideBetService.js';
+import { SpectatorHub, redactChallengeForSpectators, spectatorEventFromChallengeEvent } from './spectators/SpectatorHub.js';
 import { runStartupValidation } from './middleware/security.js';
+import { AnomalyDetector, type AnomalyReport } from './anticheat/AnomalyDetector.js';
 
 type PlayerMeta = {
   role: PlayerRole;
@@ -47,8 +67,13 @@ const serverInstanceId = config.serverInstanceId;
 const database = new Database();
 const presenceStore = new PresenceStore(serverInstanceId, config.presenceTtlSeconds);
 const distributedChallengeStore = new DistributedChallengeStore(serverInstanceId);
-const worldSim = new WorldSim();
 const challengeIdPrefix = `${serverInstanceId}_${Date.now().toString(36)}`.replace(/[^a-zA-Z0-9_-]/g, '_');
+const worldManifest = getWorldManifest(config.worldAlias) ?? getWorldManifest(DEFAULT_WORLD_ALIAS)!;
+if (worldManifest.alias !== resolveWorldAlias(config.worldAlias)) {
+  log.warn({ worldAlias: config.worldAlias, fallback: worldManifest.alias }, 'unknown WORLD_ALIAS; using default world');
+}
+// One journal per room, keyed by room id; sessions are `<challengeIdPrefix>_<roomId>`.
+const inputJournals = new Map<string, InputJournal>();
 const challengeService = new ChallengeService(
   () => Date.now(),
   () => Math.random(),
@@ -56,6 +81,13 @@ const challengeService = new ChallengeService(
   45_000,
   challengeIdPrefix
 );
+const tournamentService = new TournamentService(
+  challengeService,
+  () => Date.now(),
+  () => Math.random(),
+  challengeIdPrefix
+);
+const houseSeedChains = new HouseSeedChains(newSeedHex, () => Date.now(), config.houseSeedChainLength);
 const internalServiceToken = resolveInternalServiceToken();
 const escrowAdapter = new EscrowAdapter(
   config.agentRuntimeUrl,
@@ -80,9 +112,22 @@ const marketService = new MarketService(
   escrowAdapter,
   marketFeed,
   () => houseWalletId || walletIdFor('system_house'),
-  clobClient
+  clobClient,
+  config.escrowFeeBps
 );
 const settlementWorker = new SettlementWorker(marketService);
+const sideBetService = new SideBetService(
+  escrowAdapter,
+  () => Date.now(),
+  config.sideBetFeeBps,
+  config.sideBetMaxWager
+);
+
+const betIntents = new BetIntentBook();
+// How long an accepted challenge waits for external-wallet BetIntent signatures before it is declined.
+const BET_INTENT_SIGN_WAIT_MS = 20_000;
+// Signed intents stay valid through the pending window plus a margin for the lock transaction.
+const BET_INTENT_TTL_MS = config.challengePendingTimeoutMs + 120_000;
 
 const stationProximityThreshold = Math.max(3, Math.min(25, Number(process.env.STATION_PROXIMITY_THRESHOLD ?? 8)));
 
@@ -107,14 +152,22 @@ type PendingDealerRound = {
   playerId: string;
   stationId: string;
   wager: number;
-  houseSeed: string;
-  commitHash: string;
+  seed: SeedChainDraw;
   method: string;
   createdAt: number;
   preflightApproved: boolean;
 };
 const pendingDealerRounds = new Map<string, PendingDealerRound>();
 
+/** Drops a player's unpicked coinflip round and frees its station for the next deal. */
+function clearPendingDealerRound(playerId: string): void {
+  const pending = pendingDealerRounds.get(playerId);
+  if (pending) {
+    houseSeedChains.release(pending.seed);
+    pendingDealerRounds.delete(playerId);
+  }
+}
+
 let houseWalletId: string | null = null;
 async function refreshHouseWalletId(): Promise<void> {
   try {
@@ -198,16 +251,40 @@ const server = createServer(createRouter({
   challengeService,
   database,
   marketService,
+  escrowAdapter,
   internalToken: internalServiceToken,
   publishAdminCommand: (targetServerId, command) => distributedBus.publishAdminCommand(targetServerId, command),
-  teleportLocal: (playerId, x, z) => worldSim.teleportPlayer(playerId, x, z)
+  teleportLocal: (playerId, x, z) => rooms.roomOf(playerId)?.sim.teleportPlayer(playerId, x, z) ?? false,
+  tournamentService,
+  dispatchTournamentUpdates,
+  seedChains: houseSeedChains,
+  sideBetService,
+  replayJournalDir: config.replayJournalDir || null,
+  replaySessionId: config.replayJournalDir ? `${challengeIdPrefix}_${worldManifest.alias}-1` : null,
+  world: worldManifest,
+  listRooms: () => rooms.summaries(),
+  listAnticheatFlags: () => anomalyDetector.flaggedSubjects()
 }));
 
 const wss = new WebSocketServer({ noServer: true });
 const sockets = new Map<string, WebSocket>();
 const metaByPlayer = new Map<string, PlayerMeta>();
-const activeProximityPairs = new Set<string>();
+const snapshotStreams = new Map<string, SnapshotStream>();
+// Present only for clients that connected with `?codec=binary`.
+const binarySnapshotEncoders = new Map<string, BinarySnapshotEncoder>();
+// Newest input seq per player; inputs apply on the next tick, so every
+// snapshot sent after that tick echoes it as `lastProcessedInput`.
+const lastInputSeqs = new Map<string, number>();
+const anomalyDetector = new AnomalyDetector({
+  maxInputsPerSecond: config.anticheatMaxInputsPerSecond,
+  flagScore: config.anticheatFlagScore,
+  kickScore: config.anticheatKickScore
+}, handleAnomaly);
+// Players seen through presence from other nodes, checked for position jumps.
+const remotePresenceIds = new Set<string>();
+const spectatorHub = new SpectatorHub();
 let nextClient = 1;
+let nextSpectator = 1;
 // Use config values
 const proximityThreshold = config.proximityThreshold;
 const escrowLockedChallenges = new Set<string>();
@@ -229,6 +306,8 @@ const presenceByPlayerId = new Map<string, {
   role: PlayerRole;
   displayName: string;
   walletId: string | null;
+  roomId: string;
+  world: string;
   x: number;
   y: number;
   z: number;
@@ -240,6 +319,8 @@ let cachedPresence: Array<{
   role: PlayerRole;
   displayName: string;
   walletId: string | null;
+  roomId: string;
+  world: string;
   x: number;
   y: number;
   z: number;
@@ -260,6 +341,12 @@ const distributedBus = new DistributedBus(
   },
   (command) => {
     void handleAdminCommand(command);
+  },
+  (event) => {
+    spectatorHub.deliver(event);
+  },
+  (message) => {
+    broadcastLocal(message.payload, new Set(message.exceptPlayerIds));
   }
 );
 
@@ -285,6 +372,52 @@ function sendToDistributed(playerId: string, payload: object): void {
   void distributedBus.publishToPlayer(playerId, payload);
 }
 
+function broadcastLocal(payload: object, except: ReadonlySet<string>): void {
+  const message = JSON.stringify(payload);
+  for (const [playerId, ws] of sockets) {
+    if (!except.has(playerId) && ws.readyState === ws.OPEN) {
+      ws.send(message);
+    }
+  }
+}
+
+function sendToSpectators(event: SpectatorEvent): void {
+  spectatorHub.deliver(event);
+  void distributedBus.publishSpectatorEvent(event);
+}
+
+/**
+ * Anti-cheat sink: count, audit and, past the kick score, soft-kick local
+ * connections (they may reconnect; the score carries over until it decays).
+ */
+function handleAnomaly(report: AnomalyReport): void {
+  metrics.incrementCounter(METRIC_NAMES.anticheatAnomaliesTotal, { kind: report.kind });
+  if (report.action === 'flag') {
+    metrics.incrementCounter(METRIC_NAMES.anticheatFlagsTotal, { kind: report.kind });
+  }
+  log.warn({ subjectId: report.subjectId, kind: report.kind, score: report.score, action: report.action, detail: report.detail }, 'anticheat anomaly');
+  void database.insertAuditLog({
+    actorId: report.subjectId,
+    actorType: metaByPlayer.get(report.subjectId)?.role ?? 'connection',
+    action: `anticheat.${report.kind}`,
+    resourceType: 'player',
+    resourceId: report.subjectId,
+    metadata: { ...report.detail, score: report.score, action: report.action, serverId: serverInstanceId },
+    ipAddress: typeof report.detail.ip === 'string' ? report.detail.ip : undefined
+  });
+  if (report.action === 'kick') {
+    const ws = sockets.get(report.subjectId);
+    if (ws) {
+      metrics.incrementCounter(METRIC_NAMES.anticheatKicksTotal, { kind: report.kind });
+      try {
+        ws.close(4429, 'anticheat_kick');
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
+
 function displayNameFor(playerId: string): string {
   return metaByPlayer.get(playerId)?.displayName ?? presenceByPlayerId.get(playerId)?.displayName ?? playerId;
 }
@@ -300,17 +433,16 @@ function isStaticNpcId(playerId: string): boolean {
   return typeof playerId === 'string' && playerId.startsWith('agent_bg_');
 }
 
-function autoNpcMove(challengeId: string, gameType: 'rps' | 'coinflip' | 'dice_duel'): GameMove {
-  const digest = sha256Hex(challengeId);
-  const seed = Number.parseInt(digest.slice(0, 2), 16);
-  if (gameType === 'coinflip') {
-    return (seed & 1) === 1 ? 'heads' : 'tails';
-  }
-  if (gameType === 'dice_duel') {
-    return (['d1', 'd2', 'd3', 'd4', 'd5', 'd6'][seed % 6] ?? 'd1') as GameMove;
-  }
-  const rps: Array<'rock' | 'paper' | 'scissors'> = ['rock', 'paper', 'scissors'];
-  return rps[seed % rps.length] ?? 'rock';
+function autoNpcMove(challengeId: string, gameType: GameType): GameMove {
+  const seed = Number.parseInt(sha256Hex(challengeId).slice(0, 2), 16);
+  return getGameDefinition(gameType)?.pickBotMove(seed) ?? 'rock';
+}
+
+async function submitStaticNpcMove(challenge: Challenge, npcId: string): Promise<void> {
+  const round = challenge.rounds?.length ?? 0;
+  const move = autoNpcMove(round > 0 ? `${challenge.id}#${round + 1}` : challenge.id, challenge.gameType);
+  const moveEvent = challengeService.submitMove(challenge.id, npcId, move);
+  await dispatchChallengeEventWithEscrow(withActorRecipient(moveEvent, npcId));
 }
 
 function broadcast(payload: object): void {
@@ -369,8 +501,94 @@ function dispatchChallengeEvent(event: ChallengeEvent): void {
     approvalStatus: finalApprovalMeta?.approvalStatus
   });
 
+  if (challenge) {
+    spectatorHub.trackChallenge(challenge);
+  }
+  const spectatorEvent = spectatorEventFromChallengeEvent(event);
+  if (spectatorEvent) {
+    sendToSpectators(spectatorEvent);
+  }
+  void sideBetService.handleChallengeEvent(event).then(dispatchSideBetUpdates).catch((error) => {
+    log.warn({ err: error, challengeId: challenge?.id }, 'side-bet update failed');
+  });
+
   if (challenge?.id && (event.event === 'resolved' || event.event === 'declined' || event.event === 'expired')) {
     challengeApprovalById.delete(challenge.id);
+    void dispatchTournamentUpdates(tournamentService.handleChallengeEvent(event)).catch((error) => {
+      log.warn({ err: error, challengeId: challenge.id }, 'tournament advance failed');
+    });
+  }
+}
+
+/**
+ * Side-bet pools are room-local: players in the challenge's room get
+ * `side_bet_pool`, and its spectators (on any node) a `side_bets` event.
+ */
+function dispatchSideBetPool(event: NonNullable<SpectatorEvent['sideBets']>['event'], pool: SideBetPool): void {
+  const room = rooms.roomOf(pool.challengerId) ?? rooms.roomOf(pool.opponentId);
+  const message = JSON.stringify({ type: 'side_bet_pool', event, pool });
+  for (const playerId of room?.players ?? []) {
+    const ws = sockets.get(playerId);
+    if (ws && ws.readyState === ws.OPEN) {
+      ws.send(message);
+    }
+  }
+  sendToSpectators({
+    type: 'spectator_event',
+    event: 'side_bets',
+    challengeId: pool.challengeId,
+    stationId: null,
+    sideBets: { event, pool }
+  });
+}
+
+function dispatchSideBetUpdates(updates: SideBetUpdate[]): void {
+  for (const update of updates) {
+    if (update.escrow) {
+      // Recorded under the pot id so reconciliation can match the pot on-chain.
+      void database.insertEscrowEvent({
+        challengeId: update.escrow.potId,
+        phase: update.escrow.phase,
+        ok: update.escrow.ok,
+        reason: update.escrow.reason,
+        txHash: update.escrow.txHash,
+        fee: update.escrow.fee
+      });
+    }
+    dispatchSideBetPool(update.event, update.pool);
+    for (const bet of update.bets) {
+      sendToDistributed(bet.bettorId, { type: 'side_bet', event: bet.status, bet, pool: update.pool });
+    }
+  }
+}
+
+function dispatchTournamentEvent(event: TournamentEvent): void {
+  const payload = {
+    type: 'tournament',
+    event: event.event,
+    reason: event.reason,
+    tournament: event.tournament,
+    match: event.match
+  };
+  const recipients = new Set(event.to ?? []);
+  for (const playerId of recipients) {
+    sendToDistributed(playerId, payload);
+  }
+  broadcastLocal(payload, recipients);
+  void distributedBus.publishBroadcast(payload, [...recipients]);
+}
+
+async function dispatchTournamentUpdates(updates: TournamentUpdate[]): Promise<void> {
+  for (const update of updates) {
+    if (update.type === 'tournament') {
+      dispatchTournamentEvent(update);
+      continue;
+    }
+    const registered = await registerCreatedChallenge(update, update.challenge?.challengerId ?? '');
+    if (!registered.ok) {
+      continue;
+    }
+    await dispatchChallengeEventWithEscrow(update);
   }
 }
 
@@ -405,6 +623,11 @@ function broadcastEscrowEvent(payload: {
     type: 'challenge_escrow',
     ...payload
   });
+
+  const payoutEvent = spectatorHub.payoutEvent(payload);
+  if (payoutEvent) {
+    sendToSpectators(payoutEvent);
+  }
 }
 
 function withActorRecipient(event: ChallengeEvent, actorId: string): ChallengeEvent {
@@ -417,6 +640,47 @@ function withActorRecipient(event: ChallengeEvent, actorId: string): ChallengeEv
   };
 }
 
+/**
+ * Opens the intent book for a challenge and asks each side with an external
+ * signer to sign. Returns false, leaving no book open, when a signer's typed
+ * data cannot be built; the challenge could never lock and should be aborted.
+ */
+async function requestBetIntents(challenge: Challenge): Promise<boolean> {
+  const signers = {
+    challenger: betIntents.signerFor(challenge.challengerId) ?? undefined,
+    opponent: betIntents.signerFor(challenge.opponentId) ?? undefined
+  };
+  const expiresAt = Date.now() + BET_INTENT_TTL_MS;
+  const sides = [
+    { playerId: challenge.challengerId, signer: signers.challenger, counterpartyId: challenge.opponentId, counterpartySigner: signers.opponent },
+    { playerId: challenge.opponentId, signer: signers.opponent, counterpartyId: challenge.challengerId, counterpartySigner: signers.challenger }
+  ];
+  const requests: Array<{ playerId: string; typedData: BetIntentTypedData }> = [];
+  for (const side of sides) {
+    if (!side.signer) {
+      continue;
+    }
+    const typedData = await escrowAdapter.betIntentTypedData({
+      challengeId: challenge.id,
+      amount: challenge.wager,
+      expiresAt,
+      counterparty: { walletId: walletIdFor(side.counterpartyId) ?? '', signer: side.counterpartySigner }
+    });
+    if (!typedData) {
+      log.warn({ challengeId: challenge.id, playerId: side.playerId }, 'bet intent typed data unavailable');
+      return false;
+    }
+    requests.push({ playerId: side.playerId, typedData });
+  }
+  if (!betIntents.open(challenge.id, signers, expiresAt)) {
+    return true;
+  }
+  for (const request of requests) {
+    sendTo(request.playerId, { type: 'escrow_intent_request', challengeId: challenge.id, typedData: request.typedData });
+  }
+  return true;
+}
+
 async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<void> {
   await distributedChallengeStore.appendHistory({
     event: event.event,
@@ -424,6 +688,7 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
     challenge: event.challenge ?? null
   });
 
+  let intentsUnavailable = false;
   if (event.challenge) {
     const challenge = event.challenge;
     const wager = Math.max(0, challenge.wager);
@@ -436,6 +701,9 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
           ? (serverEscrowApprovalMode === 'auto' ? 'ready' : 'required')
           : 'ready'
       });
+      if (wager > 0) {
+        intentsUnavailable = !(await requestBetIntents(challenge));
+      }
     }
 
     // Persist challenge state to database
@@ -470,11 +738,23 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
         return;
       }
 
+      let intents: BetIntents | undefined;
+      if (betIntents.isPending(challenge.id)) {
+        intents = await betIntents.whenSigned(challenge.id, BET_INTENT_SIGN_WAIT_MS) ?? undefined;
+        if (!intents) {
+          betIntents.clear(challenge.id);
+          const aborted = challengeService.abortChallenge(challenge.id, 'declined', 'bet_intent_missing');
+          dispatchChallengeEvent(aborted);
+          return;
+        }
+      }
+
       const locked = await escrowAdapter.lockStake({
         challengeId: challenge.id,
         challengerWalletId,
         opponentWalletId,
-        amount: wager
+        amount: wager,
+        intents
       });
       if (!locked.ok) {
         challengeEscrowFailureById.set(challenge.id, stationErrorFromEscrowFailure({
@@ -495,6 +775,13 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
         dispatchChallengeEvent(aborted);
         return;
       }
+      if (intents) {
+        // Signers live only in memory; persist them so a restarted node still pays the right address.
+        await database.insertEscrowSigners(challenge.id, {
+          challenger: intents.challenger?.signer,
+          opponent: intents.opponent?.signer
+        });
+      }
       escrowLockedChallenges.add(challenge.id);
       challengeWalletsById.set(challenge.id, { challengerWalletId, opponentWalletId });
       challengeEscrowFailureById.delete(challenge.id);
@@ -525,9 +812,15 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
           : challenge.winnerId === challenge.opponentId
             ? (participants?.opponentWalletId ?? walletIdFor(challenge.winnerId))
             : walletIdFor(challenge.winnerId);
+      const winnerSide = challenge.winnerId === challenge.challengerId
+        ? 'challenger'
+        : challenge.winnerId === challenge.opponentId ? 'opponent' : null;
       const settled = await escrowAdapter.resolve({
         challengeId: challenge.id,
-        winnerWalletId
+        winnerWalletId,
+        winnerAddress: winnerSide
+          ? betIntents.signerOf(challenge.id, winnerSide) ?? (await database.getEscrowSigners(challenge.id))[winnerSide]
+          : undefined
       });
       if (!settled.ok) {
         broadcastEscrowEvent({
@@ -580,6 +873,7 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
     if (event.event === 'resolved' || event.event === 'declined' || event.event === 'expired') {
       challengeWalletsById.delete(challenge.id);
       challengeApprovalById.delete(challenge.id);
+      betIntents.clear(challenge.id);
       await distributedChallengeStore.releasePlayers(
         challenge.id,
         [challenge.challengerId, challenge.opponentId].filter((id) => id !== 'system_house')
@@ -589,6 +883,12 @@ async function dispatchChallengeEventWithEscrow(event: ChallengeEvent): Promise<
   }
 
   dispatchChallengeEvent(event);
+
+  // Abort after announcing the challenge so clients see it created, then declined.
+  if (intentsUnavailable && event.challenge) {
+    const aborted = challengeService.abortChallenge(event.challenge.id, 'declined', 'bet_intent_unavailable');
+    dispatchChallengeEvent(aborted);
+  }
 }
 
 async function registerCreatedChallenge(
@@ -627,7 +927,7 @@ async function registerCreatedChallenge(
   return { ok: true };
 }
 
-const stationRouter = createStationRouter({
+const stationRouterContext = {
   diceDuelEnabled: config.diceDuelEnabled,
   stationProximityThreshold,
   lastPlayerPos,
@@ -644,8 +944,78 @@ const stationRouter = createStationRouter({
   dispatchChallengeEventWithEscrow,
   stationErrorFromEscrowFailure,
   newSeedHex,
+  seedChains: houseSeedChains,
   marketService
+};
+const stationRouters = new Map<string, ReturnType<typeof createStationRouter>>();
+// Last station list sent per room; stations go out on welcome/join and then only on change.
+const stationSignatures = new Map<string, string>();
+const rooms = new RoomManager({
+  defaultWorld: worldManifest,
+  capacity: config.roomCapacity,
+  createSim: (world, roomId) => {
+    let journal: InputJournal | undefined;
+    if (config.replayJournalDir) {
+      journal = new InputJournal(
+        `${challengeIdPrefix}_${roomId}`,
+        serverInstanceId,
+        Date.now(),
+        config.replayJournalDir,
+        config.replayChecksumEveryTicks,
+        world.alias
+      );
+      inputJournals.set(roomId, journal);
+    }
+    return new WorldSim(journal, world);
+  },
+  onRoomCreated: (room) => {
+    const router = createStationRouter({ ...stationRouterContext, world: room.world });
+    stationRouters.set(room.id, router);
+    stationSignatures.set(room.id, JSON.stringify(router.stations));
+    log.info({ roomId: room.id, world: room.world.alias }, 'room opened');
+  },
+  onRoomClosed: (room) => {
+    stationRouters.delete(room.id);
+    stationSignatures.delete(room.id);
+    const journal = inputJournals.get(room.id);
+    inputJournals.delete(room.id);
+    void journal?.flush().catch((error) => {
+      log.warn({ err: error, sessionId: journal.sessionId }, 'replay journal flush failed');
+    });
+    log.info({ roomId: room.id, world: room.world.alias }, 'room closed');
+  }
 });
+
+function stationRouterFor(playerId: string): ReturnType<typeof createStationRouter> {
+  const room = rooms.roomOf(playerId) ?? rooms.defaultRoom;
+  return stationRouters.get(room.id)!;
+}
+
+function stationExists(stationId: string): boolean {
+  return [...stationRouters.values()].some((router) => router.stationById.has(stationId));
+}
+
+/**
+ * Place a player into the room's sim: their last known position if they were
+ * in this room before (reconnects), otherwise the preferred or a default spawn.
+ */
+function spawnIntoRoom(playerId: string, room: Room, preferredSpawn: { x: number; z: number } | null): void {
+  void presenceStore.get(playerId).then((presence) => {
+    if (rooms.roomOf(playerId) !== room) {
+      return;
+    }
+    if (presence && presence.roomId === room.id) {
+      room.sim.joinPlayer(playerId, { x: presence.x, z: presence.z });
+      return;
+    }
+    room.sim.joinPlayer(playerId, preferredSpawn ?? undefined);
+  }).catch(() => {
+    if (rooms.roomOf(playerId) === room) {
+      room.sim.joinPlayer(playerId, preferredSpawn ?? undefined);
+    }
+  });
+}
+
 const isLocalDevRuntime = !process.env.K_SERVICE && process.env.NODE_ENV !== 'production';
 if (!config.stationPluginRouterEnabled) {
   const message = 'STATION_PLUGIN_ROUTER_ENABLED must be true. Partial station snapshots are not supported.';
@@ -655,8 +1025,6 @@ if (!config.stationPluginRouterEnabled) {
     throw new Error(message);
   }
 }
-const STATIONS = stationRouter.stations;
-const stationById = stationRouter.stationById;
 
 // Note: emitProximityEvents is imported from game/proximity.ts
 // Note: ValidatedIdentity is imported from websocket/auth.ts
@@ -718,6 +1086,10 @@ wss.on('connection', (ws, request) => {
   const validatedIdentity = (request as unknown as Record<string, unknown>).__validatedIdentity as ValidatedIdentity | null | undefined;
 
   const requestedRole = parsed.searchParams.get('role');
+  if (requestedRole === 'spectator') {
+    handleSpectatorConnection(ws, parsed);
+    return;
+  }
   const role: PlayerRole = requestedRole === 'agent' ? 'agent' : 'human';
   // Prefer validated identity data over URL params for humans
   const preferredName = (role === 'human' && validatedIdentity?.displayName)
@@ -729,6 +1101,11 @@ wss.on('connection', (ws, request) => {
   const requestedClientId = parsed.searchParams.get('clientId')?.trim();
   const normalizedClientId = requestedClientId?.replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64);
   const requestedAgentId = parsed.searchParams.get('agentId')?.trim();
+  const remoteIp = request.socket.remoteAddress ?? null;
+  // Anti-cheat subject for rejections that happen before a player id exists.
+  const connectionSubject = requestedAgentId
+    ? `agent:${requestedAgentId}`
+    : normalizedClientId ? `client:${normalizedClientId}` : `ip:${remoteIp ?? 'unknown'}`;
 
   // If a shared secret is configured, require signed ws auth to prevent unauthenticated entry points
   // (including bypassing the web server and connecting directly to /ws).
@@ -736,6 +1113,9 @@ wss.on('connection', (ws, request) => {
     const token = parsed.searchParams.get('wsAuth')?.trim() || '';
     const verified = verifyWsAuth(token, role);
     if (!verified.ok) {
+      if (verified.reason === 'ws_auth_role_mismatch') {
+        anomalyDetector.recordIdentityMismatch(connectionSubject, 'role_mismatch', { requestedRole: role, reason: verified.reason, ip: remoteIp });
+      }
       if (role === 'agent') {
         log.warn({ reason: verified.reason, requestedAgentId }, 'agent websocket auth rejected');
       }
@@ -750,6 +1130,7 @@ wss.on('connection', (ws, request) => {
     if (role === 'human') {
       const validated = validateHumanAuthClaims(claims, normalizedClientId, walletId ?? undefined);
       if (!validated.ok) {
+        anomalyDetector.recordIdentityMismatch(connectionSubject, 'auth_mismatch', { requestedRole: role, reason: validated.reason, ip: remoteIp });
         try {
           ws.close(4403, validated.reason ?? 'ws_auth_invalid_claims');
         } catch {
@@ -761,6 +1142,7 @@ wss.on('connection', (ws, request) => {
       const validated = validateAgentAuthClaims(claims, requestedAgentId, walletId ?? undefined);
       if (!validated.ok) {
         log.warn({ reason: validated.reason, requestedAgentId }, 'agent websocket claims mismatch');
+        anomalyDetector.recordIdentityMismatch(connectionSubject, 'auth_mismatch', { requestedRole: role, reason: validated.reason, ip: remoteIp });
         try {
           ws.close(4403, validated.reason ?? 'ws_auth_invalid_claims');
         } catch {
@@ -787,7 +1169,10 @@ wss.on('connection', (ws, request) => {
     }
     sockets.delete(preferredId);
     metaByPlayer.delete(preferredId);
-    worldSim.removePlayer(preferredId);
+    snapshotStreams.delete(preferredId);
+    binarySnapshotEncoders.delete(preferredId);
+    lastInputSeqs.delete(preferredId);
+    rooms.leave(preferredId);
   }
 
   let playerId = preferredId && !sockets.has(preferredId) ? preferredId : `p${nextClient}`;
@@ -798,7 +1183,25 @@ wss.on('connection', (ws, request) => {
     nextClient += 1;
   }
 
+  const joined = rooms.join(playerId, {
+    world: parsed.searchParams.get('world'),
+    roomId: parsed.searchParams.get('room')
+  });
+  if (!joined.ok) {
+    try {
+      ws.close(4409, joined.reason);
+    } catch {
+      // ignore
+    }
+    return;
+  }
+
   sockets.set(playerId, ws);
+  snapshotStreams.set(playerId, new SnapshotStream());
+  const codec = parseWireCodec(parsed.searchParams.get('codec'));
+  if (codec === 'binary') {
+    binarySnapshotEncoders.set(playerId, new BinarySnapshotEncoder());
+  }
 
   // Validate and sanitize display name
   const validatedName = validateDisplayName(preferredName);
@@ -811,6 +1214,10 @@ wss.on('connection', (ws, request) => {
     displayName: finalDisplayName,
     walletId
   });
+  // Bot credentials on a human connection: likely an agent posing as a human.
+  if (role === 'human' && requestedAgentId) {
+    anomalyDetector.recordIdentityMismatch(playerId, 'role_mismatch', { requestedRole: role, agentId: requestedAgentId, ip: remoteIp });
+  }
 
   // Allow runtime agents (NPCs/owner bots) to request deterministic section spawns.
   const spawnSectionRaw = parsed.searchParams.get('spawnSection');
@@ -818,54 +1225,93 @@ wss.on('connection', (ws, request) => {
   const preferredSpawn =
     role === 'agent' && Number.isFinite(spawnSection)
       ? (() => {
-          const idx = Math.max(0, Math.min(7, Math.floor(spawnSection)));
-          return WORLD_SECTION_SPAWNS[idx] ?? null;
+          const sections = joined.room.world.sections;
+          const idx = Math.max(0, Math.min(sections.length - 1, Math.floor(spawnSection)));
+          return sections[idx]?.spawn ?? null;
         })()
       : null;
 
-  void presenceStore.get(playerId).then((presence) => {
-    if (presence) {
-      worldSim.joinPlayer(playerId, { x: presence.x, z: presence.z });
-      return;
-    }
-    if (preferredSpawn) {
-      worldSim.joinPlayer(playerId, preferredSpawn);
-      return;
-    }
-    worldSim.joinPlayer(playerId);
-  }).catch(() => {
-    worldSim.joinPlayer(playerId, preferredSpawn ?? undefined);
-  });
-
-  ws.send(JSON.stringify({ type: 'welcome', playerId, role, displayName: displayNameFor(playerId), serverId: serverInstanceId }));
+  spawnIntoRoom(playerId, joined.room, preferredSpawn);
 
-  ws.on('message', async (raw: RawData) => {
+  ws.send(JSON.stringify({
+    type: 'welcome',
+    playerId,
+    role,
+    displayName: displayNameFor(playerId),
+    serverId: serverInstanceId,
+    roomId: joined.room.id,
+    world: joined.room.world.alias,
+    room: rooms.summarize(joined.room),
+    stations: stationRouters.get(joined.room.id)?.stations ?? [],
+    codec
+  }));
+
+  ws.on('message', async (raw: RawData, isBinary: boolean) => {
     try {
-      const payload = parseClientMessage(raw);
+      const payload = parseClientMessage(raw, isBinary);
       if (!payload) {
         return;
       }
 
     if (payload.type === 'input') {
+      if (!anomalyDetector.recordInput(playerId)) {
+        return;
+      }
+      if (payload.seq !== undefined) {
+        lastInputSeqs.set(playerId, payload.seq);
+      }
       const role = metaByPlayer.get(playerId)?.role ?? 'human';
       if (role === 'agent' && !agentLocomotionEnabled) {
-        worldSim.setInput(playerId, { moveX: 0, moveZ: 0 });
+        rooms.roomOf(playerId)?.sim.setInput(playerId, { moveX: 0, moveZ: 0 });
         return;
       }
-      worldSim.setInput(playerId, {
+      rooms.roomOf(playerId)?.sim.setInput(playerId, {
         moveX: payload.moveX,
         moveZ: payload.moveZ
       });
       return;
     }
 
+    if (payload.type === 'snapshot_ack') {
+      snapshotStreams.get(playerId)?.ack(payload.seq);
+      return;
+    }
+
+    if (payload.type === 'join') {
+      const previousRouter = stationRouterFor(playerId);
+      const result = rooms.join(playerId, { world: payload.world, roomId: payload.roomId });
+      if (!result.ok) {
+        sendTo(playerId, { type: 'room', event: 'rejected', reason: result.reason });
+        return;
+      }
+      if (result.changed) {
+        previousRouter.clearPlayer(playerId);
+        clearPendingDealerRound(playerId);
+        lastPlayerPos.delete(playerId);
+        if (result.previous) {
+          clearPlayerProximityPairs(result.previous.proximityPairs, playerId);
+        }
+        spawnIntoRoom(playerId, result.room, null);
+      }
+      sendTo(playerId, {
+        type: 'room',
+        event: 'joined',
+        room: rooms.summarize(result.room),
+        previousRoomId: result.previous?.id ?? null
+      });
+      if (result.changed) {
+        sendTo(playerId, { type: 'stations', roomId: result.room.id, stations: stationRouters.get(result.room.id)?.stations ?? [] });
+      }
+      return;
+    }
+
     if (payload.type === 'station_interact') {
       if (config.stationPluginRouterEnabled) {
-        await stationRouter.handleStationInteract(playerId, payload);
+        await stationRouterFor(playerId).handleStationInteract(playerId, payload);
         return;
       }
       const stationId = payload.stationId.trim();
-      const station = stationById.get(stationId);
+      const station = stationRouterFor(playerId).stationById.get(stationId);
       if (!station) {
         sendTo(playerId, {
           type: 'station_ui',
@@ -944,15 +1390,23 @@ wss.on('connection', (ws, request) => {
             return;
           }
         }
-        const houseSeed = newSeedHex(24);
-        const commitHash = sha256Hex(houseSeed);
+        clearPendingDealerRound(playerId);
+        const seed = houseSeedChains.draw(stationId);
+        if (!seed) {
+          sendTo(playerId, {
+            type: 'station_ui',
+            stationId,
+            view: { ok: false, state: 'dealer_error', reason: 'dealer_busy' }
+          });
+          return;
+        }
+        const { commitHash } = seed;
         const method = 'sha256(houseSeed|playerSeed|challengeId), LSB(firstByte)=1 -> heads';
         pendingDealerRounds.set(playerId, {
           playerId,
           stationId,
           wager,
-          houseSeed,
-          commitHash,
+          seed,
           method,
           createdAt: Date.now(),
           preflightApproved: true
@@ -966,7 +1420,8 @@ wss.on('connection', (ws, request) => {
             stationId,
             wager,
             commitHash,
-            method
+            method,
+            seedChain: seedChainPointer(seed)
           }
         });
         return;
@@ -1016,6 +1471,17 @@ wss.on('connection', (ws, request) => {
         });
         return;
       }
+      // The pick is fixed from here on, so the station may deal again even
+      // though the next commit will expose this round's seed.
+      if (!houseSeedChains.release(pending.seed)) {
+        pendingDealerRounds.delete(playerId);
+        sendTo(playerId, {
+          type: 'station_ui',
+          stationId,
+          view: { ok: false, state: 'dealer_error', reason: 'dealer_round_expired' }
+        });
+        return;
+      }
       const playerPick = payload.pick;
       const opponentPick = playerPick === 'heads' ? 'tails' : 'heads';
       const playerSeed = payload.playerSeed.trim().slice(0, 96) || newSeedHex(12);
@@ -1044,9 +1510,10 @@ wss.on('connection', (ws, request) => {
       }
 
       created.challenge.provablyFair = {
-        commitHash: pending.commitHash,
+        commitHash: pending.seed.commitHash,
         playerSeed,
-        method: pending.method
+        method: pending.method,
+        chain: seedChainPointer(pending.seed)
       };
 
       created.to = [playerId];
@@ -1073,9 +1540,10 @@ wss.on('connection', (ws, request) => {
         type: 'provably_fair',
         phase: 'commit',
         challengeId: created.challenge.id,
-        commitHash: pending.commitHash,
+        commitHash: pending.seed.commitHash,
         playerSeed,
-        method: pending.method
+        method: pending.method,
+        chain: seedChainPointer(pending.seed)
       });
 
       await dispatchChallengeEventWithEscrow(withActorRecipient(created, playerId));
@@ -1105,19 +1573,21 @@ wss.on('connection', (ws, request) => {
       }
 
       if (created.challenge.provablyFair) {
-        created.challenge.provablyFair.revealSeed = pending.houseSeed;
+        created.challenge.provablyFair.revealSeed = pending.seed.houseSeed;
       }
+      houseSeedChains.recordReveal(pending.seed, created.challenge.id);
       sendToDistributed(playerId, {
         type: 'provably_fair',
         phase: 'reveal',
         challengeId: created.challenge.id,
-        commitHash: pending.commitHash,
+        commitHash: pending.seed.commitHash,
         playerSeed,
-        houseSeed: pending.houseSeed,
-        method: pending.method
+        houseSeed: pending.seed.houseSeed,
+        method: pending.method,
+        chain: seedChainPointer(pending.seed)
       });
 
-      const result = computeCoinflipFromSeeds(pending.houseSeed, playerSeed, created.challenge.id);
+      const result = computeCoinflipFromSeeds(pending.seed.houseSeed, playerSeed, created.challenge.id);
       challengeService.setCoinflipResultOverride(created.challenge.id, result);
 
       const submitted1 = challengeService.submitMove(created.challenge.id, playerId, playerPick);
@@ -1147,7 +1617,7 @@ wss.on('connection', (ws, request) => {
           coinflipResult: finalChallenge?.coinflipResult ?? result,
           winnerId,
           payoutDelta,
-          commitHash: pending.commitHash,
+          commitHash: pending.seed.commitHash,
           method: pending.method,
           escrowTx: challengeEscrowTxById.get(created.challenge.id) ?? {}
         }
@@ -1158,6 +1628,59 @@ wss.on('connection', (ws, request) => {
       return;
     }
 
+    if (payload.type === 'side_bet_place') {
+      const challenge = challengeService.getChallenge(payload.challengeId);
+      const result = await sideBetService.placeBet({
+        challenge,
+        challengeRoomId: challenge
+          ? (rooms.roomOf(challenge.challengerId) ?? rooms.roomOf(challenge.opponentId))?.id ?? null
+          : null,
+        bettorRoomId: rooms.roomOf(playerId)?.id ?? null,
+        bettorId: playerId,
+        walletId: walletIdFor(playerId),
+        backedPlayerId: payload.backedPlayerId,
+        amount: payload.amount
+      });
+      sendTo(playerId, {
+        type: 'side_bet',
+        event: result.ok ? 'placed' : 'rejected',
+        challengeId: payload.challengeId,
+        reason: result.reason,
+        reasonCode: result.reasonCode,
+        reasonText: result.reasonText,
+        bet: result.bet,
+        pool: result.pool
+      });
+      if (result.ok && result.bet && result.pool) {
+        void database.insertEscrowEvent({
+          challengeId: result.bet.escrowBetId,
+          phase: 'lock',
+          ok: true,
+          txHash: result.txHash
+        });
+        dispatchSideBetPool('placed', result.pool);
+      }
+      return;
+    }
+
+    if (payload.type === 'escrow_signer') {
+      betIntents.setSigner(playerId, payload.address);
+      sendTo(playerId, { type: 'escrow_signer', address: payload.address });
+      return;
+    }
+
+    if (payload.type === 'escrow_intent') {
+      const challenge = challengeService.getChallenge(payload.challengeId);
+      const side = challenge?.challengerId === playerId
+        ? 'challenger'
+        : challenge?.opponentId === playerId ? 'opponent' : null;
+      const result = side
+        ? betIntents.sign(payload.challengeId, side, payload.signature)
+        : { ok: false, reason: 'not_participant' };
+      sendTo(playerId, { type: 'escrow_intent', challengeId: payload.challengeId, ok: result.ok, reason: result.reason });
+      return;
+    }
+
     if (payload.type === 'challenge_send') {
       // SECURITY: Prevent self-challenges (money laundering, collusion risk)
       if (playerId === payload.targetId) {
@@ -1180,7 +1703,18 @@ wss.on('connection', (ws, request) => {
         return;
       }
 
-      if (!arePlayersNear(activeProximityPairs, playerId, payload.targetId)) {
+      const senderRoom = rooms.roomOf(playerId);
+      const targetRoomId = targetLocal ? rooms.roomOf(payload.targetId)?.id : targetPresence?.roomId;
+      if (!senderRoom || targetRoomId !== senderRoom.id) {
+        sendTo(playerId, {
+          type: 'challenge',
+          event: 'invalid',
+          reason: 'target_not_in_room'
+        });
+        return;
+      }
+
+      if (!arePlayersNear(senderRoom.proximityPairs, playerId, payload.targetId)) {
         sendTo(playerId, {
           type: 'challenge',
           event: 'invalid',
@@ -1264,7 +1798,8 @@ wss.on('connection', (ws, request) => {
         playerId,
         payload.targetId,
         payload.gameType,
-        payload.wager
+        payload.wager,
+        payload.bestOf
       );
       const registered = await registerCreatedChallenge(event, playerId);
       if (!registered.ok) {
@@ -1277,12 +1812,7 @@ wss.on('connection', (ws, request) => {
         const accepted = challengeService.respond(event.challenge.id, payload.targetId, true);
         await dispatchChallengeEventWithEscrow(withActorRecipient(accepted, payload.targetId));
         if (accepted.challenge && accepted.challenge.status === 'active') {
-          const move = autoNpcMove(
-            accepted.challenge.id,
-            accepted.challenge.gameType
-          );
-          const moveEvent = challengeService.submitMove(accepted.challenge.id, payload.targetId, move);
-          await dispatchChallengeEventWithEscrow(withActorRecipient(moveEvent, payload.targetId));
+          await submitStaticNpcMove(accepted.challenge, payload.targetId);
         }
       }
       return;
@@ -1369,6 +1899,12 @@ wss.on('connection', (ws, request) => {
         }
       }
       await dispatchChallengeEventWithEscrow(withActorRecipient(event, playerId));
+      if (event.event === 'round_resolved' && event.challenge) {
+        const npcId = [event.challenge.challengerId, event.challenge.opponentId].find(isStaticNpcId);
+        if (npcId) {
+          await submitStaticNpcMove(event.challenge, npcId);
+        }
+      }
     }
     } catch (error) {
       log.warn({ err: error, playerId }, 'failed to process ws message');
@@ -1381,15 +1917,24 @@ wss.on('connection', (ws, request) => {
     }
     sockets.delete(playerId);
     metaByPlayer.delete(playerId);
-    pendingDealerRounds.delete(playerId);
-    stationRouter.clearPlayer(playerId);
-    worldSim.removePlayer(playerId);
+    snapshotStreams.delete(playerId);
+    binarySnapshotEncoders.delete(playerId);
+    lastInputSeqs.delete(playerId);
+    if (!anomalyDetector.isFlagged(playerId)) {
+      anomalyDetector.forget(playerId);
+    }
+    clearPendingDealerRound(playerId);
+    betIntents.forgetPlayer(playerId);
+    stationRouterFor(playerId).clearPlayer(playerId);
+    const room = rooms.leave(playerId);
     lastPlayerPos.delete(playerId);
     void presenceStore.remove(playerId).catch((error) => {
       log.warn({ err: error, playerId }, 'presence remove failed');
     });
 
-    clearPlayerProximityPairs(activeProximityPairs, playerId);
+    if (room) {
+      clearPlayerProximityPairs(room.proximityPairs, playerId);
+    }
 
     for (const event of challengeService.clearDisconnectedPlayer(playerId)) {
       void dispatchChallengeEventWithEscrow(event);
@@ -1397,10 +1942,79 @@ wss.on('connection', (ws, request) => {
   });
 });
 
+/**
+ * Spectators are read-only: they never join the world sim, and the only
+ * messages they may send are subscription changes.
+ */
+function handleSpectatorConnection(ws: WebSocket, parsed: URL): void {
+  if (wsAuthSecret) {
+    const verified = verifyWsAuth(parsed.searchParams.get('wsAuth')?.trim() || '', 'human');
+    if (!verified.ok) {
+      try {
+        ws.close(4401, verified.reason);
+      } catch {
+        // ignore
+      }
+      return;
+    }
+  }
+
+  const spectatorId = `s${nextSpectator}`;
+  nextSpectator += 1;
+  spectatorHub.add(spectatorId, (payload) => {
+    if (ws.readyState === ws.OPEN) {
+      ws.send(JSON.stringify(payload));
+    }
+  });
+  ws.send(JSON.stringify({ type: 'welcome', spectatorId, role: 'spectator', serverId: serverInstanceId }));
+
+  const updateSubscription = (message: SpectateMessage): void => {
+    if (message.type === 'spectate_stop') {
+      spectatorHub.unsubscribe(spectatorId, { kind: message.target, id: message.id });
+      ws.send(JSON.stringify({ type: 'spectate_ack', ok: true, action: 'stop', target: message.target, id: message.id }));
+      return;
+    }
+    const result = message.target === 'station' && !stationExists(message.id)
+      ? { ok: false, reason: 'station_not_found' }
+      : spectatorHub.subscribe(spectatorId, { kind: message.target, id: message.id });
+    const current = result.ok && message.target === 'challenge' ? challengeService.getChallenge(message.id) : null;
+    ws.send(JSON.stringify({
+      type: 'spectate_ack',
+      ok: result.ok,
+      reason: result.reason,
+      action: 'start',
+      target: message.target,
+      id: message.id,
+      challenge: current ? redactChallengeForSpectators(current) : undefined
+    }));
+  };
+
+  const initialChallengeId = parsed.searchParams.get('challengeId')?.trim();
+  const initialStationId = parsed.searchParams.get('stationId')?.trim();
+  if (initialChallengeId) {
+    updateSubscription({ type: 'spectate', target: 'challenge', id: initialChallengeId.slice(0, 128) });
+  }
+  if (initialStationId) {
+    updateSubscription({ type: 'spectate', target: 'station', id: initialStationId.slice(0, 128) });
+  }
+
+  ws.on('message', (raw: RawData) => {
+    const payload = parseClientMessage(raw);
+    if (payload?.type === 'spectate' || payload?.type === 'spectate_stop') {
+      updateSubscription(payload);
+    }
+  });
+
+  ws.on('close', () => {
+    spectatorHub.remove(spectatorId);
+  });
+}
+
 setInterval(() => {
-  const snapshot = worldSim.step(1 / 20);
   const now = Date.now();
-  stationRouter.clearExpired(now);
+  for (const router of stationRouters.values()) {
+    router.clearExpired(now);
+  }
   for (const [dealerPlayerId, round] of pendingDealerRounds) {
     if (now - round.createdAt > 60_000) {
       pendingDealerRounds.delete(dealerPlayerId);
@@ -1411,16 +2025,55 @@ setInterval(() => {
     void presenceStore.list().then((entries) => {
       cachedPresence = entries;
       presenceByPlayerId.clear();
+      const seenRemote = new Set<string>();
       for (const entry of entries) {
         presenceByPlayerId.set(entry.playerId, entry);
+        if (entry.serverId !== serverInstanceId && !sockets.has(entry.playerId)) {
+          seenRemote.add(entry.playerId);
+          anomalyDetector.recordPresence(entry.playerId, entry);
+        }
+      }
+      for (const playerId of remotePresenceIds) {
+        if (!seenRemote.has(playerId) && !sockets.has(playerId)) {
+          anomalyDetector.forget(playerId);
+        }
+      }
+      remotePresenceIds.clear();
+      for (const playerId of seenRemote) {
+        remotePresenceIds.add(playerId);
       }
     }).catch(() => {
       // ignore transient presence read errors
     });
   }
 
+  const syncNow = Date.now();
+  const syncPresence = syncNow - lastPresenceSyncAt >= 500;
+  if (syncPresence) {
+    lastPresenceSyncAt = syncNow;
+  }
+
+  for (const room of rooms.list()) {
+    tickRoom(room, syncPresence);
+  }
+
+  for (const event of challengeService.tick()) {
+    void dispatchChallengeEventWithEscrow(event);
+  }
+  void dispatchTournamentUpdates(tournamentService.tick()).catch((error) => {
+    log.warn({ err: error }, 'tournament tick failed');
+  });
+}, 50);
+
+/**
+ * Step one room and send its snapshot to its members. Players on other
+ * servers share the room when their presence carries the same room id.
+ */
+function tickRoom(room: Room, syncPresence: boolean): void {
+  const snapshot = room.sim.step(1 / 20);
+
   const remotePlayers = cachedPresence
-    .filter((entry) => !snapshot.players.some((local) => local.id === entry.playerId))
+    .filter((entry) => entry.roomId === room.id && !sockets.has(entry.playerId))
     .map((entry) => ({
       id: entry.playerId,
       x: entry.x,
@@ -1449,19 +2102,13 @@ setInterval(() => {
 
   emitProximityEvents(
     mergedPlayers.map((player) => ({ id: player.id, x: player.x, z: player.z })),
-    activeProximityPairs,
+    room.proximityPairs,
     proximityThreshold,
     displayNameFor,
     sendToDistributed
   );
 
-  for (const event of challengeService.tick()) {
-    void dispatchChallengeEventWithEscrow(event);
-  }
-
-  const syncNow = Date.now();
-  if (syncNow - lastPresenceSyncAt >= 500) {
-    lastPresenceSyncAt = syncNow;
+  if (syncPresence) {
     for (const player of snapshot.players) {
       const meta = metaByPlayer.get(player.id);
       if (!meta) {
@@ -1472,6 +2119,8 @@ setInterval(() => {
         role: meta.role,
         displayName: meta.displayName,
         walletId: meta.walletId,
+        roomId: room.id,
+        world: room.world.alias,
         x: player.x,
         y: player.y,
         z: player.z,
@@ -1483,19 +2132,35 @@ setInterval(() => {
     }
   }
 
-  const message = JSON.stringify({
-    type: 'snapshot',
-    tick: snapshot.tick,
-    players: mergedPlayers,
-    stations: STATIONS
-  });
-
-  for (const ws of sockets.values()) {
-    if (ws.readyState === ws.OPEN) {
-      ws.send(message);
+  const stations = stationRouters.get(room.id)?.stations ?? [];
+  const stationSignature = JSON.stringify(stations);
+  const stationsChanged = stationSignatures.get(room.id) !== stationSignature;
+  stationSignatures.set(room.id, stationSignature);
+  const stationsMessage = stationsChanged ? JSON.stringify({ type: 'stations', roomId: room.id, stations }) : null;
+
+  // Each viewer gets the players around it, delta-encoded against its last ack.
+  const grid = new InterestGrid(mergedPlayers, config.snapshotAoiCellSize, config.snapshotAoiRadiusCells);
+  for (const viewer of snapshot.players) {
+    const ws = sockets.get(viewer.id);
+    const stream = snapshotStreams.get(viewer.id);
+    if (!ws || !stream || ws.readyState !== ws.OPEN) {
+      continue;
+    }
+    if (stationsMessage) {
+      ws.send(stationsMessage);
     }
+    const lastProcessedInput = lastInputSeqs.get(viewer.id);
+    const message = {
+      type: 'snapshot' as const,
+      tick: snapshot.tick,
+      roomId: room.id,
+      ...(lastProcessedInput === undefined ? {} : { lastProcessedInput }),
+      ...stream.encode(grid.visibleFrom(viewer.x, viewer.z))
+    };
+    const encoder = binarySnapshotEncoders.get(viewer.id);
+    ws.send(encoder ? encoder.encode(message) : JSON.stringify(message));
   }
-}, 50);
+}
 
 async function handleDistributedCommand(command: ChallengeCommand): Promise<void> {
   if (command.type === 'challenge_response') {
@@ -1547,7 +2212,7 @@ async function handleAdminCommand(command: AdminCommand): Promise<void> {
   if (command.type !== 'admin_teleport') {
     return;
   }
-  worldSim.teleportPlayer(command.playerId, command.x, command.z);
+  rooms.roomOf(command.playerId)?.sim.teleportPlayer(command.playerId, command.x, command.z);
 }
 
 setInterval(() => {
@@ -1556,12 +2221,40 @@ setInterval(() => {
   });
 }, 2_000);
 
+if (config.replayJournalDir) {
+  setInterval(() => {
+    for (const journal of inputJournals.values()) {
+      void journal.flush().catch((error) => {
+        log.warn({ err: error, sessionId: journal.sessionId }, 'replay journal flush failed');
+      });
+    }
+  }, 1_000);
+}
+
 setInterval(() => {
   void expireOrphanedChallenges().catch((error) => {
     log.warn({ err: error }, 'orphan challenge sweep failed');
   });
 }, 3_000);
 
+// Stakes still locked on-chain for challenges the server lost track of; players
+// can self-refund via `/escrow/refund-claim` once the bet's deadline passes.
+setInterval(() => {
+  void findStuckEscrows(database, escrowAdapter).then((stuck) => {
+    for (const entry of stuck) {
+      log.warn({
+        challengeId: entry.challengeId,
+        challengerId: entry.challengerId,
+        opponentId: entry.opponentId,
+        refundDeadline: entry.claim.refundDeadline,
+        claimable: entry.claim.claimable
+      }, 'stuck escrow bet');
+    }
+  }).catch((error) => {
+    log.warn({ err: error }, 'stuck escrow sweep failed');
+  });
+}, 5 * 60_000);
+
 async function expireOrphanedChallenges(): Promise<void> {
   const liveServers = new Set(await presenceStore.liveServers());
   const metas = await distributedChallengeStore.listMetas();
@@ -1572,6 +2265,7 @@ async function expireOrphanedChallenges(): Promise<void> {
       meta.status === 'created'
       || meta.status === 'accepted'
       || meta.status === 'move_submitted'
+      || meta.status === 'round_resolved'
       || meta.status === 'pending'
       || meta.status === 'active';
     if (!isOpen) {
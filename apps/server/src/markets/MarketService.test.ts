@@ -1,4 +1,4 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import type { MarketActivationRecord, MarketRecord } from '../Database.js';
 import { MarketService } from './MarketService.js';
 
@@ -360,3 +360,87 @@ describe('MarketService settlement liquidity behavior', () => {
     expect(settled[0]?.payout).toBe(12);
   });
 });
+
+describe('MarketService positions', () => {
+  function positionHarness(escrowFeeBps = 0) {
+    const now = Date.now();
+    const state = buildServiceState({
+      markets: [{
+        id: 'm_1',
+        slug: 'm_1',
+        question: 'Will X happen?',
+        category: 'test',
+        closeAt: now + 60_000,
+        resolveAt: null,
+        status: 'open',
+        oracleSource: 'polymarket_gamma',
+        oracleMarketId: 'm_1',
+        outcome: null,
+        yesPrice: 0.4,
+        noPrice: 0.6
+      }],
+      activations: [{ marketId: 'm_1', active: true, maxWager: 100, houseSpreadBps: 0, updatedBy: null, updatedAt: now }]
+    });
+    const positions: Array<Record<string, unknown>> = [];
+    const db = {
+      ...state.db,
+      async listPlayerMarketPositions() {
+        return positions.map((position) => ({ ...position, status: 'open' }));
+      },
+      async createMarketPosition(params: Record<string, unknown>) {
+        positions.push(params);
+      }
+    };
+    const calls: Array<{ method: string; amount: number; opponentAmount?: number }> = [];
+    const escrow = {
+      async preflightStake(params: { amount: number; opponentAmount?: number }) {
+        calls.push({ method: 'preflight', amount: params.amount, opponentAmount: params.opponentAmount });
+        return { ok: true };
+      },
+      async lockStake(params: { amount: number; opponentAmount?: number }) {
+        calls.push({ method: 'lock', amount: params.amount, opponentAmount: params.opponentAmount });
+        return { ok: true };
+      }
+    };
+    const service = new MarketService(db as never, escrow as never, {} as never, () => 'house_wallet', undefined, escrowFeeBps);
+    return { service, positions, calls };
+  }
+
+  it('locks the stake against the house share of the odds-priced payout', async () => {
+    const { service, calls } = positionHarness();
+
+    const result = await service.openPosition({ playerId: 'p_1', walletId: 'w_1', marketId: 'm_1', side: 'yes', stake: 10 });
+
+    expect(result.ok).toBe(true);
+    expect(calls).toEqual([
+      { method: 'preflight', amount: 10, opponentAmount: 15 },
+      { method: 'lock', amount: 10, opponentAmount: 15 }
+    ]);
+  });
+
+  it('grosses the house side up by the escrow fee so the winner nets the quoted payout', async () => {
+    const { service, calls } = positionHarness(500);
+
+    const result = await service.openPosition({ playerId: 'p_1', walletId: 'w_1', marketId: 'm_1', side: 'yes', stake: 10 });
+
+    expect(result.ok).toBe(true);
+    expect(result.quote?.potentialPayout).toBe(25);
+    expect(calls[1]).toEqual({ method: 'lock', amount: 10, opponentAmount: 16.31579 });
+    // Mirror the escrow's integer math in 6-decimal units: the fee rounds down.
+    const pot = Math.round((10 + 16.31579) * 1_000_000);
+    const payout = pot - Math.floor((pot * 500) / 10_000);
+    expect(payout).toBeGreaterThanOrEqual(25 * 1_000_000);
+  });
+
+  it('rejects a quote that leaves the house nothing to stake before touching the escrow', async () => {
+    const { service, positions, calls } = positionHarness(500);
+    const quote = await service.quote({ marketId: 'm_1', side: 'yes', stake: 10 });
+    vi.spyOn(service, 'quote').mockResolvedValue({ ...quote, potentialPayout: 10 });
+
+    const result = await service.openPosition({ playerId: 'p_1', walletId: 'w_1', marketId: 'm_1', side: 'yes', stake: 10 });
+
+    expect(result).toMatchObject({ ok: false, reason: 'quote_no_house_side' });
+    expect(calls).toEqual([]);
+    expect(positions).toEqual([]);
+  });
+});
@@ -77,7 +77,8 @@ export class MarketService {
     private readonly escrowAdapter: EscrowAdapter,
     private readonly feed: PolymarketFeed,
     private readonly getHouseWalletId: () => string | null,
-    private readonly clobClient?: PolymarketClobClient
+    private readonly clobClient?: PolymarketClobClient,
+    private readonly escrowFeeBps = 0
   ) {}
 
   private normalizedPrice(price: number): number {
@@ -90,6 +91,14 @@ export class MarketService {
     return Number((safeStake / safePrice).toFixed(6));
   }
 
+  private houseStakeFor(stake: number, potentialPayout: number): number {
+    const payoutShare = 1 - Math.max(0, this.escrowFeeBps) / 10_000;
+    if (potentialPayout <= stake || payoutShare <= 0) return 0;
+    // Round the pot up to the escrow's 6-decimal units; its fee rounds down.
+    const pot = Math.ceil(Number(((potentialPayout / payoutShare) * 1_000_000).toFixed(3))) / 1_000_000;
+    return Number((pot - stake).toFixed(6));
+  }
+
   private async trackInteractionEvent(params: {
     playerId: string;
     stationId: string;
@@ -626,10 +635,22 @@ export class MarketService {
       };
     }
 
+    // The house backs the rest of the odds-priced payout, grossed up by the escrow's
+    // fee on the combined pot, so a winner is paid the quoted payout in full.
+    const houseStake = this.houseStakeFor(quote.stake, quote.potentialPayout ?? quote.stake);
+    if (houseStake <= 0) {
+      return {
+        ok: false,
+        reason: 'quote_no_house_side',
+        reasonText: 'This price pays no more than the stake. Retry shortly.',
+        quote
+      };
+    }
     const preflight = await this.escrowAdapter.preflightStake({
       challengerWalletId: params.walletId,
       opponentWalletId: houseWalletId,
-      amount: quote.stake
+      amount: quote.stake,
+      opponentAmount: houseStake
     });
     if (!preflight.ok) {
       return {
@@ -648,7 +669,8 @@ export class MarketService {
       challengeId: escrowBetId,
       challengerWalletId: params.walletId,
       opponentWalletId: houseWalletId,
-      amount: quote.stake
+      amount: quote.stake,
+      opponentAmount: houseStake
     });
     if (!locked.ok) {
       return {
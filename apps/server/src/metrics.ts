@@ -292,6 +292,11 @@ export const METRIC_NAMES = {
   // Rate limiting
   rateLimitExceeded: 'rate_limit_exceeded_total',
 
+  // Anti-cheat
+  anticheatAnomaliesTotal: 'anticheat_anomalies_total',
+  anticheatFlagsTotal: 'anticheat_flags_total',
+  anticheatKicksTotal: 'anticheat_kicks_total',
+
   // Prediction market metrics
   marketsActiveTotal: 'markets_active_total',
   marketOrdersTotal: 'market_orders_total',
@@ -271,6 +271,71 @@ export const MIGRATIONS: Migration[] = [
     down: `
       ALTER TABLE market_positions DROP COLUMN IF EXISTS clob_order_id;
     `
+  },
+  {
+    version: 9,
+    name: 'escrow_chain_index',
+    up: `
+      CREATE TABLE IF NOT EXISTS chain_indexer_cursors (
+        name TEXT PRIMARY KEY,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT,
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS chain_escrow_events (
+        chain_id INTEGER NOT NULL,
+        contract_address TEXT NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        event TEXT NOT NULL,
+        bet_id TEXT NOT NULL,
+        args_json JSONB NOT NULL,
+        PRIMARY KEY (chain_id, tx_hash, log_index)
+      );
+
+      CREATE TABLE IF NOT EXISTS chain_token_transfers (
+        chain_id INTEGER NOT NULL,
+        contract_address TEXT NOT NULL,
+        block_number BIGINT NOT NULL,
+        block_hash TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        log_index INTEGER NOT NULL,
+        from_address TEXT NOT NULL,
+        to_address TEXT NOT NULL,
+        value NUMERIC NOT NULL,
+        PRIMARY KEY (chain_id, tx_hash, log_index)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_chain_escrow_events_bet ON chain_escrow_events(chain_id, contract_address, bet_id);
+      CREATE INDEX IF NOT EXISTS idx_chain_escrow_events_block ON chain_escrow_events(chain_id, block_number);
+      CREATE INDEX IF NOT EXISTS idx_chain_token_transfers_block ON chain_token_transfers(chain_id, block_number);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_chain_token_transfers_block;
+      DROP INDEX IF EXISTS idx_chain_escrow_events_block;
+      DROP INDEX IF EXISTS idx_chain_escrow_events_bet;
+      DROP TABLE IF EXISTS chain_token_transfers;
+      DROP TABLE IF EXISTS chain_escrow_events;
+      DROP TABLE IF EXISTS chain_indexer_cursors;
+    `
+  },
+  {
+    version: 10,
+    name: 'escrow_bet_signers',
+    up: `
+      CREATE TABLE IF NOT EXISTS escrow_bet_signers (
+        challenge_id TEXT PRIMARY KEY,
+        challenger_signer TEXT,
+        opponent_signer TEXT,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS escrow_bet_signers;
+    `
   }
 ];
 
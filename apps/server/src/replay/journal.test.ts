@@ -0,0 +1,93 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { getWorldManifest } from '@arena/shared';
+import { WorldSim, type WorldSnapshot } from '../WorldSim.js';
+import { InputJournal, listJournalSessions, readJournal, replayJournal, type WorldJournalEntry } from './journal.js';
+
+function recordSession(journal: InputJournal): WorldSnapshot[] {
+  const sim = new WorldSim(journal);
+  const snapshots: WorldSnapshot[] = [];
+  sim.joinPlayer('u_alpha');
+  sim.joinPlayer('agent_1', { x: 10, z: 30 });
+  for (let tick = 0; tick < 240; tick += 1) {
+    if (tick === 5) sim.setInput('u_alpha', { moveX: 1, moveZ: 0.4 });
+    if (tick % 7 === 0) sim.setInput('agent_1', { moveX: -1, moveZ: 0 });
+    if (tick === 60) sim.joinPlayer('u_beta');
+    if (tick === 90) sim.teleportPlayer('agent_1', 0, 0);
+    if (tick === 120) sim.setInput('u_beta', { moveX: 0, moveZ: -1 });
+    if (tick === 200) sim.removePlayer('u_alpha');
+    snapshots.push(sim.step(1 / 20));
+  }
+  return snapshots;
+}
+
+describe('InputJournal', () => {
+  it('replays a recorded session to identical snapshots', () => {
+    const journal = new InputJournal('session_a', 'srv_test', 1000, null, 50);
+    const recorded = recordSession(journal);
+    const entries = journal.drain();
+
+    // Identical repeated inputs and plain steps are collapsed.
+    expect(entries.filter((entry) => entry.t === 'input' && entry.id === 'agent_1')).toHaveLength(1);
+    expect(entries.filter((entry) => entry.t === 'step').length).toBeLessThan(20);
+
+    const replayed = replayJournal(entries);
+    expect(replayed.ok).toBe(true);
+    expect(replayed.finalTick).toBe(240);
+    expect(replayed.checksumsVerified).toBe(4);
+    expect(replayed.snapshots).toEqual(recorded);
+  });
+
+  it('slices replays and flags diverging journals', () => {
+    const journal = new InputJournal('session_b', 'srv_test', 1000, null, 50);
+    recordSession(journal);
+    const entries = journal.drain();
+
+    const window = replayJournal(entries, { fromTick: 100, untilTick: 150, every: 10 });
+    expect(window.snapshots.map((snapshot) => snapshot.tick)).toEqual([100, 110, 120, 130, 140, 150]);
+
+    const tampered = entries.map((entry): WorldJournalEntry => (
+      entry.t === 'teleport' ? { ...entry, x: entry.x + 5 } : entry
+    ));
+    const result = replayJournal(tampered);
+    expect(result.ok).toBe(false);
+    expect(result.mismatches[0]?.tick).toBe(100);
+  });
+
+  it('replays on the world the session was recorded in', () => {
+    const journal = new InputJournal('session_c', 'srv_test', 1000, null, 20, 'yard');
+    const sim = new WorldSim(journal, getWorldManifest('yard')!);
+    sim.joinPlayer('u_alpha', { x: 50, z: 0 });
+    sim.setInput('u_alpha', { moveX: 1, moveZ: 0 });
+    for (let tick = 0; tick < 60; tick += 1) {
+      sim.step(1 / 20);
+    }
+    const replayed = replayJournal(journal.drain());
+    expect(replayed.ok).toBe(true);
+    expect(replayed.checksumsVerified).toBe(3);
+    expect(replayed.snapshots.at(-1)?.players[0]?.x).toBe(59.25);
+  });
+
+  it('appends the session to disk and reads it back', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'arena-replay-'));
+    try {
+      const journal = new InputJournal('srv_test_abc', 'srv_test', 1000, dir, 50);
+      const sim = new WorldSim(journal);
+      sim.joinPlayer('u_alpha');
+      sim.setInput('u_alpha', { moveX: 0, moveZ: 1 });
+      sim.step(1 / 20);
+      await journal.flush();
+      sim.step(1 / 20);
+      await journal.flush();
+
+      const entries = await readJournal(dir, 'srv_test_abc');
+      expect(entries?.[0]).toMatchObject({ t: 'session', sessionId: 'srv_test_abc' });
+      expect(replayJournal(entries ?? []).finalTick).toBe(2);
+      expect((await listJournalSessions(dir)).map((session) => session.sessionId)).toEqual(['srv_test_abc']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,315 @@
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir, readFile, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { DEFAULT_WORLD_ALIAS, getWorldManifest } from '@arena/shared';
+import { WorldSim, type InputState, type WorldSnapshot } from '../WorldSim.js';
+
+export const JOURNAL_VERSION = 1;
+
+/**
+ * Everything that can change WorldSim state, in the order it was applied.
+ * `tick` is the sim tick at the time of the call (events before the first
+ * step carry tick 0).
+ */
+export type WorldJournalEvent =
+  | { t: 'join'; tick: number; id: string; x?: number; z?: number }
+  | { t: 'leave'; tick: number; id: string }
+  | ({ t: 'input'; tick: number; id: string } & InputState)
+  | { t: 'teleport'; tick: number; id: string; x: number; z: number };
+
+export type WorldJournalEntry =
+  /** `world` is the manifest alias the session ran on (absent in older journals). */
+  | { t: 'session'; version: number; sessionId: string; serverId: string; startedAt: number; world?: string }
+  | WorldJournalEvent
+  /** `count` consecutive steps of `dt` seconds starting after `tick`. */
+  | { t: 'step'; tick: number; dt: number; count: number }
+  | { t: 'checksum'; tick: number; hash: string };
+
+export type WorldSimRecorder = {
+  record: (event: WorldJournalEvent) => void;
+  recordStep: (dtSeconds: number, snapshot: WorldSnapshot) => void;
+};
+
+export type JournalSessionSummary = {
+  sessionId: string;
+  bytes: number;
+  modifiedAt: number;
+};
+
+/**
+ * Stable digest of a snapshot; full float precision so any divergence shows.
+ */
+export function snapshotChecksum(snapshot: WorldSnapshot): string {
+  const hash = createHash('sha256');
+  hash.update(String(snapshot.tick));
+  for (const player of snapshot.players) {
+    hash.update(`|${player.id}:${player.x}:${player.z}:${player.yaw}:${player.speed}`);
+  }
+  return hash.digest('hex').slice(0, 32);
+}
+
+/**
+ * Records WorldSim inputs for one server session. Repeated identical inputs
+ * and runs of plain steps are collapsed, and a snapshot checksum is written
+ * every `checksumEveryTicks` so replays can prove they match. Entries are
+ * buffered and appended to `<dir>/<sessionId>.ndjson` on `flush()`.
+ */
+export class InputJournal implements WorldSimRecorder {
+  private readonly lastInputs = new Map<string, InputState>();
+  private buffer: WorldJournalEntry[] = [];
+  private pendingStep: { tick: number; dt: number; count: number } | null = null;
+  private flushing: Promise<void> | null = null;
+  private dirReady = false;
+
+  constructor(
+    readonly sessionId: string,
+    serverId: string,
+    startedAt: number,
+    private readonly dir: string | null,
+    private readonly checksumEveryTicks = 100,
+    world = DEFAULT_WORLD_ALIAS
+  ) {
+    this.buffer.push({ t: 'session', version: JOURNAL_VERSION, sessionId, serverId, startedAt, world });
+  }
+
+  record(event: WorldJournalEvent): void {
+    if (event.t === 'input') {
+      const last = this.lastInputs.get(event.id);
+      if (last && last.moveX === event.moveX && last.moveZ === event.moveZ) {
+        return;
+      }
+      this.lastInputs.set(event.id, { moveX: event.moveX, moveZ: event.moveZ });
+    } else if (event.t === 'join') {
+      this.lastInputs.set(event.id, { moveX: 0, moveZ: 0 });
+    } else if (event.t === 'leave') {
+      this.lastInputs.delete(event.id);
+    }
+    this.closeStepRun();
+    this.buffer.push(event);
+  }
+
+  recordStep(dtSeconds: number, snapshot: WorldSnapshot): void {
+    if (this.pendingStep && this.pendingStep.dt === dtSeconds) {
+      this.pendingStep.count += 1;
+    } else {
+      this.closeStepRun();
+      this.pendingStep = { tick: snapshot.tick - 1, dt: dtSeconds, count: 1 };
+    }
+    if (this.checksumEveryTicks > 0 && snapshot.tick % this.checksumEveryTicks === 0) {
+      this.closeStepRun();
+      this.buffer.push({ t: 'checksum', tick: snapshot.tick, hash: snapshotChecksum(snapshot) });
+    }
+  }
+
+  /**
+   * Entries recorded so far that have not been flushed, including any open run of steps.
+   */
+  drain(): WorldJournalEntry[] {
+    this.closeStepRun();
+    const entries = this.buffer;
+    this.buffer = [];
+    return entries;
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dir) {
+      this.drain();
+      return;
+    }
+    if (this.flushing) {
+      return this.flushing;
+    }
+    const entries = this.drain();
+    if (entries.length === 0) {
+      return;
+    }
+    const dir = this.dir;
+    this.flushing = (async () => {
+      if (!this.dirReady) {
+        await mkdir(dir, { recursive: true });
+        this.dirReady = true;
+      }
+      await appendFile(journalPath(dir, this.sessionId), entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n');
+    })().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private closeStepRun(): void {
+    if (this.pendingStep) {
+      this.buffer.push({ t: 'step', ...this.pendingStep });
+      this.pendingStep = null;
+    }
+  }
+}
+
+export function journalPath(dir: string, sessionId: string): string {
+  return path.join(dir, `${sessionId.replace(/[^a-zA-Z0-9_-]/g, '_')}.ndjson`);
+}
+
+export function parseJournal(raw: string): WorldJournalEntry[] {
+  const entries: WorldJournalEntry[] = [];
+  for (const line of raw.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(trimmed) as WorldJournalEntry;
+      if (entry && typeof entry.t === 'string') {
+        entries.push(entry);
+      }
+    } catch {
+      // a torn final line from a crash is expected; skip it
+    }
+  }
+  return entries;
+}
+
+export async function readJournal(dir: string, sessionId: string): Promise<WorldJournalEntry[] | null> {
+  try {
+    return parseJournal(await readFile(journalPath(dir, sessionId), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+export async function listJournalSessions(dir: string): Promise<JournalSessionSummary[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+  const sessions: JournalSessionSummary[] = [];
+  for (const name of names) {
+    if (!name.endsWith('.ndjson')) {
+      continue;
+    }
+    const info = await stat(path.join(dir, name)).catch(() => null);
+    if (info) {
+      sessions.push({ sessionId: name.slice(0, -'.ndjson'.length), bytes: info.size, modifiedAt: info.mtimeMs });
+    }
+  }
+  return sessions.sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+export type ReplayOptions = {
+  /** Stop once this tick has been simulated. */
+  untilTick?: number;
+  /** Keep snapshots from this tick on. */
+  fromTick?: number;
+  /** Keep every nth snapshot (1 keeps all); checksummed ticks are always verified. */
+  every?: number;
+  /** Cap on kept snapshots. */
+  maxSnapshots?: number;
+};
+
+export type ReplayResult = {
+  ok: boolean;
+  finalTick: number;
+  checksumsVerified: number;
+  mismatches: Array<{ tick: number; expected: string; actual: string }>;
+  snapshots: WorldSnapshot[];
+};
+
+/**
+ * Re-run a journal through a fresh WorldSim on the session's world. Because the sim is deterministic
+ * in its call sequence, every recorded checksum must match.
+ */
+export function replayJournal(entries: WorldJournalEntry[], options: ReplayOptions = {}): ReplayResult {
+  const run = replaySteps(entries, options);
+  let next = run.next();
+  while (!next.done) {
+    next = run.next();
+  }
+  return next.value;
+}
+
+/**
+ * `replayJournal` for a live server: gives the event loop a turn every `yieldEveryTicks` simulated
+ * ticks, so replaying a long session does not stall the tick loop or its sockets.
+ */
+export async function replayJournalAsync(
+  entries: WorldJournalEntry[],
+  options: ReplayOptions & { yieldEveryTicks?: number } = {}
+): Promise<ReplayResult> {
+  const yieldEvery = Math.max(1, Math.floor(options.yieldEveryTicks ?? 100));
+  const run = replaySteps(entries, options);
+  let next = run.next();
+  let sinceYield = 0;
+  while (!next.done) {
+    sinceYield += 1;
+    if (sinceYield >= yieldEvery) {
+      sinceYield = 0;
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+    next = run.next();
+  }
+  return next.value;
+}
+
+/** Yields the tick after each simulated step and returns the finished replay. */
+function* replaySteps(entries: WorldJournalEntry[], options: ReplayOptions): Generator<number, ReplayResult> {
+  const session = entries.find((entry) => entry.t === 'session');
+  const world = getWorldManifest(session?.t === 'session' ? session.world ?? DEFAULT_WORLD_ALIAS : DEFAULT_WORLD_ALIAS);
+  const sim = new WorldSim(undefined, world ?? undefined);
+  const untilTick = options.untilTick ?? Number.POSITIVE_INFINITY;
+  const fromTick = options.fromTick ?? 0;
+  const every = Math.max(1, Math.floor(options.every ?? 1));
+  const maxSnapshots = options.maxSnapshots ?? 2_000;
+  const snapshots: WorldSnapshot[] = [];
+  const checksums = new Map<number, string>();
+  const mismatches: ReplayResult['mismatches'] = [];
+  let checksumsVerified = 0;
+  let tick = 0;
+
+  for (const entry of entries) {
+    if (entry.t === 'checksum') {
+      checksums.set(entry.tick, entry.hash);
+    }
+  }
+
+  outer: for (const entry of entries) {
+    switch (entry.t) {
+      case 'join':
+        sim.joinPlayer(entry.id, entry.x !== undefined && entry.z !== undefined ? { x: entry.x, z: entry.z } : undefined);
+        break;
+      case 'leave':
+        sim.removePlayer(entry.id);
+        break;
+      case 'input':
+        sim.setInput(entry.id, { moveX: entry.moveX, moveZ: entry.moveZ });
+        break;
+      case 'teleport':
+        sim.teleportPlayer(entry.id, entry.x, entry.z);
+        break;
+      case 'step':
+        for (let i = 0; i < entry.count; i += 1) {
+          if (tick >= untilTick) {
+            break outer;
+          }
+          const snapshot = sim.step(entry.dt);
+          tick = snapshot.tick;
+          const expected = checksums.get(tick);
+          if (expected) {
+            const actual = snapshotChecksum(snapshot);
+            checksumsVerified += 1;
+            if (actual !== expected) {
+              mismatches.push({ tick, expected, actual });
+            }
+          }
+          if (tick >= fromTick && (tick - fromTick) % every === 0 && snapshots.length < maxSnapshots) {
+            snapshots.push(snapshot);
+          }
+          yield tick;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  return { ok: mismatches.length === 0, finalTick: tick, checksumsVerified, mismatches, snapshots };
+}
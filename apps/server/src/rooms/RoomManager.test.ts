@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getWorldManifest } from '@arena/shared';
+import { WorldSim } from '../WorldSim.js';
+import { RoomManager, type Room } from './RoomManager.js';
+
+function setup(capacity = 2) {
+  const closed: string[] = [];
+  const rooms = new RoomManager({
+    defaultWorld: getWorldManifest('mega')!,
+    capacity,
+    createSim: (world) => new WorldSim(undefined, world),
+    now: () => 1000,
+    onRoomClosed: (room: Room) => closed.push(room.id)
+  });
+  const join = (playerId: string, request = {}) => {
+    const result = rooms.join(playerId, request);
+    if (result.ok) {
+      result.room.sim.joinPlayer(playerId);
+    }
+    return result;
+  };
+  return { rooms, closed, join };
+}
+
+describe('RoomManager', () => {
+  it('shards overflow into new instances and closes them when empty', () => {
+    const { rooms, closed, join } = setup(2);
+    join('a');
+    join('b');
+    const overflow = join('c');
+    expect(overflow.ok && overflow.room.id).toBe('mega-2');
+    expect(rooms.summaries().map((room) => [room.id, room.playerCount])).toEqual([['mega-1', 2], ['mega-2', 1]]);
+
+    // A freed slot in the first instance is filled before the overflow one.
+    rooms.leave('a');
+    expect(join('d').ok && rooms.roomOf('d')?.id).toBe('mega-1');
+
+    rooms.leave('c');
+    expect(closed).toEqual(['mega-2']);
+    expect(rooms.get('mega-2')).toBeNull();
+    rooms.leave('b');
+    rooms.leave('d');
+    expect(rooms.get('mega-1')).not.toBeNull();
+  });
+
+  it('moves players between worlds and named rooms', () => {
+    const { rooms, join } = setup(2);
+    join('a');
+    const moved = join('a', { world: 'rail-yard' });
+    expect(moved.ok && [moved.room.id, moved.previous?.id, moved.changed]).toEqual(['yard-1', 'mega-1', true]);
+    expect(rooms.defaultRoom.sim.step(0.05).players).toEqual([]);
+    expect(rooms.roomOf('a')?.sim.step(0.05).players.map((player) => player.id)).toEqual(['a']);
+
+    const named = join('b', { roomId: 'private_table' });
+    expect(named.ok && [named.room.id, named.room.auto, named.room.world.alias]).toEqual(['private_table', false, 'mega']);
+    join('c', { roomId: 'private_table' });
+    expect(join('d', { roomId: 'private_table' })).toEqual({ ok: false, reason: 'room_full' });
+    expect(join('d', { roomId: 'private_table', world: 'yard' })).toEqual({ ok: false, reason: 'room_world_mismatch' });
+    expect(join('d', { world: 'atlantis' })).toEqual({ ok: false, reason: 'unknown_world' });
+    expect(join('d', { roomId: 'no spaces' })).toEqual({ ok: false, reason: 'invalid_room_id' });
+    expect(rooms.roomOf('d')).toBeNull();
+  });
+});
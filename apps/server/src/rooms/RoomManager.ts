@@ -0,0 +1,195 @@
+import { getWorldManifest, type RoomSummary, type WorldManifest } from '@arena/shared';
+import type { WorldSim } from '../WorldSim.js';
+
+export type { RoomSummary };
+
+/**
+ * One world instance: its own simulation, membership and proximity pairs.
+ */
+export type Room = {
+  id: string;
+  world: WorldManifest;
+  sim: WorldSim;
+  players: Set<string>;
+  /** Pair keys (see `makePairKey`) of players currently within proximity range. */
+  proximityPairs: Set<string>;
+  /** Auto instances are created by overflow sharding; named rooms are created on request. */
+  auto: boolean;
+  createdAt: number;
+};
+
+export type RoomJoinRequest = {
+  world?: string | null;
+  roomId?: string | null;
+};
+
+export type RoomJoinResult =
+  | { ok: true; room: Room; previous: Room | null; changed: boolean }
+  | { ok: false; reason: 'unknown_world' | 'invalid_room_id' | 'room_full' | 'room_world_mismatch' };
+
+export type RoomManagerOptions = {
+  defaultWorld: WorldManifest;
+  /** Players per instance on this server. */
+  capacity: number;
+  createSim: (world: WorldManifest, roomId: string) => WorldSim;
+  now?: () => number;
+  onRoomCreated?: (room: Room) => void;
+  onRoomClosed?: (room: Room) => void;
+};
+
+const ROOM_ID_PATTERN = /^[a-zA-Z0-9_-]{1,48}$/;
+
+/**
+ * Tracks the world instances hosted by this server. Players without an
+ * explicit room fill the first instance of their world with free capacity and
+ * overflow into `<world>-2`, `<world>-3`, ...; empty instances are closed,
+ * except the default world's first instance.
+ */
+export class RoomManager {
+  private readonly rooms = new Map<string, Room>();
+  private readonly roomByPlayer = new Map<string, string>();
+  private readonly now: () => number;
+  readonly defaultRoomId: string;
+
+  constructor(private readonly options: RoomManagerOptions) {
+    this.now = options.now ?? (() => Date.now());
+    this.defaultRoomId = `${options.defaultWorld.alias}-1`;
+    this.createRoom(options.defaultWorld, this.defaultRoomId, true);
+  }
+
+  get capacity(): number {
+    return this.options.capacity;
+  }
+
+  get defaultRoom(): Room {
+    return this.rooms.get(this.defaultRoomId)!;
+  }
+
+  get(roomId: string): Room | null {
+    return this.rooms.get(roomId) ?? null;
+  }
+
+  roomOf(playerId: string): Room | null {
+    const roomId = this.roomByPlayer.get(playerId);
+    return roomId ? this.rooms.get(roomId) ?? null : null;
+  }
+
+  list(): Room[] {
+    return [...this.rooms.values()];
+  }
+
+  summaries(): RoomSummary[] {
+    return this.list().map((room) => this.summarize(room));
+  }
+
+  summarize(room: Room): RoomSummary {
+    return {
+      id: room.id,
+      world: room.world.alias,
+      playerCount: room.players.size,
+      capacity: this.options.capacity,
+      auto: room.auto,
+      createdAt: room.createdAt
+    };
+  }
+
+  /**
+   * Move a player into a room, leaving their current one. The caller spawns
+   * them into `room.sim`; the previous room's sim has already dropped them.
+   */
+  join(playerId: string, request: RoomJoinRequest = {}): RoomJoinResult {
+    const requestedWorld = request.world?.trim()
+      ? getWorldManifest(request.world.trim())
+      : null;
+    if (request.world?.trim() && !requestedWorld) {
+      return { ok: false, reason: 'unknown_world' };
+    }
+    const roomId = request.roomId?.trim() || null;
+    if (roomId && !ROOM_ID_PATTERN.test(roomId)) {
+      return { ok: false, reason: 'invalid_room_id' };
+    }
+
+    const current = this.roomOf(playerId);
+    let target: Room | null;
+    if (roomId) {
+      target = this.rooms.get(roomId) ?? null;
+      if (target && requestedWorld && target.world.alias !== requestedWorld.alias) {
+        return { ok: false, reason: 'room_world_mismatch' };
+      }
+    } else {
+      const world = requestedWorld ?? current?.world ?? this.options.defaultWorld;
+      target = current?.world.alias === world.alias ? current : this.firstOpenInstance(world);
+    }
+
+    if (target && target === current) {
+      return { ok: true, room: target, previous: current, changed: false };
+    }
+    if (target && target.players.size >= this.options.capacity) {
+      return { ok: false, reason: 'room_full' };
+    }
+    if (!target) {
+      const world = requestedWorld ?? this.options.defaultWorld;
+      target = this.createRoom(world, roomId ?? this.nextInstanceId(world), !roomId);
+    }
+
+    if (current) {
+      this.removeFrom(current, playerId);
+    }
+    target.players.add(playerId);
+    this.roomByPlayer.set(playerId, target.id);
+    return { ok: true, room: target, previous: current, changed: true };
+  }
+
+  leave(playerId: string): Room | null {
+    const room = this.roomOf(playerId);
+    if (room) {
+      this.removeFrom(room, playerId);
+    }
+    return room;
+  }
+
+  private firstOpenInstance(world: WorldManifest): Room | null {
+    for (const room of this.rooms.values()) {
+      if (room.auto && room.world.alias === world.alias && room.players.size < this.options.capacity) {
+        return room;
+      }
+    }
+    return null;
+  }
+
+  private nextInstanceId(world: WorldManifest): string {
+    for (let index = 1; ; index += 1) {
+      const id = `${world.alias}-${index}`;
+      if (!this.rooms.has(id)) {
+        return id;
+      }
+    }
+  }
+
+  private createRoom(world: WorldManifest, id: string, auto: boolean): Room {
+    const room: Room = {
+      id,
+      world,
+      sim: this.options.createSim(world, id),
+      players: new Set(),
+      proximityPairs: new Set(),
+      auto,
+      createdAt: this.now()
+    };
+    this.rooms.set(id, room);
+    this.options.onRoomCreated?.(room);
+    return room;
+  }
+
+  private removeFrom(room: Room, playerId: string): void {
+    room.players.delete(playerId);
+    room.sim.removePlayer(playerId);
+    if (this.roomByPlayer.get(playerId) === room.id) {
+      this.roomByPlayer.delete(playerId);
+    }
+    if (room.players.size === 0 && room.id !== this.defaultRoomId) {
+      this.rooms.delete(room.id);
+      this.options.onRoomClosed?.(room);
+    }
+  }
+}
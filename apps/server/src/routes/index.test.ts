@@ -1,5 +1,15 @@
+import { mkdtemp, rm } from 'node:fs/promises';
 import { createServer } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import { describe, expect, it } from 'vitest';
+import { getWorldManifest, sha256Hex } from '@arena/shared';
+import { ChallengeService } from '../ChallengeService.js';
+import { TournamentService } from '../tournaments/TournamentService.js';
+import { HouseSeedChains } from '../game/stations/seedChain.js';
+import { InputJournal } from '../replay/journal.js';
+import { WorldSim } from '../WorldSim.js';
+import { SideBetService } from '../sidebets/SideBetService.js';
 import { createRouter, type RouteContext } from './index.js';
 
 function makeRouteContext(internalToken: string): RouteContext {
@@ -7,7 +17,10 @@ function makeRouteContext(internalToken: string): RouteContext {
     serverInstanceId: 'srv_test',
     presenceStore: {
       get: async () => null,
-      list: async () => []
+      list: async () => [
+        { playerId: 'u_a', roomId: 'yard-1', world: 'yard' },
+        { playerId: 'u_b', roomId: 'yard-2', world: 'yard' }
+      ]
     } as unknown as RouteContext['presenceStore'],
     distributedChallengeStore: {
       recentHistory: async () => []
@@ -25,7 +38,17 @@ function makeRouteContext(internalToken: string): RouteContext {
     internalToken,
     publishAdminCommand: async () => undefined,
     teleportLocal: () => false,
-    marketService: null
+    marketService: null,
+    tournamentService: new TournamentService(new ChallengeService(() => 1000, () => 0.5), () => 1000, () => 0.5),
+    dispatchTournamentUpdates: async () => undefined,
+    seedChains: new HouseSeedChains(() => 'root_seed', () => 1000, 8),
+    sideBetService: new SideBetService({} as never, () => 1000, 500, 100),
+    world: getWorldManifest('yard')!,
+    listRooms: () => [
+      { id: 'yard-1', world: 'yard', playerCount: 1, capacity: 2, auto: true, createdAt: 1000 },
+      { id: 'yard-2', world: 'yard', playerCount: 1, capacity: 2, auto: true, createdAt: 1000 }
+    ],
+    listAnticheatFlags: () => [{ subjectId: 'u_cheater', score: 7 }]
   };
 }
 
@@ -69,3 +92,255 @@ describe('internal route authorization', () => {
     });
   });
 });
+
+describe('tournament routes', () => {
+  it('requires the internal token to create tournaments', async () => {
+    await withServer(makeRouteContext('test_internal_token'), async (baseUrl) => {
+      const response = await fetch(`${baseUrl}/tournaments`, {
+        method: 'POST',
+        body: JSON.stringify({ format: 'round_robin', gameType: 'rps' })
+      });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  it('creates, starts and exposes bracket state', async () => {
+    await withServer(makeRouteContext('test_internal_token'), async (baseUrl) => {
+      const headers = { 'x-internal-token': 'test_internal_token' };
+      const created = await fetch(`${baseUrl}/tournaments`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: 'Community night', format: 'single_elimination', gameType: 'rps', entrants: ['a', 'b'] })
+      });
+      expect(created.status).toBe(200);
+      const { tournament } = await created.json();
+      expect(tournament.name).toBe('Community night');
+
+      const started = await fetch(`${baseUrl}/tournaments/start`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ tournamentId: tournament.id })
+      });
+      expect(started.status).toBe(200);
+
+      const fetched = await fetch(`${baseUrl}/tournaments?id=${tournament.id}`);
+      const payload = await fetched.json();
+      expect(payload.ok).toBe(true);
+      expect(payload.tournament.status).toBe('active');
+      expect(payload.tournament.matches[0].status).toBe('live');
+
+      const missing = await fetch(`${baseUrl}/tournaments?id=t_missing`);
+      expect(missing.status).toBe(404);
+    });
+  });
+});
+
+describe('fairness routes', () => {
+  const houseSeed = 'house_seed';
+  const receipt = {
+    commitHash: sha256Hex(houseSeed),
+    playerSeed: 'player_seed',
+    revealSeed: houseSeed,
+    method: 'test'
+  };
+
+  it('recomputes a posted receipt and flags a bad commit', async () => {
+    await withServer(makeRouteContext(''), async (baseUrl) => {
+      const verify = (body: object) => fetch(`${baseUrl}/fairness/verify`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body)
+      }).then((response) => response.json());
+
+      const honest = await verify({ challengeId: 'c_1', gameType: 'dice_duel', receipt, playerMove: 'd3' });
+      expect(honest.ok).toBe(true);
+      expect([1, 2, 3, 4, 5, 6]).toContain(honest.expected.diceResult);
+
+      const tampered = await verify({
+        challengeId: 'c_1',
+        gameType: 'dice_duel',
+        receipt: { ...receipt, commitHash: sha256Hex('other') },
+        playerMove: 'd3'
+      });
+      expect(tampered).toMatchObject({ ok: false, reason: 'commit_mismatch' });
+
+      const unbounded = await fetch(`${baseUrl}/fairness/verify`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          challengeId: 'c_1',
+          gameType: 'dice_duel',
+          receipt: { ...receipt, chain: { stationId: 's', epoch: 1, index: 1e15, head: 'ff' } },
+          playerMove: 'd3'
+        })
+      });
+      expect(unbounded.status).toBe(400);
+      expect(await unbounded.json()).toMatchObject({ ok: false, reason: 'invalid_receipt' });
+
+      const pastChainEnd = await fetch(`${baseUrl}/fairness/verify`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          challengeId: 'c_1',
+          gameType: 'dice_duel',
+          receipt: { ...receipt, chain: { stationId: 's', epoch: 1, index: 9, head: sha256Hex('head') } },
+          playerMove: 'd3'
+        })
+      });
+      expect(pastChainEnd.status).toBe(400);
+    });
+  });
+
+  it('exports receipt history as CSV behind the internal token', async () => {
+    const ctx = makeRouteContext('test_internal_token');
+    const challenge = {
+      id: 'c_1',
+      challengerId: 'p1',
+      opponentId: 'system_house',
+      status: 'resolved',
+      gameType: 'coinflip',
+      wager: 2,
+      createdAt: 1,
+      expiresAt: 2,
+      acceptedAt: 1,
+      resolvedAt: 2,
+      winnerId: null,
+      challengerMove: 'heads',
+      opponentMove: 'tails',
+      coinflipResult: 'heads',
+      provablyFair: receipt
+    };
+    ctx.database = { getFairnessChallengesForPlayer: async () => [challenge] } as unknown as RouteContext['database'];
+
+    await withServer(ctx, async (baseUrl) => {
+      const unauthorized = await fetch(`${baseUrl}/fairness/receipts?playerId=p1`);
+      expect(unauthorized.status).toBe(401);
+
+      const response = await fetch(`${baseUrl}/fairness/receipts?playerId=p1&format=csv`, {
+        headers: { 'x-internal-token': 'test_internal_token' }
+      });
+      expect(response.headers.get('content-type')).toContain('text/csv');
+      const lines = (await response.text()).trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(lines[1]?.startsWith('c_1,coinflip,2')).toBe(true);
+    });
+  });
+});
+
+describe('seed chain routes', () => {
+  it('publishes station chain heads and revealed seeds', async () => {
+    const ctx = makeRouteContext('');
+    const draw = ctx.seedChains.draw('station_dealer_coinflip')!;
+    ctx.seedChains.recordReveal(draw, 'c_1');
+
+    await withServer(ctx, async (baseUrl) => {
+      const list = await fetch(`${baseUrl}/fairness/chains`).then((response) => response.json());
+      expect(list.chains).toHaveLength(1);
+      expect(list.chains[0].head).toBe(draw.head);
+
+      const detail = await fetch(`${baseUrl}/fairness/chains?stationId=station_dealer_coinflip`)
+        .then((response) => response.json());
+      expect(detail.reveals).toEqual([expect.objectContaining({ index: 1, seed: draw.houseSeed, challengeId: 'c_1' })]);
+    });
+  });
+});
+
+describe('replay routes', () => {
+  it('replays a long session in capped pages', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'arena-replay-route-'));
+    try {
+      const journal = new InputJournal('srv_test_long', 'srv_test', 1000, dir, 500);
+      const sim = new WorldSim(journal);
+      sim.joinPlayer('u_alpha');
+      sim.setInput('u_alpha', { moveX: 1, moveZ: 0 });
+      for (let tick = 0; tick < 3_000; tick += 1) {
+        sim.step(1 / 20);
+      }
+      await journal.flush();
+
+      await withServer({ ...makeRouteContext('token'), replayJournalDir: dir }, async (baseUrl) => {
+        const page = (fromTick: number) => fetch(
+          `${baseUrl}/replays/session?sessionId=srv_test_long&fromTick=${fromTick}&every=600`,
+          { headers: { 'x-internal-token': 'token' } }
+        ).then((response) => response.json());
+
+        const first = await page(0);
+        expect(first.finalTick).toBe(2_399);
+        expect(first.snapshots.map((snapshot: { tick: number }) => snapshot.tick)).toEqual([600, 1_200, 1_800]);
+        expect(first.nextFromTick).toBe(2_400);
+
+        const second = await page(first.nextFromTick);
+        expect(second.ok).toBe(true);
+        expect(second.finalTick).toBe(3_000);
+        expect(second.snapshots.map((snapshot: { tick: number }) => snapshot.tick)).toEqual([2_400, 3_000]);
+        expect(second.nextFromTick).toBeNull();
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('world route', () => {
+  it('serves the manifest of the simulated world', async () => {
+    await withServer(makeRouteContext(''), async (baseUrl) => {
+      const payload = await fetch(`${baseUrl}/world`).then((response) => response.json());
+      expect(payload.ok).toBe(true);
+      expect(payload.world.alias).toBe('yard');
+      expect(payload.world.bounds).toEqual({ minX: -60, maxX: 60, minZ: -60, maxZ: 60 });
+    });
+  });
+});
+
+describe('room routes', () => {
+  it('lists hosted rooms and filters presence by room', async () => {
+    await withServer(makeRouteContext(''), async (baseUrl) => {
+      const rooms = await fetch(`${baseUrl}/rooms`).then((response) => response.json());
+      expect(rooms.rooms.map((room: { id: string }) => room.id)).toEqual(['yard-1', 'yard-2']);
+
+      const presence = await fetch(`${baseUrl}/presence?roomId=yard-2`).then((response) => response.json());
+      expect(presence.roomId).toBe('yard-2');
+      expect(presence.players.map((entry: { playerId: string }) => entry.playerId)).toEqual(['u_b']);
+    });
+  });
+});
+
+describe('anticheat routes', () => {
+  it('lists flagged players for internal callers only', async () => {
+    await withServer(makeRouteContext('test_internal_token'), async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/anticheat/flags`)).status).toBe(401);
+      const flags = await fetch(`${baseUrl}/anticheat/flags`, {
+        headers: { 'x-internal-token': 'test_internal_token' }
+      }).then((response) => response.json());
+      expect(flags.flagged).toEqual([{ subjectId: 'u_cheater', score: 7 }]);
+    });
+  });
+});
+
+describe('escrow refund routes', () => {
+  it('reports self-service refund claims and gates the stuck list', async () => {
+    const claim = { escrowAddress: '0xescrow', betId: '0xbet', status: 'locked' as const, refundDeadline: 5_000, claimable: true };
+    const ctx: RouteContext = {
+      ...makeRouteContext('test_internal_token'),
+      database: {
+        findStuckChallenges: async () => [
+          { id: 'c_stuck', challengerId: 'u_a', opponentId: 'u_b', status: 'accepted', challengeJson: null }
+        ]
+      } as unknown as RouteContext['database'],
+      escrowAdapter: { refundClaim: async (challengeId: string) => (challengeId === 'c_stuck' ? claim : null) }
+    };
+    await withServer(ctx, async (baseUrl) => {
+      const found = await fetch(`${baseUrl}/escrow/refund-claim?challengeId=c_stuck`).then((response) => response.json());
+      expect(found).toEqual({ ok: true, challengeId: 'c_stuck', claim });
+      expect((await fetch(`${baseUrl}/escrow/refund-claim?challengeId=c_other`)).status).toBe(404);
+
+      expect((await fetch(`${baseUrl}/escrow/stuck`)).status).toBe(401);
+      const stuck = await fetch(`${baseUrl}/escrow/stuck`, {
+        headers: { 'x-internal-token': 'test_internal_token' }
+      }).then((response) => response.json());
+      expect(stuck.stuck).toEqual([
+        { challengeId: 'c_stuck', challengerId: 'u_a', opponentId: 'u_b', challengeStatus: 'accepted', claim }
+      ]);
+    });
+  });
+});
@@ -7,10 +7,25 @@ import type { PresenceStore } from '../PresenceStore.js';
 import type { DistributedChallengeStore } from '../DistributedChallengeStore.js';
 import type { ChallengeService } from '../ChallengeService.js';
 import type { Database } from '../Database.js';
-import { WORLD_SECTION_SPAWNS } from '../WorldSim.js';
 import type { AdminCommand } from '../DistributedBus.js';
 import { handleMetricsEndpoint, handleMetricsJsonEndpoint } from '../metrics.js';
 import type { MarketService } from '../markets/MarketService.js';
+import type { TournamentFormat, TournamentService, TournamentUpdate } from '../tournaments/TournamentService.js';
+import type { HouseSeedChains } from '../game/stations/seedChain.js';
+import type { SideBetService } from '../sidebets/SideBetService.js';
+import type { EscrowAdapter } from '../EscrowAdapter.js';
+import { findStuckEscrows } from '../escrow/stuckEscrows.js';
+import { listJournalSessions, readJournal, replayJournalAsync } from '../replay/journal.js';
+import type { Challenge, FairnessReceiptInput, GameType, RoomSummary, TournamentEvent, WorldManifest } from '@arena/shared';
+import {
+  fairnessInputFromChallenge,
+  fairnessReceiptsFromChallenges,
+  fairnessReceiptsToCsv,
+  isGameMove,
+  isGameType,
+  isSeedChainPointer,
+  verifyReceipt
+} from '@arena/shared';
 
 export type RouteContext = {
   serverInstanceId: string;
@@ -22,6 +37,19 @@ export type RouteContext = {
   publishAdminCommand: (serverId: string, command: AdminCommand) => Promise<void>;
   teleportLocal: (playerId: string, x: number, z: number) => boolean;
   marketService?: MarketService | null;
+  /** On-chain bet lookups for stuck-challenge refunds; null without escrow config. */
+  escrowAdapter?: Pick<EscrowAdapter, 'refundClaim'> | null;
+  tournamentService: TournamentService;
+  dispatchTournamentUpdates: (updates: TournamentUpdate[]) => Promise<void>;
+  seedChains: HouseSeedChains;
+  sideBetService: SideBetService;
+  replayJournalDir?: string | null;
+  replaySessionId?: string | null;
+  world: WorldManifest;
+  /** World instances hosted by this server. */
+  listRooms: () => RoomSummary[];
+  /** Players and connections currently flagged by the anti-cheat detector. */
+  listAnticheatFlags: () => Array<{ subjectId: string; score: number }>;
 };
 
 /**
@@ -116,9 +144,11 @@ export async function handlePresence(
     return;
   }
   
+  const roomId = parsed.searchParams.get('roomId')?.trim();
   try {
     const entries = await ctx.presenceStore.list();
-    res.end(JSON.stringify({ ok: true, serverId: ctx.serverInstanceId, players: entries }));
+    const players = roomId ? entries.filter((entry) => entry.roomId === roomId) : entries;
+    res.end(JSON.stringify({ ok: true, serverId: ctx.serverInstanceId, roomId: roomId || null, players }));
   } catch {
     res.statusCode = 500;
     res.end(JSON.stringify({ ok: false, reason: 'presence_list_failed' }));
@@ -149,6 +179,254 @@ export async function handleChallengesRecent(
   }
 }
 
+/**
+ * Verify a provably fair house round. GET looks the round up by `challengeId`;
+ * POST recomputes a receipt supplied by the caller without touching server state.
+ */
+export async function handleFairnessVerify(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: RouteContext,
+  parsed: URL
+): Promise<void> {
+  res.setHeader('content-type', 'application/json');
+
+  if (req.method === 'POST') {
+    const body = await readJsonBody<Partial<FairnessReceiptInput>>(req);
+    const receipt = body?.receipt;
+    if (
+      !body
+      || typeof body.challengeId !== 'string'
+      || !isGameType(body.gameType)
+      || typeof receipt?.commitHash !== 'string'
+      || typeof receipt.playerSeed !== 'string'
+      || (body.playerMove != null && !isGameMove(body.playerMove))
+      || (receipt.chain != null && !isSeedChainPointer(receipt.chain, ctx.seedChains.maxChainLength))
+    ) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ ok: false, reason: 'invalid_receipt' }));
+      return;
+    }
+    const verification = verifyReceipt({
+      ...body,
+      challengeId: body.challengeId,
+      gameType: body.gameType,
+      receipt,
+      playerMove: body.playerMove ?? null
+    }, { maxChainLength: ctx.seedChains.maxChainLength });
+    res.end(JSON.stringify({ ...verification, challengeId: body.challengeId }));
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.statusCode = 405;
+    res.end(JSON.stringify({ ok: false, reason: 'method_not_allowed' }));
+    return;
+  }
+
+  const challengeId = parsed.searchParams.get('challengeId')?.trim();
+  if (!challengeId) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ ok: false, reason: 'challenge_id_required' }));
+    return;
+  }
+  const challenge = ctx.challengeService.getChallenge(challengeId)
+    ?? await ctx.database.getChallengeJsonById(challengeId);
+  const input = challenge ? fairnessInputFromChallenge(challenge) : null;
+  if (!challenge || !input) {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'receipt_not_found' }));
+    return;
+  }
+  const verification = verifyReceipt(input, { maxChainLength: ctx.seedChains.maxChainLength });
+  res.end(JSON.stringify({ ...verification, challengeId, receipt: input.receipt }));
+}
+
+/**
+ * Publish house seed chains: every station's current head, or one station's
+ * chain with its revealed seeds (newest first).
+ */
+export function handleFairnessChains(res: ServerResponse, ctx: RouteContext, parsed: URL): void {
+  res.setHeader('content-type', 'application/json');
+  const stationId = parsed.searchParams.get('stationId')?.trim();
+  if (!stationId) {
+    res.end(JSON.stringify({ ok: true, chains: ctx.seedChains.list() }));
+    return;
+  }
+  const chain = ctx.seedChains.summary(stationId);
+  if (!chain) {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'seed_chain_not_found' }));
+    return;
+  }
+  const limit = Math.max(1, Math.min(500, Number(parsed.searchParams.get('limit') ?? 100)));
+  res.end(JSON.stringify({ ok: true, chain, reveals: ctx.seedChains.history(stationId, limit) }));
+}
+
+/**
+ * Side-bet pool and bets for a challenge. Wallet and escrow ids stay server-side.
+ */
+export function handleSideBets(res: ServerResponse, ctx: RouteContext, parsed: URL): void {
+  res.setHeader('content-type', 'application/json');
+  const challengeId = parsed.searchParams.get('challengeId')?.trim();
+  if (!challengeId) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ ok: false, reason: 'challenge_id_required' }));
+    return;
+  }
+  const pool = ctx.sideBetService.getPool(challengeId);
+  if (!pool) {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'side_bet_pool_not_found' }));
+    return;
+  }
+  const bets = ctx.sideBetService.getBets(challengeId).map((bet) => ({
+    id: bet.id,
+    bettorId: bet.bettorId,
+    backedPlayerId: bet.backedPlayerId,
+    amount: bet.amount,
+    status: bet.status,
+    payout: bet.payout,
+    placedAt: bet.placedAt,
+    settledAt: bet.settledAt
+  }));
+  res.end(JSON.stringify({ ok: true, pool, bets }));
+}
+
+// Two minutes of 20 Hz ticks per replay page; `nextFromTick` fetches the next one.
+const MAX_REPLAY_TICK_SPAN = 2_400;
+
+/**
+ * List recorded WorldSim sessions, or replay one into snapshots for the viewer:
+ * `GET /replays/session?sessionId=&fromTick=&toTick=&every=`. Each request covers at most
+ * `MAX_REPLAY_TICK_SPAN` ticks and yields to the tick loop while it simulates; whole-session
+ * checks belong to `npm run replay`.
+ */
+export async function handleReplays(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: RouteContext,
+  parsed: URL
+): Promise<void> {
+  res.setHeader('content-type', 'application/json');
+  if (!isInternalAuthorized(req, ctx.internalToken)) {
+    res.statusCode = 401;
+    res.end(JSON.stringify({ ok: false, reason: 'unauthorized_internal' }));
+    return;
+  }
+  const dir = ctx.replayJournalDir;
+  if (!dir) {
+    res.statusCode = 503;
+    res.end(JSON.stringify({ ok: false, reason: 'replay_journal_disabled' }));
+    return;
+  }
+  if (parsed.pathname !== '/replays/session') {
+    res.end(JSON.stringify({ ok: true, currentSessionId: ctx.replaySessionId ?? null, sessions: await listJournalSessions(dir) }));
+    return;
+  }
+  const sessionId = parsed.searchParams.get('sessionId')?.trim() || ctx.replaySessionId || '';
+  const entries = sessionId ? await readJournal(dir, sessionId) : null;
+  if (!entries) {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'replay_session_not_found' }));
+    return;
+  }
+  const toTickParam = Number(parsed.searchParams.get('toTick'));
+  const fromTick = Math.max(0, Math.floor(Number(parsed.searchParams.get('fromTick') ?? 0) || 0));
+  const every = Math.max(1, Math.min(1_000, Math.floor(Number(parsed.searchParams.get('every') ?? 5) || 5)));
+  const requestedUntil = Number.isFinite(toTickParam) && toTickParam > 0 ? toTickParam : Number.POSITIVE_INFINITY;
+  const untilTick = Math.min(requestedUntil, fromTick + MAX_REPLAY_TICK_SPAN - 1);
+  const result = await replayJournalAsync(entries, { fromTick, untilTick, every, maxSnapshots: 2_000 });
+  // Continue on the same every-th tick grid; null once the journal or the requested range is done.
+  const nextFromTick = result.finalTick >= untilTick && untilTick < requestedUntil
+    ? fromTick + Math.ceil((untilTick + 1 - fromTick) / every) * every
+    : null;
+  res.end(JSON.stringify({ sessionId, ...result, nextFromTick }));
+}
+
+/**
+ * Self-service refunds for bets the resolver never settled:
+ * `GET /escrow/refund-claim?challengeId=` tells a player whether
+ * `claimRefundAfterDeadline` is open yet; `GET /escrow/stuck` lists stuck
+ * challenges with stakes still locked on-chain for operators.
+ */
+export async function handleEscrowRefunds(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: RouteContext,
+  parsed: URL
+): Promise<void> {
+  res.setHeader('content-type', 'application/json');
+  if (parsed.pathname === '/escrow/stuck' && !isInternalAuthorized(req, ctx.internalToken)) {
+    res.statusCode = 401;
+    res.end(JSON.stringify({ ok: false, reason: 'unauthorized_internal' }));
+    return;
+  }
+  const escrowAdapter = ctx.escrowAdapter;
+  if (!escrowAdapter) {
+    res.statusCode = 503;
+    res.end(JSON.stringify({ ok: false, reason: 'escrow_onchain_unavailable' }));
+    return;
+  }
+  if (parsed.pathname === '/escrow/stuck') {
+    res.end(JSON.stringify({ ok: true, stuck: await findStuckEscrows(ctx.database, escrowAdapter) }));
+    return;
+  }
+  const challengeId = parsed.searchParams.get('challengeId')?.trim();
+  if (!challengeId) {
+    res.statusCode = 400;
+    res.end(JSON.stringify({ ok: false, reason: 'challenge_id_required' }));
+    return;
+  }
+  const claim = await escrowAdapter.refundClaim(challengeId);
+  if (!claim || claim.status === 'none') {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'escrow_bet_not_found' }));
+    return;
+  }
+  res.end(JSON.stringify({ ok: true, challengeId, claim }));
+}
+
+/**
+ * Export a player's provably fair receipt history as JSON (default) or CSV.
+ */
+export async function handleFairnessReceipts(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: RouteContext,
+  parsed: URL
+): Promise<void> {
+  if (!isInternalAuthorized(req, ctx.internalToken)) {
+    res.statusCode = 401;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ ok: false, reason: 'unauthorized_internal' }));
+    return;
+  }
+  const playerId = String(parsed.searchParams.get('playerId') || '').trim();
+  if (!playerId) {
+    res.statusCode = 400;
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify({ ok: false, reason: 'player_id_required' }));
+    return;
+  }
+  const limit = Math.max(1, Math.min(500, Number(parsed.searchParams.get('limit') ?? 100)));
+
+  let challenges: Challenge[] = await ctx.database.getFairnessChallengesForPlayer({ playerId, limit });
+  if (challenges.length === 0) {
+    challenges = ctx.challengeService.getFairnessChallenges(playerId, limit);
+  }
+  const receipts = fairnessReceiptsFromChallenges(challenges, { maxChainLength: ctx.seedChains.maxChainLength });
+
+  if (parsed.searchParams.get('format') === 'csv') {
+    res.setHeader('content-type', 'text/csv; charset=utf-8');
+    res.setHeader('content-disposition', `attachment; filename="fairness-receipts-${playerId}.csv"`);
+    res.end(fairnessReceiptsToCsv(receipts));
+    return;
+  }
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ ok: true, playerId, receipts }));
+}
+
 /**
  * Handle favicon endpoint
  */
@@ -201,8 +479,8 @@ export async function handleAdminTeleport(
   let x: number | null = null;
   let z: number | null = null;
   if (Number.isFinite(Number(body?.section))) {
-    const idx = Math.max(0, Math.min(7, Math.floor(Number(body?.section))));
-    const spawn = WORLD_SECTION_SPAWNS[idx];
+    const idx = Math.max(0, Math.min(ctx.world.sections.length - 1, Math.floor(Number(body?.section))));
+    const spawn = ctx.world.sections[idx]?.spawn;
     if (spawn) {
       x = spawn.x;
       z = spawn.z;
@@ -345,6 +623,97 @@ async function handleAdminMarkets(
   res.end(JSON.stringify({ ok: false, reason: 'not_found' }));
 }
 
+/**
+ * Handle tournament endpoints. Reads are public; bracket management requires the internal token.
+ */
+export async function handleTournaments(
+  req: IncomingMessage,
+  res: ServerResponse,
+  ctx: RouteContext,
+  parsed: URL
+): Promise<void> {
+  res.setHeader('content-type', 'application/json');
+  const pathname = parsed.pathname;
+
+  if (pathname === '/tournaments' && req.method === 'GET') {
+    const id = parsed.searchParams.get('id')?.trim();
+    if (id) {
+      const tournament = ctx.tournamentService.getTournament(id);
+      if (!tournament) {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ ok: false, reason: 'tournament_not_found' }));
+        return;
+      }
+      res.end(JSON.stringify({ ok: true, tournament }));
+      return;
+    }
+    const limit = Math.max(1, Math.min(100, Number(parsed.searchParams.get('limit') ?? 20)));
+    res.end(JSON.stringify({ ok: true, tournaments: ctx.tournamentService.list(limit) }));
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'not_found' }));
+    return;
+  }
+  if (!isInternalAuthorized(req, ctx.internalToken)) {
+    res.statusCode = 401;
+    res.end(JSON.stringify({ ok: false, reason: 'unauthorized_internal' }));
+    return;
+  }
+
+  const body = await readJsonBody<{
+    tournamentId?: string;
+    playerId?: string;
+    name?: string;
+    format?: TournamentFormat;
+    gameType?: GameType;
+    wager?: number;
+    maxEntrants?: number;
+    entrants?: string[];
+    shuffle?: boolean;
+    reason?: string;
+  }>(req);
+  const tournamentId = String(body?.tournamentId ?? '').trim();
+  const playerId = String(body?.playerId ?? '').trim();
+  let updates: TournamentUpdate[];
+
+  if (pathname === '/tournaments') {
+    updates = [ctx.tournamentService.createTournament({
+      name: body?.name,
+      format: body?.format ?? 'single_elimination',
+      gameType: body?.gameType ?? 'rps',
+      wager: body?.wager,
+      maxEntrants: body?.maxEntrants,
+      entrants: Array.isArray(body?.entrants) ? body.entrants.map(String) : []
+    })];
+  } else if (pathname === '/tournaments/join') {
+    updates = [ctx.tournamentService.join(tournamentId, playerId)];
+  } else if (pathname === '/tournaments/leave') {
+    updates = [ctx.tournamentService.leave(tournamentId, playerId)];
+  } else if (pathname === '/tournaments/start') {
+    updates = ctx.tournamentService.start(tournamentId, { shuffle: Boolean(body?.shuffle) });
+  } else if (pathname === '/tournaments/cancel') {
+    updates = ctx.tournamentService.cancel(tournamentId, String(body?.reason ?? '').trim() || 'cancelled');
+  } else {
+    res.statusCode = 404;
+    res.end(JSON.stringify({ ok: false, reason: 'not_found' }));
+    return;
+  }
+
+  const tournamentEvents = updates.filter((update): update is TournamentEvent => update.type === 'tournament');
+  const invalid = tournamentEvents.find((update) => update.event === 'invalid');
+  if (invalid) {
+    res.statusCode = invalid.reason === 'tournament_not_found' ? 404 : 400;
+    res.end(JSON.stringify({ ok: false, reason: invalid.reason }));
+    return;
+  }
+  await ctx.dispatchTournamentUpdates(updates);
+  const tournament = tournamentEvents[tournamentEvents.length - 1]?.tournament ?? null;
+  res.end(JSON.stringify({ ok: true, tournament }));
+}
+
 /**
  * Main HTTP request router
  */
@@ -400,11 +769,41 @@ export function createRouter(ctx: RouteContext) {
       return;
     }
 
+    // Manifest of the world this server simulates (bounds, obstacles, spawns, stations)
+    if (parsed.pathname === '/world' && req.method === 'GET') {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ ok: true, world: ctx.world }));
+      return;
+    }
+
+    if (parsed.pathname === '/rooms' && req.method === 'GET') {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ ok: true, serverId: ctx.serverInstanceId, rooms: ctx.listRooms() }));
+      return;
+    }
+
+    if (parsed.pathname === '/anticheat/flags' && req.method === 'GET') {
+      if (!isInternalAuthorized(req, ctx.internalToken)) {
+        res.statusCode = 401;
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ ok: false, reason: 'unauthorized_internal' }));
+        return;
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ ok: true, serverId: ctx.serverInstanceId, flagged: ctx.listAnticheatFlags() }));
+      return;
+    }
+
     if (req.url?.startsWith('/presence')) {
       await handlePresence(req, res, ctx);
       return;
     }
 
+    if (req.url?.startsWith('/challenges/side-bets')) {
+      handleSideBets(res, ctx, parsed);
+      return;
+    }
+
     if (req.url?.startsWith('/challenges/recent')) {
       await handleChallengesRecent(req, res, ctx);
       return;
@@ -431,6 +830,11 @@ export function createRouter(ctx: RouteContext) {
       return;
     }
 
+    if (parsed.pathname === '/escrow/refund-claim' || parsed.pathname === '/escrow/stuck') {
+      await handleEscrowRefunds(req, res, ctx, parsed);
+      return;
+    }
+
     if (req.url?.startsWith('/markets/player/positions')) {
       if (!isInternalAuthorized(req, ctx.internalToken)) {
         res.statusCode = 401;
@@ -484,6 +888,31 @@ export function createRouter(ctx: RouteContext) {
       return;
     }
 
+    if (req.url?.startsWith('/tournaments')) {
+      await handleTournaments(req, res, ctx, parsed);
+      return;
+    }
+
+    if (req.url?.startsWith('/fairness/verify')) {
+      await handleFairnessVerify(req, res, ctx, parsed);
+      return;
+    }
+
+    if (req.url?.startsWith('/replays')) {
+      await handleReplays(req, res, ctx, parsed);
+      return;
+    }
+
+    if (req.url?.startsWith('/fairness/chains')) {
+      handleFairnessChains(res, ctx, parsed);
+      return;
+    }
+
+    if (req.url?.startsWith('/fairness/receipts')) {
+      await handleFairnessReceipts(req, res, ctx, parsed);
+      return;
+    }
+
     if (req.url?.startsWith('/admin/teleport')) {
       await handleAdminTeleport(req, res, ctx);
       return;
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { ChallengeService } from '../ChallengeService.js';
+import type { EscrowAdapter } from '../EscrowAdapter.js';
+import { SideBetService, settleSideBetPool } from './SideBetService.js';
+
+/** Pot escrow that pays winners like the contract: pot minus its fee (4%, not the pool's 5%), split by weight. */
+function fakeEscrow() {
+  const calls: string[] = [];
+  const pots = new Map<string, Map<string, number>>();
+  const escrow = {
+    contributeToPot: async (params: { potId: string; walletId: string; amount: number }) => {
+      calls.push(`contribute:${params.potId}:${params.walletId}:${params.amount}`);
+      const pot = pots.get(params.potId) ?? new Map<string, number>();
+      pot.set(params.walletId, (pot.get(params.walletId) ?? 0) + params.amount);
+      pots.set(params.potId, pot);
+      return { ok: true };
+    },
+    resolvePot: async (params: { potId: string; winners: Array<{ walletId: string; weight: number }> }) => {
+      calls.push(`resolvePot:${params.potId}:${params.winners.map((winner) => `${winner.walletId}=${winner.weight}`).join(',')}`);
+      const total = [...(pots.get(params.potId)?.values() ?? [])].reduce((sum, amount) => sum + amount, 0);
+      const totalWeight = params.winners.reduce((sum, winner) => sum + winner.weight, 0);
+      const payouts = Object.fromEntries(params.winners.map((winner) => [
+        winner.walletId,
+        total * 0.96 * winner.weight / totalWeight
+      ]));
+      return { ok: true, payouts, fee: total * 0.04 };
+    },
+    refundPot: async (potId: string) => {
+      calls.push(`refundPot:${potId}`);
+      return { ok: true };
+    }
+  } as unknown as Pick<EscrowAdapter, 'contributeToPot' | 'resolvePot' | 'refundPot'>;
+  return { escrow, calls };
+}
+
+function setup() {
+  const challenges = new ChallengeService(() => 1000, () => 0.2, 10_000, 6_000, 'srv_test');
+  const { escrow, calls } = fakeEscrow();
+  const sideBets = new SideBetService(escrow, () => 2000, 500, 100);
+  const created = challenges.createChallenge('p1', 'p2', 'rps', 10).challenge!;
+  challenges.respond(created.id, 'p2', true);
+  return { challenges, sideBets, calls, challengeId: created.id };
+}
+
+describe('settleSideBetPool', () => {
+  it('splits the pool minus the fee across winners by stake', () => {
+    const { settlements, fee } = settleSideBetPool(
+      [
+        { id: 'a', backedPlayerId: 'p1', amount: 10 },
+        { id: 'b', backedPlayerId: 'p1', amount: 30 },
+        { id: 'c', backedPlayerId: 'p2', amount: 20 }
+      ],
+      'p1',
+      500
+    );
+    expect(fee).toBe(3);
+    expect(settlements).toEqual([
+      { betId: 'a', status: 'won', payout: 14.25 },
+      { betId: 'b', status: 'won', payout: 42.75 },
+      { betId: 'c', status: 'lost', payout: 0 }
+    ]);
+  });
+
+  it('refunds everyone on a draw or a one-sided pool', () => {
+    const bets = [{ id: 'a', backedPlayerId: 'p1', amount: 10 }];
+    expect(settleSideBetPool(bets, 'p1', 500).settlements).toEqual([{ betId: 'a', status: 'refunded', payout: 10 }]);
+    expect(settleSideBetPool(bets, null, 500).settlements[0]?.status).toBe('refunded');
+  });
+});
+
+describe('SideBetService', () => {
+  it('pools bets in one escrow pot and pays the winners what the pot paid out', async () => {
+    const { challenges, sideBets, calls, challengeId } = setup();
+    const place = (bettorId: string, backedPlayerId: string, amount: number) => sideBets.placeBet({
+      challenge: challenges.getChallenge(challengeId),
+      challengeRoomId: 'yard-1',
+      bettorRoomId: 'yard-1',
+      bettorId,
+      walletId: `w_${bettorId}`,
+      backedPlayerId,
+      amount
+    });
+
+    expect((await place('s1', 'p1', 10)).ok).toBe(true);
+    expect((await place('s4', 'p1', 30)).ok).toBe(true);
+    expect((await place('s2', 'p2', 20)).ok).toBe(true);
+    expect((await place('s1', 'p2', 5)).reason).toBe('side_bet_exists');
+    expect((await place('p1', 'p1', 5)).reason).toBe('participant_cannot_side_bet');
+    expect(sideBets.getPool(challengeId)?.totals).toEqual({ p1: 40, p2: 20 });
+    expect(calls).toEqual([
+      `contribute:side_${challengeId}:w_s1:10`,
+      `contribute:side_${challengeId}:w_s4:30`,
+      `contribute:side_${challengeId}:w_s2:20`
+    ]);
+
+    const moved = challenges.submitMove(challengeId, 'p1', 'rock');
+    const closed = await sideBets.handleChallengeEvent(moved);
+    expect(closed[0]?.pool.status).toBe('closed');
+    expect((await place('s3', 'p1', 5)).reason).toBe('side_bets_closed');
+
+    const resolved = challenges.submitMove(challengeId, 'p2', 'scissors');
+    const [settled] = await sideBets.handleChallengeEvent(resolved);
+    expect(settled?.event).toBe('settled');
+    expect(settled?.pool.winnerId).toBe('p1');
+    expect(settled?.bets.map((bet) => [bet.bettorId, bet.status, bet.payout])).toEqual([
+      ['s1', 'won', 14.4],
+      ['s4', 'won', 43.2],
+      ['s2', 'lost', 0]
+    ]);
+    expect(calls.at(-1)).toBe(`resolvePot:side_${challengeId}:w_s1=10,w_s4=30`);
+    expect(settled?.escrow).toMatchObject({ potId: `side_${challengeId}`, phase: 'resolve', ok: true, fee: 2.4 });
+  });
+
+  it('refunds every bet when the challenge expires', async () => {
+    const { challenges, sideBets, calls, challengeId } = setup();
+    await sideBets.placeBet({
+      challenge: challenges.getChallenge(challengeId),
+      challengeRoomId: 'yard-1',
+      bettorRoomId: 'yard-1',
+      bettorId: 's1',
+      walletId: 'w_s1',
+      backedPlayerId: 'p2',
+      amount: 4
+    });
+    const expired = challenges.abortChallenge(challengeId, 'expired', 'owner_offline');
+    const [update] = await sideBets.handleChallengeEvent(expired);
+    expect(update?.event).toBe('refunded');
+    expect(update?.bets[0]).toMatchObject({ status: 'refunded', payout: 4, reason: 'challenge_void' });
+    expect(calls.at(-1)).toBe(`refundPot:side_${challengeId}`);
+    expect(update?.escrow).toMatchObject({ potId: `side_${challengeId}`, phase: 'refund', ok: true });
+  });
+
+  it('rejects bets on pending or house challenges', async () => {
+    const challenges = new ChallengeService(() => 1000, () => 0.2, 10_000, 6_000, 'srv_test');
+    const sideBets = new SideBetService(fakeEscrow().escrow, () => 2000, 500, 100);
+    const pending = challenges.createChallenge('p1', 'p2', 'rps', 10).challenge!;
+    const house = challenges.createChallenge('p3', 'system_house', 'coinflip', 10).challenge!;
+    const base = { bettorId: 's1', walletId: 'w_s1', amount: 5, challengeRoomId: 'yard-1', bettorRoomId: 'yard-1' };
+    expect((await sideBets.placeBet({ ...base, challenge: pending, backedPlayerId: 'p1' })).reason).toBe('side_bets_closed');
+    expect((await sideBets.placeBet({ ...base, challenge: house, backedPlayerId: 'p3' })).reason).toBe('side_bets_pvp_only');
+    expect((await sideBets.placeBet({ ...base, challenge: pending, backedPlayerId: 'p1', amount: 500 })).reason)
+      .toBe('invalid_side_bet_amount');
+  });
+
+  it('rejects bettors outside the challenge room', async () => {
+    const { challenges, sideBets, calls, challengeId } = setup();
+    const place = (challengeRoomId: string | null, bettorRoomId: string | null) => sideBets.placeBet({
+      challenge: challenges.getChallenge(challengeId),
+      challengeRoomId,
+      bettorRoomId,
+      bettorId: 's1',
+      walletId: 'w_s1',
+      backedPlayerId: 'p1',
+      amount: 5
+    });
+    expect((await place('yard-1', 'yard-2')).reason).toBe('side_bet_not_in_room');
+    expect((await place('yard-1', null)).reason).toBe('side_bet_not_in_room');
+    // Neither player is on this node, so the bettor cannot be watching it.
+    expect((await place(null, null)).reason).toBe('side_bet_not_in_room');
+    expect(calls).toEqual([]);
+    expect((await place('yard-1', 'yard-1')).ok).toBe(true);
+  });
+});
@@ -0,0 +1,398 @@
+import type { Challenge, ChallengeEvent, SideBet, SideBetPool } from '@arena/shared';
+import type { EscrowAdapter } from '../EscrowAdapter.js';
+import { log as rootLog } from '../logger.js';
+
+export type { SideBet, SideBetPool };
+
+const log = rootLog.child({ module: 'side-bets' });
+
+type SideBetEscrow = Pick<EscrowAdapter, 'contributeToPot' | 'resolvePot' | 'refundPot'>;
+
+export type PlaceSideBetInput = {
+  challenge: Challenge | null;
+  /** Room the challenge is played in on this node; null when neither player is here. */
+  challengeRoomId: string | null;
+  bettorRoomId: string | null;
+  bettorId: string;
+  walletId: string | null;
+  backedPlayerId: string;
+  amount: number;
+};
+
+export type PlaceSideBetResult = {
+  ok: boolean;
+  reason?: string;
+  reasonCode?: string;
+  reasonText?: string;
+  bet?: SideBet;
+  pool?: SideBetPool;
+  /** Pot contribution transaction, for the escrow ledger. */
+  txHash?: string;
+};
+
+/**
+ * Side-bet changes for the caller to push: `bets` go to their bettors and the
+ * pool summary to everyone watching the challenge.
+ */
+export type SideBetUpdate = {
+  event: 'closed' | 'settled' | 'refunded';
+  pool: SideBetPool;
+  bets: SideBet[];
+  /** How the pot was settled on the escrow; absent when no bet reached it. */
+  escrow?: {
+    potId: string;
+    phase: 'resolve' | 'refund';
+    ok: boolean;
+    reason?: string;
+    txHash?: string;
+    fee?: number;
+  };
+};
+
+export type SideBetSettlement = {
+  betId: string;
+  status: 'won' | 'lost' | 'refunded';
+  payout: number;
+};
+
+type SideBetMarket = SideBetPool & {
+  bets: SideBet[];
+  /** Pot contributions still in flight; settlement waits for them. */
+  placing: Set<Promise<PlaceSideBetResult>>;
+};
+
+const HOUSE_ID = 'system_house';
+// The escrow caps a pot at 64 participants.
+const MAX_BETS_PER_CHALLENGE = 64;
+const MAX_SETTLED_MARKETS = 500;
+
+function roundAmount(value: number): number {
+  return Number(value.toFixed(6));
+}
+
+export const SIDE_BET_POT_PREFIX = 'side_';
+
+/** One escrow pot holds every side bet on a challenge. */
+export function sideBetPotId(challengeId: string): string {
+  return `${SIDE_BET_POT_PREFIX}${challengeId}`;
+}
+
+/**
+ * Parimutuel split, as the escrow pot pays it: the whole pool minus the fee is
+ * shared across the winning side in proportion to stake. With no winner, or
+ * nobody on one side, every bet is refunded.
+ */
+export function settleSideBetPool(
+  bets: Array<Pick<SideBet, 'id' | 'backedPlayerId' | 'amount'>>,
+  winnerId: string | null,
+  feeBps: number
+): { settlements: SideBetSettlement[]; fee: number } {
+  const winningPool = bets.filter((bet) => bet.backedPlayerId === winnerId).reduce((sum, bet) => sum + bet.amount, 0);
+  const losingPool = bets.filter((bet) => bet.backedPlayerId !== winnerId).reduce((sum, bet) => sum + bet.amount, 0);
+  if (!winnerId || winningPool <= 0 || losingPool <= 0) {
+    return {
+      settlements: bets.map((bet) => ({ betId: bet.id, status: 'refunded', payout: bet.amount })),
+      fee: 0
+    };
+  }
+  const fee = roundAmount((winningPool + losingPool) * Math.max(0, feeBps) / 10_000);
+  const distributable = winningPool + losingPool - fee;
+  return {
+    settlements: bets.map((bet) => bet.backedPlayerId === winnerId
+      ? { betId: bet.id, status: 'won', payout: roundAmount(distributable * (bet.amount / winningPool)) }
+      : { betId: bet.id, status: 'lost', payout: 0 }),
+    fee
+  };
+}
+
+/**
+ * Side-bet pools on live PvP challenges. A pool opens when a challenge is
+ * accepted and closes on the first submitted move. Every stake goes into one
+ * escrow pot per challenge, which pays the winning side by stake when the
+ * challenge resolves (or refunds every bet on expiry, decline, draw or a
+ * one-sided pool). `feeBps` should match the escrow's fee; recorded payouts are
+ * the amounts the escrow reports paying.
+ */
+export class SideBetService {
+  private readonly markets = new Map<string, SideBetMarket>();
+  private readonly placing = new Set<string>();
+  private betCounter = 0;
+
+  constructor(
+    private readonly escrowAdapter: SideBetEscrow,
+    private readonly now: () => number,
+    private readonly feeBps: number,
+    private readonly maxWager: number
+  ) {}
+
+  getPool(challengeId: string): SideBetPool | null {
+    const market = this.markets.get(challengeId);
+    return market ? this.poolOf(market) : null;
+  }
+
+  getBets(challengeId: string): SideBet[] {
+    return (this.markets.get(challengeId)?.bets ?? []).map((bet) => ({ ...bet }));
+  }
+
+  async placeBet(input: PlaceSideBetInput): Promise<PlaceSideBetResult> {
+    const challenge = input.challenge;
+    if (!challenge) {
+      return { ok: false, reason: 'challenge_not_found' };
+    }
+    const placingKey = `${challenge.id}:${input.bettorId}`;
+    if (this.placing.has(placingKey)) {
+      return { ok: false, reason: 'side_bet_exists' };
+    }
+    this.placing.add(placingKey);
+    try {
+      return await this.placeBetUnlocked(challenge, input);
+    } finally {
+      this.placing.delete(placingKey);
+    }
+  }
+
+  private async placeBetUnlocked(challenge: Challenge, input: PlaceSideBetInput): Promise<PlaceSideBetResult> {
+    if (challenge.opponentId === HOUSE_ID || challenge.challengerId === HOUSE_ID) {
+      return { ok: false, reason: 'side_bets_pvp_only' };
+    }
+    if (input.bettorId === challenge.challengerId || input.bettorId === challenge.opponentId) {
+      return { ok: false, reason: 'participant_cannot_side_bet' };
+    }
+    // Pools are only pushed to the challenge's room, so only its occupants may bet into one.
+    if (!input.challengeRoomId || input.bettorRoomId !== input.challengeRoomId) {
+      return { ok: false, reason: 'side_bet_not_in_room' };
+    }
+    if (input.backedPlayerId !== challenge.challengerId && input.backedPlayerId !== challenge.opponentId) {
+      return { ok: false, reason: 'invalid_side_bet_pick' };
+    }
+    const amount = roundAmount(Number(input.amount));
+    if (!Number.isFinite(amount) || amount <= 0 || amount > this.maxWager) {
+      return { ok: false, reason: 'invalid_side_bet_amount' };
+    }
+    if (!this.isOpenFor(challenge)) {
+      return { ok: false, reason: 'side_bets_closed' };
+    }
+    const market = this.ensureMarket(challenge);
+    if (market.bets.some((bet) => bet.bettorId === input.bettorId)) {
+      return { ok: false, reason: 'side_bet_exists' };
+    }
+    if (market.bets.length + market.placing.size >= MAX_BETS_PER_CHALLENGE) {
+      return { ok: false, reason: 'side_bet_pool_full' };
+    }
+    const walletId = input.walletId;
+    if (!walletId) {
+      return { ok: false, reason: 'wallet_required', reasonCode: 'PLAYER_SIGNER_UNAVAILABLE' };
+    }
+
+    const placed = this.contribute(market, challenge, { ...input, walletId, amount });
+    market.placing.add(placed);
+    try {
+      return await placed;
+    } finally {
+      market.placing.delete(placed);
+    }
+  }
+
+  private async contribute(
+    market: SideBetMarket,
+    challenge: Challenge,
+    input: Omit<PlaceSideBetInput, 'challenge' | 'challengeRoomId' | 'bettorRoomId'> & { walletId: string }
+  ): Promise<PlaceSideBetResult> {
+    const { bettorId, walletId, backedPlayerId, amount } = input;
+    this.betCounter += 1;
+    const betId = `sb_${this.betCounter}_${challenge.id.replace(/[^a-zA-Z0-9]/g, '').slice(0, 24)}`;
+    const potId = sideBetPotId(challenge.id);
+    const locked = await this.escrowAdapter.contributeToPot({ potId, walletId, amount });
+    if (!locked.ok) {
+      return {
+        ok: false,
+        reason: locked.reason || 'escrow_lock_failed',
+        reasonCode: String((locked.raw as { reasonCode?: unknown } | undefined)?.reasonCode || ''),
+        reasonText: String((locked.raw as { reasonText?: unknown } | undefined)?.reasonText || '') || 'Escrow lock failed.'
+      };
+    }
+
+    // The pot cannot hand back a single stake, so a bet whose contribution
+    // landed after the first move still stands; it was accepted while open.
+    const bet: SideBet = {
+      id: betId,
+      challengeId: challenge.id,
+      bettorId,
+      walletId,
+      backedPlayerId,
+      amount,
+      status: 'locked',
+      payout: null,
+      escrowBetId: potId,
+      placedAt: this.now(),
+      settledAt: null,
+      reason: null
+    };
+    market.bets.push(bet);
+    market.totals[bet.backedPlayerId] = roundAmount((market.totals[bet.backedPlayerId] ?? 0) + amount);
+    market.betCount = market.bets.length;
+    return { ok: true, bet: { ...bet }, pool: this.poolOf(market), txHash: locked.txHash };
+  }
+
+  /**
+   * Follow the challenge lifecycle. Closing on the first move happens before
+   * this returns its promise, so no bet can be accepted after a move is in.
+   */
+  async handleChallengeEvent(event: ChallengeEvent): Promise<SideBetUpdate[]> {
+    const challenge = event.challenge;
+    if (!challenge) {
+      return [];
+    }
+    const market = this.markets.get(challenge.id);
+    if (!market) {
+      return [];
+    }
+
+    if (event.event === 'move_submitted' || event.event === 'round_resolved') {
+      if (market.status !== 'open') {
+        return [];
+      }
+      market.status = 'closed';
+      market.closedAt = this.now();
+      return [{ event: 'closed', pool: this.poolOf(market), bets: [] }];
+    }
+
+    if (event.event === 'resolved') {
+      return [await this.settle(market, challenge.winnerId)];
+    }
+
+    if (event.event === 'expired' || event.event === 'declined') {
+      return [await this.settle(market, null)];
+    }
+
+    return [];
+  }
+
+  private isOpenFor(challenge: Challenge): boolean {
+    const market = this.markets.get(challenge.id);
+    if (market && market.status !== 'open') {
+      return false;
+    }
+    return challenge.status === 'active'
+      && challenge.challengerMove === null
+      && challenge.opponentMove === null
+      && (challenge.rounds?.length ?? 0) === 0;
+  }
+
+  private ensureMarket(challenge: Challenge): SideBetMarket {
+    const existing = this.markets.get(challenge.id);
+    if (existing) {
+      return existing;
+    }
+    const market: SideBetMarket = {
+      challengeId: challenge.id,
+      status: 'open',
+      challengerId: challenge.challengerId,
+      opponentId: challenge.opponentId,
+      feeBps: this.feeBps,
+      totals: { [challenge.challengerId]: 0, [challenge.opponentId]: 0 },
+      betCount: 0,
+      closedAt: null,
+      winnerId: null,
+      bets: [],
+      placing: new Set()
+    };
+    this.markets.set(challenge.id, market);
+    this.prune();
+    return market;
+  }
+
+  private async settle(market: SideBetMarket, winnerId: string | null): Promise<SideBetUpdate> {
+    if (market.status === 'open') {
+      market.status = 'closed';
+      market.closedAt = this.now();
+    }
+    await Promise.all(market.placing);
+
+    const open = market.bets.filter((bet) => bet.status === 'locked');
+    const { settlements } = settleSideBetPool(open, winnerId, market.feeBps);
+    const refundAll = settlements.every((entry) => entry.status === 'refunded');
+    market.status = refundAll ? 'refunded' : 'settled';
+    market.closedAt = market.closedAt ?? this.now();
+    market.winnerId = refundAll ? null : winnerId;
+
+    const potId = sideBetPotId(market.challengeId);
+    const winners = open.filter((bet) => settlements.some((entry) => entry.betId === bet.id && entry.status === 'won'));
+    let result: Awaited<ReturnType<SideBetEscrow['resolvePot']>> = { ok: true };
+    if (open.length > 0) {
+      result = refundAll
+        ? await this.escrowAdapter.refundPot(potId)
+        : await this.escrowAdapter.resolvePot({
+          potId,
+          winners: winners.map((bet) => ({ walletId: bet.walletId, weight: bet.amount }))
+        });
+    }
+    if (!result.ok) {
+      log.warn({ challengeId: market.challengeId, potId, reason: result.reason }, 'side-bet pot settlement failed');
+    }
+
+    for (const settlement of settlements) {
+      const bet = open.find((entry) => entry.id === settlement.betId);
+      if (!bet) {
+        continue;
+      }
+      bet.settledAt = this.now();
+      if (!result.ok) {
+        bet.status = 'settle_failed';
+        bet.reason = result.reason || 'escrow_settle_failed';
+        continue;
+      }
+      bet.status = settlement.status;
+      bet.payout = settlement.status === 'won'
+        ? roundAmount(result.payouts?.[bet.walletId] ?? settlement.payout)
+        : settlement.payout;
+      bet.reason = settlement.status === 'refunded' ? (winnerId ? 'no_opposing_pool' : 'challenge_void') : null;
+    }
+
+    return {
+      event: market.status === 'refunded' ? 'refunded' : 'settled',
+      pool: this.poolOf(market),
+      bets: open.map((bet) => ({ ...bet })),
+      ...(open.length > 0
+        ? {
+          escrow: {
+            potId,
+            phase: refundAll ? 'refund' as const : 'resolve' as const,
+            ok: result.ok,
+            reason: result.reason,
+            txHash: result.txHash,
+            fee: result.fee
+          }
+        }
+        : {})
+    };
+  }
+
+  private poolOf(market: SideBetMarket): SideBetPool {
+    return {
+      challengeId: market.challengeId,
+      status: market.status,
+      challengerId: market.challengerId,
+      opponentId: market.opponentId,
+      feeBps: market.feeBps,
+      totals: { ...market.totals },
+      betCount: market.betCount,
+      closedAt: market.closedAt,
+      winnerId: market.winnerId
+    };
+  }
+
+  private prune(): void {
+    if (this.markets.size <= MAX_SETTLED_MARKETS) {
+      return;
+    }
+    for (const [challengeId, market] of this.markets) {
+      if (this.markets.size <= MAX_SETTLED_MARKETS) {
+        break;
+      }
+      if (market.status === 'settled' || market.status === 'refunded') {
+        this.markets.delete(challengeId);
+      }
+    }
+  }
+}
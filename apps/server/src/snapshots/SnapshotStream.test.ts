@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { SnapshotDeltaReceiver } from '@arena/shared';
+import { InterestGrid } from './interest.js';
+import { SnapshotStream } from './SnapshotStream.js';
+
+type Player = { id: string; x: number; z: number };
+
+describe('SnapshotStream', () => {
+  it('encodes against the last ack and round-trips through the receiver', () => {
+    const stream = new SnapshotStream<Player>();
+    const receiver = new SnapshotDeltaReceiver<Player>();
+    const frames: Player[][] = [
+      [{ id: 'a', x: 0, z: 0 }, { id: 'b', x: 3, z: 3 }],
+      [{ id: 'a', x: 1, z: 0 }, { id: 'b', x: 3, z: 3 }],
+      [{ id: 'a', x: 2, z: 0 }]
+    ];
+
+    const first = stream.encode(frames[0]!);
+    expect(first.baseSeq).toBeNull();
+    // Unacked: the next snapshot is still full.
+    expect(stream.encode(frames[0]!).baseSeq).toBeNull();
+
+    stream.ack(receiver.receive(first)!.ack.seq);
+    const second = stream.encode(frames[1]!);
+    expect(second).toMatchObject({ baseSeq: 1, players: [{ id: 'a', x: 1 }], removed: [] });
+    stream.ack(receiver.receive(second)!.ack.seq);
+
+    const third = stream.encode(frames[2]!);
+    expect(third).toMatchObject({ baseSeq: second.seq, players: [{ id: 'a', x: 2 }], removed: ['b'] });
+    expect(receiver.receive(third)?.players).toEqual(frames[2]);
+
+    expect(stream.ack(1)).toBe(false);
+    expect(stream.lastAcked).toBe(second.seq);
+  });
+
+  it('keeps history bounded when the client stops acking', () => {
+    const stream = new SnapshotStream<Player>(4);
+    stream.ack(stream.encode([{ id: 'a', x: 0, z: 0 }]).seq);
+    for (let index = 1; index <= 20; index += 1) {
+      expect(stream.encode([{ id: 'a', x: index, z: 0 }]).baseSeq).toBe(1);
+    }
+    expect(stream.ack(5)).toBe(false);
+    expect(stream.ack(21)).toBe(true);
+  });
+});
+
+describe('InterestGrid', () => {
+  it('returns players in neighbouring cells only', () => {
+    const grid = new InterestGrid<Player>(
+      [
+        { id: 'near', x: 5, z: 5 },
+        { id: 'adjacent', x: 45, z: -30 },
+        { id: 'far', x: 100, z: 0 }
+      ],
+      40,
+      1
+    );
+    expect(grid.visibleFrom(0, 0).map((player) => player.id).sort()).toEqual(['adjacent', 'near']);
+    expect(grid.visibleFrom(130, 10).map((player) => player.id)).toEqual(['far']);
+  });
+});
@@ -0,0 +1,53 @@
+import { diffSnapshotEntities, type SnapshotDelta, type SnapshotEntity } from '@arena/shared';
+
+/**
+ * Per-connection snapshot encoder. Remembers what each sent snapshot
+ * contained and encodes the next one against the newest acknowledged, so a
+ * client that acks every snapshot only receives what moved. Clients that
+ * never ack get full snapshots.
+ */
+export class SnapshotStream<T extends SnapshotEntity = SnapshotEntity> {
+  private readonly sent = new Map<number, Map<string, T>>();
+  private nextSeq = 1;
+  private ackedSeq: number | null = null;
+
+  constructor(private readonly historyLimit = 40) {}
+
+  get lastAcked(): number | null {
+    return this.ackedSeq;
+  }
+
+  /**
+   * Accept an ack for a snapshot still in history; older or unknown acks are ignored.
+   */
+  ack(seq: number): boolean {
+    if (!this.sent.has(seq) || (this.ackedSeq !== null && seq <= this.ackedSeq)) {
+      return false;
+    }
+    this.ackedSeq = seq;
+    for (const key of this.sent.keys()) {
+      if (key < seq) {
+        this.sent.delete(key);
+      }
+    }
+    return true;
+  }
+
+  encode(players: readonly T[]): SnapshotDelta<T> {
+    const baseSeq = this.ackedSeq !== null && this.sent.has(this.ackedSeq) ? this.ackedSeq : null;
+    const { players: changed, removed } = diffSnapshotEntities(baseSeq === null ? null : this.sent.get(baseSeq)!, players);
+    const seq = this.nextSeq;
+    this.nextSeq += 1;
+    this.sent.set(seq, new Map(players.map((player) => [player.id, player])));
+    // Without acks history would grow forever; the acked base survives trimming.
+    for (const key of this.sent.keys()) {
+      if (this.sent.size <= this.historyLimit) {
+        break;
+      }
+      if (key !== this.ackedSeq) {
+        this.sent.delete(key);
+      }
+    }
+    return { seq, baseSeq, players: changed, removed };
+  }
+}
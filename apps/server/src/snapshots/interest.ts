@@ -0,0 +1,46 @@
+/**
+ * Area-of-interest filtering: players are bucketed into square cells and a
+ * viewer receives the players in the cells within `radiusCells` of its own.
+ */
+export class InterestGrid<T extends { id: string; x: number; z: number }> {
+  private readonly cells = new Map<string, T[]>();
+
+  constructor(
+    players: readonly T[],
+    private readonly cellSize: number,
+    private readonly radiusCells: number
+  ) {
+    for (const player of players) {
+      const key = this.cellKey(this.cellOf(player.x), this.cellOf(player.z));
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(player);
+      } else {
+        this.cells.set(key, [player]);
+      }
+    }
+  }
+
+  visibleFrom(x: number, z: number): T[] {
+    const cx = this.cellOf(x);
+    const cz = this.cellOf(z);
+    const visible: T[] = [];
+    for (let dx = -this.radiusCells; dx <= this.radiusCells; dx += 1) {
+      for (let dz = -this.radiusCells; dz <= this.radiusCells; dz += 1) {
+        const cell = this.cells.get(this.cellKey(cx + dx, cz + dz));
+        if (cell) {
+          visible.push(...cell);
+        }
+      }
+    }
+    return visible;
+  }
+
+  private cellOf(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(cx: number, cz: number): string {
+    return `${cx}:${cz}`;
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { Challenge } from '@arena/shared';
+import { ChallengeService } from '../ChallengeService.js';
+import { SpectatorHub, redactChallengeForSpectators, spectatorEventFromChallengeEvent } from './SpectatorHub.js';
+
+function houseChallenge(overrides: Partial<Challenge> = {}): Challenge {
+  return {
+    id: 'c_house',
+    challengerId: 'p1',
+    opponentId: 'system_house',
+    status: 'active',
+    gameType: 'coinflip',
+    wager: 5,
+    createdAt: 1000,
+    expiresAt: 2000,
+    acceptedAt: 1100,
+    resolvedAt: null,
+    winnerId: null,
+    challengerMove: 'heads',
+    opponentMove: null,
+    coinflipResult: null,
+    provablyFair: {
+      commitHash: 'commit',
+      playerSeed: 'player_seed',
+      revealSeed: 'house_seed',
+      method: 'sha256',
+      chain: { stationId: 'station_dealer_coinflip', epoch: 1, index: 3, head: 'head' }
+    },
+    ...overrides
+  };
+}
+
+describe('redactChallengeForSpectators', () => {
+  it('hides locked-in moves and the house seed until the challenge resolves', () => {
+    const view = redactChallengeForSpectators(houseChallenge());
+    expect(view.challengerMove).toBeNull();
+    expect(view.challengerLocked).toBe(true);
+    expect(view.opponentLocked).toBe(false);
+    expect(view.provablyFair).toEqual({
+      commitHash: 'commit',
+      playerSeed: 'player_seed',
+      method: 'sha256',
+      chain: { stationId: 'station_dealer_coinflip', epoch: 1, index: 3, head: 'head' }
+    });
+
+    const revealed = redactChallengeForSpectators(houseChallenge({
+      status: 'resolved',
+      opponentMove: 'tails',
+      coinflipResult: 'tails',
+      winnerId: 'system_house'
+    }));
+    expect(revealed).toMatchObject({ challengerMove: 'heads', opponentMove: 'tails', coinflipResult: 'tails' });
+    expect(revealed.provablyFair?.revealSeed).toBe('house_seed');
+  });
+
+  it('keeps completed series rounds while the current round is in play', () => {
+    const challenges = new ChallengeService(() => 1000, () => 0.2, 10_000, 6_000, 'srv_test');
+    const created = challenges.createChallenge('p1', 'p2', 'rps', 0, 3).challenge!;
+    challenges.respond(created.id, 'p2', true);
+    challenges.submitMove(created.id, 'p1', 'rock');
+    challenges.submitMove(created.id, 'p2', 'scissors');
+    const locked = challenges.submitMove(created.id, 'p1', 'paper');
+
+    const event = spectatorEventFromChallengeEvent(locked);
+    expect(event).toMatchObject({ event: 'move_locked', challengeId: created.id, stationId: null });
+    expect(event?.challenge?.challengerMove).toBeNull();
+    expect(event?.challenge?.challengerLocked).toBe(true);
+    expect(event?.challenge?.rounds?.[0]).toMatchObject({ challengerMove: 'rock', opponentMove: 'scissors', winnerId: 'p1' });
+  });
+});
+
+describe('SpectatorHub', () => {
+  it('delivers to challenge and station watchers once each', () => {
+    const hub = new SpectatorHub();
+    const received: Record<string, object[]> = { a: [], b: [], c: [] };
+    for (const id of ['a', 'b', 'c']) {
+      hub.add(id, (payload) => received[id]?.push(payload));
+    }
+    hub.subscribe('a', { kind: 'challenge', id: 'c_house' });
+    hub.subscribe('a', { kind: 'station', id: 'station_dealer_coinflip' });
+    hub.subscribe('b', { kind: 'station', id: 'station_dealer_coinflip' });
+    hub.subscribe('c', { kind: 'challenge', id: 'c_other' });
+
+    const event = spectatorEventFromChallengeEvent({ type: 'challenge', event: 'accepted', challenge: houseChallenge() });
+    expect(hub.deliver(event!)).toBe(2);
+    expect(received.a).toHaveLength(1);
+    expect(received.b).toHaveLength(1);
+    expect(received.c).toHaveLength(0);
+
+    hub.remove('a');
+    expect(hub.deliver(event!)).toBe(1);
+  });
+
+  it('routes escrow payouts to station watchers of tracked challenges', () => {
+    const hub = new SpectatorHub();
+    const received: object[] = [];
+    hub.add('a', (payload) => received.push(payload));
+    hub.subscribe('a', { kind: 'station', id: 'station_dealer_coinflip' });
+    hub.trackChallenge(houseChallenge());
+
+    expect(hub.payoutEvent({ phase: 'lock', challengeId: 'c_house', ok: true })).toBeNull();
+    const payout = hub.payoutEvent({ phase: 'resolve', challengeId: 'c_house', ok: true, payout: 9.5, fee: 0.5 });
+    expect(payout).toMatchObject({ event: 'payout', stationId: 'station_dealer_coinflip', payout: { payout: 9.5 } });
+    hub.deliver(payout!);
+    expect(received).toHaveLength(1);
+  });
+
+  it('skips invalid events and caps subscriptions', () => {
+    expect(spectatorEventFromChallengeEvent({ type: 'challenge', event: 'invalid', reason: 'challenge_not_found' })).toBeNull();
+
+    const hub = new SpectatorHub();
+    hub.add('a', () => undefined);
+    for (let i = 0; i < 16; i += 1) {
+      expect(hub.subscribe('a', { kind: 'challenge', id: `c_${i}` }).ok).toBe(true);
+    }
+    expect(hub.subscribe('a', { kind: 'challenge', id: 'c_16' })).toEqual({ ok: false, reason: 'too_many_subscriptions' });
+    expect(hub.subscribe('missing', { kind: 'challenge', id: 'c_1' })).toEqual({ ok: false, reason: 'spectator_not_found' });
+  });
+});
@@ -0,0 +1,224 @@
+import type {
+  Challenge,
+  ChallengeEvent,
+  SpectatorChallengeView,
+  SpectatorEvent,
+  SpectatorEventType
+} from '@arena/shared';
+
+export type { SpectatorEvent };
+
+export type SpectateTarget = {
+  kind: 'challenge' | 'station';
+  id: string;
+};
+
+export type SpectatorEscrowPayout = {
+  phase: 'lock' | 'resolve' | 'refund';
+  challengeId: string;
+  ok: boolean;
+  payout?: number;
+  fee?: number;
+  txHash?: string;
+};
+
+type SpectatorSession = {
+  send: (payload: object) => void;
+  targets: Set<string>;
+};
+
+const MAX_SUBSCRIPTIONS_PER_SPECTATOR = 16;
+const MAX_TRACKED_CHALLENGES = 2_000;
+
+const EVENT_MAP: Partial<Record<ChallengeEvent['event'], SpectatorEventType>> = {
+  created: 'created',
+  accepted: 'accepted',
+  move_submitted: 'move_locked',
+  round_resolved: 'round_reveal',
+  resolved: 'reveal',
+  declined: 'closed',
+  expired: 'closed'
+};
+
+function targetKey(target: SpectateTarget): string {
+  return `${target.kind}:${target.id}`;
+}
+
+/**
+ * House rounds carry their station in the seed chain pointer; player-vs-player
+ * challenges are not tied to a station.
+ */
+export function stationIdForChallenge(challenge: Challenge): string | null {
+  return challenge.provablyFair?.chain?.stationId ?? null;
+}
+
+/**
+ * Hide anything a spectator could use to front-run a round: the current
+ * moves until the challenge resolves, and the house seed until it is revealed.
+ * Completed rounds of a series stay visible.
+ */
+export function redactChallengeForSpectators(challenge: Challenge): SpectatorChallengeView {
+  const revealed = challenge.status === 'resolved';
+  const { provablyFair, ...rest } = challenge;
+  const view: SpectatorChallengeView = {
+    ...rest,
+    challengerMove: revealed ? challenge.challengerMove : null,
+    opponentMove: revealed ? challenge.opponentMove : null,
+    coinflipResult: revealed ? challenge.coinflipResult : null,
+    challengerLocked: challenge.challengerMove !== null,
+    opponentLocked: challenge.opponentMove !== null,
+    rounds: challenge.rounds ? challenge.rounds.map((round) => ({ ...round })) : undefined
+  };
+  if (!revealed) {
+    delete view.diceResult;
+  }
+  if (provablyFair) {
+    const { revealSeed, ...receipt } = provablyFair;
+    view.provablyFair = revealed && revealSeed ? { ...receipt, revealSeed } : receipt;
+  }
+  return view;
+}
+
+/**
+ * Spectator-facing form of a challenge event, or null for events that carry
+ * nothing to watch (invalid and busy responses).
+ */
+export function spectatorEventFromChallengeEvent(event: ChallengeEvent): SpectatorEvent | null {
+  const type = EVENT_MAP[event.event];
+  if (!type || !event.challenge) {
+    return null;
+  }
+  return {
+    type: 'spectator_event',
+    event: type,
+    challengeId: event.challenge.id,
+    stationId: stationIdForChallenge(event.challenge),
+    reason: event.reason,
+    challenge: redactChallengeForSpectators(event.challenge)
+  };
+}
+
+/**
+ * Local spectator sockets and their subscriptions. Events are delivered to
+ * every spectator watching either the challenge itself or the station it is
+ * dealt from; cross-node fan-out happens outside via the distributed bus.
+ */
+export class SpectatorHub {
+  private readonly sessions = new Map<string, SpectatorSession>();
+  private readonly watchers = new Map<string, Set<string>>();
+  /** Station of recently seen challenges, for escrow events that only carry an id. */
+  private readonly stationByChallenge = new Map<string, string | null>();
+
+  add(spectatorId: string, send: (payload: object) => void): void {
+    this.remove(spectatorId);
+    this.sessions.set(spectatorId, { send, targets: new Set() });
+  }
+
+  remove(spectatorId: string): void {
+    const session = this.sessions.get(spectatorId);
+    if (!session) {
+      return;
+    }
+    for (const key of session.targets) {
+      this.unwatch(key, spectatorId);
+    }
+    this.sessions.delete(spectatorId);
+  }
+
+  has(spectatorId: string): boolean {
+    return this.sessions.has(spectatorId);
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  subscribe(spectatorId: string, target: SpectateTarget): { ok: boolean; reason?: string } {
+    const session = this.sessions.get(spectatorId);
+    if (!session) {
+      return { ok: false, reason: 'spectator_not_found' };
+    }
+    const key = targetKey(target);
+    if (session.targets.has(key)) {
+      return { ok: true };
+    }
+    if (session.targets.size >= MAX_SUBSCRIPTIONS_PER_SPECTATOR) {
+      return { ok: false, reason: 'too_many_subscriptions' };
+    }
+    session.targets.add(key);
+    const watchers = this.watchers.get(key) ?? new Set<string>();
+    watchers.add(spectatorId);
+    this.watchers.set(key, watchers);
+    return { ok: true };
+  }
+
+  unsubscribe(spectatorId: string, target: SpectateTarget): void {
+    const session = this.sessions.get(spectatorId);
+    const key = targetKey(target);
+    if (!session?.targets.delete(key)) {
+      return;
+    }
+    this.unwatch(key, spectatorId);
+  }
+
+  /**
+   * Remember which station a challenge belongs to so that later escrow
+   * payouts can be routed to station watchers.
+   */
+  trackChallenge(challenge: Challenge): void {
+    this.stationByChallenge.delete(challenge.id);
+    this.stationByChallenge.set(challenge.id, stationIdForChallenge(challenge));
+    if (this.stationByChallenge.size > MAX_TRACKED_CHALLENGES) {
+      const oldest = this.stationByChallenge.keys().next().value;
+      if (oldest !== undefined) {
+        this.stationByChallenge.delete(oldest);
+      }
+    }
+  }
+
+  payoutEvent(payload: SpectatorEscrowPayout): SpectatorEvent | null {
+    if (payload.phase === 'lock') {
+      return null;
+    }
+    return {
+      type: 'spectator_event',
+      event: 'payout',
+      challengeId: payload.challengeId,
+      stationId: this.stationByChallenge.get(payload.challengeId) ?? null,
+      payout: {
+        phase: payload.phase,
+        ok: payload.ok,
+        payout: payload.payout,
+        fee: payload.fee,
+        txHash: payload.txHash
+      }
+    };
+  }
+
+  /**
+   * Deliver an event to local watchers. Returns the number of spectators reached.
+   */
+  deliver(event: SpectatorEvent): number {
+    const recipients = new Set<string>(this.watchers.get(targetKey({ kind: 'challenge', id: event.challengeId })));
+    if (event.stationId) {
+      for (const spectatorId of this.watchers.get(targetKey({ kind: 'station', id: event.stationId })) ?? []) {
+        recipients.add(spectatorId);
+      }
+    }
+    for (const spectatorId of recipients) {
+      this.sessions.get(spectatorId)?.send(event);
+    }
+    return recipients.size;
+  }
+
+  private unwatch(key: string, spectatorId: string): void {
+    const watchers = this.watchers.get(key);
+    if (!watchers) {
+      return;
+    }
+    watchers.delete(spectatorId);
+    if (watchers.size === 0) {
+      this.watchers.delete(key);
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, expect, it } from 'vitest';
+import { getGameDefinition, registerGameDefinition, type ChallengeEvent, type GameType } from '@arena/shared';
+import { ChallengeService } from '../ChallengeService.js';
+import { TournamentService, bracketSeedOrder, roundRobinSchedule, type TournamentUpdate } from './TournamentService.js';
+
+function setup() {
+  const challenges = new ChallengeService(() => 1000, () => 0.2, 10_000, 6_000, 'srv_test');
+  const tournaments = new TournamentService(challenges, () => 1000, () => 0.5, 'srv_test');
+  return { challenges, tournaments };
+}
+
+function createdChallenges(updates: TournamentUpdate[]): ChallengeEvent[] {
+  return updates.filter((update): update is ChallengeEvent => update.type === 'challenge' && update.event === 'created');
+}
+
+/** Plays an rps challenge to completion so that `winnerId` wins. */
+function playRps(challenges: ChallengeService, challengeId: string, winnerId: string): ChallengeEvent {
+  const challenge = challenges.getChallenge(challengeId)!;
+  challenges.respond(challengeId, challenge.opponentId, true);
+  const loserId = winnerId === challenge.challengerId ? challenge.opponentId : challenge.challengerId;
+  challenges.submitMove(challengeId, winnerId, 'rock');
+  return challenges.submitMove(challengeId, loserId, 'scissors');
+}
+
+describe('bracket helpers', () => {
+  it('orders seeds so top seeds meet last', () => {
+    expect(bracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('schedules every pairing exactly once in round robin', () => {
+    const rounds = roundRobinSchedule(['a', 'b', 'c', 'd', 'e']);
+    expect(rounds).toHaveLength(5);
+    const pairs = rounds.flat().map(([a, b]) => [a, b].sort().join('|'));
+    expect(new Set(pairs).size).toBe(10);
+    for (const round of rounds) {
+      const players = round.flat();
+      expect(new Set(players).size).toBe(players.length);
+    }
+  });
+});
+
+describe('TournamentService', () => {
+  it('seeds a single elimination bracket with byes and starts first-round challenges', () => {
+    const { tournaments } = setup();
+    const created = tournaments.createTournament({
+      format: 'single_elimination',
+      gameType: 'rps',
+      entrants: ['a', 'b', 'c']
+    });
+    expect(created.event).toBe('created');
+    expect(created.tournamentId).toMatch(/^t_srv_test_[a-z0-9]+$/);
+
+    const updates = tournaments.start(created.tournamentId!);
+    const tournament = tournaments.getTournament(created.tournamentId!)!;
+    expect(tournament.status).toBe('active');
+    expect(tournament.matches).toHaveLength(2);
+    expect(tournament.matches[0]).toMatchObject({ playerAId: 'a', playerBId: null, status: 'completed', reason: 'bye' });
+    expect(tournament.matches[1]).toMatchObject({ playerAId: 'b', playerBId: 'c', status: 'live' });
+
+    const challengeEvents = createdChallenges(updates);
+    expect(challengeEvents).toHaveLength(1);
+    expect(challengeEvents[0]?.challenge).toMatchObject({ challengerId: 'b', opponentId: 'c', gameType: 'rps' });
+  });
+
+  it('advances winners until a champion is crowned', () => {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'single_elimination',
+      gameType: 'rps',
+      entrants: ['a', 'b', 'c', 'd']
+    });
+    const [first, second] = createdChallenges(tournaments.start(tournamentId!));
+
+    tournaments.handleChallengeEvent(playRps(challenges, first!.challengeId!, 'a'));
+    const afterSemis = tournaments.handleChallengeEvent(playRps(challenges, second!.challengeId!, 'c'));
+    const [final] = createdChallenges(afterSemis);
+    expect(final?.challenge).toMatchObject({ challengerId: 'a', opponentId: 'c' });
+
+    const finished = tournaments.handleChallengeEvent(playRps(challenges, final!.challengeId!, 'c'));
+    expect(finished.some((update) => update.type === 'tournament' && update.event === 'completed')).toBe(true);
+    const tournament = tournaments.getTournament(tournamentId!)!;
+    expect(tournament.status).toBe('completed');
+    expect(tournament.winnerId).toBe('c');
+    expect(tournament.entrants.find((entrant) => entrant.playerId === 'a')?.eliminated).toBe(true);
+  });
+
+  it('treats a declined match as a forfeit by the opponent', () => {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'single_elimination',
+      gameType: 'coinflip',
+      entrants: ['a', 'b']
+    });
+    const [match] = createdChallenges(tournaments.start(tournamentId!));
+
+    const declined = challenges.respond(match!.challengeId!, 'b', false);
+    tournaments.handleChallengeEvent(declined);
+
+    const tournament = tournaments.getTournament(tournamentId!)!;
+    expect(tournament.matches[0]).toMatchObject({ winnerId: 'a', loserId: 'b', forfeit: true });
+    expect(tournament.winnerId).toBe('a');
+  });
+
+  it('forfeits the idle player when an accepted match expires', () => {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'round_robin',
+      gameType: 'rps',
+      entrants: ['a', 'b']
+    });
+    const [match] = createdChallenges(tournaments.start(tournamentId!));
+    challenges.respond(match!.challengeId!, 'b', true);
+    challenges.submitMove(match!.challengeId!, 'b', 'paper');
+
+    const aborted = challenges.abortChallenge(match!.challengeId!, 'expired', 'player_disconnected');
+    tournaments.handleChallengeEvent(aborted);
+
+    const tournament = tournaments.getTournament(tournamentId!)!;
+    expect(tournament.matches[0]).toMatchObject({ winnerId: 'b', loserId: 'a', forfeit: true });
+    expect(tournament.winnerId).toBe('b');
+  });
+
+  it('replays tied elimination matches with a fresh challenge', () => {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'single_elimination',
+      gameType: 'rps',
+      entrants: ['a', 'b']
+    });
+    const [match] = createdChallenges(tournaments.start(tournamentId!));
+    challenges.respond(match!.challengeId!, 'b', true);
+    challenges.submitMove(match!.challengeId!, 'a', 'rock');
+    const tied = challenges.submitMove(match!.challengeId!, 'b', 'rock');
+
+    const [replay] = createdChallenges(tournaments.handleChallengeEvent(tied));
+    expect(replay?.challengeId).toBeDefined();
+    expect(replay?.challengeId).not.toBe(match!.challengeId);
+    const tournament = tournaments.getTournament(tournamentId!)!;
+    expect(tournament.matches[0]?.challengeIds).toHaveLength(2);
+    expect(tournament.matches[0]?.status).toBe('live');
+  });
+
+  it('routes losers through a losers bracket and resets the grand final', () => {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'double_elimination',
+      gameType: 'rps',
+      entrants: ['a', 'b', 'c', 'd']
+    });
+    const [ad, bc] = createdChallenges(tournaments.start(tournamentId!));
+    tournaments.handleChallengeEvent(playRps(challenges, ad!.challengeId!, 'a'));
+    const round2 = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, bc!.challengeId!, 'b')));
+    const winnersFinal = round2.find((event) => event.challenge?.challengerId === 'a');
+    const losersRound1 = round2.find((event) => event.challenge?.challengerId === 'c');
+    expect(winnersFinal?.challenge?.opponentId).toBe('b');
+    expect(losersRound1?.challenge?.opponentId).toBe('d');
+
+    const afterLosers = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, losersRound1!.challengeId!, 'c')));
+    expect(afterLosers).toHaveLength(0);
+    const [losersFinal] = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, winnersFinal!.challengeId!, 'a')));
+    expect(losersFinal?.challenge).toMatchObject({ challengerId: 'b', opponentId: 'c' });
+
+    const [grandFinal] = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, losersFinal!.challengeId!, 'c')));
+    expect(grandFinal?.challenge).toMatchObject({ challengerId: 'a', opponentId: 'c' });
+    const [reset] = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, grandFinal!.challengeId!, 'c')));
+    expect(reset?.challenge).toMatchObject({ challengerId: 'a', opponentId: 'c' });
+
+    tournaments.handleChallengeEvent(playRps(challenges, reset!.challengeId!, 'c'));
+    const tournament = tournaments.getTournament(tournamentId!)!;
+    expect(tournament.status).toBe('completed');
+    expect(tournament.winnerId).toBe('c');
+    expect(tournament.matches.filter((match) => match.bracket === 'grand_final')).toHaveLength(2);
+  });
+
+  /** Double elimination where the losers-bracket champion 'a' out-seeds the winners-bracket champion 'b'. */
+  function upsetGrandFinal() {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'double_elimination',
+      gameType: 'rps',
+      entrants: ['a', 'b', 'c', 'd']
+    });
+    const [ad, bc] = createdChallenges(tournaments.start(tournamentId!));
+    tournaments.handleChallengeEvent(playRps(challenges, ad!.challengeId!, 'd'));
+    const round2 = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, bc!.challengeId!, 'b')));
+    const winnersFinal = round2.find((event) => event.challenge?.challengerId === 'b');
+    const losersRound1 = round2.find((event) => event.challenge?.challengerId === 'a');
+    tournaments.handleChallengeEvent(playRps(challenges, losersRound1!.challengeId!, 'a'));
+    const [losersFinal] = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, winnersFinal!.challengeId!, 'b')));
+    expect(losersFinal?.challenge).toMatchObject({ challengerId: 'a', opponentId: 'd' });
+    const [grandFinal] = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, losersFinal!.challengeId!, 'a')));
+    expect(grandFinal?.challenge).toMatchObject({ challengerId: 'a', opponentId: 'b' });
+    return { challenges, tournaments, tournamentId: tournamentId!, grandFinal: grandFinal! };
+  }
+
+  it('crowns the winners-bracket champion without a reset when they win the grand final', () => {
+    const { challenges, tournaments, tournamentId, grandFinal } = upsetGrandFinal();
+    const created = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, grandFinal.challengeId!, 'b')));
+    expect(created).toHaveLength(0);
+    const tournament = tournaments.getTournament(tournamentId)!;
+    expect(tournament.status).toBe('completed');
+    expect(tournament.winnerId).toBe('b');
+    expect(tournament.matches.filter((match) => match.bracket === 'grand_final')).toHaveLength(1);
+  });
+
+  it('resets the grand final when the better-seeded losers-bracket champion wins it', () => {
+    const { challenges, tournaments, tournamentId, grandFinal } = upsetGrandFinal();
+    const [reset] = createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, grandFinal.challengeId!, 'a')));
+    expect(reset?.challenge).toMatchObject({ challengerId: 'a', opponentId: 'b' });
+    expect(tournaments.getTournament(tournamentId)!.status).toBe('active');
+
+    tournaments.handleChallengeEvent(playRps(challenges, reset!.challengeId!, 'a'));
+    const tournament = tournaments.getTournament(tournamentId)!;
+    expect(tournament.status).toBe('completed');
+    expect(tournament.winnerId).toBe('a');
+    expect(tournament.matches.filter((match) => match.bracket === 'grand_final')).toHaveLength(2);
+  });
+
+  it('plays every round robin pairing and crowns the points leader', () => {
+    const { challenges, tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'round_robin',
+      gameType: 'rps',
+      entrants: ['a', 'b', 'c']
+    });
+    let pending = createdChallenges(tournaments.start(tournamentId!));
+    let played = 0;
+    while (pending.length > 0) {
+      const next: ChallengeEvent[] = [];
+      for (const event of pending) {
+        const challenge = event.challenge!;
+        const winnerId = [challenge.challengerId, challenge.opponentId].includes('b') ? 'b' : challenge.challengerId;
+        next.push(...createdChallenges(tournaments.handleChallengeEvent(playRps(challenges, challenge.id, winnerId))));
+        played += 1;
+      }
+      pending = next;
+    }
+
+    const tournament = tournaments.getTournament(tournamentId!)!;
+    expect(played).toBe(3);
+    expect(tournament.status).toBe('completed');
+    expect(tournament.winnerId).toBe('b');
+  });
+
+  it('holds matches while a player is busy and starts them on tick', () => {
+    const { challenges, tournaments } = setup();
+    challenges.createChallenge('a', 'z', 'rps', 0);
+    const { tournamentId } = tournaments.createTournament({
+      format: 'single_elimination',
+      gameType: 'rps',
+      entrants: ['a', 'b']
+    });
+
+    expect(createdChallenges(tournaments.start(tournamentId!))).toHaveLength(0);
+    expect(tournaments.getTournament(tournamentId!)?.matches[0]?.status).toBe('ready');
+
+    challenges.clearDisconnectedPlayer('z');
+    expect(createdChallenges(tournaments.tick())).toHaveLength(1);
+  });
+
+  it('rejects registration changes once started', () => {
+    const { tournaments } = setup();
+    const { tournamentId } = tournaments.createTournament({
+      format: 'single_elimination',
+      gameType: 'rps',
+      maxEntrants: 2,
+      entrants: ['a']
+    });
+    expect(tournaments.join(tournamentId!, 'a').reason).toBe('already_joined');
+    expect(tournaments.join(tournamentId!, 'system_house').reason).toBe('invalid_player');
+    expect(tournaments.join(tournamentId!, 'b').event).toBe('joined');
+    expect(tournaments.join(tournamentId!, 'c').reason).toBe('tournament_full');
+    tournaments.start(tournamentId!);
+    expect(tournaments.leave(tournamentId!, 'a').reason).toBe('tournament_not_registering');
+  });
+
+  it('accepts any game in the shared registry', () => {
+    const { tournaments } = setup();
+    const create = (gameType: GameType) => tournaments.createTournament({ format: 'round_robin', gameType, entrants: ['a', 'b'] });
+    expect(create('rps_blitz' as GameType).reason).toBe('invalid_game_type');
+
+    registerGameDefinition({ ...getGameDefinition('rps')!, type: 'rps_blitz' as GameType });
+    expect(create('rps_blitz' as GameType).event).toBe('created');
+  });
+});
@@ -0,0 +1,655 @@
+import type {
+  ChallengeEvent,
+  GameType,
+  Tournament,
+  TournamentEntrant,
+  TournamentEvent,
+  TournamentEventType,
+  TournamentFormat,
+  TournamentMatch
+} from '@arena/shared';
+import { getGameDefinition } from '@arena/shared';
+import type { ChallengeService } from '../ChallengeService.js';
+
+export type { Tournament, TournamentEvent, TournamentFormat, TournamentMatch };
+
+/**
+ * Tournament operations emit both bracket events and the challenge events for
+ * matches they start or abort; callers dispatch each kind through its usual path.
+ */
+export type TournamentUpdate = ChallengeEvent | TournamentEvent;
+
+export type CreateTournamentInput = {
+  name?: string;
+  format: TournamentFormat;
+  gameType: GameType;
+  wager?: number;
+  maxEntrants?: number;
+  entrants?: string[];
+};
+
+const TOURNAMENT_FORMATS: TournamentFormat[] = ['single_elimination', 'double_elimination', 'round_robin'];
+const MAX_TOURNAMENTS = 100;
+
+/**
+ * Seed order for a power-of-two bracket, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6],
+ * so the top seeds can only meet in the latest rounds.
+ */
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const mirror = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, mirror - seed]);
+  }
+  return order;
+}
+
+/**
+ * Circle-method schedule: every player meets every other player once and
+ * plays at most one match per round. Odd fields give one player a bye per round.
+ */
+export function roundRobinSchedule(playerIds: string[]): Array<Array<[string, string]>> {
+  const slots: Array<string | null> = [...playerIds];
+  if (slots.length % 2 === 1) {
+    slots.push(null);
+  }
+  const rounds: Array<Array<[string, string]>> = [];
+  for (let round = 0; round < slots.length - 1; round += 1) {
+    const pairs: Array<[string, string]> = [];
+    for (let i = 0; i < slots.length / 2; i += 1) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (a && b) {
+        pairs.push([a, b]);
+      }
+    }
+    rounds.push(pairs);
+    const last = slots.pop() ?? null;
+    slots.splice(1, 0, last);
+  }
+  return rounds;
+}
+
+export class TournamentService {
+  private readonly tournaments = new Map<string, Tournament>();
+  private readonly matchByChallenge = new Map<string, { tournamentId: string; matchId: string }>();
+  private readonly roundRobinSchedules = new Map<string, Array<Array<[string, string]>>>();
+  private tournamentCounter = 1;
+  private readonly tournamentIdPrefix: string;
+
+  constructor(
+    private readonly challenges: ChallengeService,
+    private readonly now: () => number,
+    private readonly random: () => number,
+    tournamentIdPrefix = 'default',
+    private readonly maxMatchAttempts = 3
+  ) {
+    this.tournamentIdPrefix = String(tournamentIdPrefix || 'default')
+      .toLowerCase()
+      .replace(/[^a-z0-9_-]/g, '_')
+      .slice(0, 48) || 'default';
+  }
+
+  createTournament(input: CreateTournamentInput): TournamentEvent {
+    if (!TOURNAMENT_FORMATS.includes(input.format)) {
+      return { type: 'tournament', event: 'invalid', reason: 'invalid_format' };
+    }
+    if (!getGameDefinition(input.gameType)) {
+      return { type: 'tournament', event: 'invalid', reason: 'invalid_game_type' };
+    }
+
+    const requestedMax = Math.floor(Number(input.maxEntrants ?? 16));
+    const wager = Number(input.wager ?? 0);
+    let id = '';
+    do {
+      id = `t_${this.tournamentIdPrefix}_${(this.tournamentCounter++).toString(36)}`;
+    } while (this.tournaments.has(id));
+
+    const tournament: Tournament = {
+      id,
+      name: String(input.name ?? '').trim().slice(0, 64) || id,
+      format: input.format,
+      gameType: input.gameType,
+      wager: Math.max(0, Math.min(10_000, Number.isFinite(wager) ? wager : 0)),
+      maxEntrants: Number.isFinite(requestedMax) ? Math.max(2, Math.min(64, requestedMax)) : 16,
+      status: 'registering',
+      entrants: [],
+      matches: [],
+      createdAt: this.now(),
+      startedAt: null,
+      completedAt: null,
+      winnerId: null
+    };
+    for (const playerId of input.entrants ?? []) {
+      this.addEntrant(tournament, playerId);
+    }
+
+    this.tournaments.set(id, tournament);
+    this.pruneFinished();
+    return this.tournamentEvent(tournament, 'created');
+  }
+
+  join(tournamentId: string, playerId: string): TournamentEvent {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) {
+      return { type: 'tournament', event: 'invalid', reason: 'tournament_not_found' };
+    }
+    if (tournament.status !== 'registering') {
+      return { type: 'tournament', event: 'invalid', tournamentId, reason: 'tournament_not_registering' };
+    }
+    if (tournament.entrants.some((entrant) => entrant.playerId === playerId)) {
+      return { type: 'tournament', event: 'invalid', tournamentId, reason: 'already_joined' };
+    }
+    if (tournament.entrants.length >= tournament.maxEntrants) {
+      return { type: 'tournament', event: 'invalid', tournamentId, reason: 'tournament_full' };
+    }
+    if (!this.addEntrant(tournament, playerId)) {
+      return { type: 'tournament', event: 'invalid', tournamentId, reason: 'invalid_player' };
+    }
+    return this.tournamentEvent(tournament, 'joined');
+  }
+
+  leave(tournamentId: string, playerId: string): TournamentEvent {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) {
+      return { type: 'tournament', event: 'invalid', reason: 'tournament_not_found' };
+    }
+    if (tournament.status !== 'registering') {
+      return { type: 'tournament', event: 'invalid', tournamentId, reason: 'tournament_not_registering' };
+    }
+    const index = tournament.entrants.findIndex((entrant) => entrant.playerId === playerId);
+    if (index < 0) {
+      return { type: 'tournament', event: 'invalid', tournamentId, reason: 'not_entrant' };
+    }
+    tournament.entrants.splice(index, 1);
+    tournament.entrants.forEach((entrant, seedIndex) => {
+      entrant.seed = seedIndex + 1;
+    });
+    return { ...this.tournamentEvent(tournament, 'left'), to: [...this.entrantIds(tournament), playerId] };
+  }
+
+  start(tournamentId: string, options: { shuffle?: boolean } = {}): TournamentUpdate[] {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) {
+      return [{ type: 'tournament', event: 'invalid', reason: 'tournament_not_found' }];
+    }
+    if (tournament.status !== 'registering') {
+      return [{ type: 'tournament', event: 'invalid', tournamentId, reason: 'tournament_not_registering' }];
+    }
+    if (tournament.entrants.length < 2) {
+      return [{ type: 'tournament', event: 'invalid', tournamentId, reason: 'not_enough_entrants' }];
+    }
+
+    if (options.shuffle) {
+      const entrants = tournament.entrants;
+      for (let i = entrants.length - 1; i > 0; i -= 1) {
+        const j = Math.floor(this.random() * (i + 1));
+        const a = entrants[i];
+        const b = entrants[j];
+        if (a && b) {
+          entrants[i] = b;
+          entrants[j] = a;
+        }
+      }
+    }
+    tournament.entrants.forEach((entrant, index) => {
+      entrant.seed = index + 1;
+    });
+
+    tournament.status = 'active';
+    tournament.startedAt = this.now();
+
+    if (tournament.format === 'round_robin') {
+      this.roundRobinSchedules.set(
+        tournament.id,
+        roundRobinSchedule(tournament.entrants.map((entrant) => entrant.playerId))
+      );
+    } else {
+      this.seedEliminationBracket(tournament);
+    }
+
+    const updates: TournamentUpdate[] = [this.tournamentEvent(tournament, 'started')];
+    this.progress(tournament, updates);
+    this.launchReadyMatches(tournament, updates);
+    return updates;
+  }
+
+  cancel(tournamentId: string, reason = 'cancelled'): TournamentUpdate[] {
+    const tournament = this.tournaments.get(tournamentId);
+    if (!tournament) {
+      return [{ type: 'tournament', event: 'invalid', reason: 'tournament_not_found' }];
+    }
+    if (tournament.status === 'completed' || tournament.status === 'cancelled') {
+      return [{ type: 'tournament', event: 'invalid', tournamentId, reason: 'tournament_closed' }];
+    }
+
+    tournament.status = 'cancelled';
+    tournament.completedAt = this.now();
+    const updates: TournamentUpdate[] = [];
+    for (const match of tournament.matches) {
+      if (match.status === 'live' && match.challengeId) {
+        this.matchByChallenge.delete(match.challengeId);
+        const aborted = this.challenges.abortChallenge(match.challengeId, 'declined', 'tournament_cancelled');
+        if (aborted.event !== 'invalid') {
+          updates.push(aborted);
+        }
+      }
+    }
+    updates.push({ ...this.tournamentEvent(tournament, 'cancelled'), reason });
+    return updates;
+  }
+
+  getTournament(tournamentId: string): Tournament | null {
+    return this.tournaments.get(tournamentId) ?? null;
+  }
+
+  list(limit = 20): Tournament[] {
+    return [...this.tournaments.values()].reverse().slice(0, Math.max(0, limit));
+  }
+
+  /**
+   * Feed terminal challenge events back into the bracket. Declines and pending
+   * expiries forfeit the opponent; an accepted match that expires forfeits the
+   * player who never moved, and is replayed when neither side can be blamed.
+   */
+  handleChallengeEvent(event: ChallengeEvent): TournamentUpdate[] {
+    const challenge = event.challenge;
+    if (!challenge || (event.event !== 'resolved' && event.event !== 'declined' && event.event !== 'expired')) {
+      return [];
+    }
+    const ref = this.matchByChallenge.get(challenge.id);
+    if (!ref) {
+      return [];
+    }
+    this.matchByChallenge.delete(challenge.id);
+
+    const tournament = this.tournaments.get(ref.tournamentId);
+    const match = tournament?.matches.find((candidate) => candidate.id === ref.matchId);
+    if (!tournament || !match || tournament.status !== 'active' || match.status !== 'live' || match.challengeId !== challenge.id) {
+      return [];
+    }
+
+    const updates: TournamentUpdate[] = [];
+    const playerBId = match.playerBId ?? '';
+    if (event.event === 'resolved') {
+      if (challenge.winnerId === match.playerAId || challenge.winnerId === playerBId) {
+        const loserId = challenge.winnerId === match.playerAId ? playerBId : match.playerAId;
+        this.completeMatch(tournament, match, challenge.winnerId, loserId, false, event.reason ?? 'resolved', updates);
+      } else if (tournament.format === 'round_robin') {
+        this.completeMatch(tournament, match, null, null, false, event.reason ?? 'draw', updates);
+      } else {
+        this.replayMatch(tournament, match, event.reason ?? 'tie', updates);
+      }
+    } else {
+      const forfeitId = this.forfeitingPlayer(challenge);
+      if (forfeitId === match.playerAId || forfeitId === playerBId) {
+        const winnerId = forfeitId === match.playerAId ? playerBId : match.playerAId;
+        this.completeMatch(tournament, match, winnerId, forfeitId, true, event.reason ?? event.event, updates);
+      } else {
+        this.replayMatch(tournament, match, event.reason ?? event.event, updates);
+      }
+    }
+
+    this.launchReadyMatches(tournament, updates);
+    return updates;
+  }
+
+  /**
+   * Start matches that were waiting on a player who was busy in another challenge.
+   */
+  tick(): TournamentUpdate[] {
+    const updates: TournamentUpdate[] = [];
+    for (const tournament of this.tournaments.values()) {
+      if (tournament.status === 'active') {
+        this.launchReadyMatches(tournament, updates);
+      }
+    }
+    return updates;
+  }
+
+  private addEntrant(tournament: Tournament, rawPlayerId: string): boolean {
+    const playerId = String(rawPlayerId ?? '').trim();
+    if (!playerId || playerId === 'system_house') {
+      return false;
+    }
+    if (tournament.entrants.length >= tournament.maxEntrants) {
+      return false;
+    }
+    if (tournament.entrants.some((entrant) => entrant.playerId === playerId)) {
+      return false;
+    }
+    tournament.entrants.push({
+      playerId,
+      seed: tournament.entrants.length + 1,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      eliminated: false
+    });
+    return true;
+  }
+
+  private seedEliminationBracket(tournament: Tournament): void {
+    let size = 1;
+    while (size < tournament.entrants.length) {
+      size *= 2;
+    }
+    const order = bracketSeedOrder(size);
+    for (let i = 0; i + 1 < order.length; i += 2) {
+      const a = tournament.entrants[(order[i] ?? 0) - 1];
+      const b = tournament.entrants[(order[i + 1] ?? 0) - 1];
+      const top = a ?? b;
+      if (!top) {
+        continue;
+      }
+      const bottom = a && b ? b : null;
+      const match = this.addMatch(tournament, 'winners', 1, top.playerId, bottom?.playerId ?? null);
+      if (!bottom) {
+        match.status = 'completed';
+        match.winnerId = top.playerId;
+        match.reason = 'bye';
+      }
+    }
+  }
+
+  private addMatch(
+    tournament: Tournament,
+    bracket: TournamentMatch['bracket'],
+    round: number,
+    playerAId: string,
+    playerBId: string | null
+  ): TournamentMatch {
+    // Better seed challenges; it also takes the ambiguous-forfeit tiebreak.
+    const seedA = this.entrant(tournament, playerAId)?.seed ?? Number.MAX_SAFE_INTEGER;
+    const seedB = playerBId ? (this.entrant(tournament, playerBId)?.seed ?? Number.MAX_SAFE_INTEGER) : Number.MAX_SAFE_INTEGER;
+    const swap = playerBId !== null && seedB < seedA;
+    const match: TournamentMatch = {
+      id: `${tournament.id}_m${tournament.matches.length + 1}`,
+      bracket,
+      round,
+      playerAId: swap && playerBId ? playerBId : playerAId,
+      playerBId: swap ? playerAId : playerBId,
+      status: 'ready',
+      challengeId: null,
+      challengeIds: [],
+      winnerId: null,
+      loserId: null,
+      forfeit: false,
+      reason: null
+    };
+    tournament.matches.push(match);
+    return match;
+  }
+
+  private completeMatch(
+    tournament: Tournament,
+    match: TournamentMatch,
+    winnerId: string | null,
+    loserId: string | null,
+    forfeit: boolean,
+    reason: string,
+    updates: TournamentUpdate[]
+  ): void {
+    match.status = 'completed';
+    match.winnerId = winnerId;
+    match.loserId = loserId;
+    match.forfeit = forfeit;
+    match.reason = reason;
+
+    const winner = winnerId ? this.entrant(tournament, winnerId) : null;
+    const loser = loserId ? this.entrant(tournament, loserId) : null;
+    if (winner && loser) {
+      winner.wins += 1;
+      loser.losses += 1;
+      const lossLimit = tournament.format === 'double_elimination' ? 2 : tournament.format === 'single_elimination' ? 1 : Infinity;
+      loser.eliminated = loser.losses >= lossLimit;
+    } else {
+      for (const playerId of [match.playerAId, match.playerBId]) {
+        const entrant = playerId ? this.entrant(tournament, playerId) : null;
+        if (entrant) {
+          entrant.draws += 1;
+        }
+      }
+    }
+
+    updates.push(this.tournamentEvent(tournament, 'match_completed', match));
+    this.progress(tournament, updates);
+  }
+
+  private replayMatch(
+    tournament: Tournament,
+    match: TournamentMatch,
+    reason: string,
+    updates: TournamentUpdate[]
+  ): void {
+    if (match.challengeIds.length >= this.maxMatchAttempts) {
+      if (tournament.format === 'round_robin') {
+        this.completeMatch(tournament, match, null, null, false, 'no_contest', updates);
+      } else {
+        this.completeMatch(tournament, match, match.playerAId, match.playerBId, false, 'attempts_exhausted', updates);
+      }
+      return;
+    }
+    match.status = 'ready';
+    match.challengeId = null;
+    match.reason = reason;
+  }
+
+  private forfeitingPlayer(challenge: NonNullable<ChallengeEvent['challenge']>): string | null {
+    if (challenge.acceptedAt == null) {
+      return challenge.opponentId;
+    }
+    if (challenge.challengerMove && !challenge.opponentMove) {
+      return challenge.opponentId;
+    }
+    if (!challenge.challengerMove && challenge.opponentMove) {
+      return challenge.challengerId;
+    }
+    return null;
+  }
+
+  private progress(tournament: Tournament, updates: TournamentUpdate[]): void {
+    if (tournament.status !== 'active') {
+      return;
+    }
+    if (tournament.format === 'round_robin') {
+      this.progressRoundRobin(tournament, updates);
+      return;
+    }
+    this.progressElimination(tournament, updates);
+  }
+
+  private progressRoundRobin(tournament: Tournament, updates: TournamentUpdate[]): void {
+    const schedule = this.roundRobinSchedules.get(tournament.id) ?? [];
+    const round = this.latestRound(tournament, 'round_robin');
+    if (tournament.matches.some((match) => match.round === round && match.status !== 'completed')) {
+      return;
+    }
+    const pairs = schedule[round];
+    if (pairs) {
+      for (const [a, b] of pairs) {
+        this.addMatch(tournament, 'round_robin', round + 1, a, b);
+      }
+      return;
+    }
+
+    const standings = [...tournament.entrants].sort((a, b) => {
+      const points = (b.wins * 2 + b.draws) - (a.wins * 2 + a.draws);
+      return points !== 0 ? points : (b.wins - a.wins) || (a.seed - b.seed);
+    });
+    this.completeTournament(tournament, standings[0]?.playerId ?? null, updates);
+  }
+
+  private progressElimination(tournament: Tournament, updates: TournamentUpdate[]): void {
+    const winnersRound = this.latestRound(tournament, 'winners');
+    const winnersMatches = tournament.matches.filter(
+      (match) => match.bracket === 'winners' && match.round === winnersRound
+    );
+    if (winnersMatches.some((match) => match.status !== 'completed')) {
+      if (tournament.format === 'double_elimination') {
+        this.progressLosers(tournament, null);
+      }
+      return;
+    }
+
+    const advancing = winnersMatches
+      .map((match) => match.winnerId)
+      .filter((playerId): playerId is string => Boolean(playerId));
+    if (advancing.length >= 2) {
+      for (let i = 0; i + 1 < advancing.length; i += 2) {
+        this.addMatch(tournament, 'winners', winnersRound + 1, advancing[i] ?? '', advancing[i + 1] ?? null);
+      }
+      if (tournament.format === 'double_elimination') {
+        this.progressLosers(tournament, null);
+      }
+      return;
+    }
+
+    const winnersChampion = advancing[0] ?? null;
+    if (tournament.format !== 'double_elimination') {
+      this.completeTournament(tournament, winnersChampion, updates);
+      return;
+    }
+
+    const finals = tournament.matches.filter((match) => match.bracket === 'grand_final');
+    const lastFinal = finals[finals.length - 1];
+    if (lastFinal) {
+      if (lastFinal.status !== 'completed') {
+        return;
+      }
+      // Bracket reset: the losers-bracket champion has to beat the unbeaten player twice.
+      // Seeding may have put either champion in the playerA slot, so compare against
+      // the winners-bracket champion rather than the slot.
+      if (finals.length === 1 && lastFinal.winnerId && lastFinal.winnerId !== winnersChampion) {
+        this.addMatch(tournament, 'grand_final', 2, lastFinal.playerAId, lastFinal.playerBId);
+        return;
+      }
+      this.completeTournament(tournament, lastFinal.winnerId, updates);
+      return;
+    }
+
+    const losersChampion = this.progressLosers(tournament, winnersChampion);
+    if (losersChampion && winnersChampion) {
+      this.addMatch(tournament, 'grand_final', 1, winnersChampion, losersChampion);
+    } else if (losersChampion === null && !this.hasOpenMatch(tournament, 'losers')) {
+      this.completeTournament(tournament, winnersChampion, updates);
+    }
+  }
+
+  /**
+   * Losers bracket pairs one-loss players as they become free. Returns the
+   * losers-bracket champion once the winners bracket is decided and only one
+   * one-loss player is left standing.
+   */
+  private progressLosers(tournament: Tournament, winnersChampion: string | null): string | null | undefined {
+    if (this.hasOpenMatch(tournament, 'losers')) {
+      return undefined;
+    }
+    const busy = new Set<string>();
+    for (const match of tournament.matches) {
+      if (match.status !== 'completed') {
+        busy.add(match.playerAId);
+        if (match.playerBId) {
+          busy.add(match.playerBId);
+        }
+      }
+    }
+    const waiting = tournament.entrants
+      .filter((entrant) => !entrant.eliminated && entrant.losses === 1 && !busy.has(entrant.playerId))
+      .sort((a, b) => a.seed - b.seed);
+
+    if (waiting.length >= 2) {
+      const round = this.latestRound(tournament, 'losers') + 1;
+      for (let i = 0; i + 1 < waiting.length; i += 2) {
+        this.addMatch(tournament, 'losers', round, waiting[i]?.playerId ?? '', waiting[i + 1]?.playerId ?? null);
+      }
+      return undefined;
+    }
+    if (!winnersChampion) {
+      return undefined;
+    }
+    return waiting[0]?.playerId ?? null;
+  }
+
+  private launchReadyMatches(tournament: Tournament, updates: TournamentUpdate[]): void {
+    if (tournament.status !== 'active') {
+      return;
+    }
+    for (const match of tournament.matches) {
+      if (match.status !== 'ready' || !match.playerBId) {
+        continue;
+      }
+      if (this.challenges.isPlayerBusy(match.playerAId) || this.challenges.isPlayerBusy(match.playerBId)) {
+        continue;
+      }
+      const created = this.challenges.createChallenge(match.playerAId, match.playerBId, tournament.gameType, tournament.wager);
+      if (created.event !== 'created' || !created.challenge) {
+        continue;
+      }
+      match.status = 'live';
+      match.challengeId = created.challenge.id;
+      match.challengeIds.push(created.challenge.id);
+      this.matchByChallenge.set(created.challenge.id, { tournamentId: tournament.id, matchId: match.id });
+      updates.push(created);
+      updates.push({
+        ...this.tournamentEvent(tournament, 'match_started', match),
+        to: [match.playerAId, match.playerBId]
+      });
+    }
+  }
+
+  private completeTournament(tournament: Tournament, winnerId: string | null, updates: TournamentUpdate[]): void {
+    tournament.status = 'completed';
+    tournament.completedAt = this.now();
+    tournament.winnerId = winnerId;
+    updates.push(this.tournamentEvent(tournament, 'completed'));
+  }
+
+  private latestRound(tournament: Tournament, bracket: TournamentMatch['bracket']): number {
+    let round = 0;
+    for (const match of tournament.matches) {
+      if (match.bracket === bracket && match.round > round) {
+        round = match.round;
+      }
+    }
+    return round;
+  }
+
+  private hasOpenMatch(tournament: Tournament, bracket: TournamentMatch['bracket']): boolean {
+    return tournament.matches.some((match) => match.bracket === bracket && match.status !== 'completed');
+  }
+
+  private entrant(tournament: Tournament, playerId: string): TournamentEntrant | null {
+    return tournament.entrants.find((entrant) => entrant.playerId === playerId) ?? null;
+  }
+
+  private entrantIds(tournament: Tournament): string[] {
+    return tournament.entrants.map((entrant) => entrant.playerId);
+  }
+
+  private tournamentEvent(tournament: Tournament, event: TournamentEventType, match?: TournamentMatch): TournamentEvent {
+    return {
+      type: 'tournament',
+      event,
+      tournamentId: tournament.id,
+      tournament,
+      match,
+      to: this.entrantIds(tournament)
+    };
+  }
+
+  private pruneFinished(): void {
+    if (this.tournaments.size <= MAX_TOURNAMENTS) {
+      return;
+    }
+    for (const [id, tournament] of this.tournaments) {
+      if (this.tournaments.size <= MAX_TOURNAMENTS) {
+        break;
+      }
+      if (tournament.status === 'completed' || tournament.status === 'cancelled') {
+        this.tournaments.delete(id);
+        this.roundRobinSchedules.delete(id);
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { encodeWireClientMessage } from '@arena/shared';
 import { parseClientMessage } from './messages.js';
 
 describe('parseClientMessage station_interact', () => {
@@ -132,3 +133,102 @@ describe('parseClientMessage station_interact', () => {
     });
   });
 });
+
+describe('parseClientMessage challenge_send', () => {
+  it('defaults to a single round and accepts rounds as a bestOf alias', () => {
+    const single = parseClientMessage(
+      Buffer.from(JSON.stringify({ type: 'challenge_send', targetId: 'p2', gameType: 'rps', wager: 2 }))
+    );
+    expect(single).toEqual({ type: 'challenge_send', targetId: 'p2', gameType: 'rps', wager: 2, bestOf: 1 });
+
+    const series = parseClientMessage(
+      Buffer.from(JSON.stringify({ type: 'challenge_send', targetId: 'p2', gameType: 'dice_duel', rounds: 5 }))
+    );
+    expect(series).toMatchObject({ type: 'challenge_send', gameType: 'dice_duel', bestOf: 5 });
+  });
+});
+
+describe('parseClientMessage spectate', () => {
+  it('accepts exactly one of challengeId or stationId', () => {
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'spectate', challengeId: ' c_1 ' })))).toEqual({
+      type: 'spectate',
+      target: 'challenge',
+      id: 'c_1'
+    });
+    expect(
+      parseClientMessage(Buffer.from(JSON.stringify({ type: 'spectate_stop', stationId: 'station_dealer_coinflip' })))
+    ).toEqual({ type: 'spectate_stop', target: 'station', id: 'station_dealer_coinflip' });
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'spectate' })))).toBeNull();
+    expect(
+      parseClientMessage(Buffer.from(JSON.stringify({ type: 'spectate', challengeId: 'c_1', stationId: 's_1' })))
+    ).toBeNull();
+  });
+
+  it('parses room joins with optional world and room id', () => {
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'join', world: ' yard ', roomId: 'table_1' })))).toEqual({
+      type: 'join',
+      world: 'yard',
+      roomId: 'table_1'
+    });
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'join', roomId: 42 })))).toEqual({
+      type: 'join',
+      world: null,
+      roomId: null
+    });
+  });
+
+  it('parses snapshot acks', () => {
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'snapshot_ack', seq: 12 })))).toEqual({
+      type: 'snapshot_ack',
+      seq: 12
+    });
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'snapshot_ack', seq: -1 })))).toBeNull();
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'snapshot_ack', seq: 1.5 })))).toBeNull();
+  });
+
+  it('keeps valid input sequence numbers only', () => {
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'input', moveX: 0, moveZ: 1, seq: 41 })))).toEqual({
+      type: 'input',
+      moveX: 0,
+      moveZ: 1,
+      seq: 41
+    });
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'input', moveX: 0, moveZ: 1, seq: -3 })))).toEqual({
+      type: 'input',
+      moveX: 0,
+      moveZ: 1
+    });
+    const binary = parseClientMessage(Buffer.from(encodeWireClientMessage({ type: 'input', moveX: 0, moveZ: 1, seq: 42 })), true);
+    expect(binary).toMatchObject({ type: 'input', seq: 42 });
+  });
+
+  it('decodes binary input and ack frames', () => {
+    const input = parseClientMessage(Buffer.from(encodeWireClientMessage({ type: 'input', moveX: 1, moveZ: 0 })), true);
+    expect(input).toEqual({ type: 'input', moveX: 1, moveZ: 0 });
+    const ack = parseClientMessage(Buffer.from(encodeWireClientMessage({ type: 'snapshot_ack', seq: 9 })), true);
+    expect(ack).toEqual({ type: 'snapshot_ack', seq: 9 });
+    expect(parseClientMessage(Buffer.from('{"type":"input","moveX":1,"moveZ":0}'), true)).toBeNull();
+  });
+});
+
+describe('parseClientMessage escrow intents', () => {
+  it('parses signer registration and BetIntent signatures', () => {
+    const address = '0x1111111111111111111111111111111111111111';
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'escrow_signer', address })))).toEqual({
+      type: 'escrow_signer',
+      address
+    });
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'escrow_signer', address: null })))).toEqual({
+      type: 'escrow_signer',
+      address: null
+    });
+    expect(parseClientMessage(Buffer.from(JSON.stringify({ type: 'escrow_signer', address: '0x1234' })))).toBeNull();
+
+    expect(
+      parseClientMessage(Buffer.from(JSON.stringify({ type: 'escrow_intent', challengeId: 'c_1', signature: '0xabcd' })))
+    ).toEqual({ type: 'escrow_intent', challengeId: 'c_1', signature: '0xabcd' });
+    expect(
+      parseClientMessage(Buffer.from(JSON.stringify({ type: 'escrow_intent', challengeId: 'c_1', signature: 'not-hex' })))
+    ).toBeNull();
+  });
+});
@@ -2,13 +2,16 @@
  * WebSocket message types and parsing utilities
  */
 import type { RawData } from 'ws';
-import type { GameMove, GameType } from '@arena/shared';
+import type { DealerPickAction, DealerStartAction, GameMove, GameType, SnapshotAckMessage } from '@arena/shared';
+import { decodeWireClientMessage, findGameByDealerAction, isGameMove, isGameType } from '@arena/shared';
 
 // Client message types
 export type InputMessage = {
   type: 'input';
   moveX: number;
   moveZ: number;
+  /** Client-assigned, increasing; echoed back as `lastProcessedInput` in snapshots. */
+  seq?: number;
 };
 
 export type StationInteractMessage = {
@@ -16,30 +19,12 @@ export type StationInteractMessage = {
   stationId: string;
 } & (
   | {
-      action: 'coinflip_house_start';
+      action: DealerStartAction;
       wager: number;
     }
   | {
-      action: 'coinflip_house_pick';
-      pick: 'heads' | 'tails';
-      playerSeed: string;
-    }
-  | {
-      action: 'rps_house_start';
-      wager: number;
-    }
-  | {
-      action: 'rps_house_pick';
-      pick: 'rock' | 'paper' | 'scissors';
-      playerSeed: string;
-    }
-  | {
-      action: 'dice_duel_start';
-      wager: number;
-    }
-  | {
-      action: 'dice_duel_pick';
-      pick: 'd1' | 'd2' | 'd3' | 'd4' | 'd5' | 'd6';
+      action: DealerPickAction;
+      pick: GameMove;
       playerSeed: string;
     }
   | {
@@ -73,6 +58,8 @@ export type ChallengeSendMessage = {
   targetId: string;
   gameType: GameType;
   wager: number;
+  /** Best-of-N series length; `rounds` is accepted as an alias. */
+  bestOf: number;
 };
 
 export type ChallengeResponseMessage = {
@@ -93,13 +80,61 @@ export type ChallengeMoveMessage = {
   move: GameMove;
 };
 
+export type SideBetPlaceMessage = {
+  type: 'side_bet_place';
+  challengeId: string;
+  backedPlayerId: string;
+  amount: number;
+};
+
+/**
+ * Opts into non-custodial escrow with an external wallet address (null opts out).
+ */
+export type EscrowSignerMessage = {
+  type: 'escrow_signer';
+  address: string | null;
+};
+
+/**
+ * EIP-712 `BetIntent` signature answering an `escrow_intent_request`.
+ */
+export type EscrowIntentMessage = {
+  type: 'escrow_intent';
+  challengeId: string;
+  signature: string;
+};
+
+/**
+ * Spectator subscription to a single challenge or to every house round dealt at a station.
+ */
+export type SpectateMessage = {
+  type: 'spectate' | 'spectate_stop';
+  target: 'challenge' | 'station';
+  id: string;
+};
+
+/**
+ * Move to another world or room; both optional (no room auto-places into an instance).
+ */
+export type JoinRoomMessage = {
+  type: 'join';
+  world: string | null;
+  roomId: string | null;
+};
+
 export type ClientMessage =
   | InputMessage
   | StationInteractMessage
   | ChallengeSendMessage
   | ChallengeResponseMessage
   | ChallengeCounterMessage
-  | ChallengeMoveMessage;
+  | ChallengeMoveMessage
+  | SideBetPlaceMessage
+  | EscrowSignerMessage
+  | EscrowIntentMessage
+  | SpectateMessage
+  | JoinRoomMessage
+  | SnapshotAckMessage;
 
 /**
  * Convert raw WebSocket data to string
@@ -120,10 +155,21 @@ export function rawToString(raw: RawData): string {
   return '';
 }
 
+function rawToBytes(raw: RawData): Uint8Array {
+  if (Array.isArray(raw)) {
+    return Buffer.concat(raw);
+  }
+  return raw instanceof ArrayBuffer ? new Uint8Array(raw) : raw;
+}
+
 /**
- * Parse a client message from raw WebSocket data
+ * Parse a client message from raw WebSocket data. Binary frames carry the
+ * `@arena/shared` wire codec (inputs and snapshot acks only).
  */
-export function parseClientMessage(raw: RawData): ClientMessage | null {
+export function parseClientMessage(raw: RawData, isBinary = false): ClientMessage | null {
+  if (isBinary) {
+    return decodeWireClientMessage(rawToBytes(raw));
+  }
   try {
     const payload = JSON.parse(rawToString(raw)) as Record<string, unknown>;
 
@@ -135,7 +181,8 @@ export function parseClientMessage(raw: RawData): ClientMessage | null {
       return {
         type: 'input',
         moveX: payload.moveX,
-        moveZ: payload.moveZ
+        moveZ: payload.moveZ,
+        ...(Number.isSafeInteger(payload.seq) && Number(payload.seq) >= 0 ? { seq: Number(payload.seq) } : {})
       };
     }
 
@@ -199,61 +246,24 @@ export function parseClientMessage(raw: RawData): ClientMessage | null {
           stake: typeof payload.stake === 'number' ? payload.stake : 1
         };
       }
-      if (
-        payload.action === 'coinflip_house_start'
-        || payload.action === 'rps_house_start'
-        || payload.action === 'dice_duel_start'
-      ) {
+      const dealer = findGameByDealerAction(payload.action);
+      if (dealer?.phase === 'start') {
         return {
           type: 'station_interact',
           stationId: payload.stationId,
-          action: payload.action,
+          action: dealer.game.dealer.startAction,
           wager: typeof payload.wager === 'number' ? payload.wager : 1
         };
       }
       if (
-        payload.action === 'coinflip_house_pick' &&
-        typeof payload.pick === 'string' &&
-        (payload.pick === 'heads' || payload.pick === 'tails') &&
+        dealer?.phase === 'pick' &&
+        dealer.game.isMove(payload.pick) &&
         typeof payload.playerSeed === 'string'
       ) {
         return {
           type: 'station_interact',
           stationId: payload.stationId,
-          action: 'coinflip_house_pick',
-          pick: payload.pick,
-          playerSeed: payload.playerSeed
-        };
-      }
-      if (
-        payload.action === 'rps_house_pick' &&
-        typeof payload.pick === 'string' &&
-        (payload.pick === 'rock' || payload.pick === 'paper' || payload.pick === 'scissors') &&
-        typeof payload.playerSeed === 'string'
-      ) {
-        return {
-          type: 'station_interact',
-          stationId: payload.stationId,
-          action: 'rps_house_pick',
-          pick: payload.pick,
-          playerSeed: payload.playerSeed
-        };
-      }
-      if (
-        payload.action === 'dice_duel_pick' &&
-        typeof payload.pick === 'string' &&
-        (payload.pick === 'd1' ||
-          payload.pick === 'd2' ||
-          payload.pick === 'd3' ||
-          payload.pick === 'd4' ||
-          payload.pick === 'd5' ||
-          payload.pick === 'd6') &&
-        typeof payload.playerSeed === 'string'
-      ) {
-        return {
-          type: 'station_interact',
-          stationId: payload.stationId,
-          action: 'dice_duel_pick',
+          action: dealer.game.dealer.pickAction,
           pick: payload.pick,
           playerSeed: payload.playerSeed
         };
@@ -263,13 +273,16 @@ export function parseClientMessage(raw: RawData): ClientMessage | null {
     if (
       payload.type === 'challenge_send' &&
       typeof payload.targetId === 'string' &&
-      (payload.gameType === 'rps' || payload.gameType === 'coinflip' || payload.gameType === 'dice_duel')
+      isGameType(payload.gameType)
     ) {
       return {
         type: 'challenge_send',
         targetId: payload.targetId,
         gameType: payload.gameType,
-        wager: typeof payload.wager === 'number' ? payload.wager : 1
+        wager: typeof payload.wager === 'number' ? payload.wager : 1,
+        bestOf: typeof payload.bestOf === 'number'
+          ? payload.bestOf
+          : typeof payload.rounds === 'number' ? payload.rounds : 1
       };
     }
 
@@ -299,17 +312,7 @@ export function parseClientMessage(raw: RawData): ClientMessage | null {
     if (
       payload.type === 'challenge_move' &&
       typeof payload.challengeId === 'string' &&
-      (payload.move === 'rock' ||
-        payload.move === 'paper' ||
-        payload.move === 'scissors' ||
-        payload.move === 'heads' ||
-        payload.move === 'tails' ||
-        payload.move === 'd1' ||
-        payload.move === 'd2' ||
-        payload.move === 'd3' ||
-        payload.move === 'd4' ||
-        payload.move === 'd5' ||
-        payload.move === 'd6')
+      isGameMove(payload.move)
     ) {
       return {
         type: 'challenge_move',
@@ -318,6 +321,66 @@ export function parseClientMessage(raw: RawData): ClientMessage | null {
       };
     }
 
+    if (
+      payload.type === 'side_bet_place' &&
+      typeof payload.challengeId === 'string' &&
+      typeof payload.backedPlayerId === 'string' &&
+      typeof payload.amount === 'number'
+    ) {
+      return {
+        type: 'side_bet_place',
+        challengeId: payload.challengeId,
+        backedPlayerId: payload.backedPlayerId,
+        amount: payload.amount
+      };
+    }
+
+    if (payload.type === 'escrow_signer') {
+      if (payload.address === null) {
+        return { type: 'escrow_signer', address: null };
+      }
+      return typeof payload.address === 'string' && /^0x[0-9a-fA-F]{40}$/.test(payload.address)
+        ? { type: 'escrow_signer', address: payload.address }
+        : null;
+    }
+
+    if (
+      payload.type === 'escrow_intent' &&
+      typeof payload.challengeId === 'string' &&
+      typeof payload.signature === 'string' &&
+      /^0x(?:[0-9a-fA-F]{2}){1,2048}$/.test(payload.signature)
+    ) {
+      return {
+        type: 'escrow_intent',
+        challengeId: payload.challengeId,
+        signature: payload.signature
+      };
+    }
+
+    if (payload.type === 'spectate' || payload.type === 'spectate_stop') {
+      const challengeId = typeof payload.challengeId === 'string' ? payload.challengeId.trim() : '';
+      const stationId = typeof payload.stationId === 'string' ? payload.stationId.trim() : '';
+      if (Boolean(challengeId) === Boolean(stationId)) {
+        return null;
+      }
+      return {
+        type: payload.type,
+        target: challengeId ? 'challenge' : 'station',
+        id: (challengeId || stationId).slice(0, 128)
+      };
+    }
+
+    if (payload.type === 'snapshot_ack') {
+      const seq = Number(payload.seq);
+      return Number.isSafeInteger(seq) && seq > 0 ? { type: 'snapshot_ack', seq } : null;
+    }
+
+    if (payload.type === 'join') {
+      const world = typeof payload.world === 'string' ? payload.world.trim().slice(0, 64) : '';
+      const roomId = typeof payload.roomId === 'string' ? payload.roomId.trim().slice(0, 64) : '';
+      return { type: 'join', world: world || null, roomId: roomId || null };
+    }
+
     return null;
   } catch {
     return null;
@@ -1,3 +1,5 @@
+import { PREDICTION_TICK_MS } from './runtime/network/prediction.js';
+
 export function createMovementSystem({ THREE, state, socketRef, inputSystem, cameraController }) {
   const moveVec = new THREE.Vector3();
 
@@ -21,15 +23,41 @@ export function createMovementSystem({ THREE, state, socketRef, inputSystem, cam
     return { moveX: moveVec.x, moveZ: moveVec.z };
   }
 
+  // Fixed-tick clock for prediction (socketRef.prediction, set per connection).
+  let predictionClockMs = null;
+
+  function sendMessage(socket, message) {
+    socket.send(socketRef.encodeClientMessage ? socketRef.encodeClientMessage(message) : JSON.stringify(message));
+  }
+
+  function sendPredicted(socket, prediction, nowMs) {
+    if (predictionClockMs === null || nowMs - predictionClockMs > PREDICTION_TICK_MS * 10) {
+      // First frame or after a stall (hidden tab): do not replay the gap.
+      predictionClockMs = nowMs - PREDICTION_TICK_MS;
+    }
+    while (nowMs - predictionClockMs >= PREDICTION_TICK_MS) {
+      predictionClockMs += PREDICTION_TICK_MS;
+      const message = prediction.step(computeDesiredMove());
+      if (message) {
+        sendMessage(socket, message);
+      }
+    }
+  }
+
   function send(nowMs) {
     const socket = socketRef?.current || null;
     if (!state.wsConnected || !socket || socket.readyState !== WebSocket.OPEN) return;
 
+    if (socketRef.prediction) {
+      sendPredicted(socket, socketRef.prediction, nowMs);
+      return;
+    }
+
     const desired = computeDesiredMove();
     const signature = `${desired.moveX.toFixed(2)}:${desired.moveZ.toFixed(2)}`;
     if (signature === lastSignature && nowMs - lastSentAt < 100) return;
 
-    socket.send(JSON.stringify({ type: 'input', ...desired }));
+    sendMessage(socket, { type: 'input', ...desired });
     lastSignature = signature;
     lastSentAt = nowMs;
   }
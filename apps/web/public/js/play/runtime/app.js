@@ -1,4 +1,4 @@
-import { THREE, installResizeHandler, loadWorldWithProgress, makeCamera, makeRenderer, makeScene } from '../../world-common.js';
+import { THREE, installResizeHandler, loadWorldLayout, loadWorldWithProgress, makeCamera, makeRenderer, makeScene } from '../../world-common.js';
 import { getDom } from '../dom.js';
 import { WORLD_BOUND, createInitialState } from '../state.js';
 import { createToaster } from '../ui/toast.js';
@@ -26,6 +26,7 @@ import { deriveDealerGameType } from './dealer-game-type.js';
 import { computeMobileControlVisibility, isTouchLikeDevice } from './mobile-controls.js';
 import { renderMobileControlsRuntime } from './mobile-controls-renderer.js';
 import { createWalletSyncController } from './wallet-sync.js';
+import { createBetIntentSigner } from './bet-intent-signer.js';
 import { createEscrowApprovalController } from './escrow-approval.js';
 import { showResultSplash } from './result-splash.js';
 import { installRuntimeTestHooks } from './test-hooks.js';
@@ -325,6 +326,14 @@ const feedEvents = createFeedEventsController({
   renderChallengeFeed
 });
 const addFeedEvent = feedEvents.addFeedEvent;
+const betIntentSigner = createBetIntentSigner({
+  socketRef,
+  showToast,
+  addFeedEvent
+});
+if (queryParams.get('signer') === 'wallet' && !betIntentSigner.address) {
+  void betIntentSigner.connect();
+}
 const stationInteractions = createStationInteractionsController({
   state,
   showToast,
@@ -370,6 +379,7 @@ async function connectSocket() {
     refreshWalletBalanceAndShowDelta,
     handleChallenge,
     localAvatarParts,
+    betIntentSigner,
     challengeReasonLabel: (reason) => challengeReasonLabel(reason)
   });
 }
@@ -596,6 +606,7 @@ startRuntimeLifecycle({
   worldLoadingText,
   dispatch,
   loadWorldWithProgress,
+  loadWorldLayout,
   scene,
   setDisconnectedFallbackCamera: onDisconnectedFallbackCamera,
   worldStations,
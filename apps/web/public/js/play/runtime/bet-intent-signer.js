@@ -0,0 +1,114 @@
+const SIGNER_STORAGE_KEY = 'arena_external_signer';
+
+const EIP712_DOMAIN_TYPE = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' }
+];
+
+/**
+ * `eth_signTypedData_v4` payload for an `escrow_intent_request`; wallets need
+ * the domain type spelled out next to `BetIntent`.
+ */
+export function betIntentSignPayload(typedData) {
+  return JSON.stringify({
+    types: { EIP712Domain: EIP712_DOMAIN_TYPE, ...typedData.types },
+    domain: typedData.domain,
+    primaryType: typedData.primaryType,
+    message: typedData.message
+  });
+}
+
+/**
+ * Opt-in non-custodial escrow: stakes are locked from the player's own wallet
+ * once they sign each wager's EIP-712 `BetIntent`, instead of from the
+ * custodial arena wallet. `?signer=wallet` connects on load; the choice is
+ * remembered and re-registered on every reconnect.
+ */
+export function createBetIntentSigner(params) {
+  const {
+    socketRef,
+    showToast,
+    addFeedEvent,
+    getProvider = () => window.ethereum || null,
+    storage = window.localStorage
+  } = params;
+
+  let address = storage?.getItem(SIGNER_STORAGE_KEY) || '';
+
+  function send(message) {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  function register() {
+    if (address) {
+      send({ type: 'escrow_signer', address });
+    }
+  }
+
+  async function connect() {
+    const provider = getProvider();
+    if (!provider) {
+      showToast('No browser wallet found. Install a wallet extension to sign wagers yourself.', 'warning');
+      return false;
+    }
+    try {
+      const accounts = await provider.request({ method: 'eth_requestAccounts' });
+      address = String(accounts?.[0] || '');
+    } catch {
+      showToast('Wallet connection was not approved.', 'warning');
+      return false;
+    }
+    if (!address) {
+      return false;
+    }
+    storage?.setItem(SIGNER_STORAGE_KEY, address);
+    register();
+    addFeedEvent('system', `Wagers will be signed by ${address.slice(0, 6)}...${address.slice(-4)}.`);
+    return true;
+  }
+
+  function disconnect() {
+    address = '';
+    storage?.removeItem(SIGNER_STORAGE_KEY);
+    send({ type: 'escrow_signer', address: null });
+  }
+
+  async function signIntent(payload) {
+    const provider = getProvider();
+    const typedData = payload?.typedData;
+    if (!provider || !address || !typedData) {
+      return false;
+    }
+    try {
+      await provider.request({
+        method: 'wallet_switchEthereumChain',
+        params: [{ chainId: `0x${Number(typedData.domain.chainId).toString(16)}` }]
+      }).catch(() => undefined);
+      const signature = await provider.request({
+        method: 'eth_signTypedData_v4',
+        params: [address, betIntentSignPayload(typedData)]
+      });
+      return send({ type: 'escrow_intent', challengeId: payload.challengeId, signature: String(signature) });
+    } catch {
+      showToast('Wager signature was declined; the challenge will be cancelled.', 'warning');
+      return false;
+    }
+  }
+
+  return {
+    connect,
+    disconnect,
+    register,
+    signIntent,
+    get address() {
+      return address;
+    }
+  };
+}
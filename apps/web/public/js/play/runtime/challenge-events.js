@@ -58,6 +58,19 @@ export function handleChallengeEvent(params) {
     dispatch({ type: 'CHALLENGE_STATUS_SET', status: 'active', message: state.challengeMessage || '' });
   }
 
+  if (payload.event === 'round_resolved' && challenge) {
+    const rounds = Array.isArray(challenge.rounds) ? challenge.rounds : [];
+    const last = rounds[rounds.length - 1];
+    const mine = rounds.filter((round) => round.winnerId === state.playerId).length;
+    const theirs = rounds.filter((round) => round.winnerId && round.winnerId !== state.playerId).length;
+    const roundLabel = last?.winnerId ? `won by ${labelFor(last.winnerId)}` : 'tied, replaying';
+    dispatch({
+      type: 'CHALLENGE_STATUS_SET',
+      status: 'active',
+      message: `Round ${last?.round ?? rounds.length} ${roundLabel}. Series ${mine}-${theirs} (best of ${challenge.bestOf}).`
+    });
+  }
+
   if (payload.event === 'declined' && challenge) {
     state.respondingIncoming = false;
     state.activeChallenge = null;
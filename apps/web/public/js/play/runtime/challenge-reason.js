@@ -48,6 +48,16 @@ export function challengeReasonLabelForMode(reason, autoApproval) {
       return 'Invalid move for current game type.';
     case 'human_challenge_cooldown':
       return 'Target is in cooldown from recent agent challenges.';
+    case 'bet_intent_missing':
+      return 'Wager was not signed in your wallet in time. Challenge declined.';
+    case 'bet_intent_unavailable':
+      return 'Could not prepare the wager for your wallet to sign. Challenge declined.';
+    case 'bet_intent_expired':
+      return 'Signed wager approval expired. Send the challenge again.';
+    case 'bet_intent_signature_invalid':
+      return 'Wallet signature did not match this wager.';
+    case 'bet_intent_not_requested':
+      return 'This challenge is not waiting for a wallet signature.';
     default:
       return reason ? `Action rejected: ${reason}` : 'Challenge action rejected.';
   }
@@ -46,6 +46,9 @@ export function dealerReasonLabel(reason, reasonCode) {
   if (raw === 'dealer_round_expired') {
     return 'Round expired. Start a new round.';
   }
+  if (raw === 'dealer_busy') {
+    return 'Dealer is finishing another round. Try again in a moment.';
+  }
   if (raw === 'invalid_station_kind' || raw === 'invalid_station_action') {
     return 'This NPC cannot run that action. Try the station\'s primary game action.';
   }
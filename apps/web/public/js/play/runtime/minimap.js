@@ -2,10 +2,17 @@ import { WORLD_BOUND } from '../state.js';
 
 const minimapStateByCanvas = new WeakMap();
 
-function mapPointToWorld(canvas, x, y) {
+// Half-extent of the square map: the loaded world's bounds, else the default.
+function mapBoundFor(state) {
+  const bounds = state?.worldLayout?.bounds;
+  if (!bounds) return WORLD_BOUND;
+  return Math.max(Math.abs(bounds.minX), Math.abs(bounds.maxX), Math.abs(bounds.minZ), Math.abs(bounds.maxZ));
+}
+
+function mapPointToWorld(canvas, x, y, bound) {
   return {
-    worldX: (x / canvas.width) * (WORLD_BOUND * 2) - WORLD_BOUND,
-    worldZ: (y / canvas.height) * (WORLD_BOUND * 2) - WORLD_BOUND
+    worldX: (x / canvas.width) * (bound * 2) - bound,
+    worldZ: (y / canvas.height) * (bound * 2) - bound
   };
 }
 
@@ -21,7 +28,7 @@ function bindMinimapHover(worldMapCanvas) {
     const rect = worldMapCanvas.getBoundingClientRect();
     const x = ((event.clientX - rect.left) / Math.max(1, rect.width)) * worldMapCanvas.width;
     const y = ((event.clientY - rect.top) / Math.max(1, rect.height)) * worldMapCanvas.height;
-    const { worldX, worldZ } = mapPointToWorld(worldMapCanvas, x, y);
+    const { worldX, worldZ } = mapPointToWorld(worldMapCanvas, x, y, mapBoundFor(state));
     let nearest = null;
     let nearestDistance = 7.5;
 
@@ -58,13 +65,14 @@ export function renderMinimap(state, worldMapCanvas, mapCoords) {
   }
 
   const { width, height } = worldMapCanvas;
+  const bound = mapBoundFor(state);
   ctx.clearRect(0, 0, width, height);
   ctx.fillStyle = 'rgba(255,255,251,0.98)';
   ctx.fillRect(0, 0, width, height);
 
   for (const player of state.players.values()) {
-    const x = ((player.x + WORLD_BOUND) / (WORLD_BOUND * 2)) * width;
-    const y = ((player.z + WORLD_BOUND) / (WORLD_BOUND * 2)) * height;
+    const x = ((player.x + bound) / (bound * 2)) * width;
+    const y = ((player.z + bound) / (bound * 2)) * height;
     const isSelf = player.id === state.playerId;
     ctx.beginPath();
     ctx.arc(x, y, isSelf ? 4.8 : 3.2, 0, Math.PI * 2);
@@ -74,8 +82,8 @@ export function renderMinimap(state, worldMapCanvas, mapCoords) {
 
   if (state.stations instanceof Map) {
     for (const station of state.stations.values()) {
-      const x = ((station.x + WORLD_BOUND) / (WORLD_BOUND * 2)) * width;
-      const y = ((station.z + WORLD_BOUND) / (WORLD_BOUND * 2)) * height;
+      const x = ((station.x + bound) / (bound * 2)) * width;
+      const y = ((station.z + bound) / (bound * 2)) * height;
       ctx.fillStyle = station.kind === 'cashier_bank'
         ? 'rgba(47,109,255,.9)'
         : station.kind === 'dealer_prediction'
@@ -0,0 +1,103 @@
+// Built @arena/shared movement step, served by the web server (see sharedBrowserModules).
+const MOVEMENT_MODULE_URL = '/js/arena-shared/movement.js';
+
+// Must match the server's WorldSim step (20 Hz).
+export const PREDICTION_TICK_MS = 50;
+// Unacknowledged inputs kept for replay; beyond this the server is not echoing seqs.
+const MAX_PENDING_INPUTS = 60;
+
+export async function loadPredictionMovement() {
+  try {
+    return await import(MOVEMENT_MODULE_URL);
+  } catch (error) {
+    console.warn('[prediction] movement module unavailable, using server positions only', error);
+    return null;
+  }
+}
+
+/**
+ * Client-side prediction for the local player: every fixed tick the current
+ * input gets a seq, is applied locally with the shared movement step and is
+ * sent; each snapshot resets to the server position and replays the inputs
+ * the server has not processed yet (`lastProcessedInput`).
+ */
+export function createInputPrediction({ state, movement }) {
+  let nextSeq = 1;
+  let pending = [];
+  let body = null;
+
+  // Null until the world manifest has loaded; inputs are still numbered and sent.
+  function movementWorld() {
+    const layout = state.worldLayout;
+    if (!layout?.bounds) return null;
+    return { bounds: layout.bounds, obstacles: Array.isArray(layout.obstacles) ? layout.obstacles : [] };
+  }
+
+  function applyToLocal() {
+    const local = state.playerId ? state.players.get(state.playerId) : null;
+    if (!local || !body) return;
+    local.x = body.x;
+    local.z = body.z;
+    local.yaw = body.yaw;
+    local.speed = Math.hypot(body.vx, body.vz);
+  }
+
+  function isResting(input) {
+    const idle = Math.abs(input.moveX) < 1e-6 && Math.abs(input.moveZ) < 1e-6;
+    return idle && (!body || Math.hypot(body.vx, body.vz) < 0.01);
+  }
+
+  /**
+   * Advance one fixed tick with `input`. Returns the numbered input message to
+   * send, or null while idle and at rest (nothing to predict or send).
+   */
+  function step(input) {
+    if (isResting(input)) {
+      return null;
+    }
+    const seq = nextSeq;
+    nextSeq += 1;
+    pending.push({ seq, moveX: input.moveX, moveZ: input.moveZ });
+    if (pending.length > MAX_PENDING_INPUTS) {
+      pending = pending.slice(-MAX_PENDING_INPUTS);
+    }
+    const world = movementWorld();
+    if (body && world) {
+      movement.stepMovement(body, input, PREDICTION_TICK_MS / 1000, world);
+      applyToLocal();
+    }
+    return { type: 'input', moveX: input.moveX, moveZ: input.moveZ, seq };
+  }
+
+  /**
+   * Rebase on the server's view of the local player, then replay pending inputs.
+   * Velocity is not in snapshots; it is recovered from speed and yaw.
+   */
+  function reconcile(serverPlayer, lastProcessedInput) {
+    if (!serverPlayer) return;
+    const speed = Number(serverPlayer.speed) || 0;
+    const yaw = Number(serverPlayer.yaw) || 0;
+    body = {
+      x: Number(serverPlayer.x) || 0,
+      z: Number(serverPlayer.z) || 0,
+      vx: speed * Math.sin(yaw),
+      vz: speed * Math.cos(yaw),
+      yaw
+    };
+    if (typeof lastProcessedInput === 'number') {
+      pending = pending.filter((entry) => entry.seq > lastProcessedInput);
+    }
+    const world = movementWorld();
+    if (!world) return;
+    for (const entry of pending) {
+      movement.stepMovement(body, entry, PREDICTION_TICK_MS / 1000, world);
+    }
+    applyToLocal();
+  }
+
+  function pendingCount() {
+    return pending.length;
+  }
+
+  return { step, reconcile, pendingCount };
+}
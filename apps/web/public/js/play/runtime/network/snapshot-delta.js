@@ -0,0 +1,35 @@
+// Browser copy of SnapshotDeltaReceiver in packages/shared/src/snapshots.ts:
+// rebuilds full player lists from delta snapshots and yields the ack to send.
+export function createSnapshotDeltaReceiver() {
+  const frames = new Map();
+
+  function receive(delta) {
+    const baseSeq = delta.baseSeq ?? null;
+    const base = baseSeq === null ? null : frames.get(baseSeq);
+    if (baseSeq !== null && !base) {
+      return null;
+    }
+    const next = new Map(base || []);
+    for (const id of Array.isArray(delta.removed) ? delta.removed : []) {
+      next.delete(id);
+    }
+    for (const entry of Array.isArray(delta.players) ? delta.players : []) {
+      if (!entry || typeof entry.id !== 'string') continue;
+      const previous = next.get(entry.id);
+      next.set(entry.id, previous ? { ...previous, ...entry } : entry);
+    }
+    frames.set(delta.seq, next);
+    const oldest = baseSeq ?? delta.seq;
+    for (const seq of [...frames.keys()]) {
+      if (seq < oldest) {
+        frames.delete(seq);
+      }
+    }
+    return { players: [...next.values()], ack: { type: 'snapshot_ack', seq: delta.seq } };
+  }
+
+  return {
+    receive,
+    reset: () => frames.clear()
+  };
+}
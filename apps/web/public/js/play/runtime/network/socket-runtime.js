@@ -1,3 +1,18 @@
+import { createSnapshotDeltaReceiver } from './snapshot-delta.js';
+import { createInputPrediction, loadPredictionMovement } from './prediction.js';
+
+// Built @arena/shared wire codec, served by the web server (see sharedBrowserModules).
+const WIRE_CODEC_MODULE_URL = '/js/arena-shared/wire-codec.js';
+
+async function loadBinaryCodec() {
+  try {
+    return await import(WIRE_CODEC_MODULE_URL);
+  } catch (error) {
+    console.warn('[socket] binary codec unavailable, using JSON', error);
+    return null;
+  }
+}
+
 export async function connectSocketRuntime(deps) {
   const {
     resolveWsBaseUrl,
@@ -30,6 +45,7 @@ export async function connectSocketRuntime(deps) {
     refreshWalletBalanceAndShowDelta,
     handleChallenge,
     localAvatarParts,
+    betIntentSigner,
     challengeReasonLabel
   } = deps;
   const wsUrlObj = new URL(await resolveWsBaseUrl());
@@ -127,10 +143,52 @@ export async function connectSocketRuntime(deps) {
   if (sessionWsAuth) {
     wsUrlObj.searchParams.set('wsAuth', sessionWsAuth);
   }
+  // Join the instance of the loaded world; `?room=` pins a named room.
+  if (state.worldAlias) {
+    wsUrlObj.searchParams.set('world', state.worldAlias);
+  }
+  const requestedRoom = queryParams.get('room') || '';
+  if (requestedRoom) {
+    wsUrlObj.searchParams.set('room', requestedRoom);
+  }
+  // `?codec=binary` opts into binary snapshot/input frames; JSON stays the fallback.
+  const wireCodec = queryParams.get('codec') === 'binary' ? await loadBinaryCodec() : null;
+  if (wireCodec) {
+    wsUrlObj.searchParams.set('codec', 'binary');
+  }
+  // Local-player prediction is on unless `?predict=0`; seqs restart per connection.
+  const predictionMovement = queryParams.get('predict') === '0' ? null : await loadPredictionMovement();
   const wsUrl = wsUrlObj.toString();
   const socket = new WebSocket(wsUrl);
   setSocket(socket);
   socketRef.current = socket;
+  const snapshotReceiver = createSnapshotDeltaReceiver();
+  const snapshotDecoder = wireCodec ? new wireCodec.BinarySnapshotDecoder() : null;
+  if (snapshotDecoder) {
+    socket.binaryType = 'arraybuffer';
+  }
+  // Inputs and snapshot acks go through this so they follow the negotiated codec.
+  socketRef.encodeClientMessage = wireCodec
+    ? (message) => wireCodec.encodeWireClientMessage(message)
+    : (message) => JSON.stringify(message);
+  socketRef.prediction = predictionMovement ? createInputPrediction({ state, movement: predictionMovement }) : null;
+
+  // Stations arrive with welcome/room changes and afterwards only when they change.
+  const applyServerStations = (stations) => {
+    const stationSeen = new Set();
+    for (const station of Array.isArray(stations) ? stations : []) {
+      if (!station || typeof station.id !== 'string') continue;
+      stationSeen.add(station.id);
+      state.serverStations.set(station.id, copyStationFromPayload(station));
+    }
+    for (const id of [...state.serverStations.keys()]) {
+      if (!stationSeen.has(id)) {
+        state.serverStations.delete(id);
+      }
+    }
+    remapLocalStationProxies();
+    mergeStations();
+  };
 
   socket.addEventListener('open', () => {
     dispatch({ type: 'WS_CONNECTION_SET', connected: true });
@@ -144,6 +202,7 @@ export async function connectSocketRuntime(deps) {
       void presence.setPresence('online');
     }, 25_000);
     startWalletSyncScheduler();
+    betIntentSigner?.register();
   });
 
   socket.addEventListener('close', (event) => {
@@ -158,6 +217,12 @@ export async function connectSocketRuntime(deps) {
     if (code === 4401 || code === 4403 || reason.startsWith('ws_auth_')) {
       showToast('Session auth expired or mismatched. Please sign in again.', 'warning');
     }
+    if (code === 4429) {
+      showToast('Disconnected for unusual activity. Reconnecting...', 'warning');
+    }
+    if (code === 4409) {
+      showToast(reason === 'room_full' ? 'That room is full.' : `Could not join room (${reason}).`, 'warning');
+    }
     if (connectionState.presenceTimer) {
       window.clearInterval(connectionState.presenceTimer);
       connectionState.presenceTimer = null;
@@ -169,7 +234,9 @@ export async function connectSocketRuntime(deps) {
   socket.addEventListener('message', (event) => {
   let payload;
   try {
-    payload = JSON.parse(event.data);
+    payload = snapshotDecoder && event.data instanceof ArrayBuffer
+      ? snapshotDecoder.decode(new Uint8Array(event.data))
+      : JSON.parse(event.data);
   } catch {
     console.warn('[socket] failed to parse incoming message', event.data);
     return;
@@ -177,6 +244,8 @@ export async function connectSocketRuntime(deps) {
 
   if (payload.type === 'welcome') {
     state.playerId = payload.playerId;
+    state.roomId = payload.roomId || null;
+    applyServerStations(payload.stations);
     localAvatarParts.setName(`You (${payload.displayName || payload.playerId})`);
     if (payload.displayName) {
       localStorage.setItem('arena_last_name', payload.displayName);
@@ -185,11 +254,33 @@ export async function connectSocketRuntime(deps) {
     return;
   }
 
+  if (payload.type === 'room') {
+    if (payload.event === 'joined' && payload.room) {
+      state.roomId = payload.room.id;
+      addFeedEvent('system', `Joined room ${payload.room.id} (${payload.room.playerCount}/${payload.room.capacity}).`);
+    } else if (payload.event === 'rejected') {
+      showToast(`Could not join room (${payload.reason || 'unknown'}).`, 'warning');
+    }
+    return;
+  }
+
+  if (payload.type === 'stations') {
+    applyServerStations(payload.stations);
+    return;
+  }
+
   if (payload.type === 'snapshot') {
+    const rebuilt = snapshotReceiver.receive(payload);
+    if (!rebuilt) {
+      return;
+    }
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(socketRef.encodeClientMessage(rebuilt.ack));
+    }
     state.tick = payload.tick;
     const seen = new Set();
 
-    for (const player of payload.players) {
+    for (const player of rebuilt.players) {
       seen.add(player.id);
       const existing = state.players.get(player.id);
       const normalized = normalizeSnapshotPlayer(player, existing);
@@ -219,21 +310,9 @@ export async function connectSocketRuntime(deps) {
       }
     }
 
-    const stationSeen = new Set();
-    if (Array.isArray(payload.stations)) {
-      for (const station of payload.stations) {
-        if (!station || typeof station.id !== 'string') continue;
-        stationSeen.add(station.id);
-        state.serverStations.set(station.id, copyStationFromPayload(station));
-      }
-    }
-    for (const id of [...state.serverStations.keys()]) {
-      if (!stationSeen.has(id)) {
-        state.serverStations.delete(id);
-      }
+    if (socketRef.prediction && state.playerId) {
+      socketRef.prediction.reconcile(state.players.get(state.playerId), payload.lastProcessedInput);
     }
-    remapLocalStationProxies();
-    mergeStations();
 
     for (const id of [...state.players.keys()]) {
       if (!seen.has(id)) {
@@ -511,6 +590,19 @@ export async function connectSocketRuntime(deps) {
     return;
   }
 
+  if (payload.type === 'escrow_intent_request' && typeof payload.challengeId === 'string') {
+    addFeedEvent('escrow', 'Confirm the wager in your wallet to lock your stake.');
+    void betIntentSigner?.signIntent(payload);
+    return;
+  }
+
+  if (payload.type === 'escrow_intent') {
+    if (payload.ok === false) {
+      showToast(challengeReasonLabel(String(payload.reason || '')), 'warning');
+    }
+    return;
+  }
+
   if (payload.type === 'challenge_escrow' && typeof payload.challengeId === 'string') {
     const activeId = state.activeChallenge?.id || '';
     const incomingId = state.incomingChallengeId || '';
@@ -12,6 +12,7 @@ export function startRuntimeLifecycle(params) {
     worldLoadingText,
     dispatch,
     loadWorldWithProgress,
+    loadWorldLayout,
     scene,
     setDisconnectedFallbackCamera,
     worldStations,
@@ -39,6 +40,7 @@ export function startRuntimeLifecycle(params) {
     worldLoadingText,
     dispatch,
     loadWorldWithProgress,
+    loadWorldLayout,
     scene,
     state,
     getWorldRoot: () => worldStations.getWorldRoot(),
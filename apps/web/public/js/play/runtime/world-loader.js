@@ -6,6 +6,7 @@ export async function loadMainWorldRuntime(params) {
     worldLoadingText,
     dispatch,
     loadWorldWithProgress,
+    loadWorldLayout,
     scene,
     state,
     getWorldRoot,
@@ -72,6 +73,7 @@ export async function loadMainWorldRuntime(params) {
       worldLoadingText.textContent = 'Processing world data…';
     }
     dispatch({ type: 'WORLD_LOAD_STAGE_SET', stage: 'processing', message: 'Processing world data…' });
+    state.worldLayout = (await loadWorldLayout?.(state.worldAlias)) ?? null;
     state.worldLoaded = true;
     if (!state.playerId && getWorldRoot()) {
       setDisconnectedFallbackCamera();
@@ -5,9 +5,13 @@ export const WORLD_BOUND = 120;
 export function createInitialState() {
   return {
     worldAlias: pickWorldAlias(),
+    // World manifest (bounds, sections, station placements) once loaded.
+    worldLayout: null,
     worldLoaded: false,
     wsConnected: false,
     playerId: null,
+    // World instance on the game server (welcome / room messages).
+    roomId: null,
     tick: 0,
     players: new Map(),
     serverStations: new Map(),
@@ -0,0 +1,111 @@
+// Read-only live feed for /viewer?challenge=<id> or /viewer?station=<id>.
+// Connects as a spectator: the server hides moves until reveal and ignores inputs.
+
+function wsBaseUrl(cfg) {
+  if (cfg?.gameWsUrl) return String(cfg.gameWsUrl);
+  return window.location.protocol === 'https:'
+    ? `wss://${window.location.host}/ws`
+    : `ws://${window.location.host}/ws`;
+}
+
+async function fetchWsAuth() {
+  try {
+    const res = await fetch(`/api/player/me?optional=1&t=${Date.now()}`, { credentials: 'include' });
+    if (!res.ok) return '';
+    const payload = await res.json();
+    return payload?.wsAuth ? String(payload.wsAuth) : '';
+  } catch {
+    return '';
+  }
+}
+
+function lockLabel(challenge) {
+  const challenger = challenge.challengerLocked ? 'locked' : 'thinking';
+  const opponent = challenge.opponentLocked ? 'locked' : 'thinking';
+  return `${challenge.challengerId} ${challenger} · ${challenge.opponentId} ${opponent}`;
+}
+
+function describeEvent(message) {
+  const challenge = message.challenge;
+  switch (message.event) {
+    case 'created':
+      return `${challenge.gameType} ${challenge.challengerId} vs ${challenge.opponentId} (${challenge.wager})`;
+    case 'accepted':
+      return `Accepted · ${challenge.gameType} for ${challenge.wager}`;
+    case 'move_locked':
+      return lockLabel(challenge);
+    case 'round_reveal': {
+      const last = challenge.rounds?.[challenge.rounds.length - 1];
+      return `Round ${last?.round ?? '?'}: ${last?.challengerMove} vs ${last?.opponentMove} · ${last?.winnerId ?? 'tie'}`;
+    }
+    case 'reveal':
+      return `Reveal: ${challenge.challengerMove ?? '-'} vs ${challenge.opponentMove ?? '-'} · winner ${challenge.winnerId ?? 'draw'}`;
+    case 'payout':
+      return message.payout?.ok
+        ? `Payout ${message.payout.phase}${message.payout.payout !== undefined ? ` ${message.payout.payout}` : ''}`
+        : `Payout ${message.payout?.phase ?? ''} failed`;
+    case 'side_bets': {
+      const pool = message.sideBets?.pool;
+      const totals = pool ? `${pool.challengerId} ${pool.totals?.[pool.challengerId] ?? 0} · ${pool.opponentId} ${pool.totals?.[pool.opponentId] ?? 0}` : '';
+      return `Side bets ${message.sideBets?.event ?? ''}: ${totals}`;
+    }
+    case 'closed':
+      return `Closed (${message.reason || challenge?.status || 'ended'})`;
+    default:
+      return message.event;
+  }
+}
+
+export async function startSpectatorFeed({ cfg, params, panel, list, status }) {
+  const challengeId = params.get('challenge') || '';
+  const stationId = params.get('station') || '';
+  if (!challengeId && !stationId) {
+    return null;
+  }
+  panel.hidden = false;
+
+  const url = new URL(wsBaseUrl(cfg));
+  url.searchParams.set('role', 'spectator');
+  if (challengeId) url.searchParams.set('challengeId', challengeId);
+  if (stationId) url.searchParams.set('stationId', stationId);
+  const wsAuth = await fetchWsAuth();
+  if (wsAuth) url.searchParams.set('wsAuth', wsAuth);
+
+  const push = (text) => {
+    const item = document.createElement('li');
+    item.textContent = text;
+    list.prepend(item);
+    while (list.children.length > 30) {
+      list.lastElementChild?.remove();
+    }
+  };
+
+  const socket = new WebSocket(url.toString());
+  status.textContent = 'Connecting...';
+  socket.addEventListener('open', () => {
+    status.textContent = challengeId ? `Watching ${challengeId}` : `Watching ${stationId}`;
+  });
+  socket.addEventListener('close', (event) => {
+    status.textContent = event.reason ? `Disconnected (${event.reason})` : 'Disconnected';
+  });
+  socket.addEventListener('message', (event) => {
+    let message;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (message?.type === 'spectate_ack') {
+      if (!message.ok) {
+        push(`Subscription failed: ${message.reason || 'unknown'}`);
+      } else if (message.challenge) {
+        push(lockLabel(message.challenge));
+      }
+      return;
+    }
+    if (message?.type === 'spectator_event') {
+      push(describeEvent(message));
+    }
+  });
+  return socket;
+}
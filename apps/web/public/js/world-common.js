@@ -13,7 +13,10 @@ const WORLD_FILENAME_FALLBACK = {
   mega: 'train_station_mega_world.glb',
   plaza: 'train_station_mega_world.glb',
   base: 'train_station_mega_world.glb',
-  world: 'train_station_mega_world.glb'
+  world: 'train_station_mega_world.glb',
+  yard: 'train_station_mega_world.glb',
+  rail_yard: 'train_station_mega_world.glb',
+  'rail-yard': 'train_station_mega_world.glb'
 };
 const WORLD_VERSION_FALLBACK = {
   train_world: '2026-02-17.2',
@@ -21,24 +24,49 @@ const WORLD_VERSION_FALLBACK = {
   mega: '2026-02-17.2',
   plaza: '2026-02-17.2',
   base: '2026-02-17.2',
-  world: '2026-02-17.2'
+  world: '2026-02-17.2',
+  yard: '2026-02-17.2',
+  rail_yard: '2026-02-17.2',
+  'rail-yard': '2026-02-17.2'
+};
+// Name -> canonical world alias. Replaced by the server's manifests once /api/worlds loads.
+let worldAliasIndex = {
+  mega: 'mega',
+  train_world: 'mega',
+  'train-world': 'mega',
+  plaza: 'mega',
+  base: 'mega',
+  world: 'mega',
+  yard: 'yard',
+  rail_yard: 'yard',
+  'rail-yard': 'yard'
 };
 
 function normalizeWorldAlias(alias) {
   const normalized = String(alias || '').toLowerCase().replace(/\.glb$/i, '');
-  if (!normalized || normalized === CANONICAL_WORLD_ALIAS) return CANONICAL_WORLD_ALIAS;
-  if (normalized === 'train_world' || normalized === 'train-world' || normalized === 'base' || normalized === 'plaza' || normalized === 'world') {
-    return CANONICAL_WORLD_ALIAS;
+  return worldAliasIndex[normalized] || CANONICAL_WORLD_ALIAS;
+}
+
+function indexWorldAliases(worlds) {
+  const index = {};
+  for (const world of worlds) {
+    if (!world?.alias) continue;
+    index[world.alias] = world.alias;
+    for (const alias of world.aliases || []) {
+      index[String(alias).toLowerCase()] = world.alias;
+    }
   }
-  return CANONICAL_WORLD_ALIAS;
+  return index;
 }
 
 async function loadWorldManifest() {
   if (worldManifestPromise) return worldManifestPromise;
   worldManifestPromise = (async () => {
     const fallback = {
+      canonicalAlias: CANONICAL_WORLD_ALIAS,
       filenameByAlias: WORLD_FILENAME_FALLBACK,
-      versionByAlias: WORLD_VERSION_FALLBACK
+      versionByAlias: WORLD_VERSION_FALLBACK,
+      worlds: []
     };
     for (let attempt = 0; attempt < 2; attempt += 1) {
       try {
@@ -47,9 +75,15 @@ async function loadWorldManifest() {
           continue;
         }
         const payload = await res.json();
+        const worlds = Array.isArray(payload?.worlds) ? payload.worlds : [];
+        if (worlds.length > 0) {
+          worldAliasIndex = indexWorldAliases(worlds);
+        }
         return {
+          canonicalAlias: payload?.canonicalAlias || CANONICAL_WORLD_ALIAS,
           filenameByAlias: payload?.filenameByAlias || WORLD_FILENAME_FALLBACK,
-          versionByAlias: payload?.versionByAlias || WORLD_VERSION_FALLBACK
+          versionByAlias: payload?.versionByAlias || WORLD_VERSION_FALLBACK,
+          worlds
         };
       } catch {
         // retry once
@@ -60,14 +94,24 @@ async function loadWorldManifest() {
   return worldManifestPromise;
 }
 
+/**
+ * Bounds, obstacles, sections and station placements for a world, as served
+ * by /api/worlds. Null when the manifest could not be loaded.
+ */
+export async function loadWorldLayout(alias) {
+  const manifest = await loadWorldManifest();
+  const canonical = normalizeWorldAlias(alias || manifest.canonicalAlias);
+  return manifest.worlds.find((world) => world.alias === canonical) || null;
+}
+
 async function resolveWorldUrl(alias) {
+  const manifest = await loadWorldManifest();
   const loaderAlias = normalizeWorldAlias(alias);
   const params = new URL(window.location.href).searchParams;
   const configuredBase = window.__ARENA_CONFIG?.worldAssetBaseUrl || window.ARENA_CONFIG?.worldAssetBaseUrl || '';
   const worldBaseUrl = params.get('worldBase') || configuredBase || CANONICAL_WORLD_BASE_FALLBACK;
   const normalizedBase = worldBaseUrl ? String(worldBaseUrl).replace(/\/+$/, '') : '';
 
-  const manifest = await loadWorldManifest();
   const versionByAlias = manifest.versionByAlias || WORLD_VERSION_FALLBACK;
   const version = String(versionByAlias?.[loaderAlias] || versionByAlias?.[CANONICAL_WORLD_ALIAS] || '');
 
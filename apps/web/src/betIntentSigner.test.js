@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest';
+import { betIntentSignPayload, createBetIntentSigner } from '../public/js/play/runtime/bet-intent-signer.js';
+
+const typedData = {
+  domain: { name: 'BettingEscrow', version: '1', chainId: 84532, verifyingContract: '0x3333333333333333333333333333333333333333' },
+  types: {
+    BetIntent: [
+      { name: 'betId', type: 'bytes32' },
+      { name: 'counterparty', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'expiry', type: 'uint256' }
+    ]
+  },
+  primaryType: 'BetIntent',
+  message: { betId: '0xabc', counterparty: '0x2222222222222222222222222222222222222222', amount: '5000000', expiry: 1700000000 }
+};
+
+function memoryStorage() {
+  const values = new Map();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key)
+  };
+}
+
+describe('bet intent signer', () => {
+  it('adds the EIP712Domain type to the typed data', () => {
+    const payload = JSON.parse(betIntentSignPayload(typedData));
+    expect(payload.types.EIP712Domain.map((field) => field.name)).toEqual(['name', 'version', 'chainId', 'verifyingContract']);
+    expect(payload.types.BetIntent).toEqual(typedData.types.BetIntent);
+    expect(payload.primaryType).toBe('BetIntent');
+  });
+
+  it('registers the connected wallet and answers intent requests with its signature', async () => {
+    vi.stubGlobal('WebSocket', { OPEN: 1 });
+    const sent = [];
+    const socketRef = { current: { readyState: 1, send: (raw) => sent.push(JSON.parse(raw)) } };
+    const provider = {
+      request: vi.fn(async ({ method }) => {
+        if (method === 'eth_requestAccounts') return ['0x1111111111111111111111111111111111111111'];
+        if (method === 'eth_signTypedData_v4') return '0xsigned';
+        return null;
+      })
+    };
+    const storage = memoryStorage();
+    const signer = createBetIntentSigner({
+      socketRef,
+      showToast: vi.fn(),
+      addFeedEvent: vi.fn(),
+      getProvider: () => provider,
+      storage
+    });
+
+    expect(await signer.connect()).toBe(true);
+    expect(await signer.signIntent({ challengeId: 'c_1', typedData })).toBe(true);
+
+    expect(sent).toEqual([
+      { type: 'escrow_signer', address: '0x1111111111111111111111111111111111111111' },
+      { type: 'escrow_intent', challengeId: 'c_1', signature: '0xsigned' }
+    ]);
+    expect(provider.request).toHaveBeenCalledWith({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x14a34' }] });
+    expect(storage.getItem('arena_external_signer')).toBe('0x1111111111111111111111111111111111111111');
+
+    signer.disconnect();
+    expect(sent.at(-1)).toEqual({ type: 'escrow_signer', address: null });
+    expect(storage.getItem('arena_external_signer')).toBeNull();
+    vi.unstubAllGlobals();
+  });
+});
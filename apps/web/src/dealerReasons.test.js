@@ -12,6 +12,7 @@ describe('dealerReasonLabel', () => {
     expect(dealerReasonLabel('wallet_required', '')).toContain('Wallet');
     expect(dealerReasonLabel('dealer_round_not_started', '')).toContain('Start a round');
     expect(dealerReasonLabel('dealer_round_expired', '')).toContain('expired');
+    expect(dealerReasonLabel('dealer_busy', '')).toContain('another round');
   });
 
   it('maps internal transport/auth errors', () => {
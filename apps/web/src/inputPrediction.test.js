@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { stepMovement } from '@arena/shared';
+import { createInputPrediction } from '../public/js/play/runtime/network/prediction.js';
+
+const worldLayout = {
+  bounds: { minX: -50, maxX: 50, minZ: -50, maxZ: 50 },
+  obstacles: [{ id: 'crate', type: 'aabb', minX: 3, maxX: 5, minZ: 8, maxZ: 10 }]
+};
+
+function makeState() {
+  return {
+    playerId: 'p1',
+    worldLayout,
+    players: new Map([['p1', { id: 'p1', x: 0, y: 1.2, z: 0, yaw: 0, speed: 0 }]])
+  };
+}
+
+function snapshotOf(body) {
+  return { id: 'p1', x: body.x, z: body.z, yaw: body.yaw, speed: Math.hypot(body.vx, body.vz) };
+}
+
+describe('input prediction', () => {
+  it('numbers inputs and stays silent while idle at rest', () => {
+    const prediction = createInputPrediction({ state: makeState(), movement: { stepMovement } });
+    expect(prediction.step({ moveX: 0, moveZ: 0 })).toBeNull();
+    expect(prediction.step({ moveX: 0, moveZ: 1 })).toEqual({ type: 'input', moveX: 0, moveZ: 1, seq: 1 });
+    expect(prediction.step({ moveX: 1, moveZ: 0 })).toMatchObject({ seq: 2 });
+    expect(prediction.pendingCount()).toBe(2);
+  });
+
+  it('replays unprocessed inputs on top of the server position', () => {
+    const state = makeState();
+    const prediction = createInputPrediction({ state, movement: { stepMovement } });
+    const server = { x: 0, z: 0, vx: 0, vz: 0, yaw: 0 };
+    prediction.reconcile(snapshotOf(server), undefined);
+
+    // Server lags two inputs behind the client.
+    const sent = [];
+    for (let tick = 0; tick < 30; tick += 1) {
+      const input = { moveX: Math.sin(tick * 0.2), moveZ: 1 };
+      sent.push(prediction.step(input));
+      if (sent.length > 2) {
+        const applied = sent[sent.length - 3];
+        stepMovement(server, applied, 1 / 20, worldLayout);
+        prediction.reconcile(snapshotOf(server), applied.seq);
+      }
+    }
+    expect(prediction.pendingCount()).toBe(2);
+
+    // Once the server catches up, prediction and authority agree.
+    for (const applied of sent.slice(-2)) {
+      stepMovement(server, applied, 1 / 20, worldLayout);
+    }
+    prediction.reconcile(snapshotOf(server), sent[sent.length - 1].seq);
+    const local = state.players.get('p1');
+    expect(prediction.pendingCount()).toBe(0);
+    expect(local.x).toBeCloseTo(server.x, 6);
+    expect(local.z).toBeCloseTo(server.z, 6);
+  });
+});
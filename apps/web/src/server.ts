@@ -1,5 +1,6 @@
 import { createServer } from 'node:http';
 import { existsSync } from 'node:fs';
+import { createRequire } from 'node:module';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createHash, randomBytes } from 'node:crypto';
@@ -10,7 +11,15 @@ import { createChief2Service } from './chief2/index.js';
 import { createChiefDbGateway } from './chief/dbGateway.js';
 import { log } from './logger.js';
 import { availableWorldAliases, resolveWorldAssetPath, worldFilenameByAlias, worldFilenameForAlias, worldVersionByAlias } from './worldAssets.js';
-import { resolveEscrowApprovalPolicy, signWsAuthToken } from '@arena/shared';
+import {
+  DEFAULT_WORLD_ALIAS,
+  fairnessReceiptsToCsv,
+  getWorldManifest,
+  listWorldManifests,
+  resolveEscrowApprovalPolicy,
+  signWsAuthToken,
+  type FairnessReceiptRecord
+} from '@arena/shared';
 import { loadEnvFromFile } from './lib/env.js';
 import { clearSessionCookie, readJsonBody, redirect, sendFile, sendFileCached, sendJson, setSessionCookieWithOptions } from './lib/http.js';
 import { cookieSessionId, createSessionStore, type IdentityRecord, type Role, type SessionRecord } from './sessionStore.js';
@@ -40,6 +49,8 @@ const serverBase = process.env.WEB_API_BASE_URL ?? 'http://localhost:4000';
 const runtimeBase = process.env.WEB_AGENT_RUNTIME_BASE_URL ?? 'http://localhost:4100';
 const publicGameWsUrl = process.env.WEB_GAME_WS_URL ?? '';
 const publicWorldAssetBaseUrl = process.env.PUBLIC_WORLD_ASSET_BASE_URL ?? '';
+// Same WORLD_ALIAS the game server simulates, so clients load the matching world by default.
+const defaultWorld = getWorldManifest(process.env.WORLD_ALIAS?.trim() || DEFAULT_WORLD_ALIAS) ?? getWorldManifest(DEFAULT_WORLD_ALIAS)!;
 const defaultWorldAssetBaseUrl = '';
 const allowedAuthOrigins = new Set(
   (process.env.ALLOWED_AUTH_ORIGINS?.trim()
@@ -163,6 +174,12 @@ const publicDirCandidates = [
   path.resolve(__dirname, '../../../../../../apps/web/public')
 ];
 const publicDir = publicDirCandidates.find((candidate) => existsSync(candidate)) ?? path.resolve(__dirname, '../public');
+// Dependency-free @arena/shared modules served to the browser from the built package.
+const sharedDistDir = path.dirname(createRequire(import.meta.url).resolve('@arena/shared'));
+const sharedBrowserModules: Record<string, string> = {
+  '/js/arena-shared/wire-codec.js': 'wireCodec.js',
+  '/js/arena-shared/movement.js': 'movement.js'
+};
 
 	
 	type PlayerProfile = {
@@ -1082,11 +1099,12 @@ const server = createServer(async (req, res) => {
 
   if (pathname === '/api/worlds') {
     sendJson(res, {
-      canonicalAlias: 'mega',
-      compatibilityAliases: ['train_world', 'train-world', 'base', 'plaza', 'world'],
+      canonicalAlias: defaultWorld.alias,
+      compatibilityAliases: defaultWorld.aliases,
       aliases: availableWorldAliases(),
       filenameByAlias: worldFilenameByAlias(),
-      versionByAlias: worldVersionByAlias()
+      versionByAlias: worldVersionByAlias(),
+      worlds: listWorldManifests()
     });
     return;
   }
@@ -1839,6 +1857,32 @@ const server = createServer(async (req, res) => {
     return;
   }
 
+  if (pathname === '/api/player/fairness/receipts') {
+    const auth = await requireRole(req, ['player', 'admin']);
+    if (!auth.ok || !auth.identity.profileId) {
+      sendJson(res, { ok: false, reason: 'unauthorized' }, 401);
+      return;
+    }
+    const limit = Math.max(1, Math.min(500, Number(requestUrl.searchParams.get('limit') ?? 100)));
+    try {
+      const payload = await serverGet<{ ok?: boolean; receipts?: FairnessReceiptRecord[] }>(
+        `/fairness/receipts?playerId=${encodeURIComponent(auth.identity.profileId)}&limit=${limit}`
+      );
+      const receipts = Array.isArray(payload?.receipts) ? payload.receipts : [];
+      if (requestUrl.searchParams.get('format') === 'csv') {
+        res.statusCode = 200;
+        res.setHeader('content-type', 'text/csv; charset=utf-8');
+        res.setHeader('content-disposition', 'attachment; filename="fairness-receipts.csv"');
+        res.end(fairnessReceiptsToCsv(receipts));
+        return;
+      }
+      sendJson(res, { ok: true, receipts });
+    } catch {
+      sendJson(res, { ok: false, reason: 'fairness_receipts_unavailable' }, 503);
+    }
+    return;
+  }
+
   if (pathname === '/api/player/activity') {
     const auth = await requireRole(req, ['player', 'admin']);
     if (!auth.ok || !auth.identity.profileId || !auth.identity.walletId) {
@@ -2620,6 +2664,12 @@ const server = createServer(async (req, res) => {
     return;
   }
 
+  const sharedModule = sharedBrowserModules[pathname];
+  if (sharedModule) {
+    await sendFileCached(req, res, path.join(sharedDistDir, sharedModule), 'text/javascript; charset=utf-8');
+    return;
+  }
+
   if (pathname.startsWith('/js/')) {
     const jsPath = path.join(publicDir, pathname);
     await sendFile(res, jsPath, 'text/javascript; charset=utf-8');
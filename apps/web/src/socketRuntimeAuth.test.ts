@@ -120,4 +120,50 @@ describe('connectSocketRuntime auth gating', () => {
     });
     expect(deps.showToast).toHaveBeenCalledWith('Target is already in a match.', 'warning');
   });
+
+  test('rebuilds delta snapshots and acks each applied one', async () => {
+    const listeners = new Map<string, (event?: unknown) => void>();
+    const sent: string[] = [];
+    class FakeSocket {
+      static OPEN = 1;
+      readyState = 1;
+      url = '';
+      constructor(url: string) { this.url = url; }
+      addEventListener(type: string, handler: (event?: unknown) => void) {
+        listeners.set(type, handler);
+      }
+      send(data: string) { sent.push(data); }
+    }
+    globalThis.WebSocket = FakeSocket as unknown as typeof WebSocket;
+
+    const state = { challengeStatus: 'none', players: new Map(), serverStations: new Map() };
+    const deps = makeDeps({
+      queryParams: new URLSearchParams('test=1'),
+      state,
+      normalizeSnapshotPlayer: vi.fn((player) => player)
+    });
+    await connectSocketRuntime(deps as never);
+    const messageHandler = listeners.get('message');
+
+    messageHandler?.({
+      data: JSON.stringify({
+        type: 'snapshot', tick: 10, seq: 1, baseSeq: null, removed: [],
+        players: [{ id: 'a', x: 0, y: 0, z: 0, yaw: 0, speed: 0 }, { id: 'b', x: 4, y: 0, z: 4, yaw: 0, speed: 0 }]
+      })
+    });
+    messageHandler?.({
+      data: JSON.stringify({ type: 'snapshot', tick: 11, seq: 2, baseSeq: 1, players: [{ id: 'a', x: 1 }], removed: ['b'] })
+    });
+    // Unknown base: ignored and not acked.
+    messageHandler?.({
+      data: JSON.stringify({ type: 'snapshot', tick: 12, seq: 3, baseSeq: 7, players: [], removed: ['a'] })
+    });
+
+    expect(sent.map((data) => JSON.parse(data))).toEqual([
+      { type: 'snapshot_ack', seq: 1 },
+      { type: 'snapshot_ack', seq: 2 }
+    ]);
+    expect([...state.players.keys()]).toEqual(['a']);
+    expect(state.players.get('a')).toMatchObject({ x: 1, z: 0 });
+  });
 });
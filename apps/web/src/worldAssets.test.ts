@@ -17,6 +17,12 @@ describe('resolveWorldAssetPath', () => {
     expect(worldFilenameForAlias('world')).toBe('train_station_mega_world.glb');
   });
 
+  it('maps every world manifest alias to its asset', () => {
+    expect(worldFilenameForAlias('yard')).toBe('train_station_mega_world.glb');
+    expect(worldFilenameForAlias('rail-yard')).toBe('train_station_mega_world.glb');
+    expect(availableWorldAliases()).toEqual(expect.arrayContaining(['mega', 'yard']));
+  });
+
   it('returns null for unknown aliases', () => {
     expect(resolveWorldAssetPath('unknown')).toBeNull();
   });
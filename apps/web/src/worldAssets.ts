@@ -1,6 +1,7 @@
 import { existsSync } from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { listWorldManifests } from '@arena/shared';
 
 const ROOT_CANDIDATES = [
   path.resolve(process.cwd()),
@@ -8,23 +9,15 @@ const ROOT_CANDIDATES = [
   path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../../../../')
 ];
 
-const WORLD_FILE_BY_ALIAS: Record<string, string> = {
-  train_world: 'train_station_mega_world.glb',
-  'train-world': 'train_station_mega_world.glb',
-  mega: 'train_station_mega_world.glb',
-  plaza: 'train_station_mega_world.glb',
-  base: 'train_station_mega_world.glb',
-  world: 'train_station_mega_world.glb'
-};
-
-const WORLD_VERSION_BY_ALIAS: Record<string, string> = {
-  train_world: '2026-02-17.2',
-  'train-world': '2026-02-17.2',
-  mega: '2026-02-17.2',
-  plaza: '2026-02-17.2',
-  base: '2026-02-17.2',
-  world: '2026-02-17.2'
-};
+// GLB file and cache version for every world name, derived from the shared world manifests.
+const WORLD_FILE_BY_ALIAS: Record<string, string> = {};
+const WORLD_VERSION_BY_ALIAS: Record<string, string> = {};
+for (const world of listWorldManifests()) {
+  for (const alias of [...world.aliases, world.alias]) {
+    WORLD_FILE_BY_ALIAS[alias] = world.asset.file;
+    WORLD_VERSION_BY_ALIAS[alias] = world.asset.version;
+  }
+}
 
 export function worldFilenameByAlias(): Record<string, string> {
   // Public mapping (safe to expose to clients).
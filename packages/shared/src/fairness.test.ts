@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import type { Challenge } from './types/index.js';
+import {
+  fairnessReceiptFromChallenge,
+  fairnessReceiptsFromChallenges,
+  fairnessReceiptsToCsv,
+  getGameDefinition,
+  seedChainDistance,
+  sha256Hex,
+  verifyReceipt
+} from './index.js';
+
+function houseRound(
+  gameType: Challenge['gameType'],
+  playerMove: Challenge['challengerMove'],
+  houseSeed = 'house_seed'
+): Challenge {
+  const game = getGameDefinition(gameType)!;
+  const playerSeed = 'player,seed';
+  const challengeId = 'c_default_1';
+  const houseMove = game.dealer.pickHouseMove({ houseSeed, playerSeed, challengeId, playerMove: playerMove! });
+  const outcome = game.resolve({
+    challengeId,
+    challengerId: 'p1',
+    opponentId: 'system_house',
+    challengerMove: playerMove,
+    opponentMove: houseMove,
+    seeds: { houseSeed, playerSeed },
+    random: () => 0
+  });
+  return {
+    id: challengeId,
+    challengerId: 'p1',
+    opponentId: 'system_house',
+    status: 'resolved',
+    gameType,
+    wager: 3,
+    createdAt: 1,
+    expiresAt: 2,
+    acceptedAt: 1,
+    resolvedAt: 2,
+    winnerId: outcome.winnerId,
+    challengerMove: playerMove,
+    opponentMove: houseMove,
+    coinflipResult: outcome.coinflipResult ?? null,
+    diceResult: outcome.diceResult ?? null,
+    provablyFair: {
+      commitHash: sha256Hex(houseSeed),
+      playerSeed,
+      revealSeed: houseSeed,
+      method: game.dealer.method
+    }
+  };
+}
+
+describe('verifyReceipt', () => {
+  it('verifies honest house rounds for every game', () => {
+    for (const [gameType, move] of [['coinflip', 'heads'], ['rps', 'rock'], ['dice_duel', 'd4']] as const) {
+      const receipt = fairnessReceiptFromChallenge(houseRound(gameType, move));
+      expect(receipt?.verified).toBe(true);
+    }
+  });
+
+  it('flags a tampered commit or outcome', () => {
+    const challenge = houseRound('dice_duel', 'd2');
+    const tamperedCommit = fairnessReceiptFromChallenge({
+      ...challenge,
+      provablyFair: { ...challenge.provablyFair!, commitHash: sha256Hex('other') }
+    });
+    expect(tamperedCommit?.verified).toBe(false);
+
+    const result = verifyReceipt({
+      challengeId: challenge.id,
+      gameType: 'dice_duel',
+      receipt: challenge.provablyFair!,
+      playerMove: 'd2',
+      diceResult: ((challenge.diceResult ?? 1) % 6) + 1
+    });
+    expect(result).toMatchObject({ ok: false, reason: 'outcome_mismatch', commitValid: true, mismatches: ['diceResult'] });
+  });
+
+  it('requires a revealed seed', () => {
+    expect(verifyReceipt({
+      challengeId: 'c_1',
+      gameType: 'rps',
+      receipt: { commitHash: 'x', playerSeed: 'p', method: 'm' },
+      playerMove: 'rock'
+    }).reason).toBe('seed_not_revealed');
+  });
+
+  it('exports receipts as quoted CSV', () => {
+    const receipt = fairnessReceiptFromChallenge(houseRound('coinflip', 'tails'))!;
+    const [header, row] = fairnessReceiptsToCsv([receipt]).trim().split('\n');
+    expect(header?.startsWith('challengeId,gameType,wager')).toBe(true);
+    expect(row).toContain('"player,seed"');
+  });
+});
+
+describe('seed chains', () => {
+  it('checks that a revealed seed walks back to the published head', () => {
+    const seeds = ['root'];
+    for (let i = 0; i < 4; i += 1) {
+      seeds.unshift(sha256Hex(seeds[0]!));
+    }
+    const [head, first, second] = seeds;
+    expect(seedChainDistance(second!, head!, 10)).toBe(2);
+    expect(seedChainDistance(second!, first!, 10)).toBe(1);
+    expect(seedChainDistance('unrelated', head!, 10)).toBeNull();
+
+    const challenge = houseRound('rps', 'paper');
+    const pointer = { stationId: 'station_dealer_rps', epoch: 1, index: 2, head: head! };
+    const honest = verifyReceipt({
+      challengeId: challenge.id,
+      gameType: 'rps',
+      receipt: { commitHash: first!, playerSeed: 'p', revealSeed: second!, method: 'm', chain: pointer },
+      playerMove: 'paper'
+    });
+    expect(honest).toMatchObject({ ok: true, chainValid: true });
+
+    const forged = verifyReceipt({
+      challengeId: challenge.id,
+      gameType: 'rps',
+      receipt: { commitHash: first!, playerSeed: 'p', revealSeed: second!, method: 'm', chain: { ...pointer, index: 3 } },
+      playerMove: 'paper'
+    });
+    expect(forged).toMatchObject({ ok: false, reason: 'chain_mismatch' });
+
+    for (const chain of [
+      { ...pointer, head: 'not-a-hash' },
+      { ...pointer, index: 1.5 },
+      { ...pointer, index: -2 }
+    ]) {
+      expect(verifyReceipt({
+        challengeId: challenge.id,
+        gameType: 'rps',
+        receipt: { commitHash: first!, playerSeed: 'p', revealSeed: second!, method: 'm', chain },
+        playerMove: 'paper'
+      })).toMatchObject({ ok: false, reason: 'chain_mismatch', chainValid: false });
+    }
+  });
+
+  it('rejects an index past the configured chain length without walking the chain', () => {
+    const seeds = ['root'];
+    for (let i = 0; i < 12; i += 1) {
+      seeds.unshift(sha256Hex(seeds[0]!));
+    }
+    const challenge = houseRound('rps', 'paper');
+    const verify = (index: number, maxChainLength: number) => verifyReceipt({
+      challengeId: challenge.id,
+      gameType: 'rps',
+      receipt: {
+        commitHash: seeds[11]!,
+        playerSeed: 'p',
+        revealSeed: seeds[12]!,
+        method: 'm',
+        chain: { stationId: 'station_dealer_rps', epoch: 1, index, head: seeds[0]! }
+      },
+      playerMove: 'paper'
+    }, { maxChainLength });
+
+    expect(verify(12, 12)).toMatchObject({ ok: true, chainValid: true });
+    expect(verify(12, 10)).toMatchObject({ ok: false, reason: 'chain_mismatch', chainValid: false });
+    expect(verify(Number.MAX_SAFE_INTEGER, 10)).toMatchObject({ ok: false, chainValid: false });
+  });
+
+  it('verifies a batch of receipts from one chain in input order', () => {
+    const seeds = ['root'];
+    for (let i = 0; i < 5; i += 1) {
+      seeds.unshift(sha256Hex(seeds[0]!));
+    }
+    const head = seeds[0]!;
+    const round = (index: number, revealSeed: string): Challenge => {
+      const base = houseRound('rps', 'paper', revealSeed);
+      return {
+        ...base,
+        provablyFair: {
+          ...base.provablyFair!,
+          commitHash: seeds[index - 1]!,
+          chain: { stationId: 'station_dealer_rps', epoch: 1, index, head }
+        }
+      };
+    };
+
+    const records = fairnessReceiptsFromChallenges([
+      round(4, seeds[4]!),
+      round(2, seeds[2]!),
+      round(3, sha256Hex('forged'))
+    ]);
+    expect(records.map((record) => [record.chainIndex, record.verified])).toEqual([
+      [4, true],
+      [2, true],
+      [3, false]
+    ]);
+  });
+});
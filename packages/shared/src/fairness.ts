@@ -0,0 +1,301 @@
+import type { Challenge, CoinflipMove, GameMove, GameType, ProvablyFairReceipt, SeedChainPointer } from './types/index.js';
+import { getGameDefinition } from './games/registry.js';
+import { sha256Hex } from './games/seeds.js';
+
+const PLAYER = 'player';
+const HOUSE = 'house';
+const SEED_HEX = /^[0-9a-f]{64}$/i;
+
+/** Ceiling on house seed chain length; receipts pointing further are rejected without hashing. */
+export const MAX_SEED_CHAIN_LENGTH = 100_000;
+
+export type FairnessWinner = typeof PLAYER | typeof HOUSE | null;
+
+export type FairnessReceiptInput = {
+  challengeId: string;
+  gameType: GameType;
+  receipt: ProvablyFairReceipt;
+  playerMove: GameMove | null;
+  /** Recorded outcome fields; any that are present are checked against the recomputation. */
+  houseMove?: GameMove | null;
+  coinflipResult?: CoinflipMove | null;
+  diceResult?: number | null;
+  winner?: FairnessWinner;
+};
+
+export type ReceiptVerification = {
+  ok: boolean;
+  reason?: 'unsupported_game_type' | 'seed_not_revealed' | 'commit_mismatch' | 'chain_mismatch' | 'outcome_mismatch';
+  commitValid: boolean;
+  /** Present when the receipt points into a house seed chain. */
+  chainValid?: boolean;
+  expected: {
+    houseMove: GameMove | null;
+    coinflipResult: CoinflipMove | null;
+    diceResult: number | null;
+    winner: FairnessWinner;
+  } | null;
+  mismatches: string[];
+};
+
+/**
+ * Flattened receipt for a settled house round, as exported to players.
+ */
+export type FairnessReceiptRecord = {
+  challengeId: string;
+  gameType: GameType;
+  wager: number;
+  resolvedAt: number | null;
+  playerId: string;
+  playerMove: GameMove | null;
+  houseMove: GameMove | null;
+  coinflipResult: CoinflipMove | null;
+  diceResult: number | null;
+  winner: FairnessWinner;
+  commitHash: string;
+  playerSeed: string;
+  revealSeed: string | null;
+  method: string;
+  chainEpoch: number | null;
+  chainIndex: number | null;
+  chainHead: string | null;
+  verified: boolean;
+};
+
+export type SeedChainCheck = (seed: string, chain: SeedChainPointer) => boolean;
+
+export type VerifyReceiptOptions = {
+  /** Longest chain the issuer deals from; defaults to `MAX_SEED_CHAIN_LENGTH`. */
+  maxChainLength?: number;
+  /** Shared across a batch so receipts from one chain reuse each other's walks. */
+  chainCheck?: SeedChainCheck;
+};
+
+/**
+ * Number of sha256 steps from `seed` back to `anchor` (a chain head or an
+ * earlier revealed seed), or null if the anchor is not reached within `maxSteps`
+ * (itself capped at `MAX_SEED_CHAIN_LENGTH`).
+ */
+export function seedChainDistance(seed: string, anchor: string, maxSteps: number): number | null {
+  const limit = Math.min(maxSteps, MAX_SEED_CHAIN_LENGTH);
+  let current = seed;
+  for (let steps = 1; steps <= limit; steps += 1) {
+    current = sha256Hex(current);
+    if (current === anchor) {
+      return steps;
+    }
+  }
+  return null;
+}
+
+/**
+ * A chain pointer worth walking: an integer index within `maxChainLength` and a
+ * 32-byte hex head.
+ */
+export function isSeedChainPointer(chain: unknown, maxChainLength = MAX_SEED_CHAIN_LENGTH): chain is SeedChainPointer {
+  const pointer = chain as Partial<SeedChainPointer> | null;
+  return typeof pointer === 'object'
+    && pointer !== null
+    && Number.isSafeInteger(pointer.index)
+    && (pointer.index as number) >= 0
+    && (pointer.index as number) <= Math.min(maxChainLength, MAX_SEED_CHAIN_LENGTH)
+    && typeof pointer.head === 'string'
+    && SEED_HEX.test(pointer.head);
+}
+
+/**
+ * Chain check that remembers the links it has proven, so a later seed only
+ * walks back to the nearest lower proven link instead of the head. Checking a
+ * batch in ascending index order hashes each chain at most once.
+ */
+export function seedChainChecker(maxChainLength = MAX_SEED_CHAIN_LENGTH): SeedChainCheck {
+  const proven = new Map<string, Array<{ index: number; seed: string }>>();
+  return (seed, chain) => {
+    if (!isSeedChainPointer(chain, maxChainLength)) {
+      return false;
+    }
+    const links = proven.get(chain.head) ?? [];
+    let anchor = { index: 0, seed: chain.head };
+    for (const link of links) {
+      if (link.index < chain.index && link.index > anchor.index) {
+        anchor = link;
+      }
+    }
+    const steps = chain.index - anchor.index;
+    if (seedChainDistance(seed, anchor.seed, steps) !== steps) {
+      return false;
+    }
+    links.push({ index: chain.index, seed });
+    proven.set(chain.head, links);
+    return true;
+  };
+}
+
+/**
+ * Recompute a house round from its receipt: the revealed seed must hash to
+ * the commit, and the seeds must reproduce the house move and game result.
+ */
+export function verifyReceipt(input: FairnessReceiptInput, options: VerifyReceiptOptions = {}): ReceiptVerification {
+  const game = getGameDefinition(input.gameType);
+  if (!game) {
+    return { ok: false, reason: 'unsupported_game_type', commitValid: false, expected: null, mismatches: [] };
+  }
+  const houseSeed = input.receipt.revealSeed;
+  if (!houseSeed) {
+    return { ok: false, reason: 'seed_not_revealed', commitValid: false, expected: null, mismatches: [] };
+  }
+  const commitValid = sha256Hex(houseSeed) === input.receipt.commitHash;
+  const chain = input.receipt.chain;
+  const chainCheck = options.chainCheck ?? seedChainChecker(options.maxChainLength);
+  const chainValid = chain ? chainCheck(houseSeed, chain) : undefined;
+
+  const seeds = { houseSeed, playerSeed: input.receipt.playerSeed };
+  const playerMove = input.playerMove && game.isMove(input.playerMove) ? input.playerMove : null;
+  const houseMove = playerMove
+    ? game.dealer.pickHouseMove({ ...seeds, challengeId: input.challengeId, playerMove })
+    : null;
+  const outcome = game.resolve({
+    challengeId: input.challengeId,
+    challengerId: PLAYER,
+    opponentId: HOUSE,
+    challengerMove: playerMove,
+    opponentMove: houseMove,
+    seeds,
+    random: () => 0
+  });
+  const expected = {
+    houseMove,
+    coinflipResult: outcome.coinflipResult ?? null,
+    diceResult: outcome.diceResult ?? null,
+    winner: outcome.winnerId as FairnessWinner
+  };
+
+  const mismatches: string[] = [];
+  for (const key of ['houseMove', 'coinflipResult', 'diceResult', 'winner'] as const) {
+    const recorded = input[key];
+    if (recorded !== undefined && recorded !== expected[key]) {
+      mismatches.push(key);
+    }
+  }
+
+  const checks = chainValid === undefined ? { commitValid } : { commitValid, chainValid };
+  if (!commitValid) {
+    return { ok: false, reason: 'commit_mismatch', ...checks, expected, mismatches };
+  }
+  if (chainValid === false) {
+    return { ok: false, reason: 'chain_mismatch', ...checks, expected, mismatches };
+  }
+  if (mismatches.length > 0) {
+    return { ok: false, reason: 'outcome_mismatch', ...checks, expected, mismatches };
+  }
+  return { ok: true, ...checks, expected, mismatches };
+}
+
+/**
+ * Build the verification input for a challenge played against the house.
+ * Returns null for challenges without a provably fair receipt.
+ */
+export function fairnessInputFromChallenge(challenge: Challenge): FairnessReceiptInput | null {
+  if (!challenge.provablyFair) {
+    return null;
+  }
+  return {
+    challengeId: challenge.id,
+    gameType: challenge.gameType,
+    receipt: challenge.provablyFair,
+    playerMove: challenge.challengerMove,
+    houseMove: challenge.opponentMove,
+    coinflipResult: challenge.gameType === 'coinflip' ? challenge.coinflipResult : undefined,
+    diceResult: challenge.gameType === 'dice_duel' ? (challenge.diceResult ?? null) : undefined,
+    winner: challenge.winnerId === null
+      ? null
+      : challenge.winnerId === challenge.challengerId ? PLAYER : HOUSE
+  };
+}
+
+export function fairnessReceiptFromChallenge(
+  challenge: Challenge,
+  options: VerifyReceiptOptions = {}
+): FairnessReceiptRecord | null {
+  const input = fairnessInputFromChallenge(challenge);
+  if (!input) {
+    return null;
+  }
+  return {
+    challengeId: challenge.id,
+    gameType: challenge.gameType,
+    wager: challenge.wager,
+    resolvedAt: challenge.resolvedAt,
+    playerId: challenge.challengerId,
+    playerMove: challenge.challengerMove,
+    houseMove: challenge.opponentMove,
+    coinflipResult: challenge.coinflipResult,
+    diceResult: challenge.diceResult ?? null,
+    winner: input.winner ?? null,
+    commitHash: input.receipt.commitHash,
+    playerSeed: input.receipt.playerSeed,
+    revealSeed: input.receipt.revealSeed ?? null,
+    method: input.receipt.method,
+    chainEpoch: input.receipt.chain?.epoch ?? null,
+    chainIndex: input.receipt.chain?.index ?? null,
+    chainHead: input.receipt.chain?.head ?? null,
+    verified: verifyReceipt(input, options).ok
+  };
+}
+
+/**
+ * Receipts for a batch of house rounds, in input order. Chains are checked in
+ * ascending index order through one shared check, so an export walks each
+ * seed chain at most once rather than once per receipt.
+ */
+export function fairnessReceiptsFromChallenges(
+  challenges: Challenge[],
+  options: VerifyReceiptOptions = {}
+): FairnessReceiptRecord[] {
+  const shared = { ...options, chainCheck: options.chainCheck ?? seedChainChecker(options.maxChainLength) };
+  const chainIndex = (challenge: Challenge) => challenge.provablyFair?.chain?.index ?? 0;
+  const records = new Map<Challenge, FairnessReceiptRecord | null>();
+  for (const challenge of [...challenges].sort((a, b) => chainIndex(a) - chainIndex(b))) {
+    records.set(challenge, fairnessReceiptFromChallenge(challenge, shared));
+  }
+  return challenges
+    .map((challenge) => records.get(challenge) ?? null)
+    .filter((record): record is FairnessReceiptRecord => record !== null);
+}
+
+const CSV_COLUMNS: Array<keyof FairnessReceiptRecord> = [
+  'challengeId',
+  'gameType',
+  'wager',
+  'resolvedAt',
+  'playerId',
+  'playerMove',
+  'houseMove',
+  'coinflipResult',
+  'diceResult',
+  'winner',
+  'commitHash',
+  'playerSeed',
+  'revealSeed',
+  'method',
+  'chainEpoch',
+  'chainIndex',
+  'chainHead',
+  'verified'
+];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function fairnessReceiptsToCsv(records: FairnessReceiptRecord[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const record of records) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(record[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,67 @@
+import type { CoinflipMove } from '../types/index.js';
+import { loneMoverOutcome, pickFrom, seedByte } from './seeds.js';
+import type { GameDefinition } from './types.js';
+
+const COINFLIP_MOVES: readonly CoinflipMove[] = ['heads', 'tails'];
+
+export function computeCoinflipFromSeeds(
+  houseSeed: string,
+  playerSeed: string,
+  challengeId: string
+): CoinflipMove {
+  return seedByte(houseSeed, playerSeed, challengeId) % 2 === 1 ? 'heads' : 'tails';
+}
+
+function isCoinflipMove(value: unknown): value is CoinflipMove {
+  return value === 'heads' || value === 'tails';
+}
+
+export const coinflipGame: GameDefinition<CoinflipMove> = {
+  type: 'coinflip',
+  label: 'Coinflip',
+  moves: COINFLIP_MOVES,
+  invalidMoveReason: 'invalid_coinflip_move',
+  isMove: isCoinflipMove,
+  resolve(ctx) {
+    let coinflipResult: CoinflipMove;
+    if (isCoinflipMove(ctx.presetResult)) {
+      coinflipResult = ctx.presetResult;
+    } else if (ctx.seeds) {
+      coinflipResult = computeCoinflipFromSeeds(ctx.seeds.houseSeed, ctx.seeds.playerSeed, ctx.challengeId);
+    } else {
+      coinflipResult = ctx.random() < 0.5 ? 'heads' : 'tails';
+    }
+
+    const fallback = loneMoverOutcome(ctx);
+    if (fallback) {
+      return { ...fallback, coinflipResult };
+    }
+    if (ctx.challengerMove === ctx.opponentMove) {
+      return { winnerId: null, coinflipResult };
+    }
+    if (ctx.challengerMove === coinflipResult) {
+      return { winnerId: ctx.challengerId, coinflipResult };
+    }
+    if (ctx.opponentMove === coinflipResult) {
+      return { winnerId: ctx.opponentId, coinflipResult };
+    }
+    return { winnerId: null, coinflipResult };
+  },
+  views: {
+    ready: 'dealer_ready',
+    reveal: 'dealer_reveal'
+  },
+  dealer: {
+    stationKind: 'dealer_coinflip',
+    startAction: 'coinflip_house_start',
+    pickAction: 'coinflip_house_pick',
+    method: 'sha256(houseSeed|playerSeed|challengeId), LSB(firstByte)=1 -> heads',
+    pickHouseMove({ playerMove }) {
+      // The house always takes the other side; the seeds decide the coin.
+      return playerMove === 'heads' ? 'tails' : 'heads';
+    }
+  },
+  pickBotMove(entropy) {
+    return pickFrom(COINFLIP_MOVES, entropy);
+  }
+};
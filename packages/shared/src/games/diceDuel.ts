@@ -0,0 +1,58 @@
+import type { DiceDuelMove } from '../types/index.js';
+import { loneMoverOutcome, pickFrom, seedByte } from './seeds.js';
+import type { GameDefinition } from './types.js';
+
+const DICE_MOVES: readonly DiceDuelMove[] = ['d1', 'd2', 'd3', 'd4', 'd5', 'd6'];
+
+export function computeDiceDuelFromSeeds(
+  houseSeed: string,
+  playerSeed: string,
+  challengeId: string
+): 1 | 2 | 3 | 4 | 5 | 6 {
+  return ((seedByte(houseSeed, playerSeed, challengeId, 'dice_duel') % 6) + 1) as 1 | 2 | 3 | 4 | 5 | 6;
+}
+
+export const diceDuelGame: GameDefinition<DiceDuelMove> = {
+  type: 'dice_duel',
+  label: 'Dice Duel',
+  moves: DICE_MOVES,
+  invalidMoveReason: 'invalid_dice_duel_move',
+  isMove(value: unknown): value is DiceDuelMove {
+    return DICE_MOVES.includes(value as DiceDuelMove);
+  },
+  resolve(ctx) {
+    const diceResult = ctx.seeds
+      ? computeDiceDuelFromSeeds(ctx.seeds.houseSeed, ctx.seeds.playerSeed, ctx.challengeId)
+      : Math.floor(ctx.random() * 6) + 1;
+
+    const fallback = loneMoverOutcome(ctx);
+    if (fallback || !ctx.challengerMove || !ctx.opponentMove) {
+      return { ...(fallback ?? { winnerId: null }), diceResult };
+    }
+    const challengerMatch = Number(ctx.challengerMove.slice(1)) === diceResult;
+    const opponentMatch = Number(ctx.opponentMove.slice(1)) === diceResult;
+    if (challengerMatch && !opponentMatch) {
+      return { winnerId: ctx.challengerId, diceResult, reason: 'dice_duel_result' };
+    }
+    if (!challengerMatch && opponentMatch) {
+      return { winnerId: ctx.opponentId, diceResult, reason: 'dice_duel_result' };
+    }
+    return { winnerId: null, diceResult, reason: 'dice_duel_tie' };
+  },
+  views: {
+    ready: 'dealer_ready_dice',
+    reveal: 'dealer_reveal_dice'
+  },
+  dealer: {
+    stationKind: 'dealer_dice_duel',
+    startAction: 'dice_duel_start',
+    pickAction: 'dice_duel_pick',
+    method: 'sha256(houseSeed|playerSeed|challengeId|dice_duel), byte mod 6 + 1',
+    pickHouseMove({ houseSeed, playerSeed, challengeId }) {
+      return pickFrom(DICE_MOVES, seedByte(houseSeed, playerSeed, challengeId, 'dice_guess'));
+    }
+  },
+  pickBotMove(entropy) {
+    return pickFrom(DICE_MOVES, entropy);
+  }
+};
@@ -0,0 +1,6 @@
+export * from './types.js';
+export { sha256Hex, seedByte } from './seeds.js';
+export { rpsGame } from './rps.js';
+export { coinflipGame, computeCoinflipFromSeeds } from './coinflip.js';
+export { diceDuelGame, computeDiceDuelFromSeeds } from './diceDuel.js';
+export * from './registry.js';
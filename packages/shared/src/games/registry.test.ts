@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeCoinflipFromSeeds,
+  findGameByDealerAction,
+  findGameByStationKind,
+  getGameDefinition,
+  isGameMove,
+  isGameType,
+  listGameDefinitions
+} from './index.js';
+
+const base = {
+  challengeId: 'c_1',
+  challengerId: 'a',
+  opponentId: 'b',
+  seeds: null,
+  random: () => 0.1
+};
+
+describe('game registry', () => {
+  it('registers the built-in games', () => {
+    expect(listGameDefinitions().map((game) => game.type)).toEqual(['rps', 'coinflip', 'dice_duel']);
+    expect(isGameType('dice_duel')).toBe(true);
+    expect(isGameType('poker')).toBe(false);
+    expect(isGameMove('d6')).toBe(true);
+    expect(isGameMove('lizard')).toBe(false);
+  });
+
+  it('maps dealer stations and actions to games', () => {
+    expect(findGameByStationKind('dealer_rps')?.type).toBe('rps');
+    expect(findGameByStationKind('cashier_bank')).toBeNull();
+    expect(findGameByDealerAction('dice_duel_pick')).toMatchObject({ phase: 'pick', game: { type: 'dice_duel' } });
+    expect(findGameByDealerAction('coinflip_house_start')).toMatchObject({ phase: 'start', game: { type: 'coinflip' } });
+  });
+
+  it('resolves rps and awards lone movers', () => {
+    const rps = getGameDefinition('rps')!;
+    expect(rps.resolve({ ...base, challengerMove: 'paper', opponentMove: 'rock' })).toEqual({ winnerId: 'a', reason: 'rps_result' });
+    expect(rps.resolve({ ...base, challengerMove: 'rock', opponentMove: 'rock' }).winnerId).toBeNull();
+    expect(rps.resolve({ ...base, challengerMove: null, opponentMove: 'rock' }).winnerId).toBe('b');
+  });
+
+  it('derives coinflip and dice results from revealed seeds', () => {
+    const seeds = { houseSeed: 'house', playerSeed: 'player' };
+    const coin = computeCoinflipFromSeeds('house', 'player', 'c_1');
+    const coinflip = getGameDefinition('coinflip')!;
+    const outcome = coinflip.resolve({ ...base, seeds, challengerMove: coin, opponentMove: coin === 'heads' ? 'tails' : 'heads' });
+    expect(outcome).toMatchObject({ winnerId: 'a', coinflipResult: coin });
+
+    const dice = getGameDefinition('dice_duel')!;
+    const rolled = dice.resolve({ ...base, seeds, challengerMove: 'd1', opponentMove: 'd2' }).diceResult;
+    expect(dice.resolve({ ...base, seeds, challengerMove: 'd1', opponentMove: 'd2' }).diceResult).toBe(rolled);
+    expect([1, 2, 3, 4, 5, 6]).toContain(rolled);
+  });
+
+  it('picks valid, deterministic bot and house moves', () => {
+    for (const game of listGameDefinitions()) {
+      expect(game.isMove(game.pickBotMove(7))).toBe(true);
+      expect(game.pickBotMove(7)).toBe(game.pickBotMove(7));
+      const house = game.dealer.pickHouseMove({
+        houseSeed: 'h',
+        playerSeed: 'p',
+        challengeId: 'c_1',
+        playerMove: game.moves[0]!
+      });
+      expect(game.isMove(house)).toBe(true);
+    }
+  });
+});
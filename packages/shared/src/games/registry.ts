@@ -0,0 +1,60 @@
+import type { GameMove, GameType, SnapshotStation } from '../types/index.js';
+import { coinflipGame } from './coinflip.js';
+import { diceDuelGame } from './diceDuel.js';
+import { rpsGame } from './rps.js';
+import type { GameDefinition } from './types.js';
+
+const registry = new Map<GameType, GameDefinition>();
+
+/**
+ * Register (or replace) a game. Built-in games are registered on import.
+ */
+export function registerGameDefinition(definition: GameDefinition): void {
+  registry.set(definition.type, definition);
+}
+
+export function getGameDefinition(type: unknown): GameDefinition | null {
+  return registry.get(type as GameType) ?? null;
+}
+
+export function listGameDefinitions(): GameDefinition[] {
+  return [...registry.values()];
+}
+
+export function isGameType(value: unknown): value is GameType {
+  return registry.has(value as GameType);
+}
+
+export function isGameMove(value: unknown): value is GameMove {
+  for (const definition of registry.values()) {
+    if (definition.isMove(value)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function findGameByStationKind(kind: SnapshotStation['kind']): GameDefinition | null {
+  for (const definition of registry.values()) {
+    if (definition.dealer.stationKind === kind) {
+      return definition;
+    }
+  }
+  return null;
+}
+
+export function findGameByDealerAction(action: unknown): { game: GameDefinition; phase: 'start' | 'pick' } | null {
+  for (const definition of registry.values()) {
+    if (definition.dealer.startAction === action) {
+      return { game: definition, phase: 'start' };
+    }
+    if (definition.dealer.pickAction === action) {
+      return { game: definition, phase: 'pick' };
+    }
+  }
+  return null;
+}
+
+registerGameDefinition(rpsGame);
+registerGameDefinition(coinflipGame);
+registerGameDefinition(diceDuelGame);
@@ -0,0 +1,47 @@
+import type { RpsMove } from '../types/index.js';
+import { loneMoverOutcome, pickFrom, seedByte } from './seeds.js';
+import type { GameDefinition } from './types.js';
+
+const RPS_MOVES: readonly RpsMove[] = ['rock', 'paper', 'scissors'];
+const BEATS: Record<RpsMove, RpsMove> = {
+  rock: 'scissors',
+  paper: 'rock',
+  scissors: 'paper'
+};
+
+export const rpsGame: GameDefinition<RpsMove> = {
+  type: 'rps',
+  label: 'Rock Paper Scissors',
+  moves: RPS_MOVES,
+  invalidMoveReason: 'invalid_rps_move',
+  isMove(value: unknown): value is RpsMove {
+    return value === 'rock' || value === 'paper' || value === 'scissors';
+  },
+  resolve(ctx) {
+    const fallback = loneMoverOutcome(ctx);
+    if (fallback || !ctx.challengerMove || !ctx.opponentMove) {
+      return fallback ?? { winnerId: null };
+    }
+    if (ctx.challengerMove === ctx.opponentMove) {
+      return { winnerId: null, reason: 'rps_tie' };
+    }
+    const winnerId = BEATS[ctx.challengerMove] === ctx.opponentMove ? ctx.challengerId : ctx.opponentId;
+    return { winnerId, reason: 'rps_result' };
+  },
+  views: {
+    ready: 'dealer_ready_rps',
+    reveal: 'dealer_reveal_rps'
+  },
+  dealer: {
+    stationKind: 'dealer_rps',
+    startAction: 'rps_house_start',
+    pickAction: 'rps_house_pick',
+    method: 'sha256(houseSeed|playerSeed|challengeId), byte mod 3 picks house move',
+    pickHouseMove({ houseSeed, playerSeed, challengeId }) {
+      return pickFrom(RPS_MOVES, seedByte(houseSeed, playerSeed, challengeId, 'rps'));
+    }
+  },
+  pickBotMove(entropy) {
+    return pickFrom(RPS_MOVES, entropy);
+  }
+};
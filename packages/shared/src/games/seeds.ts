@@ -0,0 +1,38 @@
+import { createHash } from 'node:crypto';
+import type { GameMove } from '../types/index.js';
+import type { GameResolutionContext, GameOutcome } from './types.js';
+
+export function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * First byte of sha256(houseSeed|playerSeed|challengeId[|salt]), the shared
+ * primitive behind every provably fair roll and house pick.
+ */
+export function seedByte(houseSeed: string, playerSeed: string, challengeId: string, salt?: string): number {
+  const input = salt ? `${houseSeed}|${playerSeed}|${challengeId}|${salt}` : `${houseSeed}|${playerSeed}|${challengeId}`;
+  const value = Number.parseInt(sha256Hex(input).slice(0, 2), 16);
+  return Number.isFinite(value) ? value : 0;
+}
+
+export function pickFrom<T>(items: readonly T[], entropy: number): T {
+  const index = Math.abs(Math.floor(Number.isFinite(entropy) ? entropy : 0)) % items.length;
+  return items[index] as T;
+}
+
+/**
+ * Default winner when a round ends with at most one move submitted.
+ */
+export function loneMoverOutcome<M extends GameMove>(ctx: GameResolutionContext<M>): GameOutcome | null {
+  if (ctx.challengerMove && !ctx.opponentMove) {
+    return { winnerId: ctx.challengerId };
+  }
+  if (!ctx.challengerMove && ctx.opponentMove) {
+    return { winnerId: ctx.opponentId };
+  }
+  if (!ctx.challengerMove && !ctx.opponentMove) {
+    return { winnerId: null };
+  }
+  return null;
+}
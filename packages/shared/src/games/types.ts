@@ -0,0 +1,65 @@
+import type {
+  CoinflipMove,
+  GameMove,
+  GameType,
+  SnapshotStation,
+  StationActionId,
+  StationUiViewState
+} from '../types/index.js';
+
+export type DealerStartAction = Extract<StationActionId, 'coinflip_house_start' | 'rps_house_start' | 'dice_duel_start'>;
+export type DealerPickAction = Extract<StationActionId, 'coinflip_house_pick' | 'rps_house_pick' | 'dice_duel_pick'>;
+
+export type GameSeeds = {
+  houseSeed: string;
+  playerSeed: string;
+};
+
+export type GameResolutionContext<M extends GameMove = GameMove> = {
+  challengeId: string;
+  challengerId: string;
+  opponentId: string;
+  challengerMove: M | null;
+  opponentMove: M | null;
+  /** Revealed commit/reveal seeds; games fall back to `random` when the round is not provably fair. */
+  seeds: GameSeeds | null;
+  /** Result committed outside the game (legacy dealer override), used verbatim when valid. */
+  presetResult?: string | null;
+  random: () => number;
+};
+
+export type GameOutcome = {
+  winnerId: string | null;
+  coinflipResult?: CoinflipMove | null;
+  diceResult?: number | null;
+  reason?: string;
+};
+
+export type GameDealerSpec<M extends GameMove = GameMove> = {
+  stationKind: SnapshotStation['kind'];
+  startAction: DealerStartAction;
+  pickAction: DealerPickAction;
+  method: string;
+  pickHouseMove(input: GameSeeds & { challengeId: string; playerMove: M }): M;
+};
+
+/**
+ * Everything the server, station router and bots need to know about one game.
+ * `resolve` is called with both moves on a normal finish and with whatever was
+ * submitted when the round times out; a lone mover wins by default.
+ */
+export interface GameDefinition<M extends GameMove = GameMove> {
+  type: GameType;
+  label: string;
+  moves: readonly M[];
+  invalidMoveReason: string;
+  isMove(value: unknown): value is M;
+  resolve(ctx: GameResolutionContext<M>): GameOutcome;
+  views: {
+    ready: StationUiViewState;
+    reveal: StationUiViewState;
+  };
+  dealer: GameDealerSpec<M>;
+  /** Deterministic bot pick from any non-negative integer entropy source. */
+  pickBotMove(entropy: number): M;
+}
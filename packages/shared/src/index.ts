@@ -13,3 +13,11 @@ export type HealthStatus = {
 
 export * from './wsAuth.js';
 export * from './escrowApprovalPolicy.js';
+export * from './games/index.js';
+export * from './fairness.js';
+export * from './worlds/index.js';
+export * from './snapshots.js';
+export * from './wireCodec.js';
+export * from './spatialHash.js';
+export * from './movement.js';
+export * from './pathfinding.js';
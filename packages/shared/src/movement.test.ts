@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { MOVEMENT_MAX_SPEED, PLAYER_RADIUS, stepMovement, type MovementBody, type MovementWorld } from './index.js';
+
+const world: MovementWorld = {
+  bounds: { minX: -20, maxX: 20, minZ: -20, maxZ: 20 },
+  obstacles: [{ id: 'wall', type: 'aabb', minX: 5, maxX: 6, minZ: -20, maxZ: 20 }]
+};
+
+function body(x = 0, z = 0): MovementBody {
+  return { x, z, vx: 0, vz: 0, yaw: 0 };
+}
+
+describe('stepMovement', () => {
+  it('accelerates up to the speed cap and drags back to rest', () => {
+    const player = body();
+    for (let tick = 0; tick < 40; tick += 1) {
+      stepMovement(player, { moveX: 0, moveZ: 1 }, 1 / 20, world);
+    }
+    expect(Math.hypot(player.vx, player.vz)).toBeCloseTo(MOVEMENT_MAX_SPEED, 5);
+    expect(player.yaw).toBeCloseTo(0, 5);
+
+    const stoppedAt = player.z;
+    for (let tick = 0; tick < 40; tick += 1) {
+      stepMovement(player, { moveX: 0, moveZ: 0 }, 1 / 20, world);
+    }
+    expect(Math.hypot(player.vx, player.vz)).toBeLessThan(0.01);
+    expect(player.z).toBeGreaterThan(stoppedAt);
+  });
+
+  it('stops only the blocked axis at obstacles and bounds', () => {
+    const player = body(3, 0);
+    for (let tick = 0; tick < 160; tick += 1) {
+      stepMovement(player, { moveX: 1, moveZ: 1 }, 1 / 20, world);
+    }
+    expect(player.x).toBeLessThan(5 - PLAYER_RADIUS + 0.01);
+    expect(player.z).toBe(20 - PLAYER_RADIUS);
+  });
+
+  it('is deterministic for the same inputs', () => {
+    const run = () => {
+      const player = body(-4, 2);
+      for (let tick = 0; tick < 50; tick += 1) {
+        const angle = tick * 0.4;
+        stepMovement(player, { moveX: Math.cos(angle), moveZ: Math.sin(angle) }, 1 / 20, world, { x: 0.1, z: 0 });
+      }
+      return player;
+    };
+    expect(run()).toEqual(run());
+  });
+});
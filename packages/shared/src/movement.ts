@@ -0,0 +1,151 @@
+/**
+ * Deterministic per-player movement step shared by `WorldSim` (authoritative)
+ * and the play client (prediction). Given the same body, input, dt and world
+ * it produces the same result on both sides; the server additionally feeds in
+ * an avoidance vector from nearby players, which the client cannot know and
+ * leaves out, so reconciliation corrects for crowds.
+ *
+ * This module has no runtime imports: the web server serves its built file to
+ * the browser as-is.
+ */
+import type { WorldManifest, WorldObstacle, WorldPoint } from './worlds/index.js';
+
+export const MOVEMENT_ACCEL = 14;
+export const MOVEMENT_DRAG = 8;
+export const MOVEMENT_MAX_SPEED = 5;
+// Keep the capsule-style avatars from feeling like they hit "invisible walls".
+// A smaller radius also reduces how often players get snagged on corners.
+export const PLAYER_RADIUS = 0.75;
+export const AVOIDANCE_ACCEL = 6;
+const OBSTACLE_BUFFER = 0.6;
+
+export type MovementWorld = Pick<WorldManifest, 'bounds' | 'obstacles'>;
+
+export type MovementBody = { x: number; z: number; vx: number; vz: number; yaw: number };
+
+export type MovementInput = { moveX: number; moveZ: number };
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+export function clampWorldX(world: MovementWorld, x: number): number {
+  return clamp(x, world.bounds.minX + PLAYER_RADIUS, world.bounds.maxX - PLAYER_RADIUS);
+}
+
+export function clampWorldZ(world: MovementWorld, z: number): number {
+  return clamp(z, world.bounds.minZ + PLAYER_RADIUS, world.bounds.maxZ - PLAYER_RADIUS);
+}
+
+/**
+ * Closest point of an obstacle to (x, z); the point itself when inside.
+ */
+export function nearestObstaclePoint(x: number, z: number, obstacle: WorldObstacle): WorldPoint {
+  if (obstacle.type === 'aabb') {
+    return { x: clamp(x, obstacle.minX, obstacle.maxX), z: clamp(z, obstacle.minZ, obstacle.maxZ) };
+  }
+  const points = obstacle.points;
+  let inside = false;
+  let best: WorldPoint = { x, z };
+  let bestDistSq = Number.POSITIVE_INFINITY;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    const a = points[j]!;
+    const b = points[i]!;
+    if ((b.z > z) !== (a.z > z) && x < ((a.x - b.x) * (z - b.z)) / (a.z - b.z) + b.x) {
+      inside = !inside;
+    }
+    const ex = b.x - a.x;
+    const ez = b.z - a.z;
+    const lengthSq = ex * ex + ez * ez;
+    const t = lengthSq > 0 ? clamp(((x - a.x) * ex + (z - a.z) * ez) / lengthSq, 0, 1) : 0;
+    const px = a.x + ex * t;
+    const pz = a.z + ez * t;
+    const distSq = (x - px) * (x - px) + (z - pz) * (z - pz);
+    if (distSq < bestDistSq) {
+      bestDistSq = distSq;
+      best = { x: px, z: pz };
+    }
+  }
+  return inside ? { x, z } : best;
+}
+
+export function collidesWithObstacle(world: MovementWorld, x: number, z: number, radius = PLAYER_RADIUS): boolean {
+  for (const obstacle of world.obstacles) {
+    const near = nearestObstaclePoint(x, z, obstacle);
+    const dx = x - near.x;
+    const dz = z - near.z;
+    if (dx * dx + dz * dz < radius * radius) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Advance one body by one tick, in place: accelerate towards the input (or
+ * drag to a stop), steer away from obstacles plus the caller's `avoid`
+ * vector, cap speed, then move axis by axis so walls stop only the blocked axis.
+ */
+export function stepMovement(
+  body: MovementBody,
+  input: MovementInput,
+  dtSeconds: number,
+  world: MovementWorld,
+  avoid: { x: number; z: number } = { x: 0, z: 0 }
+): void {
+  const rawLength = Math.hypot(input.moveX, input.moveZ);
+  if (rawLength > 0.001) {
+    body.vx += (input.moveX / rawLength) * MOVEMENT_ACCEL * dtSeconds;
+    body.vz += (input.moveZ / rawLength) * MOVEMENT_ACCEL * dtSeconds;
+  } else {
+    body.vx -= body.vx * Math.min(1, MOVEMENT_DRAG * dtSeconds);
+    body.vz -= body.vz * Math.min(1, MOVEMENT_DRAG * dtSeconds);
+  }
+
+  let avoidX = avoid.x;
+  let avoidZ = avoid.z;
+  for (const obstacle of world.obstacles) {
+    const near = nearestObstaclePoint(body.x, body.z, obstacle);
+    const dx = body.x - near.x;
+    const dz = body.z - near.z;
+    const distSq = dx * dx + dz * dz;
+    const range = PLAYER_RADIUS + OBSTACLE_BUFFER;
+    if (distSq < 0.0001 || distSq > range * range) {
+      continue;
+    }
+    const dist = Math.sqrt(distSq);
+    const weight = (range - dist) / range;
+    // Keep this gentle. Hard avoidance feels like a forcefield.
+    avoidX += (dx / dist) * weight * 0.75;
+    avoidZ += (dz / dist) * weight * 0.75;
+  }
+  const avoidMag = Math.hypot(avoidX, avoidZ);
+  if (avoidMag > 0.0001) {
+    body.vx += (avoidX / avoidMag) * AVOIDANCE_ACCEL * dtSeconds;
+    body.vz += (avoidZ / avoidMag) * AVOIDANCE_ACCEL * dtSeconds;
+  }
+
+  const speed = Math.hypot(body.vx, body.vz);
+  if (speed > MOVEMENT_MAX_SPEED) {
+    body.vx = (body.vx / speed) * MOVEMENT_MAX_SPEED;
+    body.vz = (body.vz / speed) * MOVEMENT_MAX_SPEED;
+  }
+
+  const nextX = clampWorldX(world, body.x + body.vx * dtSeconds);
+  if (!collidesWithObstacle(world, nextX, body.z)) {
+    body.x = nextX;
+  } else {
+    body.vx *= -0.08;
+  }
+
+  const nextZ = clampWorldZ(world, body.z + body.vz * dtSeconds);
+  if (!collidesWithObstacle(world, body.x, nextZ)) {
+    body.z = nextZ;
+  } else {
+    body.vz *= -0.08;
+  }
+
+  if (Math.hypot(body.vx, body.vz) > 0.01) {
+    body.yaw = Math.atan2(body.vx, body.vz);
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { NavGrid, getWorldManifest, navGridForWorld, type MovementWorld, type WorldPoint } from './index.js';
+
+// A wall across the middle with a single gap at the north end.
+const world: MovementWorld = {
+  bounds: { minX: -20, maxX: 20, minZ: -20, maxZ: 20 },
+  obstacles: [{ id: 'wall', type: 'aabb', minX: -1, maxX: 1, minZ: -20, maxZ: 12 }]
+};
+
+function walk(grid: NavGrid, from: WorldPoint, path: WorldPoint[]): boolean {
+  let anchor = from;
+  for (const waypoint of path) {
+    if (!grid.hasLineOfSight(anchor, waypoint)) {
+      return false;
+    }
+    anchor = waypoint;
+  }
+  return true;
+}
+
+describe('NavGrid', () => {
+  it('goes straight when the goal is in sight', () => {
+    const grid = new NavGrid(world);
+    expect(grid.findPath({ x: -10, z: -10 }, { x: -10, z: 10 })).toEqual([{ x: -10, z: 10 }]);
+  });
+
+  it('routes around obstacles through the gap', () => {
+    const grid = new NavGrid(world);
+    const from = { x: -10, z: 0 };
+    const path = grid.findPath(from, { x: 10, z: 0 });
+    expect(path).not.toBeNull();
+    expect(path!.at(-1)).toEqual({ x: 10, z: 0 });
+    expect(path!.some((point) => point.z > 12)).toBe(true);
+    expect(path!.length).toBeLessThan(6);
+    expect(walk(grid, from, path!)).toBe(true);
+  });
+
+  it('snaps blocked goals to the nearest open cell and gives up when sealed', () => {
+    const grid = new NavGrid(world);
+    const path = grid.findPath({ x: -10, z: 0 }, { x: 0, z: 0 });
+    expect(path).not.toBeNull();
+    expect(grid.isWalkable(path!.at(-1)!.x, path!.at(-1)!.z)).toBe(true);
+
+    const sealed = new NavGrid({ ...world, obstacles: [{ id: 'wall', type: 'aabb', minX: -1, maxX: 1, minZ: -20, maxZ: 20 }] });
+    expect(sealed.findPath({ x: -10, z: 0 }, { x: 10, z: 0 })).toBeNull();
+  });
+
+  it('caches one grid per world manifest', () => {
+    const mega = getWorldManifest('mega')!;
+    expect(navGridForWorld(mega)).toBe(navGridForWorld(mega));
+  });
+});
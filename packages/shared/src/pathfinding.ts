@@ -0,0 +1,288 @@
+import { PLAYER_RADIUS, collidesWithObstacle, type MovementWorld } from './movement.js';
+import type { WorldManifest, WorldPoint } from './worlds/index.js';
+
+// Extra room kept between a path and obstacles, so followers do not clip corners.
+const DEFAULT_CLEARANCE = 0.35;
+const DIAGONAL_COST = Math.SQRT2;
+// How far (in cells) a blocked start or goal is moved to the nearest open cell.
+const SNAP_SEARCH_CELLS = 12;
+
+/**
+ * Walkability grid over a world's bounds for A* pathfinding. A cell is
+ * blocked when a player standing at its centre (plus `clearance`) would touch
+ * an obstacle or leave the bounds. Paths move in 8 directions without cutting
+ * blocked corners and are then shortened to the waypoints where line of sight
+ * breaks.
+ */
+export class NavGrid {
+  readonly cols: number;
+  readonly rows: number;
+  private readonly blocked: Uint8Array;
+  private readonly originX: number;
+  private readonly originZ: number;
+
+  constructor(
+    world: MovementWorld,
+    readonly cellSize = 2,
+    clearance = DEFAULT_CLEARANCE
+  ) {
+    if (!(cellSize > 0)) {
+      throw new Error('nav_grid_invalid_cell_size');
+    }
+    const { minX, maxX, minZ, maxZ } = world.bounds;
+    this.originX = minX;
+    this.originZ = minZ;
+    this.cols = Math.max(1, Math.ceil((maxX - minX) / cellSize));
+    this.rows = Math.max(1, Math.ceil((maxZ - minZ) / cellSize));
+    this.blocked = new Uint8Array(this.cols * this.rows);
+    const radius = PLAYER_RADIUS + clearance;
+    for (let row = 0; row < this.rows; row += 1) {
+      for (let col = 0; col < this.cols; col += 1) {
+        const { x, z } = this.centerOf(col, row);
+        const outside = x < minX + PLAYER_RADIUS || x > maxX - PLAYER_RADIUS || z < minZ + PLAYER_RADIUS || z > maxZ - PLAYER_RADIUS;
+        if (outside || collidesWithObstacle(world, x, z, radius)) {
+          this.blocked[row * this.cols + col] = 1;
+        }
+      }
+    }
+  }
+
+  isWalkable(x: number, z: number): boolean {
+    const cell = this.cellAt(x, z);
+    return cell !== null && this.blocked[cell] === 0;
+  }
+
+  /** True when the straight segment only crosses walkable cells. */
+  hasLineOfSight(from: WorldPoint, to: WorldPoint): boolean {
+    const distance = Math.hypot(to.x - from.x, to.z - from.z);
+    const steps = Math.max(1, Math.ceil(distance / (this.cellSize * 0.5)));
+    for (let step = 0; step <= steps; step += 1) {
+      const t = step / steps;
+      if (!this.isWalkable(from.x + (to.x - from.x) * t, from.z + (to.z - from.z) * t)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Waypoints from `from` to `to`, excluding the start. A blocked goal is
+   * replaced by the nearest open cell. Null when no route exists within
+   * `maxExpanded` cells.
+   */
+  findPath(from: WorldPoint, to: WorldPoint, maxExpanded = this.cols * this.rows): WorldPoint[] | null {
+    const start = this.nearestOpenCell(from.x, from.z);
+    const goal = this.nearestOpenCell(to.x, to.z);
+    if (start === null || goal === null) {
+      return null;
+    }
+    const goalPoint = this.blocked[this.cellAt(to.x, to.z) ?? -1] === 0 ? { x: to.x, z: to.z } : this.centerOfIndex(goal);
+    if (this.hasLineOfSight(from, goalPoint)) {
+      return [goalPoint];
+    }
+
+    const cells = this.cols * this.rows;
+    const cost = new Float64Array(cells).fill(Number.POSITIVE_INFINITY);
+    const parent = new Int32Array(cells).fill(-1);
+    const closed = new Uint8Array(cells);
+    const open = new MinHeap();
+    cost[start] = 0;
+    open.push(start, this.heuristic(start, goal));
+
+    let expanded = 0;
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goal) {
+        return this.smooth(from, this.trace(parent, goal), goalPoint);
+      }
+      if (closed[current]) {
+        continue;
+      }
+      closed[current] = 1;
+      expanded += 1;
+      if (expanded > maxExpanded) {
+        return null;
+      }
+      const col = current % this.cols;
+      const row = Math.floor(current / this.cols);
+      for (let dz = -1; dz <= 1; dz += 1) {
+        for (let dx = -1; dx <= 1; dx += 1) {
+          if (dx === 0 && dz === 0) {
+            continue;
+          }
+          const nextCol = col + dx;
+          const nextRow = row + dz;
+          if (!this.isOpen(nextCol, nextRow)) {
+            continue;
+          }
+          // No squeezing diagonally between two blocked cells.
+          if (dx !== 0 && dz !== 0 && (!this.isOpen(col + dx, row) || !this.isOpen(col, row + dz))) {
+            continue;
+          }
+          const next = nextRow * this.cols + nextCol;
+          const nextCost = cost[current]! + (dx !== 0 && dz !== 0 ? DIAGONAL_COST : 1);
+          if (nextCost < cost[next]!) {
+            cost[next] = nextCost;
+            parent[next] = current;
+            open.push(next, nextCost + this.heuristic(next, goal));
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  private trace(parent: Int32Array, goal: number): number[] {
+    const cells: number[] = [];
+    for (let cell = goal; cell !== -1; cell = parent[cell]!) {
+      cells.push(cell);
+    }
+    return cells.reverse();
+  }
+
+  /** Keep only the cells where the straight line from the last kept waypoint breaks. */
+  private smooth(from: WorldPoint, cells: number[], goalPoint: WorldPoint): WorldPoint[] {
+    const points = cells.slice(1, -1).map((cell) => this.centerOfIndex(cell));
+    points.push(goalPoint);
+    const waypoints: WorldPoint[] = [];
+    let anchor = from;
+    let index = 0;
+    while (index < points.length) {
+      let furthest = index;
+      for (let probe = points.length - 1; probe > index; probe -= 1) {
+        if (this.hasLineOfSight(anchor, points[probe]!)) {
+          furthest = probe;
+          break;
+        }
+      }
+      anchor = points[furthest]!;
+      waypoints.push(anchor);
+      index = furthest + 1;
+    }
+    return waypoints;
+  }
+
+  private heuristic(a: number, b: number): number {
+    const dx = Math.abs((a % this.cols) - (b % this.cols));
+    const dz = Math.abs(Math.floor(a / this.cols) - Math.floor(b / this.cols));
+    return Math.max(dx, dz) + (DIAGONAL_COST - 1) * Math.min(dx, dz);
+  }
+
+  private nearestOpenCell(x: number, z: number): number | null {
+    const col = Math.min(this.cols - 1, Math.max(0, Math.floor((x - this.originX) / this.cellSize)));
+    const row = Math.min(this.rows - 1, Math.max(0, Math.floor((z - this.originZ) / this.cellSize)));
+    for (let ring = 0; ring <= SNAP_SEARCH_CELLS; ring += 1) {
+      let best: number | null = null;
+      let bestDistSq = Number.POSITIVE_INFINITY;
+      for (let dz = -ring; dz <= ring; dz += 1) {
+        for (let dx = -ring; dx <= ring; dx += 1) {
+          if (Math.max(Math.abs(dx), Math.abs(dz)) !== ring || !this.isOpen(col + dx, row + dz)) {
+            continue;
+          }
+          const cell = (row + dz) * this.cols + col + dx;
+          const center = this.centerOfIndex(cell);
+          const distSq = (center.x - x) ** 2 + (center.z - z) ** 2;
+          if (distSq < bestDistSq) {
+            best = cell;
+            bestDistSq = distSq;
+          }
+        }
+      }
+      if (best !== null) {
+        return best;
+      }
+    }
+    return null;
+  }
+
+  private isOpen(col: number, row: number): boolean {
+    return col >= 0 && row >= 0 && col < this.cols && row < this.rows && this.blocked[row * this.cols + col] === 0;
+  }
+
+  private cellAt(x: number, z: number): number | null {
+    const col = Math.floor((x - this.originX) / this.cellSize);
+    const row = Math.floor((z - this.originZ) / this.cellSize);
+    if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) {
+      return null;
+    }
+    return row * this.cols + col;
+  }
+
+  private centerOf(col: number, row: number): WorldPoint {
+    return { x: this.originX + (col + 0.5) * this.cellSize, z: this.originZ + (row + 0.5) * this.cellSize };
+  }
+
+  private centerOfIndex(cell: number): WorldPoint {
+    return this.centerOf(cell % this.cols, Math.floor(cell / this.cols));
+  }
+}
+
+/** Binary min-heap of cell indices keyed by priority. */
+class MinHeap {
+  private readonly items: number[] = [];
+  private readonly priorities: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: number, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent]! <= priority) {
+        break;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0]!;
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.priorities[left]! < this.priorities[smallest]!) {
+          smallest = left;
+        }
+        if (right < this.items.length && this.priorities[right]! < this.priorities[smallest]!) {
+          smallest = right;
+        }
+        if (smallest === index) {
+          break;
+        }
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b]!, this.items[a]!];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b]!, this.priorities[a]!];
+  }
+}
+
+const navGridsByWorld = new Map<string, NavGrid>();
+
+/** Shared nav grid per world manifest version (building one walks every cell). */
+export function navGridForWorld(world: WorldManifest): NavGrid {
+  const key = `${world.alias}@${world.version}`;
+  let grid = navGridsByWorld.get(key);
+  if (!grid) {
+    grid = new NavGrid(world);
+    navGridsByWorld.set(key, grid);
+  }
+  return grid;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { SnapshotDeltaReceiver, applySnapshotDelta, diffSnapshotEntities } from './index.js';
+
+type Player = { id: string; x: number; z: number; role: string };
+
+describe('snapshot deltas', () => {
+  it('sends only new players, changed fields and removals', () => {
+    const base = new Map<string, Player>([
+      ['a', { id: 'a', x: 0, z: 0, role: 'human' }],
+      ['b', { id: 'b', x: 5, z: 5, role: 'agent' }],
+      ['c', { id: 'c', x: 9, z: 9, role: 'agent' }]
+    ]);
+    const next: Player[] = [
+      { id: 'a', x: 1, z: 0, role: 'human' },
+      { id: 'b', x: 5, z: 5, role: 'agent' },
+      { id: 'd', x: 2, z: 2, role: 'human' }
+    ];
+    const delta = diffSnapshotEntities(base, next);
+    expect(delta).toEqual({
+      players: [{ id: 'a', x: 1 }, { id: 'd', x: 2, z: 2, role: 'human' }],
+      removed: ['c']
+    });
+    expect([...applySnapshotDelta(base, delta).values()]).toEqual(next);
+  });
+
+  it('rebuilds full lists on the client and waits for a known base', () => {
+    const receiver = new SnapshotDeltaReceiver<Player>();
+    const full = receiver.receive({ seq: 1, baseSeq: null, players: [{ id: 'a', x: 0, z: 0, role: 'human' }], removed: [] });
+    expect(full?.ack).toEqual({ type: 'snapshot_ack', seq: 1 });
+
+    // Encoded against seq 1 twice: seq 2's ack had not reached the server yet.
+    receiver.receive({ seq: 2, baseSeq: 1, players: [{ id: 'a', x: 1 }], removed: [] });
+    const third = receiver.receive({ seq: 3, baseSeq: 1, players: [{ id: 'a', x: 2 }], removed: [] });
+    expect(third?.players).toEqual([{ id: 'a', x: 2, z: 0, role: 'human' }]);
+
+    expect(receiver.receive({ seq: 4, baseSeq: 99, players: [], removed: ['a'] })).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Delta-encoded world snapshots.
+ *
+ * The server keeps, per client, the player set it sent in each snapshot and
+ * encodes the next one against the last snapshot the client acknowledged:
+ * new players in full, changed players as `id` plus changed fields, and the
+ * ids that left. `baseSeq: null` marks a full snapshot. Sequence numbers are
+ * per connection (sim ticks restart when a player changes room).
+ */
+
+export type SnapshotEntity = { id: string } & Record<string, unknown>;
+
+export type SnapshotDelta<T extends SnapshotEntity = SnapshotEntity> = {
+  seq: number;
+  baseSeq: number | null;
+  /** New players in full; players present in the base carry only changed fields. */
+  players: Array<Partial<T> & { id: string }>;
+  removed: string[];
+};
+
+export type SnapshotAckMessage = { type: 'snapshot_ack'; seq: number };
+
+/**
+ * Entries of `next` that differ from `base`, and the base ids missing from `next`.
+ */
+export function diffSnapshotEntities<T extends SnapshotEntity>(
+  base: ReadonlyMap<string, T> | null,
+  next: readonly T[]
+): Pick<SnapshotDelta<T>, 'players' | 'removed'> {
+  const players: Array<Partial<T> & { id: string }> = [];
+  const seen = new Set<string>();
+  for (const entity of next) {
+    seen.add(entity.id);
+    const previous = base?.get(entity.id);
+    if (!previous) {
+      players.push(entity);
+      continue;
+    }
+    let changed: (Partial<T> & { id: string }) | null = null;
+    for (const key of Object.keys(entity) as Array<keyof T & string>) {
+      if (entity[key] !== previous[key]) {
+        changed ??= { id: entity.id } as Partial<T> & { id: string };
+        changed[key] = entity[key];
+      }
+    }
+    if (changed) {
+      players.push(changed);
+    }
+  }
+  const removed = base ? [...base.keys()].filter((id) => !seen.has(id)) : [];
+  return { players, removed };
+}
+
+export function applySnapshotDelta<T extends SnapshotEntity>(
+  base: ReadonlyMap<string, T> | null,
+  delta: Pick<SnapshotDelta<T>, 'players' | 'removed'>
+): Map<string, T> {
+  const next = new Map(base ?? []);
+  for (const id of delta.removed) {
+    next.delete(id);
+  }
+  for (const entry of delta.players) {
+    const previous = next.get(entry.id);
+    next.set(entry.id, (previous ? { ...previous, ...entry } : entry) as T);
+  }
+  return next;
+}
+
+/**
+ * Client side of the protocol: rebuilds full player lists and tells the
+ * caller which sequence to acknowledge. Returns null when the base snapshot
+ * is unknown (the client keeps acking its last good one, so the server falls
+ * back to it or to a full snapshot).
+ */
+export class SnapshotDeltaReceiver<T extends SnapshotEntity = SnapshotEntity> {
+  private readonly frames = new Map<number, Map<string, T>>();
+
+  receive(delta: SnapshotDelta<T>): { players: T[]; ack: SnapshotAckMessage } | null {
+    const base = delta.baseSeq === null ? null : this.frames.get(delta.baseSeq);
+    if (delta.baseSeq !== null && !base) {
+      return null;
+    }
+    const next = applySnapshotDelta(base ?? null, delta);
+    this.frames.set(delta.seq, next);
+    // The server only ever encodes against the newest acked snapshot.
+    const oldest = delta.baseSeq ?? delta.seq;
+    for (const seq of this.frames.keys()) {
+      if (seq < oldest) {
+        this.frames.delete(seq);
+      }
+    }
+    return { players: [...next.values()], ack: { type: 'snapshot_ack', seq: delta.seq } };
+  }
+
+  reset(): void {
+    this.frames.clear();
+  }
+}
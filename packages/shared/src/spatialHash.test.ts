@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialHash, type SpatialEntity } from './index.js';
+
+function bruteForcePairs(entities: SpatialEntity[], radius: number): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i < entities.length; i += 1) {
+    for (let j = i + 1; j < entities.length; j += 1) {
+      const a = entities[i]!;
+      const b = entities[j]!;
+      if (Math.hypot(a.x - b.x, a.z - b.z) <= radius) {
+        pairs.push([a.id, b.id].sort().join('|'));
+      }
+    }
+  }
+  return pairs.sort();
+}
+
+describe('SpatialHash', () => {
+  it('finds the same pairs and neighbours as a brute-force scan', () => {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed / 2 ** 31;
+    };
+    const entities: SpatialEntity[] = Array.from({ length: 300 }, (_, index) => ({
+      id: `e${index}`,
+      x: random() * 200 - 100,
+      z: random() * 200 - 100
+    }));
+    const grid = new SpatialHash<SpatialEntity>(8);
+    entities.forEach((entity) => grid.upsert(entity));
+
+    const pairs: string[] = [];
+    grid.forEachPairWithin(12, (a, b) => pairs.push([a.id, b.id].sort().join('|')));
+    expect(pairs.sort()).toEqual(bruteForcePairs(entities, 12));
+
+    const origin = entities[0]!;
+    const expected = entities
+      .filter((entity) => entity !== origin && Math.hypot(entity.x - origin.x, entity.z - origin.z) <= 20)
+      .map((entity) => entity.id)
+      .sort();
+    expect(grid.queryRadius(origin.x, origin.z, 20, origin.id).map((entity) => entity.id).sort()).toEqual(expected);
+  });
+
+  it('tracks moves and removals', () => {
+    const grid = new SpatialHash<SpatialEntity>(5);
+    const mover = { id: 'm', x: 0, z: 0 };
+    grid.upsert(mover);
+    grid.upsert({ id: 'n', x: 1, z: 1 });
+    expect(grid.anyWithin(0, 0, 2, 'm')).toBe(true);
+
+    mover.x = 40;
+    grid.upsert(mover);
+    expect(grid.queryRadius(40, 0, 1).map((entity) => entity.id)).toEqual(['m']);
+    expect(grid.queryRadius(0, 0, 3).map((entity) => entity.id)).toEqual(['n']);
+
+    grid.remove('n');
+    expect(grid.size).toBe(1);
+    expect(grid.anyWithin(0, 0, 3)).toBe(false);
+    expect(() => new SpatialHash(0)).toThrow('spatial_hash_invalid_cell_size');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Uniform-grid spatial index for points on the x/z plane. Entities are kept in
+ * square cells of `cellSize`; radius queries and pair scans only look at the
+ * cells a radius can reach, so cost follows local density instead of total
+ * population. Iteration order depends only on the sequence of upserts and
+ * removals, which keeps consumers (WorldSim replays in particular) deterministic.
+ */
+export type SpatialEntity = { id: string; x: number; z: number };
+
+// Cell coordinates are packed into one number; +-2^20 cells is far beyond any world.
+const CELL_OFFSET = 2 ** 20;
+const CELL_SPAN = 2 ** 21;
+
+export class SpatialHash<T extends SpatialEntity> {
+  private readonly cells = new Map<number, T[]>();
+  private readonly cellById = new Map<string, number>();
+  private readonly entities = new Map<string, T>();
+
+  constructor(readonly cellSize: number) {
+    if (!(cellSize > 0)) {
+      throw new Error('spatial_hash_invalid_cell_size');
+    }
+  }
+
+  get size(): number {
+    return this.entities.size;
+  }
+
+  has(id: string): boolean {
+    return this.entities.has(id);
+  }
+
+  /** Insert or move an entity after its x/z changed. */
+  upsert(entity: T): void {
+    const key = this.keyFor(entity.x, entity.z);
+    const current = this.cellById.get(entity.id);
+    if (current === key && this.entities.get(entity.id) === entity) {
+      return;
+    }
+    if (current !== undefined) {
+      this.removeFromCell(current, entity.id);
+    }
+    this.entities.set(entity.id, entity);
+    this.cellById.set(entity.id, key);
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(entity);
+    } else {
+      this.cells.set(key, [entity]);
+    }
+  }
+
+  remove(id: string): void {
+    const key = this.cellById.get(id);
+    if (key === undefined) {
+      return;
+    }
+    this.removeFromCell(key, id);
+    this.cellById.delete(id);
+    this.entities.delete(id);
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.cellById.clear();
+    this.entities.clear();
+  }
+
+  /** Entities within `radius` of (x, z), in no particular order. */
+  queryRadius(x: number, z: number, radius: number, excludeId?: string): T[] {
+    const found: T[] = [];
+    this.forEachWithin(x, z, radius, (entity) => {
+      if (entity.id !== excludeId) {
+        found.push(entity);
+      }
+    });
+    return found;
+  }
+
+  /** True as soon as one entity (other than `excludeId`) is strictly closer than `radius`. */
+  anyWithin(x: number, z: number, radius: number, excludeId?: string): boolean {
+    const radiusSq = radius * radius;
+    const span = Math.ceil(radius / this.cellSize);
+    const cx = this.cellOf(x);
+    const cz = this.cellOf(z);
+    for (let dx = -span; dx <= span; dx += 1) {
+      for (let dz = -span; dz <= span; dz += 1) {
+        const cell = this.cells.get(this.pack(cx + dx, cz + dz));
+        if (!cell) {
+          continue;
+        }
+        for (const entity of cell) {
+          if (entity.id === excludeId) {
+            continue;
+          }
+          const ex = entity.x - x;
+          const ez = entity.z - z;
+          if (ex * ex + ez * ez < radiusSq) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  }
+
+  forEachWithin(x: number, z: number, radius: number, visit: (entity: T, distSq: number) => void): void {
+    const radiusSq = radius * radius;
+    const span = Math.ceil(radius / this.cellSize);
+    const cx = this.cellOf(x);
+    const cz = this.cellOf(z);
+    for (let dx = -span; dx <= span; dx += 1) {
+      for (let dz = -span; dz <= span; dz += 1) {
+        const cell = this.cells.get(this.pack(cx + dx, cz + dz));
+        if (!cell) {
+          continue;
+        }
+        for (const entity of cell) {
+          const ex = entity.x - x;
+          const ez = entity.z - z;
+          const distSq = ex * ex + ez * ez;
+          if (distSq <= radiusSq) {
+            visit(entity, distSq);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Every unordered pair within `radius`, each reported once. Do not move
+   * entities from inside `visit`.
+   */
+  forEachPairWithin(radius: number, visit: (a: T, b: T, distance: number) => void): void {
+    const radiusSq = radius * radius;
+    const span = Math.ceil(radius / this.cellSize);
+    for (const [key, cell] of this.cells) {
+      const cx = Math.floor(key / CELL_SPAN) - CELL_OFFSET;
+      const cz = (key % CELL_SPAN) - CELL_OFFSET;
+      for (let i = 0; i < cell.length; i += 1) {
+        const a = cell[i]!;
+        for (let j = i + 1; j < cell.length; j += 1) {
+          const b = cell[j]!;
+          const distSq = (a.x - b.x) ** 2 + (a.z - b.z) ** 2;
+          if (distSq <= radiusSq) {
+            visit(a, b, Math.sqrt(distSq));
+          }
+        }
+      }
+      // Only "forward" neighbour cells, so each cell pair is scanned once.
+      for (let dx = 0; dx <= span; dx += 1) {
+        for (let dz = -span; dz <= span; dz += 1) {
+          if (dx === 0 && dz <= 0) {
+            continue;
+          }
+          const other = this.cells.get(this.pack(cx + dx, cz + dz));
+          if (!other) {
+            continue;
+          }
+          for (const a of cell) {
+            for (const b of other) {
+              const distSq = (a.x - b.x) ** 2 + (a.z - b.z) ** 2;
+              if (distSq <= radiusSq) {
+                visit(a, b, Math.sqrt(distSq));
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private cellOf(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private pack(cx: number, cz: number): number {
+    return (cx + CELL_OFFSET) * CELL_SPAN + (cz + CELL_OFFSET);
+  }
+
+  private keyFor(x: number, z: number): number {
+    return this.pack(this.cellOf(x), this.cellOf(z));
+  }
+
+  private removeFromCell(key: number, id: string): void {
+    const cell = this.cells.get(key);
+    if (!cell) {
+      return;
+    }
+    const index = cell.findIndex((entity) => entity.id === id);
+    if (index >= 0) {
+      cell.splice(index, 1);
+    }
+    if (cell.length === 0) {
+      this.cells.delete(key);
+    }
+  }
+}
@@ -53,6 +53,19 @@ export interface EscrowLockRecord {
   challengerWalletId: string;
   opponentWalletId: string;
   amount: number;
+  /** Opponent's stake when it differs from `amount` (odds-priced bets). */
+  opponentAmount?: number;
+  createdAt: number;
+  lockTxHash: string;
+}
+
+/**
+ * Escrow pot for multi-party games and pools: stakes by wallet id under one pot id
+ */
+export interface EscrowPotRecord {
+  potId: string;
+  contributions: Record<string, number>;
+  total: number;
   createdAt: number;
   lockTxHash: string;
 }
@@ -67,6 +80,7 @@ export interface EscrowSettlementRecord {
   opponentWalletId: string;
   winnerWalletId: string | null;
   amount: number;
+  opponentAmount?: number;
   fee: number;
   payout: number;
   txHash: string;
@@ -151,9 +165,23 @@ export type ChallengeEventType =
   | 'expired'
   | 'resolved'
   | 'move_submitted'
+  | 'round_resolved'
   | 'invalid'
   | 'busy';
 
+/**
+ * One played round of a best-of-N series. Tied rounds are recorded and replayed.
+ */
+export interface ChallengeRound {
+  round: number;
+  challengerMove: GameMove | null;
+  opponentMove: GameMove | null;
+  winnerId: string | null;
+  coinflipResult?: CoinflipMove | null;
+  diceResult?: number | null;
+  reason?: string;
+}
+
 /**
  * Challenge record (server-side shape with all fields)
  */
@@ -174,6 +202,9 @@ export interface Challenge {
   coinflipResult: CoinflipMove | null;
   diceResult?: number | null;
   provablyFair?: ProvablyFairReceipt;
+  /** Series length; absent or 1 means a single round. */
+  bestOf?: number;
+  rounds?: ChallengeRound[];
 }
 
 /**
@@ -200,6 +231,160 @@ export interface ChallengeLog {
   gameType: GameType | null;
   winnerId: string | null;
   reason: string | null;
+  bestOf: number | null;
+  rounds: ChallengeRound[] | null;
+}
+
+/**
+ * Challenge as shown to spectators: moves and the house seed stay hidden until
+ * the round is revealed, and only the lock-in state of each side is exposed.
+ */
+export interface SpectatorChallengeView extends Challenge {
+  challengerLocked: boolean;
+  opponentLocked: boolean;
+}
+
+export type SpectatorEventType =
+  | 'created'
+  | 'accepted'
+  | 'move_locked'
+  | 'round_reveal'
+  | 'reveal'
+  | 'payout'
+  | 'side_bets'
+  | 'closed';
+
+/**
+ * Live event pushed to spectators subscribed to a challenge or its station.
+ */
+export interface SpectatorEvent {
+  type: 'spectator_event';
+  event: SpectatorEventType;
+  challengeId: string;
+  stationId: string | null;
+  reason?: string;
+  challenge?: SpectatorChallengeView;
+  payout?: {
+    phase: 'resolve' | 'refund';
+    ok: boolean;
+    payout?: number;
+    fee?: number;
+    txHash?: string;
+  };
+  /** Pool totals for `side_bets` events. */
+  sideBets?: {
+    event: 'placed' | 'closed' | 'settled' | 'refunded';
+    pool: SideBetPool;
+  };
+}
+
+export type SideBetStatus = 'locked' | 'won' | 'lost' | 'refunded' | 'settle_failed';
+
+/**
+ * A spectator's wager on one participant of a live PvP challenge. Every bet on
+ * a challenge goes into one escrow pot (`escrowBetId` is the pot id), which is
+ * split parimutuel-style across the winning side.
+ */
+export interface SideBet {
+  id: string;
+  challengeId: string;
+  bettorId: string;
+  walletId: string;
+  backedPlayerId: string;
+  amount: number;
+  status: SideBetStatus;
+  payout: number | null;
+  escrowBetId: string;
+  placedAt: number;
+  settledAt: number | null;
+  reason: string | null;
+}
+
+export interface SideBetPool {
+  challengeId: string;
+  status: 'open' | 'closed' | 'settled' | 'refunded';
+  challengerId: string;
+  opponentId: string;
+  feeBps: number;
+  totals: Record<string, number>;
+  betCount: number;
+  closedAt: number | null;
+  winnerId: string | null;
+}
+
+/**
+ * Tournament bracket formats
+ */
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin';
+
+export type TournamentStatus = 'registering' | 'active' | 'completed' | 'cancelled';
+
+export type TournamentEventType =
+  | 'created'
+  | 'joined'
+  | 'left'
+  | 'started'
+  | 'match_started'
+  | 'match_completed'
+  | 'completed'
+  | 'cancelled'
+  | 'invalid';
+
+export interface TournamentEntrant {
+  playerId: string;
+  seed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  eliminated: boolean;
+}
+
+/**
+ * A single pairing inside a bracket. Each attempt at the pairing is a regular
+ * challenge created through ChallengeService; ties and no-contests replay the match.
+ */
+export interface TournamentMatch {
+  id: string;
+  bracket: 'winners' | 'losers' | 'grand_final' | 'round_robin';
+  round: number;
+  playerAId: string;
+  playerBId: string | null;
+  status: 'ready' | 'live' | 'completed';
+  challengeId: string | null;
+  challengeIds: string[];
+  winnerId: string | null;
+  loserId: string | null;
+  forfeit: boolean;
+  reason: string | null;
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  gameType: GameType;
+  wager: number;
+  maxEntrants: number;
+  status: TournamentStatus;
+  entrants: TournamentEntrant[];
+  matches: TournamentMatch[];
+  createdAt: number;
+  startedAt: number | null;
+  completedAt: number | null;
+  winnerId: string | null;
+}
+
+/**
+ * Tournament event pushed to entrants as a `tournament` server message
+ */
+export interface TournamentEvent {
+  type: 'tournament';
+  event: TournamentEventType;
+  tournamentId?: string;
+  tournament?: Tournament;
+  match?: TournamentMatch;
+  to?: string[];
+  reason?: string;
 }
 
 /**
@@ -252,11 +437,24 @@ export interface SnapshotStation {
   actions: StationActionId[];
 }
 
+/**
+ * Where a house seed sits in a station's pre-committed hash chain. Seeds are
+ * revealed from index 1 upward and hashing the seed at `index` that many times
+ * yields `head`, which is published before the epoch's first round.
+ */
+export interface SeedChainPointer {
+  stationId: string;
+  epoch: number;
+  index: number;
+  head: string;
+}
+
 export interface ProvablyFairReceipt {
   commitHash: string;
   playerSeed: string;
   revealSeed?: string;
   method: string;
+  chain?: SeedChainPointer;
 }
 
 export type StationUiViewState =
@@ -327,6 +525,7 @@ export interface StationUiView {
   challengeId?: string;
   commitHash?: string;
   method?: string;
+  seedChain?: SeedChainPointer;
   wager?: number;
   playerPick?: CoinflipMove;
   coinflipResult?: CoinflipMove;
@@ -378,6 +577,8 @@ export type ClientMessageType =
   | 'challenge_counter'
   | 'station_interact'
   | 'move_submit'
+  | 'escrow_signer'
+  | 'escrow_intent'
   | 'leave';
 
 export interface ClientMessage {
@@ -393,7 +594,11 @@ export type ServerMessageType =
   | 'snapshot' 
   | 'challenge' 
   | 'challenge_escrow'
+  | 'escrow_intent_request'
+  | 'escrow_intent'
+  | 'escrow_signer'
   | 'station_ui'
+  | 'tournament'
   | 'error';
 
 export interface ServerMessage {
@@ -412,6 +617,22 @@ export interface PresenceEntry {
   yaw: number;
   updatedAt: number;
   serverId: string;
+  roomId?: string;
+}
+
+/**
+ * A world instance hosted by one game server; sent to players as `room`
+ * messages and listed by `GET /rooms`.
+ */
+export interface RoomSummary {
+  id: string;
+  /** Canonical world manifest alias. */
+  world: string;
+  playerCount: number;
+  capacity: number;
+  /** Created by overflow sharding rather than requested by name. */
+  auto: boolean;
+  createdAt: number;
 }
 
 /**
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BinarySnapshotDecoder,
+  BinarySnapshotEncoder,
+  decodeWireClientMessage,
+  encodeWireClientMessage,
+  parseWireCodec,
+  type WireSnapshotMessage
+} from './index.js';
+
+describe('binary wire codec', () => {
+  it('round-trips snapshots with quantized fields and indexed ids', () => {
+    const encoder = new BinarySnapshotEncoder();
+    const decoder = new BinarySnapshotDecoder();
+    const full: WireSnapshotMessage = {
+      type: 'snapshot',
+      tick: 1200,
+      seq: 1,
+      baseSeq: null,
+      roomId: 'mega-1',
+      players: [
+        { id: 'u_alpha', x: 12.3456, y: 0, z: -40.5, yaw: -2.5, speed: 4.2, role: 'human', displayName: 'Alpha', walletId: null },
+        { id: 'agent_1', x: 0, y: 0, z: 0, yaw: 3.1, speed: 0, role: 'agent', displayName: 'Bot ✦', walletId: 'w_1', lastProcessedInput: 7 }
+      ],
+      removed: []
+    };
+    const bytes = encoder.encode(full);
+    expect(bytes.length).toBeLessThan(JSON.stringify(full).length / 2);
+
+    const decoded = decoder.decode(bytes);
+    expect(decoded).toMatchObject({ tick: 1200, seq: 1, baseSeq: null, roomId: 'mega-1', removed: [] });
+    const [alpha, agent] = decoded.players;
+    expect(alpha).toMatchObject({ id: 'u_alpha', x: 12.35, z: -40.5, speed: 4.2, role: 'human', walletId: null });
+    expect(alpha?.yaw).toBeCloseTo(-2.5, 3);
+    expect(agent).toMatchObject({ id: 'agent_1', displayName: 'Bot ✦', walletId: 'w_1', lastProcessedInput: 7 });
+
+    // Known ids are referenced by index afterwards.
+    const delta = encoder.encode({ type: 'snapshot', tick: 1201, seq: 2, baseSeq: 1, players: [{ id: 'u_alpha', x: 13 }], removed: ['agent_1'] });
+    expect(delta.length).toBeLessThan(20);
+    expect(decoder.decode(delta)).toEqual({
+      type: 'snapshot',
+      tick: 1201,
+      seq: 2,
+      baseSeq: 1,
+      roomId: undefined,
+      players: [{ id: 'u_alpha', x: 13 }],
+      removed: ['agent_1']
+    });
+
+    const acked = decoder.decode(encoder.encode({ type: 'snapshot', tick: 1202, seq: 3, baseSeq: 2, lastProcessedInput: 0, players: [], removed: [] }));
+    expect(acked.lastProcessedInput).toBe(0);
+  });
+
+  it('encodes inputs and acks and rejects malformed frames', () => {
+    const input = decodeWireClientMessage(encodeWireClientMessage({ type: 'input', moveX: 0.6, moveZ: -1 }));
+    expect(input?.type).toBe('input');
+    expect(input?.type === 'input' && input.moveX).toBeCloseTo(0.6, 2);
+    expect(input?.type === 'input' && input.moveZ).toBe(-1);
+    expect(decodeWireClientMessage(encodeWireClientMessage({ type: 'input', moveX: 0, moveZ: 1, seq: 0 }))).toEqual({ type: 'input', moveX: 0, moveZ: 1, seq: 0 });
+    expect(decodeWireClientMessage(encodeWireClientMessage({ type: 'input', moveX: 0, moveZ: 1, seq: 70_000 }))).toMatchObject({ seq: 70_000 });
+    // Frames without the trailing seq still decode.
+    expect(decodeWireClientMessage(new Uint8Array([0x02, 0x00, 0x7f]))).toEqual({ type: 'input', moveX: 0, moveZ: 1 });
+    expect(decodeWireClientMessage(encodeWireClientMessage({ type: 'snapshot_ack', seq: 300 }))).toEqual({ type: 'snapshot_ack', seq: 300 });
+    expect(decodeWireClientMessage(new Uint8Array([0x02, 0x10]))).toBeNull();
+    expect(decodeWireClientMessage(new Uint8Array([0x7f]))).toBeNull();
+    expect(parseWireCodec('Binary')).toBe('binary');
+    expect(parseWireCodec('msgpack')).toBe('json');
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Compact binary framing for the two hot websocket messages: `snapshot`
+ * (server → client) and `input`/`snapshot_ack` (client → server). Everything
+ * else stays JSON text frames. Clients opt in with `?codec=binary` on connect.
+ *
+ * Layout: one tag byte, then unsigned LEB128 varints. Positions and speed are
+ * centimetres (zigzag varints), yaw is a uint16 turn fraction, move axes are
+ * int8 (x127). Player ids are sent once per connection and then referenced by
+ * varint index, so encoder and decoder each keep a per-connection table.
+ *
+ * This module has no runtime imports: the web server serves its built file to
+ * the browser as-is.
+ */
+import type { SnapshotAckMessage, SnapshotDelta, SnapshotEntity } from './snapshots.js';
+
+export type WireCodec = 'json' | 'binary';
+
+export const WIRE_TAG_SNAPSHOT = 0x01;
+export const WIRE_TAG_INPUT = 0x02;
+export const WIRE_TAG_SNAPSHOT_ACK = 0x03;
+
+/** `lastProcessedInput`: seq of the recipient's newest input applied before this tick. */
+export type WireSnapshotMessage = SnapshotDelta & {
+  type: 'snapshot';
+  tick: number;
+  roomId?: string;
+  lastProcessedInput?: number;
+};
+
+/** `seq` numbers inputs for client-side prediction; optional. */
+export type WireInputMessage = { type: 'input'; moveX: number; moveZ: number; seq?: number };
+
+export type WireClientMessage = WireInputMessage | SnapshotAckMessage;
+
+export function parseWireCodec(value: unknown): WireCodec {
+  return String(value ?? '').trim().toLowerCase() === 'binary' ? 'binary' : 'json';
+}
+
+const FIELD_X = 1 << 0;
+const FIELD_Y = 1 << 1;
+const FIELD_Z = 1 << 2;
+const FIELD_YAW = 1 << 3;
+const FIELD_SPEED = 1 << 4;
+const FIELD_ROLE = 1 << 5;
+const FIELD_DISPLAY_NAME = 1 << 6;
+const FIELD_WALLET_ID = 1 << 7;
+/** Any other keys, as a JSON object string. */
+const FIELD_EXTRA = 1 << 8;
+
+const KNOWN_FIELDS = new Set(['id', 'x', 'y', 'z', 'yaw', 'speed', 'role', 'displayName', 'walletId']);
+const TURN = Math.PI * 2;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private bytes = new Uint8Array(256);
+  private length = 0;
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) {
+      return;
+    }
+    const next = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+  }
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.bytes[this.length] = value & 0xff;
+    this.length += 1;
+  }
+
+  varint(value: number): void {
+    let rest = Math.max(0, Math.floor(value));
+    while (rest >= 0x80) {
+      this.byte((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.byte(rest);
+  }
+
+  zigzag(value: number): void {
+    const rounded = Math.round(value);
+    this.varint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+  }
+
+  string(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.varint(encoded.length);
+    this.raw(encoded);
+  }
+
+  /** Length + 1, so that 0 can stand for null. */
+  optionalString(value: string | null): void {
+    if (value === null) {
+      this.varint(0);
+      return;
+    }
+    const encoded = textEncoder.encode(value);
+    this.varint(encoded.length + 1);
+    this.raw(encoded);
+  }
+
+  private raw(encoded: Uint8Array): void {
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length);
+    this.length += encoded.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('wire_truncated');
+    }
+    const value = this.bytes[this.offset]!;
+    this.offset += 1;
+    return value;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const next = this.byte();
+      value += (next & 0x7f) * scale;
+      if (next < 0x80) {
+        return value;
+      }
+      scale *= 0x80;
+      if (scale > 2 ** 49) {
+        throw new Error('wire_varint_overflow');
+      }
+    }
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  string(): string {
+    return this.raw(this.varint());
+  }
+
+  optionalString(): string | null {
+    const length = this.varint();
+    return length === 0 ? null : this.raw(length - 1);
+  }
+
+  private raw(length: number): string {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('wire_truncated');
+    }
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+function quantizeYaw(yaw: number): number {
+  const normalized = ((yaw % TURN) + TURN) % TURN;
+  return Math.round((normalized / TURN) * 65536) & 0xffff;
+}
+
+function dequantizeYaw(value: number): number {
+  const yaw = (value / 65536) * TURN;
+  return yaw > Math.PI ? yaw - TURN : yaw;
+}
+
+function centimetres(value: unknown): number {
+  return Math.round(Number(value) * 100);
+}
+
+function quantizeAxis(value: number): number {
+  const clamped = Math.max(-1, Math.min(1, Number(value) || 0));
+  return Math.round(clamped * 127);
+}
+
+function toInt8(value: number): number {
+  return value > 127 ? value - 256 : value;
+}
+
+/**
+ * Server side, one per connection (it remembers which player ids it has sent).
+ */
+export class BinarySnapshotEncoder {
+  private readonly indexById = new Map<string, number>();
+
+  encode(message: WireSnapshotMessage): Uint8Array {
+    const writer = new ByteWriter();
+    writer.byte(WIRE_TAG_SNAPSHOT);
+    writer.varint(message.tick);
+    writer.varint(message.seq);
+    writer.varint(message.baseSeq === null ? 0 : message.baseSeq + 1);
+    writer.string(message.roomId ?? '');
+    writer.varint(message.lastProcessedInput === undefined ? 0 : message.lastProcessedInput + 1);
+    writer.varint(message.players.length);
+    for (const player of message.players) {
+      this.writePlayer(writer, player);
+    }
+    writer.varint(message.removed.length);
+    for (const id of message.removed) {
+      writer.varint(this.indexById.get(id) ?? 0);
+    }
+    return writer.finish();
+  }
+
+  private writePlayer(writer: ByteWriter, player: Partial<SnapshotEntity> & { id: string }): void {
+    let index = this.indexById.get(player.id);
+    const isNew = index === undefined;
+    if (index === undefined) {
+      index = this.indexById.size + 1;
+      this.indexById.set(player.id, index);
+    }
+    writer.varint(index * 2 + (isNew ? 1 : 0));
+    if (isNew) {
+      writer.string(player.id);
+    }
+
+    const extra: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(player)) {
+      if (!KNOWN_FIELDS.has(key) && value !== undefined) {
+        extra[key] = value;
+      }
+    }
+    const has = (key: string) => player[key] !== undefined;
+    let mask = 0;
+    if (has('x')) mask |= FIELD_X;
+    if (has('y')) mask |= FIELD_Y;
+    if (has('z')) mask |= FIELD_Z;
+    if (has('yaw')) mask |= FIELD_YAW;
+    if (has('speed')) mask |= FIELD_SPEED;
+    if (has('role')) mask |= FIELD_ROLE;
+    if (has('displayName')) mask |= FIELD_DISPLAY_NAME;
+    if (has('walletId')) mask |= FIELD_WALLET_ID;
+    if (Object.keys(extra).length > 0) mask |= FIELD_EXTRA;
+    writer.varint(mask);
+
+    if (mask & FIELD_X) writer.zigzag(centimetres(player.x));
+    if (mask & FIELD_Y) writer.zigzag(centimetres(player.y));
+    if (mask & FIELD_Z) writer.zigzag(centimetres(player.z));
+    if (mask & FIELD_YAW) {
+      const yaw = quantizeYaw(Number(player.yaw));
+      writer.byte(yaw >> 8);
+      writer.byte(yaw);
+    }
+    if (mask & FIELD_SPEED) writer.zigzag(centimetres(player.speed));
+    if (mask & FIELD_ROLE) writer.string(String(player.role));
+    if (mask & FIELD_DISPLAY_NAME) writer.string(String(player.displayName));
+    if (mask & FIELD_WALLET_ID) writer.optionalString(player.walletId === null ? null : String(player.walletId));
+    if (mask & FIELD_EXTRA) writer.string(JSON.stringify(extra));
+  }
+}
+
+/**
+ * Client side, one per connection (mirror of the encoder's id table).
+ */
+export class BinarySnapshotDecoder {
+  private readonly idByIndex = new Map<number, string>();
+
+  decode(bytes: Uint8Array): WireSnapshotMessage {
+    const reader = new ByteReader(bytes);
+    if (reader.byte() !== WIRE_TAG_SNAPSHOT) {
+      throw new Error('wire_unexpected_tag');
+    }
+    const tick = reader.varint();
+    const seq = reader.varint();
+    const encodedBase = reader.varint();
+    const roomId = reader.string();
+    const encodedInput = reader.varint();
+    const players: WireSnapshotMessage['players'] = [];
+    const count = reader.varint();
+    for (let entry = 0; entry < count; entry += 1) {
+      players.push(this.readPlayer(reader));
+    }
+    const removed: string[] = [];
+    const removedCount = reader.varint();
+    for (let entry = 0; entry < removedCount; entry += 1) {
+      const id = this.idByIndex.get(reader.varint());
+      if (id !== undefined) {
+        removed.push(id);
+      }
+    }
+    return {
+      type: 'snapshot',
+      tick,
+      seq,
+      baseSeq: encodedBase === 0 ? null : encodedBase - 1,
+      ...(roomId ? { roomId } : {}),
+      ...(encodedInput === 0 ? {} : { lastProcessedInput: encodedInput - 1 }),
+      players,
+      removed
+    };
+  }
+
+  private readPlayer(reader: ByteReader): Partial<SnapshotEntity> & { id: string } {
+    const header = reader.varint();
+    const index = Math.floor(header / 2);
+    if (header % 2 === 1) {
+      this.idByIndex.set(index, reader.string());
+    }
+    const id = this.idByIndex.get(index);
+    if (id === undefined) {
+      throw new Error('wire_unknown_player_index');
+    }
+    const player: Partial<SnapshotEntity> & { id: string } = { id };
+    const mask = reader.varint();
+    if (mask & FIELD_X) player.x = reader.zigzag() / 100;
+    if (mask & FIELD_Y) player.y = reader.zigzag() / 100;
+    if (mask & FIELD_Z) player.z = reader.zigzag() / 100;
+    if (mask & FIELD_YAW) player.yaw = dequantizeYaw(reader.byte() * 256 + reader.byte());
+    if (mask & FIELD_SPEED) player.speed = reader.zigzag() / 100;
+    if (mask & FIELD_ROLE) player.role = reader.string();
+    if (mask & FIELD_DISPLAY_NAME) player.displayName = reader.string();
+    if (mask & FIELD_WALLET_ID) player.walletId = reader.optionalString();
+    if (mask & FIELD_EXTRA) {
+      Object.assign(player, JSON.parse(reader.string()) as Record<string, unknown>);
+    }
+    return player;
+  }
+}
+
+export function encodeWireClientMessage(message: WireClientMessage): Uint8Array {
+  const writer = new ByteWriter();
+  if (message.type === 'input') {
+    writer.byte(WIRE_TAG_INPUT);
+    writer.byte(quantizeAxis(message.moveX));
+    writer.byte(quantizeAxis(message.moveZ));
+    writer.varint(message.seq === undefined ? 0 : message.seq + 1);
+  } else {
+    writer.byte(WIRE_TAG_SNAPSHOT_ACK);
+    writer.varint(message.seq);
+  }
+  return writer.finish();
+}
+
+/**
+ * Null for unknown tags or malformed frames.
+ */
+export function decodeWireClientMessage(bytes: Uint8Array): WireClientMessage | null {
+  try {
+    const reader = new ByteReader(bytes);
+    const tag = reader.byte();
+    if (tag === WIRE_TAG_INPUT) {
+      const moveX = toInt8(reader.byte()) / 127;
+      const moveZ = toInt8(reader.byte()) / 127;
+      const encodedSeq = reader.remaining > 0 ? reader.varint() : 0;
+      return encodedSeq === 0 ? { type: 'input', moveX, moveZ } : { type: 'input', moveX, moveZ, seq: encodedSeq - 1 };
+    }
+    if (tag === WIRE_TAG_SNAPSHOT_ACK) {
+      return { type: 'snapshot_ack', seq: reader.varint() };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
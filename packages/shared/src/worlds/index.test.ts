@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getWorldManifest, listWorldManifests, parseWorldManifest, resolveWorldAlias } from './index.js';
+
+describe('world manifests', () => {
+  it('registers the built-in worlds under their legacy aliases', () => {
+    expect(listWorldManifests().map((world) => world.alias)).toEqual(['mega', 'yard']);
+    expect(resolveWorldAlias('Train_World.glb')).toBe('mega');
+    expect(resolveWorldAlias('rail-yard')).toBe('yard');
+    expect(resolveWorldAlias('atlantis')).toBeNull();
+    expect(getWorldManifest('plaza')?.sections).toHaveLength(8);
+  });
+
+  it('rejects malformed manifests', () => {
+    const mega = getWorldManifest('mega')!;
+    expect(() => parseWorldManifest({ ...mega, version: 2 })).toThrow('unsupported version');
+    expect(() => parseWorldManifest({ ...mega, bounds: { minX: 10, maxX: -10, minZ: 0, maxZ: 1 } })).toThrow('bounds');
+    expect(() => parseWorldManifest({
+      ...mega,
+      obstacles: [{ id: 'sliver', type: 'polygon', points: [{ x: 0, z: 0 }, { x: 1, z: 1 }] }]
+    })).toThrow('obstacles');
+    expect(() => parseWorldManifest({ ...mega, stations: [...mega.stations, mega.stations[0]] })).toThrow('duplicate station id');
+  });
+});
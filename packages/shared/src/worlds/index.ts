@@ -0,0 +1,197 @@
+import type { SnapshotStation } from '../types/index.js';
+import megaWorld from './mega.json' with { type: 'json' };
+import yardWorld from './yard.json' with { type: 'json' };
+
+export const WORLD_MANIFEST_VERSION = 1;
+export const DEFAULT_WORLD_ALIAS = 'mega';
+
+export type WorldPoint = { x: number; z: number };
+
+export type WorldBounds = { minX: number; maxX: number; minZ: number; maxZ: number };
+
+export type WorldObstacle =
+  | { id: string; type: 'aabb'; minX: number; maxX: number; minZ: number; maxZ: number }
+  /** Convex or concave outline, points in order; the closing edge is implied. */
+  | { id: string; type: 'polygon'; points: WorldPoint[] };
+
+export type WorldSection = {
+  id: string;
+  name: string;
+  spawn: WorldPoint;
+};
+
+/**
+ * Where a station stands; its actions come from the station kind.
+ */
+export type WorldStationPlacement = {
+  id: string;
+  kind: SnapshotStation['kind'];
+  displayName: string;
+  x: number;
+  z: number;
+  yaw: number;
+  radius?: number;
+  interactionTag?: string;
+};
+
+/**
+ * Versioned description of one playable world. The same manifest drives
+ * server movement/collision, station placement and the web client's loader.
+ */
+export type WorldManifest = {
+  version: number;
+  alias: string;
+  /** Extra names that resolve to this world (legacy URLs, `?world=`). */
+  aliases: string[];
+  displayName: string;
+  asset: { file: string; version: string };
+  bounds: WorldBounds;
+  /** Last-resort spawn when everything else is blocked. */
+  fallbackSpawn: WorldPoint;
+  obstacles: WorldObstacle[];
+  humanSpawns: WorldPoint[];
+  /** Ordered; agents address them by index (`spawnSection`). */
+  sections: WorldSection[];
+  stations: WorldStationPlacement[];
+};
+
+const STATION_KINDS = new Set<string>([
+  'dealer_coinflip',
+  'dealer_rps',
+  'dealer_dice_duel',
+  'dealer_prediction',
+  'cashier_bank',
+  'world_interactable'
+]);
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPoint(value: unknown): value is WorldPoint {
+  const point = value as WorldPoint | null;
+  return Boolean(point) && isFiniteNumber(point?.x) && isFiniteNumber(point?.z);
+}
+
+function isObstacle(value: unknown): value is WorldObstacle {
+  const obstacle = value as WorldObstacle | null;
+  if (!obstacle || typeof obstacle.id !== 'string') {
+    return false;
+  }
+  if (obstacle.type === 'aabb') {
+    return isFiniteNumber(obstacle.minX) && isFiniteNumber(obstacle.maxX)
+      && isFiniteNumber(obstacle.minZ) && isFiniteNumber(obstacle.maxZ)
+      && obstacle.minX <= obstacle.maxX && obstacle.minZ <= obstacle.maxZ;
+  }
+  if (obstacle.type === 'polygon') {
+    return Array.isArray(obstacle.points) && obstacle.points.length >= 3 && obstacle.points.every(isPoint);
+  }
+  return false;
+}
+
+function isStationPlacement(value: unknown): value is WorldStationPlacement {
+  const station = value as WorldStationPlacement | null;
+  return Boolean(station)
+    && typeof station?.id === 'string'
+    && STATION_KINDS.has(station.kind)
+    && typeof station.displayName === 'string'
+    && isFiniteNumber(station.x)
+    && isFiniteNumber(station.z)
+    && isFiniteNumber(station.yaw)
+    && (station.radius === undefined || isFiniteNumber(station.radius))
+    && (station.interactionTag === undefined || typeof station.interactionTag === 'string');
+}
+
+/**
+ * Validate an untrusted manifest. Throws with the first problem found.
+ */
+export function parseWorldManifest(raw: unknown): WorldManifest {
+  const manifest = raw as WorldManifest | null;
+  const fail = (problem: string): never => {
+    throw new Error(`invalid_world_manifest: ${problem}`);
+  };
+  if (!manifest || typeof manifest !== 'object') {
+    return fail('not an object');
+  }
+  if (manifest.version !== WORLD_MANIFEST_VERSION) {
+    fail(`unsupported version ${String(manifest.version)}`);
+  }
+  if (typeof manifest.alias !== 'string' || !/^[a-z0-9_-]+$/.test(manifest.alias)) {
+    fail('alias');
+  }
+  if (!Array.isArray(manifest.aliases) || !manifest.aliases.every((alias) => typeof alias === 'string')) {
+    fail('aliases');
+  }
+  if (typeof manifest.asset?.file !== 'string' || typeof manifest.asset?.version !== 'string') {
+    fail('asset');
+  }
+  const bounds = manifest.bounds;
+  if (!bounds || ![bounds.minX, bounds.maxX, bounds.minZ, bounds.maxZ].every(isFiniteNumber)
+    || bounds.minX >= bounds.maxX || bounds.minZ >= bounds.maxZ) {
+    fail('bounds');
+  }
+  if (!isPoint(manifest.fallbackSpawn)) {
+    fail('fallbackSpawn');
+  }
+  if (!Array.isArray(manifest.obstacles) || !manifest.obstacles.every(isObstacle)) {
+    fail('obstacles');
+  }
+  if (!Array.isArray(manifest.humanSpawns) || manifest.humanSpawns.length === 0 || !manifest.humanSpawns.every(isPoint)) {
+    fail('humanSpawns');
+  }
+  if (!Array.isArray(manifest.sections) || manifest.sections.length === 0
+    || !manifest.sections.every((section) => typeof section?.id === 'string' && isPoint(section.spawn))) {
+    fail('sections');
+  }
+  if (!Array.isArray(manifest.stations) || !manifest.stations.every(isStationPlacement)) {
+    fail('stations');
+  }
+  const stationIds = new Set(manifest.stations.map((station) => station.id));
+  if (stationIds.size !== manifest.stations.length) {
+    fail('duplicate station id');
+  }
+  return manifest;
+}
+
+const manifests = new Map<string, WorldManifest>();
+const aliasIndex = new Map<string, string>();
+
+/**
+ * Register (or replace) a world. Built-in worlds are registered on import.
+ */
+export function registerWorldManifest(raw: unknown): WorldManifest {
+  const manifest = parseWorldManifest(raw);
+  manifests.set(manifest.alias, manifest);
+  aliasIndex.set(manifest.alias, manifest.alias);
+  for (const alias of manifest.aliases) {
+    aliasIndex.set(alias.toLowerCase(), manifest.alias);
+  }
+  return manifest;
+}
+
+/**
+ * Canonical alias for any registered name (case-insensitive, `.glb` suffix allowed).
+ */
+export function resolveWorldAlias(alias: string): string | null {
+  const normalized = String(alias || '').toLowerCase().replace(/\.glb$/i, '');
+  return aliasIndex.get(normalized) ?? null;
+}
+
+export function getWorldManifest(alias: string): WorldManifest | null {
+  const canonical = resolveWorldAlias(alias);
+  return canonical ? manifests.get(canonical) ?? null : null;
+}
+
+export function listWorldManifests(): WorldManifest[] {
+  return [...manifests.values()];
+}
+
+/**
+ * Every registered name (canonical and legacy) mapped to its canonical alias.
+ */
+export function worldAliasIndex(): Record<string, string> {
+  return Object.fromEntries(aliasIndex);
+}
+
+registerWorldManifest(megaWorld);
+registerWorldManifest(yardWorld);
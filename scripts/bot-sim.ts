@@ -0,0 +1,901 @@
+#!/usr/bin/env npx tsx
+/**
+ * Bot Simulation Harness
+ *
+ * Runs hundreds of AgentBots headless against an in-process server (WorldSim,
+ * proximity, snapshot streams, ChallengeService and the station router) over
+ * an in-memory transport, driven by a fake clock: play runs faster than real
+ * time and the same --seed replays the same run. The report (win rates,
+ * realized house edge, stuck bots, challenge latency) is meant for
+ * regression-testing PolicyEngine and SuperAgent changes.
+ *
+ * Usage:
+ *   npm run sim:bots                                  # 100 bots, 2 simulated minutes
+ *   npm run sim:bots -- --bots 300 --seconds 600 --seed 7
+ *   npm run sim:bots -- --mode hunter                 # SuperAgent worker directives for a mode
+ *   npm run sim:bots -- --max-drawdown 200 --min-coverage 0.75   # Re-plan with SuperAgentPlanner objectives
+ *   npm run sim:bots -- --world plaza --latency 40    # World alias, one-way message latency (ms)
+ *   npm run sim:bots -- --json                        # Print the report as JSON
+ *   npm run sim:bots -- --max-stuck-ratio 0.05        # Exit 2 when more bots than this get stuck
+ *
+ * AgentBots never walk up to dealers themselves, so the harness plays house
+ * rounds for idle bots standing inside a dealer station's radius (at
+ * --house-rate rounds per bot-second), through the station router and with
+ * the bot's own move strategy.
+ */
+
+import {
+  findGameByStationKind,
+  getWorldManifest,
+  type GameDefinition,
+  type SnapshotStation,
+  type WorldManifest
+} from '@arena/shared';
+import { AgentBot, type AgentBehaviorConfig } from '../apps/agent-runtime/src/AgentBot.js';
+import type { BotClock, BotConnector, BotSocketHandlers, BotTimer } from '../apps/agent-runtime/src/botTransport.js';
+import { MOVE_STRATEGY_NAMES, OpponentMoveHistory, createMoveStrategy } from '../apps/agent-runtime/src/MoveStrategy.js';
+import { STAKING_MODEL_NAMES } from '../apps/agent-runtime/src/StakingModel.js';
+import {
+  SuperAgentPlanner,
+  buildWorkerDirectives,
+  createDefaultSuperAgentConfig,
+  type SuperAgentConfig,
+  type SuperAgentMode,
+  type SuperAgentObjectives
+} from '../apps/agent-runtime/src/SuperAgent.js';
+import { ChallengeService, type ChallengeEvent } from '../apps/server/src/ChallengeService.js';
+import { WorldSim } from '../apps/server/src/WorldSim.js';
+import { arePlayersNear, emitProximityEvents } from '../apps/server/src/game/proximity.js';
+import { createStationRouter } from '../apps/server/src/game/stations/router.js';
+import { HouseSeedChains } from '../apps/server/src/game/stations/seedChain.js';
+import { SnapshotStream } from '../apps/server/src/snapshots/SnapshotStream.js';
+import { InterestGrid } from '../apps/server/src/snapshots/interest.js';
+import { parseClientMessage } from '../apps/server/src/websocket/messages.js';
+
+// Server defaults (see apps/server/src/config.ts); the in-memory server speaks JSON only.
+const TICK_MS = 50;
+// Snapshots dominate the cost; bots decide every 120 ms, so 10 Hz keeps them fed.
+const SNAPSHOT_EVERY_TICKS = 2;
+const PROXIMITY_THRESHOLD = 12;
+const STATION_PROXIMITY_THRESHOLD = 8;
+const AOI_CELL_SIZE = 40;
+const AOI_RADIUS_CELLS = 1;
+const HOUSE_ID = 'system_house';
+const HOUSE_WALLET_ID = 'w_house';
+const HOUSE_BANKROLL = 1_000_000;
+const MAX_BET_PERCENT_OF_BANKROLL = 10;
+// A bot that moves less than this between samples, outside a challenge, is standing still.
+const STUCK_SAMPLE_MS = 5000;
+const STUCK_MOVE_EPSILON = 1;
+const PERSONALITIES = ['aggressive', 'conservative', 'social'] as const;
+const SUPER_AGENT_MODES: readonly SuperAgentMode[] = ['balanced', 'hunter', 'defensive'];
+const PLAN_INTERVAL_MS = 60_000;
+
+process.env.AGENT_WS_CODEC = 'json';
+
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function numberFlag(name: string): number | undefined {
+  const value = flag(name);
+  return value === undefined ? undefined : Number(value);
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]!;
+}
+
+type ScheduledTimer = { id: number; at: number; every: number | null; fn: () => unknown };
+
+/**
+ * Deterministic clock for bots and server alike. Timers fire in (time, id)
+ * order; callbacks that return a promise (the server's message handler) are
+ * awaited before the next timer, so async server work never interleaves.
+ */
+class FakeClock implements BotClock {
+  private current: number;
+  private nextId = 1;
+  private readonly live = new Map<number, ScheduledTimer>();
+  private readonly heap: Array<{ id: number; at: number }> = [];
+
+  constructor(start: number) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  after(ms: number, fn: () => void): BotTimer {
+    return this.schedule(Math.max(0, ms), null, fn);
+  }
+
+  every(ms: number, fn: () => void): BotTimer {
+    return this.schedule(Math.max(1, ms), Math.max(1, ms), fn);
+  }
+
+  async runUntil(until: number): Promise<void> {
+    for (let next = this.heap[0]; next && next.at <= until; next = this.heap[0]) {
+      this.pop();
+      const timer = this.live.get(next.id);
+      if (!timer || timer.at !== next.at) {
+        continue;
+      }
+      this.current = timer.at;
+      if (timer.every === null) {
+        this.live.delete(timer.id);
+      } else {
+        timer.at += timer.every;
+        this.push({ id: timer.id, at: timer.at });
+      }
+      const result = timer.fn();
+      if (result instanceof Promise) {
+        await result;
+      }
+    }
+    this.current = until;
+  }
+
+  private schedule(delay: number, every: number | null, fn: () => unknown): BotTimer {
+    const timer: ScheduledTimer = { id: this.nextId, at: this.current + delay, every, fn };
+    this.nextId += 1;
+    this.live.set(timer.id, timer);
+    this.push({ id: timer.id, at: timer.at });
+    return { cancel: () => this.live.delete(timer.id) };
+  }
+
+  private before(a: { id: number; at: number }, b: { id: number; at: number }): boolean {
+    return a.at < b.at || (a.at === b.at && a.id < b.id);
+  }
+
+  private push(entry: { id: number; at: number }): void {
+    const heap = this.heap;
+    heap.push(entry);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(heap[index]!, heap[parent]!)) {
+        break;
+      }
+      [heap[index], heap[parent]] = [heap[parent]!, heap[index]!];
+      index = parent;
+    }
+  }
+
+  private pop(): void {
+    const heap = this.heap;
+    const last = heap.pop();
+    if (!last || heap.length === 0) {
+      return;
+    }
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && this.before(heap[left]!, heap[smallest]!)) {
+        smallest = left;
+      }
+      if (right < heap.length && this.before(heap[right]!, heap[smallest]!)) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+      [heap[index], heap[smallest]] = [heap[smallest]!, heap[index]!];
+      index = smallest;
+    }
+  }
+}
+
+type SimPlayer = {
+  id: string;
+  x: number;
+  y: number;
+  z: number;
+  yaw: number;
+  speed: number;
+  role: 'agent';
+  displayName: string;
+};
+
+type SimConnection = {
+  playerId: string;
+  displayName: string;
+  handlers: BotSocketHandlers;
+  stream: SnapshotStream<SimPlayer>;
+  open: boolean;
+};
+
+type Record3 = { won: number; lost: number; tied: number };
+
+type SimMetrics = {
+  created: number;
+  accepted: number;
+  declined: number;
+  expired: number;
+  resolved: number;
+  invalid: Map<string, number>;
+  responseLatencyMs: number[];
+  resolveLatencyMs: number[];
+  createdAt: Map<string, number>;
+  records: Map<string, Record3>;
+  house: { rounds: number; handle: number; net: number };
+};
+
+/**
+ * The game server's per-room work for one room, minus the network: it owns
+ * the sim, proximity pairs, per-viewer snapshot streams, challenges and an
+ * in-memory wallet ledger standing in for the escrow contract.
+ */
+class SimServer {
+  readonly sim: WorldSim;
+  readonly challenges: ChallengeService;
+  readonly router: ReturnType<typeof createStationRouter>;
+  readonly balances = new Map<string, number>();
+  readonly metrics: SimMetrics = {
+    created: 0,
+    accepted: 0,
+    declined: 0,
+    expired: 0,
+    resolved: 0,
+    invalid: new Map(),
+    responseLatencyMs: [],
+    resolveLatencyMs: [],
+    createdAt: new Map(),
+    records: new Map(),
+    house: { rounds: 0, handle: 0, net: 0 }
+  };
+  private readonly connections = new Map<string, SimConnection>();
+  private readonly proximityPairs = new Set<string>();
+  private readonly lastPlayerPos = new Map<string, { x: number; z: number }>();
+  private readonly escrowLocked = new Set<string>();
+
+  constructor(
+    readonly world: WorldManifest,
+    private readonly clock: FakeClock,
+    random: () => number,
+    private readonly latencyMs: number
+  ) {
+    this.sim = new WorldSim(undefined, world);
+    this.challenges = new ChallengeService(() => clock.now(), random, 15_000, 45_000, 'sim');
+    this.balances.set(HOUSE_WALLET_ID, HOUSE_BANKROLL);
+    const newSeedHex = (bytes = 18) =>
+      Array.from({ length: bytes }, () => Math.floor(random() * 256).toString(16).padStart(2, '0')).join('');
+    this.router = createStationRouter({
+      diceDuelEnabled: true,
+      world,
+      stationProximityThreshold: STATION_PROXIMITY_THRESHOLD,
+      lastPlayerPos: this.lastPlayerPos,
+      challengeEscrowTxById: new Map(),
+      challengeEscrowFailureById: new Map(),
+      escrowLockedChallenges: this.escrowLocked,
+      challengeService: this.challenges,
+      escrowAdapter: {
+        preflightStake: async ({ challengerWalletId, opponentWalletId, amount }) => {
+          const playerOk = this.balanceOf(challengerWalletId) >= amount;
+          const houseOk = this.balanceOf(opponentWalletId) >= amount;
+          return playerOk && houseOk
+            ? { ok: true, preflight: { playerOk, houseOk } }
+            : {
+                ok: false,
+                reason: 'insufficient_balance',
+                reasonCode: playerOk ? 'HOUSE_BALANCE_LOW' : 'PLAYER_BALANCE_LOW',
+                preflight: { playerOk, houseOk }
+              };
+        }
+      },
+      walletIdFor: (playerId) => this.walletIdFor(playerId),
+      getHouseWalletId: () => HOUSE_WALLET_ID,
+      sendTo: (playerId, payload) => this.sendTo(playerId, payload),
+      sendToDistributed: (playerId, payload) => this.sendTo(playerId, payload),
+      registerCreatedChallenge: async () => ({ ok: true }),
+      dispatchChallengeEventWithEscrow: (event) => this.dispatch(event),
+      stationErrorFromEscrowFailure: ({ reason }) => ({ reason: reason || 'escrow_failed' }),
+      newSeedHex,
+      seedChains: new HouseSeedChains(newSeedHex, () => clock.now(), 2_000)
+    });
+  }
+
+  walletIdFor(playerId: string): string | null {
+    return playerId === HOUSE_ID ? HOUSE_WALLET_ID : this.connections.has(playerId) ? `w_${playerId}` : null;
+  }
+
+  balanceOf(walletId: string): number {
+    return this.balances.get(walletId) ?? 0;
+  }
+
+  positionOf(playerId: string): { x: number; z: number } | null {
+    return this.lastPlayerPos.get(playerId) ?? null;
+  }
+
+  /** Connects a bot the way the ws server would: join, spawn by section, welcome. */
+  readonly connect: BotConnector = (url, handlers) => {
+    const params = new URL(url).searchParams;
+    const playerId = params.get('agentId') ?? `p${this.connections.size + 1}`;
+    const connection: SimConnection = {
+      playerId,
+      displayName: params.get('name') ?? playerId,
+      handlers,
+      stream: new SnapshotStream<SimPlayer>(),
+      open: false
+    };
+    this.connections.set(playerId, connection);
+
+    // Open asynchronously, like a real socket: the bot stores the socket first.
+    this.clock.after(0, () => {
+      connection.open = true;
+      const section = Number(params.get('spawnSection'));
+      const sections = this.world.sections;
+      const spawn = Number.isFinite(section) && sections.length > 0
+        ? sections[Math.max(0, Math.min(sections.length - 1, Math.floor(section)))]?.spawn
+        : undefined;
+      this.sim.joinPlayer(playerId, spawn);
+      handlers.open();
+      this.sendTo(playerId, {
+        type: 'welcome',
+        playerId,
+        role: 'agent',
+        displayName: connection.displayName,
+        roomId: 'sim',
+        world: this.world.alias,
+        stations: this.router.stations,
+        codec: 'json'
+      });
+    });
+
+    return {
+      isOpen: () => connection.open,
+      send: (data) => {
+        const text = typeof data === 'string' ? data : Buffer.from(data).toString('utf8');
+        this.clock.after(this.latencyMs, () => this.handleMessage(playerId, text));
+      },
+      close: () => {
+        connection.open = false;
+        this.connections.delete(playerId);
+        this.sim.removePlayer(playerId);
+        for (const event of this.challenges.clearDisconnectedPlayer(playerId)) {
+          void this.dispatch(event);
+        }
+      }
+    };
+  };
+
+  tick(): void {
+    const snapshot = this.sim.step(TICK_MS / 1000);
+    const players: SimPlayer[] = snapshot.players.map((player) => ({
+      ...player,
+      role: 'agent',
+      displayName: this.connections.get(player.id)?.displayName ?? player.id
+    }));
+    for (const player of players) {
+      this.lastPlayerPos.set(player.id, { x: player.x, z: player.z });
+    }
+    emitProximityEvents(
+      players,
+      this.proximityPairs,
+      PROXIMITY_THRESHOLD,
+      (playerId) => this.connections.get(playerId)?.displayName ?? playerId,
+      (playerId, payload) => this.sendTo(playerId, payload)
+    );
+    for (const event of this.challenges.tick()) {
+      void this.dispatch(event);
+    }
+
+    if (snapshot.tick % SNAPSHOT_EVERY_TICKS !== 0) {
+      return;
+    }
+    const grid = new InterestGrid(players, AOI_CELL_SIZE, AOI_RADIUS_CELLS);
+    for (const viewer of players) {
+      const connection = this.connections.get(viewer.id);
+      if (!connection?.open) {
+        continue;
+      }
+      this.sendTo(viewer.id, {
+        type: 'snapshot',
+        tick: snapshot.tick,
+        roomId: 'sim',
+        ...connection.stream.encode(grid.visibleFrom(viewer.x, viewer.z))
+      });
+    }
+  }
+
+  private sendTo(playerId: string, payload: object): void {
+    const connection = this.connections.get(playerId);
+    if (!connection) {
+      return;
+    }
+    const text = JSON.stringify(payload);
+    this.clock.after(this.latencyMs, () => {
+      if (connection.open) {
+        connection.handlers.message(text, false);
+      }
+    });
+  }
+
+  /** The subset of the ws message handler that bots exercise. */
+  private async handleMessage(playerId: string, text: string): Promise<void> {
+    const connection = this.connections.get(playerId);
+    const payload = connection?.open ? parseClientMessage(Buffer.from(text)) : null;
+    if (!payload) {
+      return;
+    }
+    if (payload.type === 'input') {
+      this.sim.setInput(playerId, { moveX: payload.moveX, moveZ: payload.moveZ });
+      return;
+    }
+    if (payload.type === 'snapshot_ack') {
+      connection?.stream.ack(payload.seq);
+      return;
+    }
+    if (payload.type === 'station_interact') {
+      await this.router.handleStationInteract(playerId, payload);
+      return;
+    }
+    if (payload.type === 'challenge_send') {
+      const reason =
+        playerId === payload.targetId ? 'cannot_challenge_self' :
+        !this.connections.has(payload.targetId) ? 'target_not_found' :
+        !arePlayersNear(this.proximityPairs, playerId, payload.targetId) ? 'target_not_nearby' :
+        null;
+      if (reason) {
+        this.countInvalid(reason);
+        this.sendTo(playerId, { type: 'challenge', event: 'invalid', reason });
+        return;
+      }
+      const event = this.challenges.createChallenge(playerId, payload.targetId, payload.gameType, payload.wager, payload.bestOf);
+      await this.dispatch(withActorRecipient(event, playerId));
+      return;
+    }
+    if (payload.type === 'challenge_response') {
+      await this.dispatch(withActorRecipient(this.challenges.respond(payload.challengeId, playerId, payload.accept), playerId));
+      return;
+    }
+    if (payload.type === 'challenge_counter') {
+      const existing = this.challenges.getChallenge(payload.challengeId);
+      if (!existing || existing.status !== 'pending' || existing.opponentId !== playerId) {
+        await this.dispatch(withActorRecipient({ type: 'challenge', event: 'invalid', reason: 'challenge_not_pending' }, playerId));
+        return;
+      }
+      await this.dispatch(withActorRecipient(this.challenges.respond(payload.challengeId, playerId, false), playerId));
+      const counter = this.challenges.createChallenge(
+        playerId,
+        existing.challengerId,
+        existing.gameType,
+        Math.max(1, Math.min(10_000, Number(payload.wager || 1)))
+      );
+      await this.dispatch(withActorRecipient(counter, playerId));
+      return;
+    }
+    if (payload.type === 'challenge_move') {
+      await this.dispatch(withActorRecipient(this.challenges.submitMove(payload.challengeId, playerId, payload.move), playerId));
+    }
+  }
+
+  /** Escrow bookkeeping of `dispatchChallengeEventWithEscrow` against the ledger, plus metrics. */
+  private async dispatch(event: ChallengeEvent): Promise<void> {
+    const challenge = event.challenge;
+    const now = this.clock.now();
+    if (event.event === 'invalid' || event.event === 'busy') {
+      this.countInvalid(event.reason ?? event.event);
+    }
+
+    if (challenge) {
+      const wager = Math.max(0, challenge.wager);
+      const isHouse = challenge.opponentId === HOUSE_ID;
+      const createdAt = this.metrics.createdAt.get(challenge.id);
+
+      if (event.event === 'created') {
+        this.metrics.created += 1;
+        this.metrics.createdAt.set(challenge.id, now);
+      }
+
+      if (event.event === 'accepted') {
+        this.metrics.accepted += 1;
+        if (createdAt !== undefined && !isHouse) {
+          this.metrics.responseLatencyMs.push(now - createdAt);
+        }
+        if (wager > 0) {
+          const challengerWallet = this.walletIdFor(challenge.challengerId);
+          const opponentWallet = this.walletIdFor(challenge.opponentId);
+          if (
+            !challengerWallet || !opponentWallet
+            || this.balanceOf(challengerWallet) < wager || this.balanceOf(opponentWallet) < wager
+          ) {
+            await this.dispatch(this.challenges.abortChallenge(challenge.id, 'declined', 'insufficient_balance'));
+            return;
+          }
+          this.balances.set(challengerWallet, this.balanceOf(challengerWallet) - wager);
+          this.balances.set(opponentWallet, this.balanceOf(opponentWallet) - wager);
+          this.escrowLocked.add(challenge.id);
+        }
+      }
+
+      if (event.event === 'resolved') {
+        this.metrics.resolved += 1;
+        if (createdAt !== undefined && !isHouse) {
+          this.metrics.resolveLatencyMs.push(now - createdAt);
+        }
+        this.settle(challenge.id, challenge.challengerId, challenge.opponentId, challenge.winnerId, wager);
+        this.recordResult(challenge.challengerId, challenge.winnerId);
+        if (isHouse) {
+          const houseDelta = !challenge.winnerId ? 0 : challenge.winnerId === HOUSE_ID ? wager : -wager;
+          this.metrics.house.rounds += 1;
+          this.metrics.house.handle += wager;
+          this.metrics.house.net += houseDelta;
+        } else {
+          this.recordResult(challenge.opponentId, challenge.winnerId);
+        }
+      }
+
+      if (event.event === 'declined' || event.event === 'expired') {
+        this.metrics[event.event] += 1;
+        this.settle(challenge.id, challenge.challengerId, challenge.opponentId, null, wager);
+      }
+
+      if (event.event === 'resolved' || event.event === 'declined' || event.event === 'expired') {
+        this.metrics.createdAt.delete(challenge.id);
+      }
+    }
+
+    for (const playerId of event.to ?? []) {
+      this.sendTo(playerId, { type: 'challenge', event: event.event, reason: event.reason, challenge });
+    }
+  }
+
+  /** Pays the pot to the winner, or refunds both stakes on a tie or abort. */
+  private settle(challengeId: string, challengerId: string, opponentId: string, winnerId: string | null, wager: number): void {
+    if (!this.escrowLocked.delete(challengeId)) {
+      return;
+    }
+    const credit = (playerId: string, amount: number) => {
+      const wallet = this.walletIdFor(playerId);
+      if (wallet) {
+        this.balances.set(wallet, this.balanceOf(wallet) + amount);
+      }
+    };
+    if (winnerId) {
+      credit(winnerId, wager * 2);
+    } else {
+      credit(challengerId, wager);
+      credit(opponentId, wager);
+    }
+  }
+
+  private recordResult(playerId: string, winnerId: string | null): void {
+    const record = this.metrics.records.get(playerId) ?? { won: 0, lost: 0, tied: 0 };
+    if (!winnerId) {
+      record.tied += 1;
+    } else if (winnerId === playerId) {
+      record.won += 1;
+    } else {
+      record.lost += 1;
+    }
+    this.metrics.records.set(playerId, record);
+  }
+
+  private countInvalid(reason: string): void {
+    this.metrics.invalid.set(reason, (this.metrics.invalid.get(reason) ?? 0) + 1);
+  }
+}
+
+function withActorRecipient(event: ChallengeEvent, actorId: string): ChallengeEvent {
+  return event.to && event.to.length > 0 ? event : { ...event, to: [actorId] };
+}
+
+type SimBot = {
+  bot: AgentBot;
+  stillMs: number;
+  maxStillMs: number;
+  lastSample: { x: number; z: number } | null;
+  inHouseRound: boolean;
+};
+
+function buildBehaviors(ids: string[], superAgent: SuperAgentConfig, sectionCount: number): Map<string, AgentBehaviorConfig> {
+  const directives = new Map(buildWorkerDirectives(superAgent, ids).map((directive) => [directive.botId, directive.patch]));
+  return new Map(ids.map((id, index) => {
+    // Strategies and staking vary independently of personality so their win rates are comparable.
+    const behavior: AgentBehaviorConfig = {
+      personality: PERSONALITIES[index % PERSONALITIES.length]!,
+      mode: 'active',
+      challengeEnabled: true,
+      challengeCooldownMs: 4000,
+      targetPreference: 'any',
+      patrolSection: sectionCount > 0 ? index % sectionCount : undefined,
+      patrolRadius: 30,
+      baseWager: 1 + (index % 3),
+      maxWager: 10,
+      moveStrategy: MOVE_STRATEGY_NAMES[Math.floor(index / PERSONALITIES.length) % MOVE_STRATEGY_NAMES.length],
+      staking: { model: STAKING_MODEL_NAMES[Math.floor(index / 12) % STAKING_MODEL_NAMES.length]! },
+      ...directives.get(id)
+    };
+    return [id, behavior];
+  }));
+}
+
+async function playHouseRound(
+  server: SimServer,
+  entry: SimBot,
+  station: SnapshotStation,
+  game: GameDefinition,
+  moveHistory: OpponentMoveHistory,
+  random: () => number
+): Promise<void> {
+  const status = entry.bot.getStatus();
+  const wallet = server.walletIdFor(status.id);
+  const wager = Math.min(status.behavior.baseWager, wallet ? server.balanceOf(wallet) : 0);
+  if (wager < 1) {
+    return;
+  }
+  entry.inHouseRound = true;
+  try {
+    await server.router.handleStationInteract(status.id, {
+      type: 'station_interact',
+      stationId: station.id,
+      action: game.dealer.startAction,
+      wager
+    });
+    const pick = createMoveStrategy(status.moveStrategy, random).pick({
+      game,
+      opponentHistory: moveHistory.get(HOUSE_ID, game.type),
+      entropy: Math.floor(random() * 1_000_000)
+    });
+    await server.router.handleStationInteract(status.id, {
+      type: 'station_interact',
+      stationId: station.id,
+      action: game.dealer.pickAction,
+      pick,
+      playerSeed: Math.floor(random() * 2 ** 32).toString(16)
+    });
+  } finally {
+    entry.inHouseRound = false;
+  }
+}
+
+function winRates(groups: Map<string, Record3>): Record<string, Record3 & { winRate: number | null }> {
+  return Object.fromEntries([...groups].sort(([a], [b]) => a.localeCompare(b)).map(([key, record]) => [
+    key,
+    { ...record, winRate: record.won + record.lost > 0 ? Number((record.won / (record.won + record.lost)).toFixed(3)) : null }
+  ]));
+}
+
+async function main(): Promise<void> {
+  const botCount = Math.max(2, Math.floor(numberFlag('bots') ?? 100));
+  const seconds = Math.max(1, numberFlag('seconds') ?? 120);
+  const seed = Math.floor(numberFlag('seed') ?? 1);
+  const latencyMs = Math.max(0, numberFlag('latency') ?? 25);
+  const houseRate = Math.max(0, numberFlag('house-rate') ?? 0.05);
+  const stuckAfterMs = Math.max(STUCK_SAMPLE_MS, (numberFlag('stuck-after') ?? 30) * 1000);
+  const bankroll = Math.max(0, numberFlag('bankroll') ?? 100);
+  const maxStuckRatio = numberFlag('max-stuck-ratio');
+  const modeFlag = flag('mode') ?? 'balanced';
+  const mode = SUPER_AGENT_MODES.find((candidate) => candidate === modeFlag);
+  const world = getWorldManifest(flag('world') ?? 'mega');
+  const objectives: SuperAgentObjectives = {
+    ...(numberFlag('max-drawdown') === undefined ? {} : { maxHouseDrawdownPerHour: numberFlag('max-drawdown') }),
+    ...(numberFlag('min-coverage') === undefined ? {} : { minSectionCoverage: numberFlag('min-coverage') })
+  };
+  if (!mode || !world) {
+    console.error('Usage: npm run sim:bots -- [--bots N] [--seconds N] [--seed N] [--mode balanced|hunter|defensive] [--world ALIAS] [--json]');
+    process.exit(1);
+  }
+
+  // Bots and move strategies draw from Math.random; seed it so runs are reproducible.
+  const random = mulberry32(seed);
+  Math.random = random;
+
+  const clock = new FakeClock(Date.UTC(2026, 0, 1, 12));
+  const startedAt = clock.now();
+  const server = new SimServer(world, clock, random, latencyMs);
+  const moveHistory = new OpponentMoveHistory();
+  const ids = Array.from({ length: botCount }, (_, index) => `sim_${index}`);
+  const superAgent: SuperAgentConfig = {
+    ...createDefaultSuperAgentConfig('sim_super'),
+    mode,
+    challengeEnabled: true,
+    workerTargetPreference: 'any',
+    ...(Object.keys(objectives).length > 0 ? { objectives } : {})
+  };
+  const behaviors = buildBehaviors(ids, superAgent, world.sections.length);
+  const bots = new Map<string, SimBot>();
+  for (const id of ids) {
+    const walletId = `w_${id}`;
+    server.balances.set(walletId, bankroll);
+    const bot = new AgentBot({
+      id,
+      wsBaseUrl: 'ws://sim.local/ws',
+      displayName: id,
+      walletId,
+      behavior: behaviors.get(id)!,
+      moveHistory,
+      bankroll: () => ({ balance: server.balanceOf(walletId), maxBetPercentOfBankroll: MAX_BET_PERCENT_OF_BANKROLL }),
+      clock,
+      connect: server.connect
+    });
+    bots.set(id, { bot, stillMs: 0, maxStillMs: 0, lastSample: null, inHouseRound: false });
+    bot.start();
+  }
+
+  const dealers = server.router.stations
+    .map((station) => ({ station, game: findGameByStationKind(station.kind) }))
+    .filter((entry): entry is { station: SnapshotStation; game: GameDefinition } => Boolean(entry.game));
+
+  clock.every(TICK_MS, () => server.tick());
+  clock.every(1000, () => {
+    const pending: Promise<void>[] = [];
+    for (const entry of bots.values()) {
+      const id = entry.bot.getId();
+      const pos = server.positionOf(id);
+      if (!pos || entry.inHouseRound || server.challenges.isPlayerBusy(id) || random() >= houseRate) {
+        continue;
+      }
+      const dealer = dealers.find(({ station }) =>
+        Math.hypot(pos.x - station.x, pos.z - station.z) <= (Number.isFinite(Number(station.radius))
+          ? Math.max(2, Number(station.radius))
+          : STATION_PROXIMITY_THRESHOLD));
+      if (dealer) {
+        pending.push(playHouseRound(server, entry, dealer.station, dealer.game, moveHistory, random));
+      }
+    }
+    return Promise.all(pending);
+  });
+  const planner = new SuperAgentPlanner();
+  const planDecisions: string[] = [];
+  if (superAgent.objectives) {
+    const replan = () => {
+      const statuses = [...bots.values()].map((entry) => entry.bot.getStatus());
+      const plan = planner.replan(superAgent, statuses, world.sections.length, clock.now());
+      const offset = Math.round((clock.now() - startedAt) / 1000);
+      planDecisions.push(...plan.decisions.map((decision) => `t+${offset}s ${decision}`));
+      if (plan.decisions.length > 0) {
+        for (const directive of planner.directives(superAgent, ids)) {
+          bots.get(directive.botId)?.bot.updateBehavior(directive.patch);
+        }
+      }
+    };
+    replan();
+    clock.every(PLAN_INTERVAL_MS, replan);
+  }
+  clock.every(STUCK_SAMPLE_MS, () => {
+    for (const entry of bots.values()) {
+      const id = entry.bot.getId();
+      const pos = server.positionOf(id);
+      if (!pos) {
+        continue;
+      }
+      const moved = entry.lastSample ? Math.hypot(pos.x - entry.lastSample.x, pos.z - entry.lastSample.z) : Infinity;
+      entry.lastSample = { ...pos };
+      if (moved < STUCK_MOVE_EPSILON && !server.challenges.isPlayerBusy(id)) {
+        entry.stillMs += STUCK_SAMPLE_MS;
+        entry.maxStillMs = Math.max(entry.maxStillMs, entry.stillMs);
+      } else {
+        entry.stillMs = 0;
+      }
+    }
+  });
+
+  const wallStart = performance.now();
+  const endAt = startedAt + seconds * 1000;
+  // Advance in one-second slices so the event loop can breathe between them.
+  for (let until = startedAt + 1000; until <= endAt; until += 1000) {
+    await clock.runUntil(until);
+  }
+  const connected = [...bots.values()].filter((entry) => entry.bot.isConnected()).length;
+  for (const entry of bots.values()) {
+    entry.bot.stop();
+  }
+  const wallMs = performance.now() - wallStart;
+
+  const byPersonality = new Map<string, Record3>();
+  const byMoveStrategy = new Map<string, Record3>();
+  const add = (groups: Map<string, Record3>, key: string, record: Record3) => {
+    const total = groups.get(key) ?? { won: 0, lost: 0, tied: 0 };
+    groups.set(key, { won: total.won + record.won, lost: total.lost + record.lost, tied: total.tied + record.tied });
+  };
+  for (const [id, entry] of bots) {
+    const record = server.metrics.records.get(id);
+    if (!record) {
+      continue;
+    }
+    const status = entry.bot.getStatus();
+    add(byPersonality, status.behavior.personality, record);
+    add(byMoveStrategy, status.moveStrategy, record);
+  }
+
+  const stuck = [...bots.values()].filter((entry) => entry.maxStillMs >= stuckAfterMs).map((entry) => entry.bot.getId());
+  const { metrics } = server;
+  const report = {
+    seed,
+    world: world.alias,
+    mode,
+    bots: botCount,
+    connected,
+    simulatedSeconds: seconds,
+    wallMs: Math.round(wallMs),
+    challenges: {
+      created: metrics.created,
+      accepted: metrics.accepted,
+      declined: metrics.declined,
+      expired: metrics.expired,
+      resolved: metrics.resolved,
+      perMinute: Number((metrics.resolved / (seconds / 60)).toFixed(2)),
+      invalid: Object.fromEntries([...metrics.invalid].sort(([, a], [, b]) => b - a))
+    },
+    latencyMs: {
+      responseP50: percentile(metrics.responseLatencyMs, 50),
+      responseP95: percentile(metrics.responseLatencyMs, 95),
+      resolveP50: percentile(metrics.resolveLatencyMs, 50),
+      resolveP95: percentile(metrics.resolveLatencyMs, 95)
+    },
+    winRates: {
+      byPersonality: winRates(byPersonality),
+      byMoveStrategy: winRates(byMoveStrategy)
+    },
+    house: {
+      ...metrics.house,
+      realizedEdge: metrics.house.handle > 0 ? Number((metrics.house.net / metrics.house.handle).toFixed(4)) : null
+    },
+    planner: superAgent.objectives
+      ? { objectives: superAgent.objectives, ...planner.status(), decisions: planDecisions }
+      : null,
+    stuck: {
+      count: stuck.length,
+      ratio: Number((stuck.length / botCount).toFixed(3)),
+      afterSeconds: stuckAfterMs / 1000,
+      ids: stuck.slice(0, 20)
+    }
+  };
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    const formatRates = (rates: ReturnType<typeof winRates>) => Object.entries(rates)
+      .map(([key, rate]) => `  ${key.padEnd(14)} ${String(rate.won).padStart(5)}W ${String(rate.lost).padStart(5)}L ${String(rate.tied).padStart(5)}T  win ${rate.winRate === null ? '-' : `${(rate.winRate * 100).toFixed(1)}%`}`)
+      .join('\n');
+    console.log(`
+Bot simulation: ${botCount} bots (${report.connected} connected), ${seconds}s on ${world.alias}, mode ${mode}, seed ${seed} (${(wallMs / 1000).toFixed(1)}s wall)
+
+Challenges: ${metrics.created} created, ${metrics.accepted} accepted, ${metrics.declined} declined, ${metrics.expired} expired, ${metrics.resolved} resolved (${report.challenges.perMinute}/min)
+Invalid:    ${Object.entries(report.challenges.invalid).map(([reason, count]) => `${reason}=${count}`).join(' ') || '-'}
+Latency:    response p50 ${report.latencyMs.responseP50 ?? '-'}ms p95 ${report.latencyMs.responseP95 ?? '-'}ms, resolve p50 ${report.latencyMs.resolveP50 ?? '-'}ms p95 ${report.latencyMs.resolveP95 ?? '-'}ms
+
+Win rate by personality:
+${formatRates(report.winRates.byPersonality) || '  -'}
+Win rate by move strategy:
+${formatRates(report.winRates.byMoveStrategy) || '  -'}
+
+House:      ${metrics.house.rounds} rounds, handle ${metrics.house.handle}, house net ${metrics.house.net}, realized edge ${report.house.realizedEdge === null ? '-' : `${(report.house.realizedEdge * 100).toFixed(2)}%`}
+Planner:    ${report.planner ? `${report.planner.posture}, cooldown x${report.planner.cooldownScale}${planDecisions.map((decision) => `\n  ${decision}`).join('')}` : '-'}
+Stuck:      ${stuck.length} bots still for ${report.stuck.afterSeconds}s+ (${(report.stuck.ratio * 100).toFixed(1)}%)${stuck.length > 0 ? `: ${report.stuck.ids.join(', ')}` : ''}
+`);
+  }
+
+  if (maxStuckRatio !== undefined && report.stuck.ratio > maxStuckRatio) {
+    console.error(`✗ stuck ratio ${report.stuck.ratio} exceeds --max-stuck-ratio ${maxStuckRatio}`);
+    process.exit(2);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('bot simulation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+#!/usr/bin/env npx tsx
+/**
+ * Escrow Chain Indexer CLI
+ *
+ * Indexes BettingEscrow events and the stake token's escrow transfers into
+ * Postgres from the saved cursor up to the chain head, then reports bets whose
+ * on-chain state disagrees with `challenges` / `escrow_events`.
+ *
+ * Usage:
+ *   npm run escrow:index                         # Index, then print the reconciliation report
+ *   npm run escrow:index -- --from 0 --reorg-depth 12 --batch 2000
+ *   npm run escrow:index -- --no-report          # Index only
+ *   npm run escrow:index -- --json               # Print the report as JSON
+ *
+ * Env: DATABASE_URL, ESCROW_CONTRACT_ADDRESS, ESCROW_TOKEN_ADDRESS (optional),
+ * CHAIN_RPC_URL (default: a local Hardhat node at http://127.0.0.1:8545).
+ */
+
+import { JsonRpcProvider } from 'ethers';
+import { Database } from '../apps/server/src/Database.js';
+import { escrowBetId, escrowPotId } from '../apps/server/src/EscrowAdapter.js';
+import { EscrowIndexer, jsonRpcIndexerChain } from '../apps/server/src/escrow/EscrowIndexer.js';
+import { reconcileEscrow } from '../apps/server/src/escrow/reconcile.js';
+
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function numberFlag(name: string): number | undefined {
+  const value = flag(name);
+  return value === undefined ? undefined : Number(value);
+}
+
+async function main(): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL;
+  const escrowAddress = process.env.ESCROW_CONTRACT_ADDRESS;
+  if (!databaseUrl || !escrowAddress) {
+    console.error('ERROR: DATABASE_URL and ESCROW_CONTRACT_ADDRESS are required');
+    process.exit(1);
+  }
+
+  const database = new Database();
+  await database.connect(databaseUrl);
+  if (!database.connected) {
+    console.error('✗ Failed to connect to database');
+    process.exit(1);
+  }
+
+  const provider = new JsonRpcProvider(process.env.CHAIN_RPC_URL || 'http://127.0.0.1:8545');
+  const chain = jsonRpcIndexerChain(provider);
+  const indexer = new EscrowIndexer(
+    chain,
+    {
+      loadCursor: (name) => database.loadIndexerCursor(name),
+      saveBatch: (name, batch) => database.saveIndexerBatch(name, batch),
+      rewind: (name, chainId, scope, cursor) => database.rewindIndexer(name, chainId, scope, cursor)
+    },
+    {
+      escrowAddress,
+      tokenAddress: process.env.ESCROW_TOKEN_ADDRESS || undefined,
+      startBlock: numberFlag('from') ?? 0,
+      reorgDepth: numberFlag('reorg-depth'),
+      batchSize: numberFlag('batch')
+    }
+  );
+
+  try {
+    const run = await indexer.runOnce();
+    if (run.rewoundTo !== null) {
+      console.error(`reorg detected, rewound to block ${run.rewoundTo}`);
+    }
+    console.error(`indexed blocks ${run.fromBlock}-${run.toBlock}: ${run.escrowEvents} escrow events, ${run.transfers} transfers`);
+
+    if (process.argv.includes('--no-report')) {
+      return;
+    }
+    const chainId = await chain.chainId();
+    const report = reconcileEscrow(
+      await database.listEscrowLedger(),
+      await database.listIndexedBetStates(chainId, escrowAddress),
+      escrowBetId,
+      escrowPotId
+    );
+
+    if (process.argv.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      for (const item of report) {
+        const subject = item.challengeId ?? item.betId;
+        console.log(`${item.kind}: ${subject} (${item.challengeStatus ?? '-'}) expected=${item.expected} onchain=${item.onchain}${item.txHash ? ` tx=${item.txHash}` : ''}`);
+      }
+    }
+    console.error(report.length === 0 ? '✓ escrow state matches the chain' : `✗ ${report.length} escrow discrepancies`);
+    process.exitCode = report.length === 0 ? 0 : 2;
+  } finally {
+    provider.destroy();
+    await database.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('escrow indexer failed:', error);
+  process.exit(1);
+});
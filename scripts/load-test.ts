@@ -5,14 +5,20 @@
  * Usage:
  *   npm run load-test                 # Run with defaults
  *   npm run load-test:heavy           # Run heavy load test
+ *   npm run load-test:sim             # Benchmark WorldSim + proximity in-process (no server)
  * 
  * Environment:
  *   LOAD_TEST_TARGET_URL              # Target server URL (default: http://localhost:4000)
  *   LOAD_TEST_DURATION                # Test duration in seconds (default: 30)
  *   LOAD_TEST_VIRTUAL_USERS           # Number of virtual users (default: 10)
  *   LOAD_TEST_RAMP_UP                 # Ramp-up time in seconds (default: 5)
+ *   LOAD_TEST_SIM_ENTITIES            # --sim: number of simulated players (default: 1000)
+ *   LOAD_TEST_SIM_TICKS               # --sim: ticks to run (default: 400, i.e. 20s at 20 Hz)
  */
 
+import { WorldSim } from '../apps/server/src/WorldSim.js';
+import { emitProximityEvents } from '../apps/server/src/game/proximity.js';
+
 const TARGET_URL = process.env.LOAD_TEST_TARGET_URL || 'http://localhost:4000';
 const DURATION = parseInt(process.env.LOAD_TEST_DURATION || '30', 10);
 const VIRTUAL_USERS = parseInt(process.env.LOAD_TEST_VIRTUAL_USERS || '10', 10);
@@ -258,9 +264,81 @@ class LoadTestRunner {
   }
 }
 
-// Run the load test
-const runner = new LoadTestRunner();
-runner.run().catch(error => {
-  console.error('Load test failed with error:', error);
-  process.exit(1);
-});
\ No newline at end of file
+const SIM_ENTITIES = parseInt(process.env.LOAD_TEST_SIM_ENTITIES || '1000', 10);
+const SIM_TICKS = parseInt(process.env.LOAD_TEST_SIM_TICKS || '400', 10);
+const SIM_TICK_HZ = 20;
+const SIM_PROXIMITY_THRESHOLD = 12;
+
+/**
+ * Runs the server's per-tick work (WorldSim.step + proximity enter/exit) for
+ * SIM_ENTITIES players wandering with changing inputs, and checks that the
+ * p95 tick stays inside the 20 Hz budget.
+ */
+function runSimBenchmark(): void {
+  const budgetMs = 1000 / SIM_TICK_HZ;
+  const sim = new WorldSim();
+  const { minX, maxX, minZ, maxZ } = sim.world.bounds;
+  const columns = Math.ceil(Math.sqrt(SIM_ENTITIES));
+  const ids: string[] = [];
+  for (let index = 0; index < SIM_ENTITIES; index++) {
+    const id = index % 4 === 0 ? `u_bench_${index}` : `agent_bench_${index}`;
+    const x = minX + ((index % columns) + 0.5) * ((maxX - minX) / columns);
+    const z = minZ + (Math.floor(index / columns) + 0.5) * ((maxZ - minZ) / columns);
+    sim.joinPlayer(id, { x, z });
+    ids.push(id);
+  }
+
+  const activeProximityPairs = new Set<string>();
+  let proximityEvents = 0;
+  const durations: number[] = [];
+  const dt = 1 / SIM_TICK_HZ;
+
+  for (let tick = 0; tick < SIM_TICKS; tick++) {
+    // Each player picks a new heading once a second, staggered across ticks.
+    for (let index = tick % SIM_TICK_HZ; index < ids.length; index += SIM_TICK_HZ) {
+      const angle = ((index * 7919 + tick * 104729) % 360) * (Math.PI / 180);
+      sim.setInput(ids[index]!, { moveX: Math.cos(angle), moveZ: Math.sin(angle) });
+    }
+
+    const start = performance.now();
+    const snapshot = sim.step(dt);
+    emitProximityEvents(
+      snapshot.players,
+      activeProximityPairs,
+      SIM_PROXIMITY_THRESHOLD,
+      (id) => id,
+      () => {
+        proximityEvents++;
+      }
+    );
+    durations.push(performance.now() - start);
+  }
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  const avg = durations.reduce((sum, value) => sum + value, 0) / durations.length;
+  const p95 = sorted[Math.floor(sorted.length * 0.95)] || 0;
+  const max = sorted[sorted.length - 1] || 0;
+
+  console.log(`
+WorldSim benchmark: ${SIM_ENTITIES} entities, ${SIM_TICKS} ticks at ${SIM_TICK_HZ} Hz (budget ${budgetMs.toFixed(1)}ms/tick)
+  avg: ${avg.toFixed(2)}ms  p95: ${p95.toFixed(2)}ms  max: ${max.toFixed(2)}ms
+  proximity events: ${proximityEvents}, active pairs at end: ${activeProximityPairs.size}
+  `);
+
+  if (p95 > budgetMs) {
+    console.error(`❌ Sim benchmark failed: p95 tick ${p95.toFixed(2)}ms exceeds ${budgetMs.toFixed(1)}ms budget`);
+    process.exit(1);
+  }
+  console.log('✅ Sim benchmark passed');
+}
+
+if (process.argv.includes('--sim')) {
+  runSimBenchmark();
+} else {
+  // Run the load test
+  const runner = new LoadTestRunner();
+  runner.run().catch(error => {
+    console.error('Load test failed with error:', error);
+    process.exit(1);
+  });
+}
\ No newline at end of file
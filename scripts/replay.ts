@@ -0,0 +1,73 @@
+#!/usr/bin/env npx tsx
+/**
+ * WorldSim Replay CLI
+ *
+ * Re-runs a recorded input journal (REPLAY_JOURNAL_DIR/<sessionId>.ndjson)
+ * through a fresh WorldSim and checks every recorded snapshot checksum.
+ *
+ * Usage:
+ *   npm run replay -- <journal.ndjson>                      # Verify the whole session
+ *   npm run replay -- <journal.ndjson> --from 1200 --to 1400 --every 20
+ *   npm run replay -- <journal.ndjson> --player u_abc       # Track one player's path
+ *   npm run replay -- <journal.ndjson> --json               # Print snapshots as JSON
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseJournal, replayJournal } from '../apps/server/src/replay/journal.js';
+
+function flag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function numberFlag(name: string): number | undefined {
+  const value = flag(name);
+  return value === undefined ? undefined : Number(value);
+}
+
+async function main(): Promise<void> {
+  const file = process.argv[2];
+  if (!file || file.startsWith('--')) {
+    console.error('Usage: npm run replay -- <journal.ndjson> [--from N] [--to N] [--every N] [--player ID] [--json]');
+    process.exit(1);
+  }
+
+  const entries = parseJournal(await readFile(file, 'utf8'));
+  const session = entries.find((entry) => entry.t === 'session');
+  const result = replayJournal(entries, {
+    fromTick: numberFlag('from'),
+    untilTick: numberFlag('to'),
+    every: numberFlag('every') ?? 20,
+    maxSnapshots: Number.POSITIVE_INFINITY
+  });
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const playerId = flag('player');
+    for (const snapshot of result.snapshots) {
+      const players = playerId ? snapshot.players.filter((player) => player.id === playerId) : snapshot.players;
+      const line = players
+        .map((player) => `${player.id}(${player.x.toFixed(2)},${player.z.toFixed(2)} v=${player.speed.toFixed(2)})`)
+        .join(' ');
+      console.log(`tick ${snapshot.tick}: ${line || '-'}`);
+    }
+  }
+
+  if (session?.t === 'session') {
+    console.error(`session ${session.sessionId} from ${session.serverId} started ${new Date(session.startedAt).toISOString()}`);
+  }
+  console.error(`replayed ${result.finalTick} ticks, ${result.checksumsVerified} checksums verified`);
+  for (const mismatch of result.mismatches) {
+    console.error(`✗ checksum mismatch at tick ${mismatch.tick}: expected ${mismatch.expected}, got ${mismatch.actual}`);
+  }
+  if (result.ok) {
+    console.error('✓ replay matches recorded session');
+  }
+  process.exit(result.ok ? 0 : 2);
+}
+
+main().catch((error) => {
+  console.error('replay failed:', error);
+  process.exit(1);
+});